@@ -0,0 +1,76 @@
+// kilocode_change - new file
+// npx vitest run src/cli/__tests__/policy.test.ts
+
+import type { ClineAsk, ClineMessage } from "@roo-code/types"
+
+import { getAskDecision } from "../policy.js"
+
+const ask = (type: ClineAsk, text?: string, partial?: boolean): ClineMessage => ({
+	ts: Date.now(),
+	type: "ask",
+	ask: type,
+	text,
+	partial,
+})
+
+describe("getAskDecision", () => {
+	it("should approve tools, commands and MCP servers listed in the policy", () => {
+		const policy = { tools: ["readFile"], commands: ["npm test"], mcpServers: ["github"] }
+
+		expect(getAskDecision(policy, ask("tool", JSON.stringify({ tool: "readFile", path: "a.ts" })))).toEqual({
+			action: "respond",
+			response: "yesButtonClicked",
+		})
+		expect(getAskDecision(policy, ask("command", "npm test -- --watch=false")).action).toBe("respond")
+		expect(
+			getAskDecision(
+				policy,
+				ask("use_mcp_server", JSON.stringify({ type: "use_mcp_tool", serverName: "github" })),
+			).action,
+		).toBe("respond")
+	})
+
+	it("should require every part of a chained command to be allowed", () => {
+		expect(getAskDecision({ commands: ["npm test"] }, ask("command", "npm test && rm -rf dist")).action).toBe(
+			"abort",
+		)
+		expect(
+			getAskDecision({ commands: ["npm test", "git status"] }, ask("command", "npm test; git status")).action,
+		).toBe("respond")
+	})
+
+	it("should match everything with a wildcard", () => {
+		expect(getAskDecision({ tools: ["*"] }, ask("tool", JSON.stringify({ tool: "newFileCreated" })))).toEqual({
+			action: "respond",
+			response: "yesButtonClicked",
+		})
+	})
+
+	it("should abort on uncovered asks unless told to deny them", () => {
+		const message = ask("command", "rm -rf /")
+
+		expect(getAskDecision({ commands: ["npm test"] }, message).action).toBe("abort")
+		expect(getAskDecision({ commands: ["npm test"], otherwise: "deny" }, message)).toEqual({
+			action: "respond",
+			response: "noButtonClicked",
+		})
+	})
+
+	it("should answer followup questions with the first suggestion", () => {
+		const message = ask("followup", JSON.stringify({ question: "Which file?", suggest: [{ answer: "a.ts" }] }))
+
+		expect(getAskDecision({ followup: "firstSuggestion" }, message)).toEqual({
+			action: "respond",
+			response: "messageResponse",
+			text: "a.ts",
+		})
+		expect(getAskDecision({ followup: "deny" }, message)).toMatchObject({ response: "messageResponse" })
+		expect(getAskDecision({}, message).action).toBe("abort")
+	})
+
+	it("should ignore partial and non-blocking asks", () => {
+		expect(getAskDecision({}, ask("tool", "{}", true))).toEqual({ action: "ignore" })
+		expect(getAskDecision({}, ask("completion_result", ""))).toEqual({ action: "ignore" })
+		expect(getAskDecision({}, ask("command_output", ""))).toEqual({ action: "ignore" })
+	})
+})
@@ -0,0 +1,78 @@
+// kilocode_change - new file
+import { type ClineMessage, type CliOutputFormat, followUpDataSchema } from "@roo-code/types"
+
+// Bookkeeping messages that only make sense in the chat view.
+const HIDDEN_SAYS: ClineMessage["say"][] = [
+	"api_req_started",
+	"api_req_finished",
+	"api_req_retried",
+	"api_req_deleted",
+	"checkpoint_saved",
+	"reasoning",
+	"user_edit_todos",
+]
+
+function parseJson(text: string | undefined): Record<string, unknown> | undefined {
+	try {
+		return JSON.parse(text ?? "")
+	} catch {
+		return undefined
+	}
+}
+
+function formatAsk(message: ClineMessage): string {
+	switch (message.ask) {
+		case "followup": {
+			const { data } = followUpDataSchema.safeParse(parseJson(message.text))
+			const suggestions = data?.suggest?.map(({ answer }) => `  - ${answer}`) ?? []
+			return [`? ${data?.question ?? message.text ?? ""}`, ...suggestions].join("\n")
+		}
+		case "command":
+			return `$ ${message.text ?? ""}`
+		case "tool": {
+			const tool = parseJson(message.text)
+			return `[tool] ${[tool?.tool, tool?.path].filter(Boolean).join(" ")}`
+		}
+		case "use_mcp_server": {
+			const request = parseJson(message.text)
+			return `[mcp] ${[request?.serverName, request?.toolName ?? request?.uri].filter(Boolean).join(" ")}`
+		}
+		default:
+			return `[${message.ask}]${message.text ? ` ${message.text}` : ""}`
+	}
+}
+
+function formatSay(message: ClineMessage): string | undefined {
+	if (HIDDEN_SAYS.includes(message.say)) {
+		return undefined
+	}
+
+	switch (message.say) {
+		case "text":
+		case "completion_result":
+		case "command_output":
+			return message.text || undefined
+		case "error":
+			return `Error: ${message.text ?? ""}`
+		case "user_feedback":
+			return `> ${message.text ?? ""}`
+		default:
+			return message.text ? `[${message.say}] ${message.text}` : undefined
+	}
+}
+
+/**
+ * Renders a chat message as a line of output, or returns undefined for messages that aren't worth printing.
+ * Partial messages are skipped since their final version follows.
+ */
+export function formatMessage(taskId: string, message: ClineMessage, format: CliOutputFormat): string | undefined {
+	if (message.partial) {
+		return undefined
+	}
+
+	if (format === "json") {
+		return JSON.stringify({ taskId, ...message })
+	}
+
+	return message.type === "ask" ? formatAsk(message) : formatSay(message)
+}
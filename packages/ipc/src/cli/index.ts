@@ -0,0 +1,75 @@
+#!/usr/bin/env -S npx tsx
+// kilocode_change - new file
+import { parseArgs } from "node:util"
+
+import { type CliAutoApprovePolicy, cliOutputFormatSchema } from "@roo-code/types"
+
+import { loadAutoApprovePolicy } from "./policy.js"
+import { ExitCode, runTask } from "./run.js"
+
+const USAGE = `Usage: kilo [options] <prompt>
+
+Starts a task in a running extension and streams its messages to stdout.
+
+Options:
+  -s, --socket <path>    IPC socket of the extension (defaults to $ROO_CODE_IPC_SOCKET_PATH)
+  -m, --mode <slug>      Mode to start the task in
+  -p, --profile <name>   API configuration profile to use
+  -a, --policy <file>    JSON file deciding which asks are answered automatically
+  -f, --format <format>  Output format, "text" or "json" (one message per line)
+  -t, --timeout <ms>     Cancel the task after this many milliseconds
+  -h, --help             Show this help
+
+Exit codes: 0 when the task completes, 1 when it is aborted, 2 on errors.`
+
+const main = async (): Promise<ExitCode> => {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			socket: { type: "string", short: "s" },
+			mode: { type: "string", short: "m" },
+			profile: { type: "string", short: "p" },
+			policy: { type: "string", short: "a" },
+			format: { type: "string", short: "f", default: "text" },
+			timeout: { type: "string", short: "t" },
+			help: { type: "boolean", short: "h" },
+		},
+	})
+
+	if (values.help) {
+		console.log(USAGE)
+		return ExitCode.Completed
+	}
+
+	const socketPath = values.socket ?? process.env.ROO_CODE_IPC_SOCKET_PATH
+	const text = positionals.join(" ").trim()
+	const format = cliOutputFormatSchema.safeParse(values.format)
+	const timeout = values.timeout === undefined ? undefined : Number(values.timeout)
+
+	if (!socketPath || !text || !format.success || (timeout !== undefined && !(timeout > 0))) {
+		console.error(USAGE)
+		return ExitCode.Error
+	}
+
+	const policy: CliAutoApprovePolicy = values.policy ? await loadAutoApprovePolicy(values.policy) : {}
+
+	return runTask({
+		socketPath,
+		text,
+		mode: values.mode,
+		profile: values.profile,
+		policy,
+		format: format.data,
+		connectTimeout: 10_000,
+		timeout,
+		write: (line) => console.log(line),
+		log: (...args) => console.error(...args),
+	})
+}
+
+main()
+	.then((code) => process.exit(code))
+	.catch((error) => {
+		console.error(error instanceof Error ? error.message : error)
+		process.exit(ExitCode.Error)
+	})
@@ -0,0 +1,100 @@
+// kilocode_change - new file
+import * as fs from "node:fs/promises"
+
+import {
+	type ClineMessage,
+	type CliAutoApprovePolicy,
+	type TaskAskResponse,
+	cliAutoApprovePolicySchema,
+	followUpDataSchema,
+} from "@roo-code/types"
+
+export type AskDecision =
+	| { action: "respond"; response: TaskAskResponse; text?: string }
+	| { action: "abort"; reason: string }
+	| { action: "ignore" }
+
+const UNANSWERED_FOLLOWUP = "Nobody is available to answer this question, continue with your best judgement."
+
+const COMMAND_SEPARATOR = /&&|\|\||;|\||\$\(|`|\n/
+
+// These asks don't block the task, or are followed by a `TaskCompleted` event.
+const NON_BLOCKING_ASKS: ClineMessage["ask"][] = ["command_output", "completion_result", "resume_completed_task"]
+
+export async function loadAutoApprovePolicy(filePath: string): Promise<CliAutoApprovePolicy> {
+	const content = await fs.readFile(filePath, "utf8")
+	const result = cliAutoApprovePolicySchema.safeParse(JSON.parse(content))
+
+	if (!result.success) {
+		throw new Error(`Invalid auto-approve policy ${filePath}: ${result.error.message}`)
+	}
+
+	return result.data
+}
+
+function parseJson(text: string | undefined): Record<string, unknown> {
+	try {
+		const value = JSON.parse(text ?? "")
+		return value && typeof value === "object" ? value : {}
+	} catch {
+		return {}
+	}
+}
+
+function matches(patterns: string[] | undefined, value: unknown, { prefix = false } = {}): boolean {
+	if (typeof value !== "string") {
+		return false
+	}
+
+	return (patterns ?? []).some(
+		(pattern) => pattern === "*" || value === pattern || (prefix && value.startsWith(pattern)),
+	)
+}
+
+function isApproved(policy: CliAutoApprovePolicy, message: ClineMessage): boolean {
+	switch (message.ask) {
+		case "tool":
+			return matches(policy.tools, parseJson(message.text).tool)
+		case "command": {
+			// Like the allowed commands setting, every part of a chained command has to be allowed.
+			const parts = (message.text ?? "").split(COMMAND_SEPARATOR).map((part) => part.trim())
+			return parts.every((part) => matches(policy.commands, part, { prefix: true }))
+		}
+		case "use_mcp_server":
+			return matches(policy.mcpServers, parseJson(message.text).serverName)
+		case "browser_action_launch":
+			return policy.browser === true
+		case "api_req_failed":
+			return policy.retryFailedRequests === true
+		default:
+			return false
+	}
+}
+
+/**
+ * Decides how the CLI answers an ask, since there is nobody to click the buttons.
+ */
+export function getAskDecision(policy: CliAutoApprovePolicy, message: ClineMessage): AskDecision {
+	if (message.type !== "ask" || message.partial || NON_BLOCKING_ASKS.includes(message.ask)) {
+		return { action: "ignore" }
+	}
+
+	if (message.ask === "followup" && policy.followup) {
+		const { data } = followUpDataSchema.safeParse(parseJson(message.text))
+		const answer = data?.suggest?.[0]?.answer
+
+		return policy.followup === "firstSuggestion" && answer
+			? { action: "respond", response: "messageResponse", text: answer }
+			: { action: "respond", response: "messageResponse", text: UNANSWERED_FOLLOWUP }
+	}
+
+	if (isApproved(policy, message)) {
+		return { action: "respond", response: "yesButtonClicked" }
+	}
+
+	if (policy.otherwise === "deny") {
+		return { action: "respond", response: "noButtonClicked" }
+	}
+
+	return { action: "abort", reason: `The auto-approve policy doesn't cover the '${message.ask}' ask` }
+}
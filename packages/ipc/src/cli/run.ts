@@ -0,0 +1,196 @@
+// kilocode_change - new file
+import * as crypto from "node:crypto"
+
+import {
+	type CliAutoApprovePolicy,
+	type CliOutputFormat,
+	type RooCodeSettings,
+	type TaskEvent,
+	IpcMessageType,
+	RooCodeEventName,
+	TaskCommandName,
+} from "@roo-code/types"
+
+import { IpcClient } from "../ipc-client.js"
+
+import { formatMessage } from "./format.js"
+import { getAskDecision } from "./policy.js"
+
+export enum ExitCode {
+	Completed = 0,
+	Aborted = 1,
+	Error = 2,
+}
+
+export type RunTaskOptions = {
+	socketPath: string
+	text: string
+	mode?: string
+	profile?: string
+	policy: CliAutoApprovePolicy
+	format: CliOutputFormat
+	connectTimeout: number
+	timeout?: number
+	write: (line: string) => void
+	log: (...args: unknown[]) => void
+}
+
+/**
+ * Starts a task in a running extension and follows it, including its subtasks, until it finishes.
+ * @returns The exit code for the task's outcome
+ */
+export async function runTask({
+	socketPath,
+	text,
+	mode,
+	profile,
+	policy,
+	format,
+	connectTimeout,
+	timeout,
+	write,
+	log,
+}: RunTaskOptions): Promise<ExitCode> {
+	const client = new IpcClient(socketPath, () => {})
+
+	try {
+		await new Promise<void>((resolve, reject) => {
+			const timer = setTimeout(
+				() => reject(new Error(`Unable to connect to ${socketPath} within ${connectTimeout}ms`)),
+				connectTimeout,
+			)
+
+			client.once(IpcMessageType.Ack, () => {
+				clearTimeout(timer)
+				resolve()
+			})
+		})
+	} catch (error) {
+		client.disconnect()
+		throw error
+	}
+
+	return new Promise<ExitCode>((resolve) => {
+		const requestId = crypto.randomUUID()
+		const taskIds = new Set<string>()
+		const printedMessages = new Set<number>()
+		const answeredAsks = new Set<number>()
+		const pendingEvents: TaskEvent[] = []
+		let rootTaskId: string | undefined
+		let timer: NodeJS.Timeout | undefined
+
+		const finish = (code: ExitCode, reason: string) => {
+			clearTimeout(timer)
+			log(reason)
+			client.removeAllListeners()
+			client.disconnect()
+			resolve(code)
+		}
+
+		const abort = (reason: string) => {
+			log(reason)
+
+			if (rootTaskId) {
+				client.sendCommand({ commandName: TaskCommandName.CancelTask, data: rootTaskId })
+			} else {
+				finish(ExitCode.Aborted, "Task aborted before it started")
+			}
+		}
+
+		const onTaskEvent = ({ eventName, payload }: TaskEvent) => {
+			switch (eventName) {
+				case RooCodeEventName.TaskSpawned:
+					if (taskIds.has(payload[0])) {
+						taskIds.add(payload[1])
+					}
+					break
+				case RooCodeEventName.Message: {
+					const { taskId, message } = payload[0]
+
+					if (!taskIds.has(taskId) || message.partial) {
+						break
+					}
+
+					if (!printedMessages.has(message.ts)) {
+						const line = formatMessage(taskId, message, format)
+
+						if (line !== undefined) {
+							printedMessages.add(message.ts)
+							write(line)
+						}
+					}
+
+					if (message.type !== "ask" || answeredAsks.has(message.ts)) {
+						break
+					}
+
+					const decision = getAskDecision(policy, message)
+
+					if (decision.action === "respond") {
+						answeredAsks.add(message.ts)
+						client.sendCommand({
+							commandName: TaskCommandName.RespondToAsk,
+							data: { taskId, response: decision.response, text: decision.text },
+						})
+					} else if (decision.action === "abort") {
+						answeredAsks.add(message.ts)
+						abort(decision.reason)
+					}
+					break
+				}
+				case RooCodeEventName.TaskCompleted:
+					if (payload[0] === rootTaskId) {
+						finish(ExitCode.Completed, `Task ${rootTaskId} completed`)
+					}
+					break
+				case RooCodeEventName.TaskAborted:
+					if (payload[0] === rootTaskId) {
+						finish(ExitCode.Aborted, `Task ${rootTaskId} aborted`)
+					}
+					break
+			}
+		}
+
+		// Events can arrive before the task id does, so hold on to them until then.
+		client.on(IpcMessageType.TaskEvent, (event) => {
+			if (rootTaskId) {
+				onTaskEvent(event)
+			} else {
+				pendingEvents.push(event)
+			}
+		})
+
+		client.on(IpcMessageType.TaskCommandResult, (result) => {
+			if (result.requestId !== requestId) {
+				if (result.error) {
+					log(`${result.commandName} failed: ${result.error}`)
+				}
+
+				return
+			}
+
+			if (result.error || typeof result.data !== "string") {
+				finish(ExitCode.Error, `Unable to start the task: ${result.error ?? "no task id was returned"}`)
+				return
+			}
+
+			rootTaskId = result.data
+			taskIds.add(rootTaskId)
+			log(`Task ${rootTaskId} started`)
+			pendingEvents.splice(0).forEach(onTaskEvent)
+		})
+
+		client.on(IpcMessageType.Disconnect, () => finish(ExitCode.Error, "Disconnected from the extension"))
+
+		if (timeout) {
+			timer = setTimeout(() => abort(`Time limit of ${timeout}ms reached`), timeout)
+		}
+
+		const configuration: RooCodeSettings = {
+			...(mode && { mode }),
+			...(profile && { currentApiConfigName: profile }),
+		}
+
+		client.sendCommand({ commandName: TaskCommandName.StartNewTask, data: { configuration, text } }, requestId)
+	})
+}
@@ -76,6 +76,11 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 					this._clientId = payload.data.clientId
 					this.emit(IpcMessageType.Ack, payload.data)
 					break
+				// kilocode_change start
+				case IpcMessageType.TaskCommandResult:
+					this.emit(IpcMessageType.TaskCommandResult, payload.data)
+					break
+				// kilocode_change end
 				case IpcMessageType.TaskEvent:
 					this.emit(IpcMessageType.TaskEvent, payload.data)
 					break
@@ -87,11 +92,17 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 		this._log(...args)
 	}
 
-	public sendCommand(command: TaskCommand) {
+	// kilocode_change start
+	/**
+	 * Sends a command to the server, which answers with a `TaskCommandResult` carrying the same `requestId`.
+	 */
+	public sendCommand(command: TaskCommand, requestId?: string) {
+		// kilocode_change end
 		const message: IpcMessage = {
 			type: IpcMessageType.TaskCommand,
 			origin: IpcOrigin.Client,
 			clientId: this._clientId!,
+			requestId, // kilocode_change
 			data: command,
 		}
 
@@ -5,7 +5,8 @@ import type { RooCodeSettings } from "./global-settings.js"
 import type { ProviderSettingsEntry, ProviderSettings } from "./provider-settings.js"
 import type { ClineMessage, TokenUsage } from "./message.js"
 import type { ToolUsage, ToolName } from "./tool.js"
-import type { IpcMessage, IpcServerEvents, IsSubtask } from "./ipc.js"
+import type { IpcMessage, IpcServerEvents, IsSubtask, TaskAskResponse } from "./ipc.js" // kilocode_change: TaskAskResponse
+import type { HistoryItem } from "./history.js" // kilocode_change
 
 // TODO: Make sure this matches `RooCodeEvents` from `@roo-code/types`.
 export interface RooCodeAPIEvents {
@@ -72,6 +73,36 @@ export interface RooCodeAPI extends EventEmitter<RooCodeAPIEvents> {
 	 * @param images Optional array of image data URIs (e.g., "data:image/webp;base64,...").
 	 */
 	sendMessage(message?: string, images?: string[]): Promise<void>
+	// kilocode_change start
+	/**
+	 * Responds to the ask the given task is waiting on.
+	 * @param taskId The ID of the task.
+	 * @param response Whether the ask is approved, rejected or answered with a message.
+	 * @param text Optional feedback or answer text.
+	 * @param images Optional array of image data URIs (e.g., "data:image/webp;base64,...").
+	 * @throws Error if the task is not running or is not waiting on an ask.
+	 */
+	respondToAsk(taskId: string, response: TaskAskResponse, text?: string, images?: string[]): Promise<void>
+	/**
+	 * Sends a user message to the given task, answering the ask it is waiting on.
+	 * @param taskId The ID of the task.
+	 * @param text Optional message to send.
+	 * @param images Optional array of image data URIs (e.g., "data:image/webp;base64,...").
+	 * @throws Error if the task is not running or is not waiting for input.
+	 */
+	sendMessageToTask(taskId: string, text?: string, images?: string[]): Promise<void>
+	/**
+	 * Returns the ask the given task is waiting on.
+	 * @param taskId The ID of the task.
+	 * @returns The ask message, or undefined if the task is not waiting on one.
+	 * @throws Error if the task is not running.
+	 */
+	getPendingAsk(taskId: string): ClineMessage | undefined
+	/**
+	 * Returns the task history, newest first.
+	 */
+	getTaskHistory(): HistoryItem[]
+	// kilocode_change end
 	/**
 	 * Simulates pressing the primary button in the chat interface.
 	 */
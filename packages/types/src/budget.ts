@@ -0,0 +1,39 @@
+// kilocode_change - new file
+import { z } from "zod"
+
+/**
+ * SpendBudgetScope
+ */
+export const spendBudgetScopes = ["task", "profile", "daily"] as const
+
+export const spendBudgetScopeSchema = z.enum(spendBudgetScopes)
+
+export type SpendBudgetScope = z.infer<typeof spendBudgetScopeSchema>
+
+/**
+ * SpendLedgerEntry
+ *
+ * The cost of a single API request, kept for a rolling day to enforce the daily and per profile budgets.
+ */
+export const spendLedgerEntrySchema = z.object({
+	ts: z.number(),
+	cost: z.number(),
+	profileId: z.string().optional(),
+})
+
+export type SpendLedgerEntry = z.infer<typeof spendLedgerEntrySchema>
+
+/**
+ * SpendBudgetStatus
+ */
+export const spendBudgetStatusSchema = z.object({
+	scope: spendBudgetScopeSchema,
+	spent: z.number(),
+	limit: z.number(),
+	/** Whether the spend has crossed the warning threshold of the limit. */
+	warning: z.boolean(),
+	/** Whether the spend has reached the limit, no more requests are made until it is raised. */
+	exceeded: z.boolean(),
+})
+
+export type SpendBudgetStatus = z.infer<typeof spendBudgetStatusSchema>
@@ -0,0 +1,29 @@
+// kilocode_change - new file
+import { z } from "zod"
+
+/**
+ * CliAutoApprovePolicy
+ *
+ * Decides which asks the `kilo` CLI answers on its own. Lists match tool names, command prefixes and
+ * MCP server names, and `"*"` matches everything. Asks the policy doesn't cover are handled by `otherwise`.
+ */
+export const cliAutoApprovePolicySchema = z.object({
+	tools: z.array(z.string()).optional(),
+	commands: z.array(z.string()).optional(),
+	mcpServers: z.array(z.string()).optional(),
+	browser: z.boolean().optional(),
+	retryFailedRequests: z.boolean().optional(),
+	followup: z.enum(["firstSuggestion", "deny"]).optional(),
+	otherwise: z.enum(["deny", "abort"]).optional(),
+})
+
+export type CliAutoApprovePolicy = z.infer<typeof cliAutoApprovePolicySchema>
+
+/**
+ * CliOutputFormat
+ */
+export const cliOutputFormats = ["text", "json"] as const
+
+export const cliOutputFormatSchema = z.enum(cliOutputFormats)
+
+export type CliOutputFormat = z.infer<typeof cliOutputFormatSchema>
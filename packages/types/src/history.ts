@@ -21,3 +21,27 @@ export const historyItemSchema = z.object({
 })
 
 export type HistoryItem = z.infer<typeof historyItemSchema>
+
+// kilocode_change start
+/**
+ * TaskSearchResult
+ */
+
+export const taskSearchSnippetSchema = z.object({
+	// The message to jump to, missing when the matching message has no timestamp
+	ts: z.number().optional(),
+	text: z.string(),
+	// Start and end offsets of the matches within the text
+	highlights: z.array(z.tuple([z.number(), z.number()])),
+})
+
+export type TaskSearchSnippet = z.infer<typeof taskSearchSnippetSchema>
+
+export const taskSearchResultSchema = z.object({
+	taskId: z.string(),
+	score: z.number(),
+	snippets: z.array(taskSearchSnippetSchema),
+})
+
+export type TaskSearchResult = z.infer<typeof taskSearchResultSchema>
+// kilocode_change end
@@ -1,6 +1,8 @@
 export * from "./providers/index.js"
 
 export * from "./api.js"
+export * from "./budget.js" // kilocode_change
+export * from "./cli.js" // kilocode_change
 export * from "./codebase-index.js"
 export * from "./cloud.js"
 export * from "./experiment.js"
@@ -15,6 +17,7 @@ export * from "./mode.js"
 export * from "./model.js"
 export * from "./provider-settings.js"
 export * from "./sharing.js"
+export * from "./subtask.js" // kilocode_change
 export * from "./telemetry.js"
 export * from "./terminal.js"
 export * from "./tool.js"
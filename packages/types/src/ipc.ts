@@ -3,6 +3,7 @@ import { z } from "zod"
 import { clineMessageSchema, tokenUsageSchema } from "./message.js"
 import { toolNamesSchema, toolUsageSchema } from "./tool.js"
 import { rooCodeSettingsSchema } from "./global-settings.js"
+import { historyItemSchema } from "./history.js" // kilocode_change
 
 /**
  * isSubtaskSchema
@@ -76,8 +77,25 @@ export enum TaskCommandName {
 	StartNewTask = "StartNewTask",
 	CancelTask = "CancelTask",
 	CloseTask = "CloseTask",
+	// kilocode_change start
+	RespondToAsk = "RespondToAsk",
+	SendMessage = "SendMessage",
+	ResumeTask = "ResumeTask",
+	GetTaskHistory = "GetTaskHistory",
+	GetPendingAsk = "GetPendingAsk",
+	// kilocode_change end
 }
 
+// kilocode_change start
+/**
+ * TaskAskResponse
+ */
+
+export const taskAskResponseSchema = z.enum(["yesButtonClicked", "noButtonClicked", "messageResponse"])
+
+export type TaskAskResponse = z.infer<typeof taskAskResponseSchema>
+// kilocode_change end
+
 export const taskCommandSchema = z.discriminatedUnion("commandName", [
 	z.object({
 		commandName: z.literal(TaskCommandName.StartNewTask),
@@ -96,10 +114,59 @@ export const taskCommandSchema = z.discriminatedUnion("commandName", [
 		commandName: z.literal(TaskCommandName.CloseTask),
 		data: z.string(),
 	}),
+	// kilocode_change start
+	z.object({
+		commandName: z.literal(TaskCommandName.RespondToAsk),
+		data: z.object({
+			taskId: z.string(),
+			response: taskAskResponseSchema,
+			text: z.string().optional(),
+			images: z.array(z.string()).optional(),
+		}),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.SendMessage),
+		data: z.object({
+			taskId: z.string(),
+			text: z.string().optional(),
+			images: z.array(z.string()).optional(),
+		}),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.ResumeTask),
+		data: z.string(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.GetTaskHistory),
+		data: z.undefined(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.GetPendingAsk),
+		data: z.string(),
+	}),
+	// kilocode_change end
 ])
 
 export type TaskCommand = z.infer<typeof taskCommandSchema>
 
+// kilocode_change start
+/**
+ * TaskCommandResult
+ *
+ * Sent back to the client that issued a command. `data` holds the task id for `StartNewTask`, the
+ * task history for `GetTaskHistory` and the pending ask message (or null) for `GetPendingAsk`.
+ */
+
+export const taskCommandResultSchema = z.object({
+	commandName: z.nativeEnum(TaskCommandName),
+	requestId: z.string().optional(),
+	error: z.string().optional(),
+	data: z.union([z.string(), z.array(historyItemSchema), clineMessageSchema, z.null()]).optional(),
+})
+
+export type TaskCommandResult = z.infer<typeof taskCommandResultSchema>
+// kilocode_change end
+
 /**
  * TaskEvent
  */
@@ -188,6 +255,7 @@ export enum IpcMessageType {
 	Disconnect = "Disconnect",
 	Ack = "Ack",
 	TaskCommand = "TaskCommand",
+	TaskCommandResult = "TaskCommandResult", // kilocode_change
 	TaskEvent = "TaskEvent",
 }
 
@@ -206,8 +274,16 @@ export const ipcMessageSchema = z.discriminatedUnion("type", [
 		type: z.literal(IpcMessageType.TaskCommand),
 		origin: z.literal(IpcOrigin.Client),
 		clientId: z.string(),
+		requestId: z.string().optional(), // kilocode_change
 		data: taskCommandSchema,
 	}),
+	// kilocode_change start
+	z.object({
+		type: z.literal(IpcMessageType.TaskCommandResult),
+		origin: z.literal(IpcOrigin.Server),
+		data: taskCommandResultSchema,
+	}),
+	// kilocode_change end
 	z.object({
 		type: z.literal(IpcMessageType.TaskEvent),
 		origin: z.literal(IpcOrigin.Server),
@@ -227,6 +303,7 @@ export type IpcClientEvents = {
 	[IpcMessageType.Disconnect]: []
 	[IpcMessageType.Ack]: [data: Ack]
 	[IpcMessageType.TaskCommand]: [data: TaskCommand]
+	[IpcMessageType.TaskCommandResult]: [data: TaskCommandResult] // kilocode_change
 	[IpcMessageType.TaskEvent]: [data: TaskEvent]
 }
 
@@ -237,6 +314,6 @@ export type IpcClientEvents = {
 export type IpcServerEvents = {
 	[IpcMessageType.Connect]: [clientId: string]
 	[IpcMessageType.Disconnect]: [clientId: string]
-	[IpcMessageType.TaskCommand]: [clientId: string, data: TaskCommand]
+	[IpcMessageType.TaskCommand]: [clientId: string, data: TaskCommand, requestId?: string] // kilocode_change: requestId
 	[IpcMessageType.TaskEvent]: [relayClientId: string | undefined, data: TaskEvent]
 }
@@ -24,6 +24,7 @@ import { z } from "zod"
  * - `browser_action_launch`: Permission to open or interact with a browser
  * - `use_mcp_server`: Permission to use Model Context Protocol (MCP) server functionality
  * - `auto_approval_max_req_reached`: Auto-approval limit has been reached, manual approval required
+ * - `spend_budget_reached`: A spend budget warning threshold or limit has been reached, needs user confirmation to continue
  */
 export const clineAsks = [
 	"followup",
@@ -41,6 +42,7 @@ export const clineAsks = [
 	"payment_required_prompt", // kilocode_change: Added for the low credits dialog
 	"report_bug", // kilocode_change
 	"condense", // kilocode_change
+	"spend_budget_reached", // kilocode_change
 ] as const
 
 export const clineAskSchema = z.enum(clineAsks)
@@ -110,6 +112,7 @@ export const clineSays = [
 	"condense_context_error",
 	"codebase_search_result",
 	"user_edit_todos",
+	"api_provider_failover", // kilocode_change
 ] as const
 
 export const clineSaySchema = z.enum(clineSays)
@@ -140,6 +143,22 @@ export const contextCondenseSchema = z.object({
 
 export type ContextCondense = z.infer<typeof contextCondenseSchema>
 
+// kilocode_change start
+/**
+ * McpSamplingUsage
+ */
+
+export const mcpSamplingUsageSchema = z.object({
+	tokensIn: z.number(),
+	tokensOut: z.number(),
+	cacheWrites: z.number().optional(),
+	cacheReads: z.number().optional(),
+	cost: z.number(),
+})
+
+export type McpSamplingUsage = z.infer<typeof mcpSamplingUsageSchema>
+// kilocode_change end
+
 /**
  * ClineMessage
  */
@@ -158,6 +177,7 @@ export const clineMessageSchema = z.object({
 	progressStatus: toolProgressStatusSchema.optional(),
 	contextCondense: contextCondenseSchema.optional(),
 	isProtected: z.boolean().optional(),
+	mcpSamplingUsage: mcpSamplingUsageSchema.optional(), // kilocode_change
 })
 
 export type ClineMessage = z.infer<typeof clineMessageSchema>
@@ -61,17 +61,48 @@ const groupEntryArraySchema = z.array(groupEntrySchema).refine(
 	{ message: "Duplicate groups are not allowed" },
 )
 
-export const modeConfigSchema = z.object({
-	slug: z.string().regex(/^[a-zA-Z0-9-]+$/, "Slug must contain only letters numbers and dashes"),
-	name: z.string().min(1, "Name is required"),
-	roleDefinition: z.string().min(1, "Role definition is required"),
-	whenToUse: z.string().optional(),
-	description: z.string().optional(),
-	customInstructions: z.string().optional(),
-	groups: groupEntryArraySchema,
-	source: z.enum(["global", "project"]).optional(),
-	iconName: z.string().optional(), // kilocode_change
-})
+// kilocode_change start
+/**
+ * A mode with `extends` only lists what differs from the mode it extends: its role definition and tool groups
+ * are inherited when left out, `groups` adds or replaces groups, `removeGroups` drops inherited ones and
+ * `customInstructions` is appended to the inherited instructions.
+ */
+export const modeConfigSchema = z
+	.object({
+		slug: z.string().regex(/^[a-zA-Z0-9-]+$/, "Slug must contain only letters numbers and dashes"),
+		name: z.string().min(1, "Name is required"),
+		roleDefinition: z.string().optional(),
+		whenToUse: z.string().optional(),
+		description: z.string().optional(),
+		customInstructions: z.string().optional(),
+		groups: groupEntryArraySchema.optional(),
+		source: z.enum(["global", "project"]).optional(),
+		iconName: z.string().optional(),
+		extends: z
+			.string()
+			.regex(/^[a-zA-Z0-9-]+$/, "Extends must be the slug of a mode")
+			.optional(),
+		removeGroups: z.array(toolGroupsSchema).optional(),
+	})
+	.superRefine((mode, ctx) => {
+		if (mode.extends) {
+			return
+		}
+
+		if (!mode.roleDefinition) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["roleDefinition"],
+				message: "Role definition is required",
+			})
+		}
+
+		if (!mode.groups) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["groups"], message: "Groups are required" })
+		}
+	})
+	.transform((mode) => ({ ...mode, roleDefinition: mode.roleDefinition ?? "", groups: mode.groups ?? [] }))
+// kilocode_change end
 
 export type ModeConfig = z.infer<typeof modeConfigSchema>
 
@@ -27,6 +27,7 @@ export const providerNames = [
 	"requesty",
 	"human-relay",
 	"fake-ai",
+	"replay", // kilocode_change
 	"xai",
 	"groq",
 	"chutes",
@@ -69,6 +70,17 @@ const baseProviderSettingsSchema = z.object({
 	modelMaxTokens: z.number().optional(),
 	modelMaxThinkingTokens: z.number().optional(),
 
+	// kilocode_change start
+	// Pass the tools to providers that support native tool calling instead of describing them in the system prompt.
+	nativeToolCalling: z.boolean().optional(),
+
+	// Write every request and streamed response to cassettes in this directory, for the replay provider.
+	recordCassetteDir: z.string().optional(),
+
+	// The format the model edits files in: SEARCH/REPLACE blocks or unified diff patches.
+	diffFormat: z.enum(["searchReplace", "unifiedDiff"]).optional(),
+	// kilocode_change end
+
 	// // kilocode_change start
 	// kilocodeToken: z.string().optional(),
 	// kilocodeModel: z.string().optional(),
@@ -207,6 +219,12 @@ const fakeAiSchema = baseProviderSettingsSchema.extend({
 	fakeAi: z.unknown().optional(),
 })
 
+// kilocode_change start
+const replaySchema = baseProviderSettingsSchema.extend({
+	replayCassetteDir: z.string().optional(),
+})
+// kilocode_change end
+
 const xaiSchema = apiModelIdProviderModelSchema.extend({
 	xaiApiKey: z.string().optional(),
 })
@@ -266,6 +284,7 @@ export const providerSettingsSchemaDiscriminated = z.discriminatedUnion("apiProv
 	requestySchema.merge(z.object({ apiProvider: z.literal("requesty") })),
 	humanRelaySchema.merge(z.object({ apiProvider: z.literal("human-relay") })),
 	fakeAiSchema.merge(z.object({ apiProvider: z.literal("fake-ai") })),
+	replaySchema.merge(z.object({ apiProvider: z.literal("replay") })), // kilocode_change
 	xaiSchema.merge(z.object({ apiProvider: z.literal("xai") })),
 	groqSchema.merge(z.object({ apiProvider: z.literal("groq") })),
 	chutesSchema.merge(z.object({ apiProvider: z.literal("chutes") })),
@@ -297,6 +316,7 @@ export const providerSettingsSchema = z.object({
 	...requestySchema.shape,
 	...humanRelaySchema.shape,
 	...fakeAiSchema.shape,
+	...replaySchema.shape, // kilocode_change
 	...xaiSchema.shape,
 	...groqSchema.shape,
 	...chutesSchema.shape,
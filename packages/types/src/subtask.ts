@@ -0,0 +1,31 @@
+// kilocode_change - new file
+import { z } from "zod"
+
+/**
+ * ParallelSubtaskState
+ */
+export const parallelSubtaskStates = ["running", "waiting", "completed", "cancelled"] as const
+
+export const parallelSubtaskStateSchema = z.enum(parallelSubtaskStates)
+
+export type ParallelSubtaskState = z.infer<typeof parallelSubtaskStateSchema>
+
+/**
+ * ParallelSubtaskStatus
+ *
+ * The progress of a subtask running in its own git worktree next to its siblings, while the parent task waits.
+ */
+export const parallelSubtaskStatusSchema = z.object({
+	taskId: z.string(),
+	parentTaskId: z.string(),
+	/** The message the subtask was started with. */
+	message: z.string(),
+	state: parallelSubtaskStateSchema,
+	/** The text of the subtask's latest message, or its result once completed. */
+	lastActivity: z.string().optional(),
+	cost: z.number(),
+	/** The directory of the subtask's worktree. */
+	workspacePath: z.string(),
+})
+
+export type ParallelSubtaskStatus = z.infer<typeof parallelSubtaskStatusSchema>
@@ -37,6 +37,18 @@ export const toolNames = [
 	"report_bug", // kilocode_change
 	"condense", // kilocode_change
 	"update_todo_list",
+	"use_custom_tool", // kilocode_change
+	// kilocode_change start
+	"go_to_definition",
+	"find_references",
+	"get_hover_info",
+	"rename_symbol",
+	"replace_symbol",
+	"read_process_output",
+	"wait_for_process_output",
+	"kill_process",
+	"new_parallel_tasks",
+	// kilocode_change end
 ] as const
 
 export const toolNamesSchema = z.enum(toolNames)
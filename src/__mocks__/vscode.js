@@ -157,6 +157,15 @@ export const CodeActionKind = {
 
 export const EventEmitter = mockEventEmitter
 
+// kilocode_change start
+export const RelativePattern = class {
+	constructor(base, pattern) {
+		this.base = base
+		this.pattern = pattern
+	}
+}
+// kilocode_change end
+
 export default {
 	workspace,
 	window,
@@ -176,4 +185,5 @@ export default {
 	EventEmitter,
 	CodeAction,
 	CodeActionKind,
+	RelativePattern, // kilocode_change
 }
@@ -251,6 +251,19 @@ const getCommandsMap = ({ context, outputChannel }: RegisterCommandOptions): Rec
 			contextProxy: visibleProvider.contextProxy,
 		})
 	},
+	exportCheckpoints: async () => {
+		const visibleProvider = getVisibleProviderOrLog(outputChannel)
+		if (!visibleProvider) return
+
+		const task = visibleProvider.getCurrentCline()
+
+		if (!task) {
+			vscode.window.showInformationMessage(t("common:checkpointExport.noActiveTask"))
+			return
+		}
+
+		await task.checkpointExport()
+	},
 	// kilocode_change end
 })
 
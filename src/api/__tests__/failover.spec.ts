@@ -0,0 +1,37 @@
+// kilocode_change - new file
+// npx vitest run src/api/__tests__/failover.spec.ts
+
+import { getFailoverReason } from "../failover"
+
+describe("getFailoverReason", () => {
+	it("detects context window overflows", () => {
+		expect(getFailoverReason({ status: 400, message: "prompt is too long: 210000 tokens > 200000 maximum" })).toBe(
+			"context_window",
+		)
+		expect(
+			getFailoverReason({
+				status: 400,
+				error: { message: "This model's maximum context length is 128000 tokens" },
+			}),
+		).toBe("context_window")
+		expect(getFailoverReason(new Error("Too many tokens in request"))).toBe("context_window")
+	})
+
+	it("detects rate limits, server errors and network failures", () => {
+		expect(getFailoverReason({ status: 429, message: "Rate limited" })).toBe("unavailable")
+		expect(getFailoverReason({ status: 529, message: "Overloaded" })).toBe("unavailable")
+		expect(getFailoverReason({ $metadata: { httpStatusCode: 503 }, message: "Service unavailable" })).toBe(
+			"unavailable",
+		)
+		expect(getFailoverReason(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))).toBe(
+			"unavailable",
+		)
+		expect(getFailoverReason(new TypeError("fetch failed"))).toBe("unavailable")
+	})
+
+	it("ignores errors another profile wouldn't fix", () => {
+		expect(getFailoverReason({ status: 401, message: "Invalid API key" })).toBeUndefined()
+		expect(getFailoverReason({ status: 400, message: "messages: field required" })).toBeUndefined()
+		expect(getFailoverReason(new Error("Something went wrong"))).toBeUndefined()
+	})
+})
@@ -0,0 +1,55 @@
+// kilocode_change - new file
+import type { ApiFailoverReason } from "../shared/ExtensionMessage"
+
+/**
+ * Number of consecutive failed requests after which a task switches to the next fallback profile
+ * when the provider is unavailable. Context window overflows switch right away since retrying
+ * the same model can't succeed.
+ */
+export const FAILOVER_AFTER_FAILED_REQUESTS = 2
+
+const CONTEXT_WINDOW_ERROR_PATTERNS = [
+	/context[ _-]?(length|window)/i,
+	/prompt is too long/i,
+	/input is too long/i,
+	/too many (input )?tokens/i,
+	/maximum (number of )?tokens/i,
+	/exceeds? the (model's )?(maximum )?context/i,
+]
+
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN"]
+
+function getStatus(error: any): number | undefined {
+	const status = error?.status ?? error?.statusCode ?? error?.response?.status ?? error?.$metadata?.httpStatusCode
+	return typeof status === "number" ? status : undefined
+}
+
+/**
+ * Classifies an API error to decide whether another provider profile might succeed.
+ * @returns undefined for errors that a different profile wouldn't fix, like an invalid request
+ */
+export function getFailoverReason(error: any): ApiFailoverReason | undefined {
+	const status = getStatus(error)
+	const message = String(error?.error?.message ?? error?.message ?? "")
+
+	if (
+		(status === undefined || status === 400 || status === 413) &&
+		CONTEXT_WINDOW_ERROR_PATTERNS.some((pattern) => pattern.test(message))
+	) {
+		return "context_window"
+	}
+
+	if (status === 429 || status === 408 || (status !== undefined && status >= 500)) {
+		return "unavailable"
+	}
+
+	if (
+		status === undefined &&
+		(NETWORK_ERROR_CODES.includes(error?.code ?? error?.cause?.code) ||
+			/fetch failed|connection error/i.test(message))
+	) {
+		return "unavailable"
+	}
+
+	return undefined
+}
@@ -24,6 +24,8 @@ import {
 	RequestyHandler,
 	HumanRelayHandler,
 	FakeAIHandler,
+	ReplayHandler, // kilocode_change
+	RecordingHandler, // kilocode_change
 	XAIHandler,
 	GroqHandler,
 	ChutesHandler,
@@ -40,9 +42,26 @@ export interface SingleCompletionHandler {
 	completePrompt(prompt: string): Promise<string>
 }
 
+// kilocode_change start
+/**
+ * A tool offered to the model through the provider's native tool calling API.
+ * Tool parameters are passed as strings, the same as in the XML tool format.
+ */
+export interface ApiToolDefinition {
+	name: string
+	description: string
+	parameters: {
+		type: "object"
+		properties: Record<string, { type: "string"; description: string }>
+		required: string[]
+	}
+}
+// kilocode_change end
+
 export interface ApiHandlerCreateMessageMetadata {
 	mode?: string
 	taskId: string
+	tools?: ApiToolDefinition[] // kilocode_change: only sent to handlers that support native tool calling
 }
 
 export interface ApiHandler {
@@ -63,9 +82,25 @@ export interface ApiHandler {
 	 * @returns A promise resolving to the token count
 	 */
 	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number>
+
+	// kilocode_change start
+	/**
+	 * Whether the handler passes `metadata.tools` to the model and yields `tool_call` chunks.
+	 * Handlers without native tool calling get the tools described in the system prompt instead.
+	 */
+	supportsNativeTools?(): boolean
+	// kilocode_change end
 }
 
 export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
+	// kilocode_change start
+	const handler = buildProviderApiHandler(configuration)
+
+	return configuration.recordCassetteDir ? new RecordingHandler(handler, configuration.recordCassetteDir) : handler
+}
+
+function buildProviderApiHandler(configuration: ProviderSettings): ApiHandler {
+	// kilocode_change end
 	const { apiProvider, ...options } = configuration
 
 	switch (apiProvider) {
@@ -117,6 +152,10 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
 		// kilocode_change end
 		case "fake-ai":
 			return new FakeAIHandler(options)
+		// kilocode_change start
+		case "replay":
+			return new ReplayHandler(options)
+		// kilocode_change end
 		case "xai":
 			return new XAIHandler(options)
 		case "groq":
@@ -568,6 +568,20 @@ describe("OpenAiHandler", () => {
 			},
 		}
 
+		// kilocode_change start
+		it("should only treat the o1/o3/o4 model families as O3 family models", () => {
+			const supportsNativeTools = (openAiModelId: string) =>
+				new OpenAiHandler({ ...mockOptions, openAiModelId }).supportsNativeTools()
+
+			expect(supportsNativeTools("o3-mini")).toBe(false)
+			expect(supportsNativeTools("o1")).toBe(false)
+			expect(supportsNativeTools("openai/o4-mini-2025-04-16")).toBe(false)
+			expect(supportsNativeTools("gpt-4o-mini")).toBe(true)
+			expect(supportsNativeTools("ft:gpt-4o-mini-2024-07-18:acme:demo1:9xYz")).toBe(true)
+			expect(supportsNativeTools("solar-pro1")).toBe(true)
+		})
+		// kilocode_change end
+
 		it("should handle O3 model with streaming and include max_completion_tokens when includeMaxTokens is true", async () => {
 			const o3Handler = new OpenAiHandler({
 				...o3Options,
@@ -0,0 +1,139 @@
+// kilocode_change - new file
+// npx vitest run src/api/providers/__tests__/replay.spec.ts
+
+import * as os from "os"
+import * as path from "path"
+import * as fs from "fs/promises"
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ApiHandler } from "../../index"
+import type { ApiStreamChunk } from "../../transform/stream"
+import { getCassetteKey, readCassette } from "../cassette"
+import { RecordingHandler, unwrapApiHandler } from "../recording"
+import { ReplayHandler } from "../replay"
+
+const chunks: ApiStreamChunk[] = [
+	{ type: "text", text: "Hello" },
+	{ type: "tool_call", id: "call_1", name: "read_file", arguments: '{"path":"a.ts"}' },
+	{ type: "usage", inputTokens: 10, outputTokens: 5 },
+]
+
+function createHandler(streamedChunks: ApiStreamChunk[], error?: Error): ApiHandler {
+	return {
+		async *createMessage() {
+			yield* streamedChunks
+
+			if (error) {
+				throw error
+			}
+		},
+		getModel: () => ({ id: "recorded-model", info: { contextWindow: 100_000, supportsPromptCache: false } }),
+		countTokens: async () => 0,
+	}
+}
+
+async function collect(stream: AsyncIterable<ApiStreamChunk>): Promise<ApiStreamChunk[]> {
+	const result: ApiStreamChunk[] = []
+
+	for await (const chunk of stream) {
+		result.push(chunk)
+	}
+
+	return result
+}
+
+const environmentDetails = (time: string, model: string) =>
+	`<environment_details>\n# Current Time\nCurrent time in ISO 8601 UTC format: ${time}\n\n# Current Mode\n<slug>code</slug>\n<model>${model}</model>\n</environment_details>`
+
+describe("record and replay", () => {
+	let cassetteDir: string
+
+	const messages: Anthropic.Messages.MessageParam[] = [
+		{ role: "user", content: [{ type: "text", text: "<task>Say hello</task>" }] },
+	]
+
+	beforeEach(async () => {
+		cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), "cassettes-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cassetteDir, { recursive: true, force: true })
+	})
+
+	it("replays the chunks of a recorded request", async () => {
+		const recorder = new RecordingHandler(createHandler(chunks), cassetteDir)
+
+		expect(await collect(recorder.createMessage("system", messages, { mode: "code", taskId: "1" }))).toEqual(chunks)
+
+		const cassette = await readCassette(cassetteDir, getCassetteKey("system", messages))
+		expect(cassette?.model).toBe("recorded-model")
+		expect(cassette?.request.systemPrompt).toBe("system")
+
+		const replay = new ReplayHandler({ replayCassetteDir: cassetteDir })
+
+		expect(await collect(replay.createMessage("system", messages))).toEqual(chunks)
+	})
+
+	it("throws the recorded error after replaying the streamed chunks", async () => {
+		const recorder = new RecordingHandler(createHandler(chunks.slice(0, 1), new Error("Overloaded")), cassetteDir)
+
+		await expect(collect(recorder.createMessage("system", messages))).rejects.toThrow("Overloaded")
+
+		const replay = new ReplayHandler({ replayCassetteDir: cassetteDir })
+		const replayed: ApiStreamChunk[] = []
+
+		await expect(
+			(async () => {
+				for await (const chunk of replay.createMessage("system", messages)) {
+					replayed.push(chunk)
+				}
+			})(),
+		).rejects.toThrow("Overloaded")
+		expect(replayed).toEqual(chunks.slice(0, 1))
+	})
+
+	it("doesn't record a stream that is stopped before it ends", async () => {
+		const recorder = new RecordingHandler(createHandler(chunks), cassetteDir)
+		const stream = recorder.createMessage("system", messages)
+
+		expect((await stream.next()).value).toEqual(chunks[0])
+		await stream.return(undefined)
+
+		expect(await readCassette(cassetteDir, getCassetteKey("system", messages))).toBeUndefined()
+	})
+
+	it("lets checks of the provider's class see through the recorder", () => {
+		const handler = createHandler(chunks)
+
+		expect(unwrapApiHandler(new RecordingHandler(handler, cassetteDir))).toBe(handler)
+		expect(unwrapApiHandler(handler)).toBe(handler)
+	})
+
+	it("fails for requests that weren't recorded", async () => {
+		const replay = new ReplayHandler({ replayCassetteDir: cassetteDir })
+
+		await expect(collect(replay.createMessage("other system prompt", messages))).rejects.toThrow(
+			"No cassette was recorded for this request",
+		)
+	})
+})
+
+describe("getCassetteKey", () => {
+	it("ignores the time and model in the environment details", () => {
+		const key = (time: string, model: string) =>
+			getCassetteKey("system", [
+				{ role: "user", content: [{ type: "text", text: environmentDetails(time, model) }] },
+			])
+
+		expect(key("2025-01-01T00:00:00.000Z", "claude")).toBe(key("2026-10-19T12:00:00.000Z", "replay"))
+	})
+
+	it("changes with the system prompt and messages", () => {
+		const messages: Anthropic.Messages.MessageParam[] = [{ role: "user", content: "hi" }]
+
+		expect(getCassetteKey("system", messages)).not.toBe(getCassetteKey("system v2", messages))
+		expect(getCassetteKey("system", messages)).not.toBe(
+			getCassetteKey("system", [...messages, { role: "assistant", content: "hello" }]),
+		)
+	})
+})
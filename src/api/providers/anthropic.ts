@@ -12,7 +12,8 @@ import {
 
 import type { ApiHandlerOptions } from "../../shared/api"
 
-import { ApiStream } from "../transform/stream"
+import { ApiStream, ApiStreamToolCallChunk } from "../transform/stream" // kilocode_change
+import { convertToAnthropicTools } from "../transform/native-tools" // kilocode_change
 import { getModelParams } from "../transform/model-params"
 
 import { BaseProvider } from "./base-provider"
@@ -44,6 +45,7 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 		let stream: AnthropicStream<Anthropic.Messages.RawMessageStreamEvent>
 		const cacheControl: CacheControlEphemeral = { type: "ephemeral" }
 		let { id: modelId, betas = [], maxTokens, temperature, reasoning: thinking } = this.getModel()
+		const tools = metadata?.tools?.length ? convertToAnthropicTools(metadata.tools) : undefined // kilocode_change
 
 		switch (modelId) {
 			case "claude-sonnet-4-20250514":
@@ -79,6 +81,7 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 						thinking,
 						// Setting cache breakpoint for system prompt so new tasks can reuse it.
 						system: [{ text: systemPrompt, type: "text", cache_control: cacheControl }],
+						tools, // kilocode_change
 						messages: messages.map((message, index) => {
 							if (index === lastUserMsgIndex || index === secondLastMsgUserIndex) {
 								return {
@@ -126,6 +129,7 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 					max_tokens: maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
 					temperature,
 					system: [{ text: systemPrompt, type: "text" }],
+					tools, // kilocode_change
 					messages,
 					stream: true,
 				})) as any
@@ -137,6 +141,7 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 		let outputTokens = 0
 		let cacheWriteTokens = 0
 		let cacheReadTokens = 0
+		const toolCalls = new Map<number, ApiStreamToolCallChunk>() // kilocode_change
 
 		for await (const chunk of stream) {
 			switch (chunk.type) {
@@ -197,6 +202,16 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 
 							yield { type: "text", text: chunk.content_block.text }
 							break
+						// kilocode_change start
+						case "tool_use":
+							toolCalls.set(chunk.index, {
+								type: "tool_call",
+								id: chunk.content_block.id,
+								name: chunk.content_block.name,
+								arguments: "",
+							})
+							break
+						// kilocode_change end
 					}
 					break
 				case "content_block_delta":
@@ -207,11 +222,31 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 						case "text_delta":
 							yield { type: "text", text: chunk.delta.text }
 							break
+						// kilocode_change start
+						case "input_json_delta": {
+							const toolCall = toolCalls.get(chunk.index)
+
+							if (toolCall) {
+								toolCall.arguments += chunk.delta.partial_json
+							}
+
+							break
+						}
+						// kilocode_change end
 					}
 
 					break
-				case "content_block_stop":
+				case "content_block_stop": {
+					// kilocode_change start
+					const toolCall = toolCalls.get(chunk.index)
+
+					if (toolCall) {
+						toolCalls.delete(chunk.index)
+						yield { ...toolCall, arguments: toolCall.arguments || "{}" }
+					}
+					// kilocode_change end
 					break
+				}
 			}
 		}
 
@@ -231,6 +266,12 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 		}
 	}
 
+	// kilocode_change start
+	override supportsNativeTools() {
+		return true
+	}
+	// kilocode_change end
+
 	getModel() {
 		const modelId = this.options.apiModelId
 		let id = modelId && modelId in anthropicModels ? (modelId as AnthropicModelId) : anthropicDefaultModelId
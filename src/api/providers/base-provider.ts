@@ -32,4 +32,13 @@ export abstract class BaseProvider implements ApiHandler {
 
 		return countTokens(content, { useWorker: true })
 	}
+
+	// kilocode_change start
+	/**
+	 * Providers that pass `metadata.tools` to the model and yield `tool_call` chunks override this.
+	 */
+	supportsNativeTools(): boolean {
+		return false
+	}
+	// kilocode_change end
 }
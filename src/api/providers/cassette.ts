@@ -0,0 +1,81 @@
+// kilocode_change - new file
+import * as path from "path"
+import * as fs from "fs/promises"
+import { createHash } from "crypto"
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ApiHandlerCreateMessageMetadata } from "../index"
+import type { ApiStreamChunk } from "../transform/stream"
+
+/**
+ * A recorded `createMessage` request with the chunks the model streamed in response.
+ */
+export interface Cassette {
+	key: string
+	recordedAt: string
+	model: string
+	request: {
+		systemPrompt: string
+		messages: Anthropic.Messages.MessageParam[]
+		metadata?: ApiHandlerCreateMessageMetadata
+	}
+	chunks: ApiStreamChunk[]
+	/** The error that ended the stream, which is thrown again on replay. */
+	error?: string
+}
+
+/**
+ * Parts of the environment details that differ between a recording and its replay. They are left
+ * out of the cassette key so that a replayed task finds the cassettes of the recorded one.
+ */
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+	[/# Current Time\n[\s\S]*?(?=\n\n# |\n<\/environment_details>|$)/g, "# Current Time"],
+	[/# Current Cost\n[\s\S]*?(?=\n\n# |\n<\/environment_details>|$)/g, "# Current Cost"],
+	[/<model>[^<]*<\/model>/g, "<model></model>"],
+]
+
+function normalize(text: string): string {
+	return VOLATILE_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+}
+
+/**
+ * Hashes the system prompt and messages of a request into the key its cassette is stored under.
+ */
+export function getCassetteKey(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): string {
+	const normalizedMessages = messages.map(({ role, content }) => ({
+		role,
+		content:
+			typeof content === "string"
+				? normalize(content)
+				: content.map((block) => (block.type === "text" ? { ...block, text: normalize(block.text) } : block)),
+	}))
+
+	return createHash("sha256")
+		.update(JSON.stringify({ systemPrompt: normalize(systemPrompt), messages: normalizedMessages }))
+		.digest("hex")
+		.slice(0, 32)
+}
+
+export function getCassettePath(cassetteDir: string, key: string): string {
+	return path.join(cassetteDir, `${key}.json`)
+}
+
+export async function writeCassette(cassetteDir: string, cassette: Cassette): Promise<void> {
+	await fs.mkdir(cassetteDir, { recursive: true })
+	await fs.writeFile(getCassettePath(cassetteDir, cassette.key), JSON.stringify(cassette, null, 2))
+}
+
+/**
+ * @returns undefined when no cassette was recorded for the key
+ */
+export async function readCassette(cassetteDir: string, key: string): Promise<Cassette | undefined> {
+	try {
+		return JSON.parse(await fs.readFile(getCassettePath(cassetteDir, key), "utf8"))
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined
+		}
+
+		throw error
+	}
+}
@@ -14,6 +14,7 @@ import { safeJsonParse } from "../../shared/safeJsonParse"
 
 import { convertAnthropicContentToGemini, convertAnthropicMessageToGemini } from "../transform/gemini-format"
 import type { ApiStream } from "../transform/stream"
+import { convertToGeminiFunctionDeclarations } from "../transform/native-tools" // kilocode_change
 import { getModelParams } from "../transform/model-params"
 
 import type { SingleCompletionHandler, ApiHandlerCreateMessageMetadata } from "../index"
@@ -73,6 +74,11 @@ export class GeminiHandler extends BaseProvider implements SingleCompletionHandl
 			thinkingConfig,
 			maxOutputTokens: this.options.modelMaxTokens ?? maxTokens ?? undefined,
 			temperature: this.options.modelTemperature ?? 0,
+			// kilocode_change start
+			tools: metadata?.tools?.length
+				? [{ functionDeclarations: convertToGeminiFunctionDeclarations(metadata.tools) }]
+				: undefined,
+			// kilocode_change end
 		}
 
 		const params: GenerateContentParameters = { model, contents, config }
@@ -80,6 +86,7 @@ export class GeminiHandler extends BaseProvider implements SingleCompletionHandl
 		const result = await this.client.models.generateContentStream(params)
 
 		let lastUsageMetadata: GenerateContentResponseUsageMetadata | undefined
+		let toolCallCount = 0 // kilocode_change
 
 		for await (const chunk of result) {
 			// Process candidates and their parts to separate thoughts from content
@@ -98,6 +105,18 @@ export class GeminiHandler extends BaseProvider implements SingleCompletionHandl
 								yield { type: "text", text: part.text }
 							}
 						}
+
+						// kilocode_change start
+						if (part.functionCall?.name) {
+							yield {
+								type: "tool_call",
+								id: part.functionCall.id ?? `call_${toolCallCount}`,
+								name: part.functionCall.name,
+								arguments: JSON.stringify(part.functionCall.args ?? {}),
+							}
+							toolCallCount++
+						}
+						// kilocode_change end
 					}
 				}
 			}
@@ -129,6 +148,12 @@ export class GeminiHandler extends BaseProvider implements SingleCompletionHandl
 		}
 	}
 
+	// kilocode_change start
+	override supportsNativeTools() {
+		return true
+	}
+	// kilocode_change end
+
 	override getModel() {
 		const modelId = this.options.apiModelId
 		let id = modelId && modelId in geminiModels ? (modelId as GeminiModelId) : geminiDefaultModelId
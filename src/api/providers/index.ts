@@ -6,6 +6,8 @@ export { ChutesHandler } from "./chutes"
 export { ClaudeCodeHandler } from "./claude-code"
 export { DeepSeekHandler } from "./deepseek"
 export { FakeAIHandler } from "./fake-ai"
+export { ReplayHandler } from "./replay" // kilocode_change
+export { RecordingHandler, unwrapApiHandler } from "./recording" // kilocode_change
 export { GeminiHandler } from "./gemini"
 export { GeminiCliHandler } from "./gemini-cli"
 export { GlamaHandler } from "./glama"
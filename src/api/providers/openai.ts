@@ -19,11 +19,19 @@ import { convertToR1Format } from "../transform/r1-format"
 import { convertToSimpleMessages } from "../transform/simple-format"
 import { ApiStream, ApiStreamUsageChunk } from "../transform/stream"
 import { getModelParams } from "../transform/model-params"
+import { OpenAiToolCallAccumulator, convertToOpenAiTools } from "../transform/native-tools" // kilocode_change
 
 import { DEFAULT_HEADERS } from "./constants"
 import { BaseProvider } from "./base-provider"
 import type { SingleCompletionHandler, ApiHandlerCreateMessageMetadata } from "../index"
 
+// kilocode_change start
+// The o1/o3/o4 models, optionally behind a provider prefix like `openai/o3-mini`, but not `gpt-4o-mini:demo1`.
+function isO3FamilyModel(modelId: string): boolean {
+	return /(^|\/)o[134](-|$)/.test(modelId)
+}
+// kilocode_change end
+
 // TODO: Rename this to OpenAICompatibleHandler. Also, I think the
 // `OpenAINativeHandler` can subclass from this, since it's obviously
 // compatible with the OpenAI API. We can also rename it to `OpenAIHandler`.
@@ -85,6 +93,7 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 		const isAzureAiInference = this._isAzureAiInference(modelUrl)
 		const deepseekReasoner = modelId.includes("deepseek-reasoner") || enabledR1Format
 		const ark = modelUrl.includes(".volces.com")
+		const tools = metadata?.tools?.length ? convertToOpenAiTools(metadata.tools) : undefined // kilocode_change
 
 		if (modelId.includes("o1") || modelId.includes("o3") || modelId.includes("o4")) {
 			yield* this.handleO3FamilyMessage(modelId, systemPrompt, messages)
@@ -156,6 +165,7 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 				stream: true as const,
 				...(isGrokXAI ? {} : { stream_options: { include_usage: true } }),
 				...(reasoning && reasoning),
+				...(tools && { tools }), // kilocode_change
 			}
 
 			// Add max_tokens if needed
@@ -176,9 +186,11 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 			)
 
 			let lastUsage
+			const toolCalls = new OpenAiToolCallAccumulator() // kilocode_change
 
 			for await (const chunk of stream) {
 				const delta = chunk.choices[0]?.delta ?? {}
+				toolCalls.update(delta.tool_calls) // kilocode_change
 
 				if (delta.content) {
 					for (const chunk of matcher.update(delta.content)) {
@@ -201,6 +213,8 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 				yield chunk
 			}
 
+			yield* toolCalls.final() // kilocode_change
+
 			if (lastUsage) {
 				yield this.processUsageMetrics(lastUsage, modelInfo)
 			}
@@ -218,6 +232,7 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 					: enabledLegacyFormat
 						? [systemMessage, ...convertToSimpleMessages(messages)]
 						: [systemMessage, ...convertToOpenAiMessages(messages)],
+				...(tools && { tools }), // kilocode_change
 			}
 
 			// Add max_tokens if needed
@@ -233,6 +248,17 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 				text: response.choices[0]?.message.content || "",
 			}
 
+			// kilocode_change start
+			for (const toolCall of response.choices[0]?.message.tool_calls ?? []) {
+				yield {
+					type: "tool_call",
+					id: toolCall.id,
+					name: toolCall.function.name,
+					arguments: toolCall.function.arguments,
+				}
+			}
+			// kilocode_change end
+
 			yield this.processUsageMetrics(response.usage, modelInfo)
 		}
 	}
@@ -247,6 +273,14 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 		}
 	}
 
+	// kilocode_change start
+	override supportsNativeTools() {
+		const modelId = this.options.openAiModelId ?? ""
+		// The o1/o3/o4 requests don't pass tools yet.
+		return !isO3FamilyModel(modelId)
+	}
+	// kilocode_change end
+
 	override getModel() {
 		const id = this.options.openAiModelId ?? ""
 		const info = this.options.openAiCustomModelInfo ?? openAiModelInfoSaneDefaults
@@ -0,0 +1,88 @@
+// kilocode_change - new file
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ModelInfo } from "@roo-code/types"
+
+import type { ApiHandler, ApiHandlerCreateMessageMetadata, SingleCompletionHandler } from "../index"
+import type { ApiStream, ApiStreamChunk } from "../transform/stream"
+
+import { getCassetteKey, writeCassette } from "./cassette"
+
+/**
+ * Wraps a handler and writes every `createMessage` request, with the chunks streamed in response,
+ * to a cassette that the `ReplayHandler` can serve without network access.
+ */
+export class RecordingHandler implements ApiHandler, SingleCompletionHandler {
+	constructor(
+		readonly handler: ApiHandler,
+		private readonly cassetteDir: string,
+	) {}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const chunks: ApiStreamChunk[] = []
+
+		// A stream the task stopped reading, e.g. when it was aborted, isn't recorded, since it would replay
+		// as a complete response.
+		try {
+			for await (const chunk of this.handler.createMessage(systemPrompt, messages, metadata)) {
+				chunks.push(chunk)
+				yield chunk
+			}
+		} catch (streamError) {
+			const error = streamError instanceof Error ? streamError.message : String(streamError)
+			await this.record(systemPrompt, messages, metadata, chunks, error)
+			throw streamError
+		}
+
+		await this.record(systemPrompt, messages, metadata, chunks)
+	}
+
+	private async record(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata: ApiHandlerCreateMessageMetadata | undefined,
+		chunks: ApiStreamChunk[],
+		error?: string,
+	) {
+		await writeCassette(this.cassetteDir, {
+			key: getCassetteKey(systemPrompt, messages),
+			recordedAt: new Date().toISOString(),
+			model: this.handler.getModel().id,
+			request: { systemPrompt, messages, metadata },
+			chunks,
+			error,
+		}).catch((writeError) => console.error(`[RecordingHandler] Failed to write cassette: ${writeError}`))
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		return this.handler.getModel()
+	}
+
+	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		return this.handler.countTokens(content)
+	}
+
+	supportsNativeTools(): boolean {
+		return this.handler.supportsNativeTools?.() ?? false
+	}
+
+	async completePrompt(prompt: string): Promise<string> {
+		if (!("completePrompt" in this.handler)) {
+			throw new Error("The recorded provider doesn't support single completions")
+		}
+
+		return (this.handler as ApiHandler & SingleCompletionHandler).completePrompt(prompt)
+	}
+}
+
+/**
+ * Returns the handler of the provider itself when it's wrapped to record its responses, for checks of the
+ * provider's class.
+ */
+export function unwrapApiHandler(handler: ApiHandler): ApiHandler {
+	return handler instanceof RecordingHandler ? handler.handler : handler
+}
@@ -0,0 +1,66 @@
+// kilocode_change - new file
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ModelInfo } from "@roo-code/types"
+
+import type { ApiHandlerOptions } from "../../shared/api"
+import type { ApiHandlerCreateMessageMetadata } from "../index"
+import type { ApiStream } from "../transform/stream"
+
+import { BaseProvider } from "./base-provider"
+import { getCassetteKey, getCassettePath, readCassette } from "./cassette"
+
+const replayModelInfo: ModelInfo = {
+	maxTokens: 8192,
+	contextWindow: 200_000,
+	supportsImages: true,
+	supportsPromptCache: false,
+	inputPrice: 0,
+	outputPrice: 0,
+}
+
+/**
+ * Serves the responses written by the `RecordingHandler`, keyed by the system prompt and messages of
+ * the request, so tasks can be tested deterministically without network access.
+ */
+export class ReplayHandler extends BaseProvider {
+	private readonly cassetteDir: string
+
+	constructor(private readonly options: ApiHandlerOptions) {
+		super()
+
+		if (!options.replayCassetteDir) {
+			throw new Error("Replay cassette directory is not set")
+		}
+
+		this.cassetteDir = options.replayCassetteDir
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		_metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const key = getCassetteKey(systemPrompt, messages)
+		const cassette = await readCassette(this.cassetteDir, key)
+
+		if (!cassette) {
+			throw new Error(`No cassette was recorded for this request: ${getCassettePath(this.cassetteDir, key)}`)
+		}
+
+		yield* cassette.chunks
+
+		if (cassette.error) {
+			throw new Error(cassette.error)
+		}
+	}
+
+	override getModel(): { id: string; info: ModelInfo } {
+		return { id: this.options.apiModelId ?? "replay", info: replayModelInfo }
+	}
+
+	// Cassettes recorded with native tool calling contain the model's tool calls.
+	override supportsNativeTools(): boolean {
+		return true
+	}
+}
@@ -0,0 +1,83 @@
+// kilocode_change - new file
+// npx vitest run src/api/transform/__tests__/native-tools.spec.ts
+
+import { Type } from "@google/genai"
+
+import type { ApiToolDefinition } from "../../index"
+import {
+	OpenAiToolCallAccumulator,
+	convertToAnthropicTools,
+	convertToGeminiFunctionDeclarations,
+	convertToOpenAiTools,
+} from "../native-tools"
+
+const tools: ApiToolDefinition[] = [
+	{
+		name: "read_file",
+		description: "Read a file",
+		parameters: {
+			type: "object",
+			properties: { path: { type: "string", description: "The file path" } },
+			required: ["path"],
+		},
+	},
+]
+
+describe("native tool conversion", () => {
+	it("converts to Anthropic tools", () => {
+		expect(convertToAnthropicTools(tools)).toEqual([
+			{ name: "read_file", description: "Read a file", input_schema: tools[0].parameters },
+		])
+	})
+
+	it("converts to OpenAI tools", () => {
+		expect(convertToOpenAiTools(tools)).toEqual([
+			{
+				type: "function",
+				function: { name: "read_file", description: "Read a file", parameters: tools[0].parameters },
+			},
+		])
+	})
+
+	it("converts to Gemini function declarations", () => {
+		expect(convertToGeminiFunctionDeclarations(tools)).toEqual([
+			{
+				name: "read_file",
+				description: "Read a file",
+				parameters: {
+					type: Type.OBJECT,
+					properties: { path: { type: Type.STRING, description: "The file path" } },
+					required: ["path"],
+				},
+			},
+		])
+	})
+})
+
+describe("OpenAiToolCallAccumulator", () => {
+	it("joins streamed tool call pieces by index", () => {
+		const accumulator = new OpenAiToolCallAccumulator()
+
+		accumulator.update([{ index: 1, id: "call_b", function: { name: "list_files", arguments: '{"pa' } }])
+		accumulator.update([{ index: 0, id: "call_a", function: { name: "read_file", arguments: "{}" } }])
+		accumulator.update([{ index: 1, function: { arguments: 'th":"src"}' } }])
+		accumulator.update(undefined)
+
+		expect(accumulator.final()).toEqual([
+			{ type: "tool_call", id: "call_a", name: "read_file", arguments: "{}" },
+			{ type: "tool_call", id: "call_b", name: "list_files", arguments: '{"path":"src"}' },
+		])
+		expect(accumulator.final()).toEqual([])
+	})
+
+	it("falls back to an index based id and skips calls without a name", () => {
+		const accumulator = new OpenAiToolCallAccumulator()
+
+		accumulator.update([
+			{ index: 0, function: { name: "read_file", arguments: "{}" } },
+			{ index: 1, function: { arguments: "{}" } },
+		])
+
+		expect(accumulator.final()).toEqual([{ type: "tool_call", id: "call_0", name: "read_file", arguments: "{}" }])
+	})
+})
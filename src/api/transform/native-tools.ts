@@ -0,0 +1,70 @@
+// kilocode_change - new file
+import { Anthropic } from "@anthropic-ai/sdk"
+import OpenAI from "openai"
+import { type FunctionDeclaration, Type } from "@google/genai"
+
+import type { ApiToolDefinition } from "../index"
+import type { ApiStreamToolCallChunk } from "./stream"
+
+export function convertToAnthropicTools(tools: ApiToolDefinition[]): Anthropic.Messages.Tool[] {
+	return tools.map(({ name, description, parameters }) => ({ name, description, input_schema: parameters }))
+}
+
+export function convertToOpenAiTools(tools: ApiToolDefinition[]): OpenAI.Chat.ChatCompletionTool[] {
+	return tools.map(({ name, description, parameters }) => ({
+		type: "function",
+		function: { name, description, parameters },
+	}))
+}
+
+export function convertToGeminiFunctionDeclarations(tools: ApiToolDefinition[]): FunctionDeclaration[] {
+	return tools.map(({ name, description, parameters }) => ({
+		name,
+		description,
+		parameters: {
+			type: Type.OBJECT,
+			properties: Object.fromEntries(
+				Object.entries(parameters.properties).map(([key, property]) => [
+					key,
+					{ type: Type.STRING, description: property.description },
+				]),
+			),
+			required: parameters.required,
+		},
+	}))
+}
+
+/**
+ * Collects the tool calls that OpenAI compatible APIs stream in pieces, keyed by their index.
+ */
+export class OpenAiToolCallAccumulator {
+	private toolCalls = new Map<number, ApiStreamToolCallChunk>()
+
+	update(deltas: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall[] | undefined) {
+		for (const delta of deltas ?? []) {
+			const toolCall = this.toolCalls.get(delta.index) ?? {
+				type: "tool_call",
+				id: "",
+				name: "",
+				arguments: "",
+			}
+
+			toolCall.id = delta.id ?? toolCall.id
+			toolCall.name += delta.function?.name ?? ""
+			toolCall.arguments += delta.function?.arguments ?? ""
+
+			this.toolCalls.set(delta.index, toolCall)
+		}
+	}
+
+	final(): ApiStreamToolCallChunk[] {
+		const toolCalls = [...this.toolCalls.entries()]
+			.sort(([a], [b]) => a - b)
+			.map(([index, toolCall]) => ({ ...toolCall, id: toolCall.id || `call_${index}` }))
+			.filter((toolCall) => toolCall.name)
+
+		this.toolCalls.clear()
+
+		return toolCalls
+	}
+}
@@ -1,6 +1,11 @@
 export type ApiStream = AsyncGenerator<ApiStreamChunk>
 
-export type ApiStreamChunk = ApiStreamTextChunk | ApiStreamUsageChunk | ApiStreamReasoningChunk | ApiStreamError
+export type ApiStreamChunk =
+	| ApiStreamTextChunk
+	| ApiStreamUsageChunk
+	| ApiStreamReasoningChunk
+	| ApiStreamToolCallChunk // kilocode_change
+	| ApiStreamError
 
 export interface ApiStreamError {
 	type: "error"
@@ -18,6 +23,15 @@ export interface ApiStreamReasoningChunk {
 	text: string
 }
 
+// kilocode_change start
+export interface ApiStreamToolCallChunk {
+	type: "tool_call"
+	id: string
+	name: string
+	arguments: string // JSON object with the tool's parameters
+}
+// kilocode_change end
+
 export interface ApiStreamUsageChunk {
 	type: "usage"
 	inputTokens: number
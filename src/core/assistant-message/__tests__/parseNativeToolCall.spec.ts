@@ -0,0 +1,59 @@
+// kilocode_change - new file
+// npx vitest run src/core/assistant-message/__tests__/parseNativeToolCall.spec.ts
+
+import { formatToolUseAsXml, parseNativeToolCall } from "../parseNativeToolCall"
+import { parseAssistantMessage } from "../parseAssistantMessage"
+
+describe("parseNativeToolCall", () => {
+	it("converts a tool call into a complete tool use", () => {
+		const toolUse = parseNativeToolCall({
+			type: "tool_call",
+			id: "call_1",
+			name: "read_file",
+			arguments: JSON.stringify({ path: "src/index.ts" }),
+		})
+
+		expect(toolUse).toEqual({
+			type: "tool_use",
+			name: "read_file",
+			params: { path: "src/index.ts" },
+			partial: false,
+		})
+	})
+
+	it("stringifies non-string arguments and drops unknown parameters", () => {
+		const toolUse = parseNativeToolCall({
+			type: "tool_call",
+			id: "call_1",
+			name: "search_and_replace",
+			arguments: JSON.stringify({ path: "a.ts", start_line: 3, use_regex: true, unknown: "x", search: null }),
+		})
+
+		expect(toolUse?.params).toEqual({ path: "a.ts", start_line: "3", use_regex: "true" })
+	})
+
+	it("returns no parameters for malformed arguments", () => {
+		const toolUse = parseNativeToolCall({ type: "tool_call", id: "call_1", name: "list_files", arguments: "{" })
+
+		expect(toolUse?.params).toEqual({})
+	})
+
+	it("returns undefined for unknown tools", () => {
+		expect(parseNativeToolCall({ type: "tool_call", id: "call_1", name: "rm_rf", arguments: "{}" })).toBeUndefined()
+	})
+})
+
+describe("formatToolUseAsXml", () => {
+	it("produces XML the assistant message parser reads back", () => {
+		const toolUse = parseNativeToolCall({
+			type: "tool_call",
+			id: "call_1",
+			name: "execute_command",
+			arguments: JSON.stringify({ command: "npm test", cwd: "packages/app" }),
+		})!
+
+		const blocks = parseAssistantMessage(formatToolUseAsXml(toolUse))
+
+		expect(blocks.filter((block) => block.type === "tool_use")).toEqual([toolUse])
+	})
+})
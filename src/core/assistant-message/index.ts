@@ -1,2 +1,3 @@
 export { type AssistantMessageContent, parseAssistantMessage } from "./parseAssistantMessage"
 export { presentAssistantMessage } from "./presentAssistantMessage"
+export { parseNativeToolCall, formatToolUseAsXml } from "./parseNativeToolCall" // kilocode_change
@@ -0,0 +1,49 @@
+// kilocode_change - new file
+import { type ToolName, toolNames } from "@roo-code/types"
+
+import { type ToolParamName, type ToolUse, toolParamNames } from "../../shared/tools"
+import type { ApiStreamToolCallChunk } from "../../api/transform/stream"
+
+/**
+ * Converts a native tool call into the same tool use block the XML parser produces, so
+ * `presentAssistantMessage` handles both protocols alike.
+ * @returns undefined when the model called a tool that doesn't exist
+ */
+export function parseNativeToolCall(toolCall: ApiStreamToolCallChunk): ToolUse | undefined {
+	if (!toolNames.includes(toolCall.name as ToolName)) {
+		return undefined
+	}
+
+	let args: Record<string, unknown> = {}
+
+	try {
+		const parsed = JSON.parse(toolCall.arguments || "{}")
+
+		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+			args = parsed
+		}
+	} catch {
+		// Tools report their missing parameters to the model.
+	}
+
+	const params: ToolUse["params"] = {}
+
+	for (const [name, value] of Object.entries(args)) {
+		if (!toolParamNames.includes(name as ToolParamName) || value === undefined || value === null) {
+			continue
+		}
+
+		params[name as ToolParamName] = typeof value === "string" ? value : JSON.stringify(value)
+	}
+
+	return { type: "tool_use", name: toolCall.name as ToolName, params, partial: false }
+}
+
+/**
+ * Formats a tool use as XML for the conversation history, which stays in the XML format so tasks
+ * can switch between providers and protocols.
+ */
+export function formatToolUseAsXml({ name, params }: ToolUse): string {
+	const paramTags = Object.entries(params).map(([param, value]) => `<${param}>${value}</${param}>`)
+	return `\n<${name}>\n${paramTags.join("\n")}\n</${name}>`
+}
@@ -34,9 +34,17 @@ import { Task } from "../task/Task"
 import { newRuleTool } from "../tools/newRuleTool" // kilocode_change
 import { reportBugTool } from "../tools/reportBugTool" // kilocode_change
 import { condenseTool } from "../tools/condenseTool" // kilocode_change
+import { useCustomToolTool } from "../tools/useCustomToolTool" // kilocode_change
+import { findReferencesTool, getHoverInfoTool, goToDefinitionTool } from "../tools/codeNavigationTools" // kilocode_change
+import { renameSymbolTool } from "../tools/renameSymbolTool" // kilocode_change
+import { replaceSymbolTool } from "../tools/replaceSymbolTool" // kilocode_change
+import { killProcessTool, readProcessOutputTool, waitForProcessOutputTool } from "../tools/backgroundProcessTools" // kilocode_change
+import { newParallelTasksTool } from "../tools/newParallelTasksTool" // kilocode_change
 import { codebaseSearchTool } from "../tools/codebaseSearchTool"
 import { experiments, EXPERIMENT_IDS } from "../../shared/experiments"
 import { applyDiffToolLegacy } from "../tools/applyDiffTool"
+import { applyPatchTool } from "../tools/applyPatchTool" // kilocode_change
+import { UnifiedDiffStrategy } from "../diff/strategies/unified-diff" // kilocode_change
 
 /**
  * Processes and presents assistant message content to the user interface.
@@ -218,12 +226,29 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[${block.name} in ${modeName} mode: '${message}']`
 					}
 					// kilocode_change start
+					case "new_parallel_tasks": {
+						const mode = block.params.mode ?? defaultModeSlug
+						const modeName = getModeBySlug(mode, customModes)?.name ?? mode
+						return `[${block.name} in ${modeName} mode]`
+					}
 					case "new_rule":
 						return `[${block.name} for '${block.params.path}']`
 					case "report_bug":
 						return `[${block.name}]`
 					case "condense":
 						return `[${block.name}]`
+					case "use_custom_tool":
+						return `[${block.name} for '${block.params.tool_name}']`
+					case "go_to_definition":
+					case "find_references":
+					case "get_hover_info":
+					case "rename_symbol":
+					case "replace_symbol":
+						return `[${block.name} for '${block.params.symbol}' in '${block.params.path}']`
+					case "read_process_output":
+					case "wait_for_process_output":
+					case "kill_process":
+						return `[${block.name} for '${block.params.name}']`
 					// kilocode_change end
 				}
 			}
@@ -387,6 +412,15 @@ export async function presentAssistantMessage(cline: Task) {
 
 				// If execution is not allowed, notify user and break.
 				if (!repetitionCheck.allowExecution && repetitionCheck.askUser) {
+					// kilocode_change start
+					// A loop that keeps coming back may be caused by a context the model has lost track of.
+					if (repetitionCheck.escalation === "condense") {
+						await cline.condenseContext().catch((error) => {
+							console.error(`[presentAssistantMessage] failed to condense context: ${error}`)
+						})
+					}
+					// kilocode_change end
+
 					// Handle repetition similar to mistake_limit_reached pattern.
 					const { response, text, images } = await cline.ask(
 						repetitionCheck.askUser.messageKey as ClineAsk,
@@ -411,9 +445,15 @@ export async function presentAssistantMessage(cline: Task) {
 					}
 
 					// Return tool result message about the repetition
+					// kilocode_change start
+					const modeSwitchHint =
+						repetitionCheck.escalation && repetitionCheck.escalation !== "ask"
+							? " If the tools of the current mode are not suited to this problem, consider using switch_mode."
+							: ""
+					// kilocode_change end
 					pushToolResult(
 						formatResponse.toolError(
-							`Tool call repetition limit reached for ${block.name}. Please try a different approach.`,
+							`Tool call repetition limit reached for ${block.name}. Please try a different approach.${modeSwitchHint}`, // kilocode_change
 						),
 					)
 					break
@@ -428,6 +468,13 @@ export async function presentAssistantMessage(cline: Task) {
 					await updateTodoListTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
 					break
 				case "apply_diff": {
+					// kilocode_change start
+					if (cline.diffStrategy instanceof UnifiedDiffStrategy) {
+						await applyPatchTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+						break
+					}
+					// kilocode_change end
+
 					// Get the provider and state to check experiment settings
 					const provider = cline.providerRef.deref()
 					let isMultiFileApplyDiffEnabled = false
@@ -521,6 +568,11 @@ export async function presentAssistantMessage(cline: Task) {
 				case "new_task":
 					await newTaskTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
 					break
+				// kilocode_change start
+				case "new_parallel_tasks":
+					await newParallelTasksTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
+				// kilocode_change end
 				case "attempt_completion":
 					await attemptCompletionTool(
 						cline,
@@ -543,6 +595,47 @@ export async function presentAssistantMessage(cline: Task) {
 				case "condense":
 					await condenseTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
 					break
+				case "use_custom_tool":
+					await useCustomToolTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
+				case "go_to_definition":
+					await goToDefinitionTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
+				case "find_references":
+					await findReferencesTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
+				case "get_hover_info":
+					await getHoverInfoTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
+				case "rename_symbol":
+					await renameSymbolTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
+				case "replace_symbol":
+					await replaceSymbolTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
+				case "read_process_output":
+					await readProcessOutputTool(
+						cline,
+						block,
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+					)
+					break
+				case "wait_for_process_output":
+					await waitForProcessOutputTool(
+						cline,
+						block,
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+					)
+					break
+				case "kill_process":
+					await killProcessTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
 				// kilocode_change end
 			}
 			// kilocode_change end
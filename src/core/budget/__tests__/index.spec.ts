@@ -0,0 +1,76 @@
+// kilocode_change - new file
+// npx vitest run src/core/budget/__tests__/index.spec.ts
+
+import type { SpendLedgerEntry } from "@roo-code/types"
+
+import { SPEND_LEDGER_WINDOW_MS, getRollingDaySpend, getSpendBudgetStatuses, pruneSpendLedger } from "../index"
+
+const now = 1_700_000_000_000
+
+const ledger: SpendLedgerEntry[] = [
+	{ ts: now - SPEND_LEDGER_WINDOW_MS - 1, cost: 10, profileId: "a" },
+	{ ts: now - 60_000, cost: 1, profileId: "a" },
+	{ ts: now - 30_000, cost: 2, profileId: "b" },
+	{ ts: now - 1_000, cost: 0.5 },
+]
+
+describe("pruneSpendLedger", () => {
+	it("drops entries older than a rolling day", () => {
+		expect(pruneSpendLedger(ledger, now)).toEqual(ledger.slice(1))
+	})
+})
+
+describe("getRollingDaySpend", () => {
+	it("sums the spend of the rolling day across all profiles", () => {
+		expect(getRollingDaySpend(ledger, now)).toBe(3.5)
+	})
+
+	it("sums the spend of a single profile", () => {
+		expect(getRollingDaySpend(ledger, now, "a")).toBe(1)
+		expect(getRollingDaySpend(ledger, now, "c")).toBe(0)
+	})
+})
+
+describe("getSpendBudgetStatuses", () => {
+	it("returns no statuses when no budgets are configured", () => {
+		expect(getSpendBudgetStatuses({ taskSpend: 100, ledger, now })).toEqual([])
+	})
+
+	it("ignores budgets without a positive limit", () => {
+		expect(getSpendBudgetStatuses({ taskSpend: 1, ledger, now, taskSpendLimit: 0, dailySpendLimit: null })).toEqual(
+			[],
+		)
+	})
+
+	it("checks the task, profile and daily budgets", () => {
+		expect(
+			getSpendBudgetStatuses({
+				taskSpend: 0.5,
+				ledger,
+				profileId: "b",
+				taskSpendLimit: 5,
+				dailySpendLimit: 4,
+				profileSpendLimits: { a: 1, b: 2 },
+				now,
+			}),
+		).toEqual([
+			{ scope: "task", spent: 0.5, limit: 5, warning: false, exceeded: false },
+			{ scope: "profile", spent: 2, limit: 2, warning: true, exceeded: true },
+			{ scope: "daily", spent: 3.5, limit: 4, warning: true, exceeded: false },
+		])
+	})
+
+	it("only checks the profile budget of the given profile", () => {
+		expect(
+			getSpendBudgetStatuses({ taskSpend: 0, ledger, profileSpendLimits: { a: 1 }, now }).map(
+				(status) => status.scope,
+			),
+		).toEqual([])
+	})
+
+	it("uses the configured warning percent", () => {
+		const [status] = getSpendBudgetStatuses({ taskSpend: 2.5, taskSpendLimit: 5, spendWarningPercent: 50, now })
+
+		expect(status).toMatchObject({ warning: true, exceeded: false })
+	})
+})
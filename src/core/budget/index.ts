@@ -0,0 +1,87 @@
+// kilocode_change - new file
+import type { GlobalSettings, SpendBudgetStatus, SpendLedgerEntry } from "@roo-code/types"
+
+export const SPEND_LEDGER_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_SPEND_WARNING_PERCENT = 80
+
+export type SpendBudgetState = Pick<
+	GlobalSettings,
+	| "listApiConfigMeta"
+	| "currentApiConfigName"
+	| "spendLedger"
+	| "taskSpendLimit"
+	| "dailySpendLimit"
+	| "profileSpendLimits"
+	| "spendWarningPercent"
+>
+
+export type SpendBudgetOptions = {
+	taskSpend: number
+	ledger?: SpendLedgerEntry[]
+	profileId?: string
+	taskSpendLimit?: number | null
+	dailySpendLimit?: number | null
+	profileSpendLimits?: Record<string, number>
+	spendWarningPercent?: number
+	now?: number
+}
+
+/**
+ * Drops the ledger entries that are older than the rolling day.
+ */
+export function pruneSpendLedger(ledger: SpendLedgerEntry[], now: number = Date.now()): SpendLedgerEntry[] {
+	return ledger.filter((entry) => now - entry.ts < SPEND_LEDGER_WINDOW_MS)
+}
+
+/**
+ * Sums up the spend of the rolling day, across all profiles or for a single one.
+ */
+export function getRollingDaySpend(ledger: SpendLedgerEntry[], now: number = Date.now(), profileId?: string): number {
+	return pruneSpendLedger(ledger, now)
+		.filter((entry) => profileId === undefined || entry.profileId === profileId)
+		.reduce((sum, entry) => sum + entry.cost, 0)
+}
+
+function getStatus(scope: SpendBudgetStatus["scope"], spent: number, limit: number, warningPercent: number) {
+	return {
+		scope,
+		spent,
+		limit,
+		warning: spent >= (limit * warningPercent) / 100,
+		exceeded: spent >= limit,
+	} satisfies SpendBudgetStatus
+}
+
+/**
+ * Checks the spend against each configured budget. Budgets without a positive limit are left out.
+ */
+export function getSpendBudgetStatuses({
+	taskSpend,
+	ledger = [],
+	profileId,
+	taskSpendLimit,
+	dailySpendLimit,
+	profileSpendLimits = {},
+	spendWarningPercent = DEFAULT_SPEND_WARNING_PERCENT,
+	now = Date.now(),
+}: SpendBudgetOptions): SpendBudgetStatus[] {
+	const statuses: SpendBudgetStatus[] = []
+	const profileSpendLimit = profileId ? profileSpendLimits[profileId] : undefined
+
+	if (taskSpendLimit && taskSpendLimit > 0) {
+		statuses.push(getStatus("task", taskSpend, taskSpendLimit, spendWarningPercent))
+	}
+
+	if (profileId && profileSpendLimit && profileSpendLimit > 0) {
+		statuses.push(
+			getStatus("profile", getRollingDaySpend(ledger, now, profileId), profileSpendLimit, spendWarningPercent),
+		)
+	}
+
+	if (dailySpendLimit && dailySpendLimit > 0) {
+		statuses.push(getStatus("daily", getRollingDaySpend(ledger, now), dailySpendLimit, spendWarningPercent))
+	}
+
+	return statuses
+}
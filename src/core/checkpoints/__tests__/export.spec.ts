@@ -0,0 +1,62 @@
+// kilocode_change - new file
+import type { ClineMessage } from "@roo-code/types"
+
+import { getCheckpointCommitMessage, getCheckpointExportSteps } from "../export"
+
+const say = (ts: number, sayType: ClineMessage["say"], text: string, partial?: boolean): ClineMessage => ({
+	ts,
+	type: "say",
+	say: sayType,
+	text,
+	partial,
+})
+
+describe("getCheckpointCommitMessage", () => {
+	it("uses the first line as the subject and the full text as the body", () => {
+		expect(getCheckpointCommitMessage(["Update the parser\nto handle tabs", "Done."], "fallback")).toBe(
+			"Update the parser\n\nUpdate the parser\nto handle tabs\n\nDone.",
+		)
+	})
+
+	it("uses a single line as is", () => {
+		expect(getCheckpointCommitMessage(["Fix the typo"], "fallback")).toBe("Fix the typo")
+	})
+
+	it("shortens long subjects", () => {
+		const subject = getCheckpointCommitMessage(["a".repeat(100)], "fallback").split("\n")[0]
+
+		expect(subject).toHaveLength(72)
+		expect(subject.endsWith("...")).toBe(true)
+	})
+
+	it("falls back when there is no text", () => {
+		expect(getCheckpointCommitMessage(["  "], "Checkpoint 1")).toBe("Checkpoint 1")
+	})
+})
+
+describe("getCheckpointExportSteps", () => {
+	it("creates a step per pair of checkpoints described by the assistant messages between them", () => {
+		const messages = [
+			say(1, "text", "Fix the bug in foo.ts"),
+			say(2, "checkpoint_saved", "aaa"),
+			say(3, "text", "I'll update foo.ts"),
+			say(4, "reasoning", "thinking"),
+			say(5, "checkpoint_saved", "bbb"),
+			say(6, "checkpoint_saved", "bbb"),
+			say(7, "text", "partial", true),
+			say(8, "checkpoint_saved", "ccc"),
+			say(9, "completion_result", "Fixed the bug"),
+			say(10, "checkpoint_saved", "ddd"),
+		]
+
+		expect(getCheckpointExportSteps(messages)).toEqual([
+			{ from: "aaa", to: "bbb", message: "I'll update foo.ts" },
+			{ from: "bbb", to: "ccc", message: "Checkpoint 2" },
+			{ from: "ccc", to: "ddd", message: "Fixed the bug" },
+		])
+	})
+
+	it("returns no steps without at least two checkpoints", () => {
+		expect(getCheckpointExportSteps([say(1, "checkpoint_saved", "aaa")])).toEqual([])
+	})
+})
@@ -0,0 +1,67 @@
+// kilocode_change - new file
+import type { ClineMessage } from "@roo-code/types"
+
+import type { CheckpointExportStep } from "../../services/checkpoints"
+
+const MAX_SUBJECT_LENGTH = 72
+
+function isAssistantText(message: ClineMessage) {
+	return (
+		message.type === "say" &&
+		(message.say === "text" || message.say === "completion_result") &&
+		!message.partial &&
+		!!message.text?.trim()
+	)
+}
+
+/**
+ * Builds a commit message from the assistant's messages: the first line becomes the subject,
+ * the full text the body.
+ */
+export function getCheckpointCommitMessage(texts: string[], fallback: string): string {
+	const text = texts
+		.map((t) => t.trim())
+		.filter(Boolean)
+		.join("\n\n")
+
+	if (!text) {
+		return fallback
+	}
+
+	const [firstLine] = text.split("\n")
+	const subject =
+		firstLine.length > MAX_SUBJECT_LENGTH ? `${firstLine.slice(0, MAX_SUBJECT_LENGTH - 3).trimEnd()}...` : firstLine
+
+	return subject === text ? subject : `${subject}\n\n${text}`
+}
+
+/**
+ * Turns the task's saved checkpoints into export steps, one per pair of consecutive checkpoints.
+ * Checkpoints are saved after the files are changed, so each step is described by the assistant's
+ * messages between the two checkpoints.
+ */
+export function getCheckpointExportSteps(messages: ClineMessage[]): CheckpointExportStep[] {
+	const checkpoints = messages.filter(({ say, text }) => say === "checkpoint_saved" && !!text)
+	const steps: CheckpointExportStep[] = []
+
+	for (let i = 1; i < checkpoints.length; i++) {
+		const previous = checkpoints[i - 1]
+		const current = checkpoints[i]
+
+		if (previous.text === current.text) {
+			continue
+		}
+
+		const texts = messages
+			.filter((message) => message.ts > previous.ts && message.ts <= current.ts && isAssistantText(message))
+			.map((message) => message.text!)
+
+		steps.push({
+			from: previous.text!,
+			to: current.text!,
+			message: getCheckpointCommitMessage(texts, `Checkpoint ${steps.length + 1}`),
+		})
+	}
+
+	return steps
+}
@@ -7,12 +7,20 @@ import { Task } from "../task/Task"
 
 import { getWorkspacePath } from "../../utils/path"
 
-import { ClineApiReqInfo } from "../../shared/ExtensionMessage"
+import { CheckpointFileChange, ClineApiReqInfo } from "../../shared/ExtensionMessage" // kilocode_change
 import { getApiMetrics } from "../../shared/getApiMetrics"
+import { t } from "../../i18n" // kilocode_change
 
 import { DIFF_VIEW_URI_SCHEME } from "../../integrations/editor/DiffViewProvider"
 
-import { CheckpointServiceOptions, RepoPerTaskCheckpointService } from "../../services/checkpoints"
+import {
+	CheckpointServiceOptions,
+	RepoPerTaskCheckpointService,
+	formatHunkHeader, // kilocode_change
+	getDiffHunks, // kilocode_change
+} from "../../services/checkpoints"
+
+import { getCheckpointExportSteps } from "./export" // kilocode_change
 
 export function getCheckpointService(cline: Task) {
 	if (!cline.enableCheckpoints) {
@@ -239,6 +247,153 @@ export async function checkpointRestore(cline: Task, { ts, commitHash, mode }: C
 	}
 }
 
+// kilocode_change start
+export type CheckpointFilesOptions = {
+	commitHash: string
+}
+
+/**
+ * Sends the files that differ between a checkpoint and the current workspace, split into hunks,
+ * to the webview so that they can be restored selectively.
+ */
+export async function checkpointFiles(cline: Task, { commitHash }: CheckpointFilesOptions) {
+	const service = await getInitializedCheckpointService(cline)
+
+	if (!service) {
+		return
+	}
+
+	const changes = await service.getDiff({ from: commitHash })
+
+	const files: CheckpointFileChange[] = changes.map(({ paths, content }) => ({
+		path: paths.relative,
+		hunks: getDiffHunks(content.before, content.after).map((hunk) => ({
+			header: formatHunkHeader(hunk),
+			lines: hunk.lines,
+		})),
+	}))
+
+	await cline.providerRef
+		.deref()
+		?.postMessageToWebview({ type: "checkpointFiles", checkpointFiles: { commitHash, files } })
+}
+
+export type CheckpointRestoreFilesOptions = {
+	commitHash: string
+	paths: string[]
+	hunkIndex?: number
+}
+
+/**
+ * Restores some files, or a single hunk of one file, to their state in a checkpoint.
+ * Unlike `checkpointRestore` this leaves the rest of the workspace, the checkpoint history and the
+ * task's conversation untouched.
+ */
+export async function checkpointRestoreFiles(
+	cline: Task,
+	{ commitHash, paths, hunkIndex }: CheckpointRestoreFilesOptions,
+) {
+	const service = await getInitializedCheckpointService(cline)
+
+	if (!service) {
+		return
+	}
+
+	if (hunkIndex !== undefined) {
+		await service.restoreHunk(commitHash, paths[0], hunkIndex)
+	} else {
+		await service.restoreFiles(commitHash, paths)
+	}
+
+	TelemetryService.instance.captureCheckpointRestored(cline.taskId)
+	await checkpointFiles(cline, { commitHash })
+}
+// kilocode_change end
+
+// kilocode_change start
+/**
+ * Exports the task's checkpoint history, either as a new branch in the workspace's git repository or
+ * as a numbered patch series, with one commit per checkpoint described by the assistant's messages.
+ */
+export async function checkpointExport(cline: Task) {
+	const service = await getInitializedCheckpointService(cline)
+
+	if (!service) {
+		vscode.window.showInformationMessage(t("common:checkpointExport.unavailable"))
+		return
+	}
+
+	const steps = getCheckpointExportSteps(cline.clineMessages)
+
+	if (steps.length === 0) {
+		vscode.window.showInformationMessage(t("common:checkpointExport.noChanges"))
+		return
+	}
+
+	const format = await vscode.window.showQuickPick(
+		[
+			{
+				id: "branch" as const,
+				label: t("common:checkpointExport.branch"),
+				description: t("common:checkpointExport.branchDescription"),
+			},
+			{
+				id: "patches" as const,
+				label: t("common:checkpointExport.patches"),
+				description: t("common:checkpointExport.patchesDescription"),
+			},
+		],
+		{ placeHolder: t("common:checkpointExport.pickFormat") },
+	)
+
+	if (!format) {
+		return
+	}
+
+	try {
+		if (format.id === "branch") {
+			const branchName = await vscode.window.showInputBox({
+				prompt: t("common:checkpointExport.branchPrompt"),
+				value: `softcodes/task-${cline.taskId.slice(0, 8)}`,
+			})
+
+			if (!branchName) {
+				return
+			}
+
+			const commits = await service.exportBranch(steps, branchName)
+
+			vscode.window.showInformationMessage(
+				t("common:checkpointExport.branchCreated", { branch: branchName, count: commits.length }),
+			)
+		} else {
+			const [folder] =
+				(await vscode.window.showOpenDialog({
+					canSelectFiles: false,
+					canSelectFolders: true,
+					canSelectMany: false,
+					defaultUri: vscode.Uri.file(service.workspaceDir),
+					openLabel: t("common:checkpointExport.selectFolder"),
+				})) ?? []
+
+			if (!folder) {
+				return
+			}
+
+			const patches = await service.exportPatches(steps, folder.fsPath)
+
+			vscode.window.showInformationMessage(
+				t("common:checkpointExport.patchesWritten", { count: patches.length, path: folder.fsPath }),
+			)
+		}
+	} catch (err) {
+		vscode.window.showErrorMessage(
+			t("common:checkpointExport.failed", { error: err instanceof Error ? err.message : String(err) }),
+		)
+	}
+}
+// kilocode_change end
+
 export type CheckpointDiffOptions = {
 	ts: number
 	previousCommitHash?: string
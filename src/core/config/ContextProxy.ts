@@ -31,6 +31,7 @@ const globalSettingsExportSchema = globalSettingsSchema.omit({
 	taskHistory: true,
 	listApiConfigMeta: true,
 	currentApiConfigName: true,
+	spendLedger: true, // kilocode_change
 })
 
 export class ContextProxy {
@@ -12,6 +12,7 @@ import { getWorkspacePath } from "../../utils/path"
 import { getGlobalRooDirectory, getProjectRooDirectoryForCwd /*kilocode_change*/ } from "../../services/roo-config"
 import { logger } from "../../utils/logging"
 import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getModeInheritanceChain } from "../../shared/modes" // kilocode_change
 import { ensureSettingsDirectoryExists } from "../../utils/globalContext"
 import { t } from "../../i18n"
 
@@ -424,6 +425,16 @@ export class CustomModesManager {
 				targetPath = await this.getCustomModesFilePath()
 			}
 
+			// kilocode_change start
+			const currentModes = await this.getCustomModes()
+			const updatedModes = [...currentModes.filter((mode) => mode.slug !== slug), config]
+			if (config.extends) {
+				// Throws for unknown parents and cycles, before anything is written
+				getModeInheritanceChain(config, updatedModes)
+			}
+			this.assertInheritanceKept(slug, currentModes, updatedModes)
+			// kilocode_change end
+
 			await this.queueWrite(async () => {
 				// Ensure source is set correctly based on target file.
 				const modeWithSource = {
@@ -493,7 +504,8 @@ export class CustomModesManager {
 		await this.onUpdate()
 	}
 
-	public async deleteCustomMode(slug: string): Promise<void> {
+	// kilocode_change: resolves to whether the mode was deleted
+	public async deleteCustomMode(slug: string): Promise<boolean> {
 		try {
 			const settingsPath = await this.getCustomModesFilePath()
 			const roomodesPath = await this.getWorkspaceRoomodes()
@@ -509,6 +521,15 @@ export class CustomModesManager {
 				throw new Error(t("common:customModes.errors.modeNotFound"))
 			}
 
+			// kilocode_change start
+			const currentModes = await this.mergeCustomModes(roomodesModes, settingsModes)
+			this.assertInheritanceKept(
+				slug,
+				currentModes,
+				currentModes.filter((m) => m.slug !== slug),
+			)
+			// kilocode_change end
+
 			await this.queueWrite(async () => {
 				// Delete from project first if it exists there
 				if (projectMode && roomodesPath) {
@@ -524,11 +545,47 @@ export class CustomModesManager {
 				this.clearCache()
 				await this.refreshMergedState()
 			})
+			return true // kilocode_change
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error)
 			vscode.window.showErrorMessage(t("common:customModes.errors.deleteFailed", { error: errorMessage }))
+			return false // kilocode_change
+		}
+	}
+
+	// kilocode_change start
+	/**
+	 * Throws when deleting or renaming a mode would leave modes that extend it without a parent,
+	 * so they never silently fall back to their own deltas
+	 */
+	private assertInheritanceKept(slug: string, currentModes: ModeConfig[], updatedModes: ModeConfig[]): void {
+		const resolves = (mode: ModeConfig, modes: ModeConfig[]) => {
+			try {
+				getModeInheritanceChain(mode, modes)
+				return true
+			} catch {
+				return false
+			}
+		}
+
+		const orphaned = updatedModes.filter(
+			(mode) =>
+				mode.slug !== slug &&
+				mode.extends &&
+				!resolves(mode, updatedModes) &&
+				resolves(currentModes.find((m) => m.slug === mode.slug) ?? mode, currentModes),
+		)
+
+		if (orphaned.length > 0) {
+			throw new Error(
+				t("common:customModes.errors.extendedByOtherModes", {
+					slug,
+					modes: orphaned.map((mode) => mode.slug).join(", "),
+				}),
+			)
 		}
 	}
+	// kilocode_change end
 
 	public async resetCustomModes(): Promise<void> {
 		try {
@@ -20,6 +20,7 @@ export const providerProfilesSchema = z.object({
 	currentApiConfigName: z.string(),
 	apiConfigs: z.record(z.string(), providerSettingsWithIdSchema),
 	modeApiConfigs: z.record(z.string(), z.string()).optional(),
+	fallbackApiConfigIds: z.array(z.string()).optional(), // kilocode_change
 	migrations: z
 		.object({
 			rateLimitSecondsMigrated: z.boolean().optional(),
@@ -345,6 +346,13 @@ export class ProviderSettingsManager {
 					throw new Error(`Cannot delete the last remaining configuration`)
 				}
 
+				// kilocode_change start
+				const id = providerProfiles.apiConfigs[name].id
+				providerProfiles.fallbackApiConfigIds = providerProfiles.fallbackApiConfigIds?.filter(
+					(fallbackId) => fallbackId !== id,
+				)
+				// kilocode_change end
+
 				delete providerProfiles.apiConfigs[name]
 				await this.store(providerProfiles)
 			})
@@ -401,6 +409,57 @@ export class ProviderSettingsManager {
 		}
 	}
 
+	// kilocode_change start
+	/**
+	 * Set the ordered list of profiles that tasks fail over to when the API requests of their profile keep
+	 * failing or exceed the model's context window.
+	 */
+	public async setFallbackConfigIds(ids: string[]) {
+		try {
+			return await this.lock(async () => {
+				const providerProfiles = await this.load()
+				const existingIds = new Set(Object.values(providerProfiles.apiConfigs).map((apiConfig) => apiConfig.id))
+				providerProfiles.fallbackApiConfigIds = [...new Set(ids)].filter((id) => existingIds.has(id))
+				await this.store(providerProfiles)
+			})
+		} catch (error) {
+			throw new Error(`Failed to set fallback configs: ${error}`)
+		}
+	}
+
+	/**
+	 * Get the IDs of the fallback profiles, in the order they are tried.
+	 */
+	public async getFallbackConfigIds(): Promise<string[]> {
+		try {
+			return await this.lock(async () => {
+				const { fallbackApiConfigIds } = await this.load()
+				return fallbackApiConfigIds ?? []
+			})
+		} catch (error) {
+			throw new Error(`Failed to get fallback configs: ${error}`)
+		}
+	}
+
+	/**
+	 * Get the fallback profiles in the order they are tried, skipping the ones that no longer exist.
+	 */
+	public async getFallbackProfiles(): Promise<(ProviderSettingsWithId & { name: string })[]> {
+		try {
+			return await this.lock(async () => {
+				const { apiConfigs, fallbackApiConfigIds = [] } = await this.load()
+
+				return fallbackApiConfigIds.flatMap((id) => {
+					const entry = Object.entries(apiConfigs).find(([_, apiConfig]) => apiConfig.id === id)
+					return entry ? [{ name: entry[0], ...entry[1] }] : []
+				})
+			})
+		} catch (error) {
+			throw new Error(`Failed to get fallback profiles: ${error}`)
+		}
+	}
+	// kilocode_change end
+
 	public async export() {
 		try {
 			return await this.lock(async () => {
@@ -770,6 +770,55 @@ describe("CustomModesManager", () => {
 
 			expect(mockShowError).toHaveBeenCalledWith("customModes.errors.deleteFailed")
 		})
+
+		// kilocode_change start
+		describe("with modes that extend other modes", () => {
+			const parentMode: ModeConfig = {
+				slug: "docs",
+				name: "Docs",
+				roleDefinition: "Writes docs",
+				groups: ["read"],
+			}
+			const childMode = { slug: "api-docs", name: "API Docs", roleDefinition: "", groups: [], extends: "docs" }
+			const codeOverride = { slug: "code", name: "Code", roleDefinition: "Custom code", groups: ["read"] }
+			const codeChild = { slug: "strict-code", name: "Strict", roleDefinition: "", groups: [], extends: "code" }
+
+			beforeEach(() => {
+				;(fs.readFile as Mock).mockImplementation(async (path: string) => {
+					if (path === mockSettingsPath) {
+						return yaml.stringify({ customModes: [parentMode, childMode, codeOverride, codeChild] })
+					}
+					throw new Error("File not found")
+				})
+			})
+
+			it("refuses to delete a mode that other modes extend", async () => {
+				await manager.deleteCustomMode("docs")
+
+				expect(vscode.window.showErrorMessage).toHaveBeenCalledWith("customModes.errors.deleteFailed")
+				expect(fs.writeFile).not.toHaveBeenCalledWith(mockSettingsPath, expect.anything(), "utf-8")
+			})
+
+			it("deletes an override whose children fall back to the built-in mode", async () => {
+				await manager.deleteCustomMode("code")
+
+				expect(vscode.window.showErrorMessage).not.toHaveBeenCalled()
+				const written = (fs.writeFile as Mock).mock.calls.find(([path]) => path === mockSettingsPath)
+				expect(yaml.parse(written![1]).customModes.map((m: ModeConfig) => m.slug)).toEqual([
+					"docs",
+					"api-docs",
+					"strict-code",
+				])
+			})
+
+			it("refuses to rename a mode that other modes extend", async () => {
+				await manager.updateCustomMode("docs", { ...parentMode, slug: "guides", source: "global" })
+
+				expect(vscode.window.showErrorMessage).toHaveBeenCalledWith("customModes.errors.updateFailed")
+				expect(fs.writeFile).not.toHaveBeenCalledWith(mockSettingsPath, expect.anything(), "utf-8")
+			})
+		})
+		// kilocode_change end
 	})
 
 	describe("updateModesInFile", () => {
@@ -90,6 +90,15 @@ describe("CustomModeSchema", () => {
 			expect(() => validateCustomMode(emptyRoleMode)).toThrow("Role definition is required")
 		})
 
+		// kilocode_change start
+		test("only requires a role definition and groups for modes that don't extend another mode", () => {
+			const extendingMode = { slug: "docs", name: "Docs", extends: "code", removeGroups: ["command"] }
+
+			expect(modeConfigSchema.parse(extendingMode)).toEqual({ ...extendingMode, roleDefinition: "", groups: [] })
+			expect(() => modeConfigSchema.parse({ slug: "docs", name: "Docs" })).toThrow("Groups are required")
+		})
+		// kilocode_change end
+
 		test("rejects invalid group configurations", () => {
 			const invalidGroupMode = {
 				slug: "123e4567-e89b-12d3-a456-426614174000",
@@ -593,4 +593,50 @@ describe("ProviderSettingsManager", () => {
 			)
 		})
 	})
+
+	// kilocode_change start
+	describe("FallbackConfigs", () => {
+		const existingConfig: ProviderProfiles = {
+			currentApiConfigName: "default",
+			apiConfigs: {
+				default: { id: "default-id", apiProvider: "anthropic" },
+				bedrock: { id: "bedrock-id", apiProvider: "bedrock" },
+				openrouter: { id: "openrouter-id", apiProvider: "openrouter" },
+			},
+			fallbackApiConfigIds: ["bedrock-id", "missing-id", "openrouter-id"],
+		}
+
+		it("should return the fallback profiles in order and skip missing ones", async () => {
+			mockSecrets.get.mockResolvedValue(JSON.stringify(existingConfig))
+
+			const profiles = await providerSettingsManager.getFallbackProfiles()
+
+			expect(profiles.map((profile) => profile.name)).toEqual(["bedrock", "openrouter"])
+			expect(profiles[0].apiProvider).toBe("bedrock")
+		})
+
+		it("should only store unique IDs of existing profiles", async () => {
+			mockSecrets.get.mockResolvedValue(JSON.stringify(existingConfig))
+
+			await providerSettingsManager.setFallbackConfigIds([
+				"openrouter-id",
+				"missing-id",
+				"openrouter-id",
+				"bedrock-id",
+			])
+
+			const storedConfig = JSON.parse(mockSecrets.store.mock.calls[0][1])
+			expect(storedConfig.fallbackApiConfigIds).toEqual(["openrouter-id", "bedrock-id"])
+		})
+
+		it("should remove a deleted profile from the fallback chain", async () => {
+			mockSecrets.get.mockResolvedValue(JSON.stringify(existingConfig))
+
+			await providerSettingsManager.deleteConfig("bedrock")
+
+			const storedConfig = JSON.parse(mockSecrets.store.mock.calls[0][1])
+			expect(storedConfig.fallbackApiConfigIds).toEqual(["missing-id", "openrouter-id"])
+		})
+	})
+	// kilocode_change end
 })
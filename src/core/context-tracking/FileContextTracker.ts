@@ -125,6 +125,18 @@ export class FileContextTracker {
 		return { files_in_context: [] }
 	}
 
+	// kilocode_change start
+	// Gets the workspace relative paths of the files the task has read or edited
+	async getFilesInContext(): Promise<string[]> {
+		if (!this.getContextProxy()) {
+			return []
+		}
+
+		const metadata = await this.getTaskMetadata(this.taskId)
+		return [...new Set(metadata.files_in_context.map((entry) => entry.path))]
+	}
+	// kilocode_change end
+
 	// Saves task metadata to storage
 	async saveTaskMetadata(taskId: string, metadata: TaskMetadata) {
 		try {
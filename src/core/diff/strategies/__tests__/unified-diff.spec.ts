@@ -0,0 +1,199 @@
+// kilocode_change - new file
+// npx vitest core/diff/strategies/__tests__/unified-diff.spec.ts
+
+import { UnifiedDiffStrategy, parsePatch } from "../unified-diff"
+
+const original = `function add(a, b) {
+	return a + b
+}
+
+function subtract(a, b) {
+	return a - b
+}
+
+function multiply(a, b) {
+	return a * b
+}
+`
+
+describe("UnifiedDiffStrategy", () => {
+	const strategy = new UnifiedDiffStrategy()
+
+	it("should apply hunks by their context", async () => {
+		const diff = `--- a/math.js
++++ b/math.js
+@@ -1,3 +1,3 @@
+ function add(a, b) {
+-	return a + b
++	return b + a
+ }
+@@ -9,3 +9,4 @@
+ function multiply(a, b) {
++	// Multiplies two numbers
+ 	return a * b
+ }`
+
+		const result = await strategy.applyDiff(original, diff)
+
+		expect(result).toEqual({
+			success: true,
+			content: original
+				.replace("a + b", "b + a")
+				.replace("{\n\treturn a * b", "{\n\t// Multiplies two numbers\n\treturn a * b"),
+			failParts: [],
+		})
+	})
+
+	it("should find hunks whose line numbers are off", async () => {
+		const diff = `@@ -40,3 +40,3 @@
+ function subtract(a, b) {
+-	return a - b
++	return b - a
+ }`
+
+		const result = await strategy.applyDiff(original, diff)
+
+		expect(result.success && result.content).toBe(original.replace("a - b", "b - a"))
+	})
+
+	it("should ignore whitespace differences and drop mismatched context", async () => {
+		const diff = `@@ -5,4 +5,4 @@
+ function subtract(a, b) {
+-    return a - b
++	return b - a
+ }
+ function multiply(a, b) {`
+
+		const result = await strategy.applyDiff(original, diff)
+
+		expect(result.success && result.content).toBe(original.replace("a - b", "b - a"))
+	})
+
+	it("should insert lines after the line named by an empty hunk", async () => {
+		const result = await strategy.applyDiff("a\nb\n", "@@ -1,0 +2 @@\n+inserted")
+
+		expect(result.success && result.content).toBe("a\ninserted\nb\n")
+	})
+
+	it("should keep Windows line endings", async () => {
+		const result = await strategy.applyDiff("a\r\nb\r\n", "@@ -1,2 +1,2 @@\n a\n-b\n+c")
+
+		expect(result.success && result.content).toBe("a\r\nc\r\n")
+	})
+
+	it("should report the hunks that failed to apply", async () => {
+		const diff = `@@ -1,3 +1,3 @@
+ function add(a, b) {
+-	return a + b
++	return b + a
+ }
+@@ -20,2 +20,2 @@
+-function divide(a, b) {
++function quotient(a, b) {`
+
+		const result = await strategy.applyDiff(original, diff)
+
+		expect(result.success).toBe(true)
+		expect(result.failParts).toHaveLength(1)
+		expect(result.failParts?.[0]).toMatchObject({
+			success: false,
+			error: expect.stringContaining("Hunk #2 (@@ -20,2 +20,2 @@)"),
+			details: { searchContent: "function divide(a, b) {", threshold: 1 },
+		})
+	})
+
+	it("should fail when no hunk applies or the diff has none", async () => {
+		const result = await strategy.applyDiff(original, "@@ -1 +1 @@\n-missing\n+found")
+
+		expect(result).toMatchObject({ success: false, error: "None of the 1 hunks could be applied" })
+		expect((await strategy.applyDiff(original, "just text")).success).toBe(false)
+	})
+
+	it("should accept similar lines within the fuzzy threshold", async () => {
+		const diff = "@@ -2 +2 @@\n-\treturn a + c\n+\treturn b + a"
+
+		expect((await strategy.applyDiff(original, diff)).success).toBe(false)
+
+		const result = await new UnifiedDiffStrategy(0.9).applyDiff(original, diff)
+
+		expect(result.success && result.content).toBe(original.replace("a + b", "b + a"))
+	})
+})
+
+describe("parsePatch", () => {
+	it("should split a multi-file unified diff", () => {
+		const patch = `diff --git a/src/a.ts b/src/a.ts
+index 1234567..89abcde 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1 +1 @@
+-old
++new
+diff --git a/src/b.ts b/src/b.ts
+new file mode 100644
+--- /dev/null
++++ b/src/b.ts
+@@ -0,0 +1,2 @@
++line 1
++line 2
+diff --git a/src/c.ts b/src/c.ts
+deleted file mode 100644
+--- a/src/c.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-gone
+diff --git a/src/d.ts b/src/e.ts
+similarity index 100%
+rename from src/d.ts
+rename to src/e.ts`
+
+		expect(parsePatch(patch)).toEqual([
+			{ type: "update", path: "src/a.ts", movePath: undefined, diff: "@@ -1 +1 @@\n-old\n+new" },
+			{ type: "add", path: "src/b.ts", content: "line 1\nline 2\n" },
+			{ type: "delete", path: "src/c.ts" },
+			{ type: "update", path: "src/d.ts", movePath: "src/e.ts", diff: "" },
+		])
+	})
+
+	it("should use the path parameter for bare hunks", () => {
+		expect(parsePatch("@@ -1 +1 @@\n-a\n+b", "notes.md")).toEqual([
+			{ type: "update", path: "notes.md", movePath: undefined, diff: "@@ -1 +1 @@\n-a\n+b" },
+		])
+		expect(() => parsePatch("@@ -1 +1 @@\n-a\n+b")).toThrow("without a file")
+	})
+
+	it("should read patch envelopes", () => {
+		const patch = `*** Begin Patch
+*** Add File: docs/new.md
++# New
+*** Update File: src/app.ts
+*** Move to: src/main.ts
+@@ function main
+-	start()
++	run()
+*** Delete File: src/legacy.ts
+*** End Patch`
+
+		expect(parsePatch(patch)).toEqual([
+			{ type: "add", path: "docs/new.md", content: "# New\n" },
+			{
+				type: "update",
+				path: "src/app.ts",
+				movePath: "src/main.ts",
+				diff: "@@ function main\n-\tstart()\n+\trun()",
+			},
+			{ type: "delete", path: "src/legacy.ts" },
+		])
+	})
+
+	it("should apply envelope hunks after their anchor", async () => {
+		const content = "function a() {\n\tstart()\n}\nfunction main() {\n\tstart()\n}\n"
+		const [patch] = parsePatch(
+			"*** Begin Patch\n*** Update File: x.ts\n@@ function main\n-\tstart()\n+\trun()\n*** End Patch",
+		)
+
+		const result = await new UnifiedDiffStrategy().applyDiff(content, patch.type === "update" ? patch.diff : "")
+
+		expect(result.success && result.content).toBe("function a() {\n\tstart()\n}\nfunction main() {\n\trun()\n}\n")
+	})
+})
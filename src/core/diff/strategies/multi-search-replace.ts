@@ -36,7 +36,8 @@ function getSimilarity(original: string, search: string): number {
  * Performs a "middle-out" search of `lines` (between [startIndex, endIndex]) to find
  * the slice that is most similar to `searchChunk`. Returns the best score, index, and matched text.
  */
-function fuzzySearch(lines: string[], searchChunk: string, startIndex: number, endIndex: number) {
+export function fuzzySearch(lines: string[], searchChunk: string, startIndex: number, endIndex: number) {
+	// kilocode_change: exported for the unified diff strategy
 	let bestScore = 0
 	let bestMatchIndex = -1
 	let bestMatchContent = ""
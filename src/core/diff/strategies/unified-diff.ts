@@ -0,0 +1,470 @@
+// kilocode_change - new file
+import { ToolProgressStatus } from "@roo-code/types"
+
+import { ToolUse, DiffStrategy, DiffResult } from "../../../shared/tools"
+import { fuzzySearch } from "./multi-search-replace"
+
+const MAX_CONTEXT_FUZZ = 2 // Context lines that may be dropped from each end of a hunk, like `patch --fuzz`
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/
+const BUFFER_LINES = 40 // Lines around the expected position searched for a fuzzy match
+
+type Hunk = {
+	header: string
+	/** 1-based line of the hunk in the original file, from `@@ -start,count +start,count @@` */
+	oldStart?: number
+	/** Text after a bare `@@`, like the class or function the hunk is in */
+	anchor?: string
+	/** Hunk lines, each starting with ` `, `-` or `+` */
+	lines: string[]
+}
+
+export type FilePatch =
+	| { type: "add"; path: string; content: string }
+	| { type: "delete"; path: string }
+	| { type: "update"; path: string; movePath?: string; diff: string }
+
+function parseHunks(diff: string): Hunk[] {
+	const hunks: Hunk[] = []
+	let current: Hunk | undefined
+	let blankLines = 0
+
+	for (const line of diff.split(/\r?\n/)) {
+		if (line.startsWith("@@")) {
+			const match = HUNK_HEADER.exec(line)
+			const anchor = match ? undefined : line.replace(/^@@\s*/, "").replace(/\s*@@$/, "")
+
+			// A hunk that only adds lines names the line it goes after rather than the line it starts at
+			const oldStart = match ? Number(match[1]) + (match[2] === "0" ? 1 : 0) : undefined
+
+			current = { header: line, oldStart, anchor: anchor || undefined, lines: [] }
+			hunks.push(current)
+			blankLines = 0
+			continue
+		}
+
+		if (!current || line.startsWith("\\") || line === "*** End of File") {
+			continue
+		}
+
+		// Blank lines are context the model didn't prefix with a space, unless they trail the hunk
+		if (line === "") {
+			blankLines++
+			continue
+		}
+
+		current.lines.push(...Array<string>(blankLines).fill(" "))
+		blankLines = 0
+		current.lines.push(/^[ +-]/.test(line) ? line : ` ${line}`)
+	}
+
+	return hunks.filter((hunk) => hunk.lines.length > 0)
+}
+
+function trimContext(hunkLines: string[], fuzz: number): string[] {
+	let start = 0
+	let end = hunkLines.length
+
+	while (start < fuzz && hunkLines[start]?.startsWith(" ")) {
+		start++
+	}
+
+	while (hunkLines.length - end < fuzz && end > start && hunkLines[end - 1].startsWith(" ")) {
+		end--
+	}
+
+	return hunkLines.slice(start, end)
+}
+
+const LINE_COMPARISONS: Array<(a: string, b: string) => boolean> = [
+	(a, b) => a === b,
+	(a, b) => a.trimEnd() === b.trimEnd(),
+	(a, b) => a.trim() === b.trim(),
+]
+
+function findMatches(lines: string[], oldLines: string[], equals: (a: string, b: string) => boolean): number[] {
+	const matches: number[] = []
+
+	for (let i = 0; i + oldLines.length <= lines.length; i++) {
+		if (oldLines.every((oldLine, j) => equals(lines[i + j], oldLine))) {
+			matches.push(i)
+		}
+	}
+
+	return matches
+}
+
+function pickMatch(matches: number[], expected: number | undefined, cursor: number): number {
+	if (expected !== undefined) {
+		return matches.reduce((best, i) => (Math.abs(i - expected) < Math.abs(best - expected) ? i : best))
+	}
+
+	return matches.find((i) => i >= cursor) ?? matches[0]
+}
+
+/**
+ * Applies unified diffs, the format `git diff` prints. Hunks are located by their context and removed lines rather
+ * than trusting the line numbers in their headers, so hunks still apply after earlier edits moved the code. When the
+ * lines don't match exactly, whitespace differences are ignored, up to two context lines are dropped from each end of
+ * the hunk, and finally the most similar block is used if it passes the fuzzy match threshold.
+ */
+export class UnifiedDiffStrategy implements DiffStrategy {
+	private fuzzyThreshold: number
+	private bufferLines: number
+
+	getName(): string {
+		return "UnifiedDiff"
+	}
+
+	constructor(fuzzyThreshold?: number, bufferLines?: number) {
+		this.fuzzyThreshold = fuzzyThreshold ?? 1.0
+		this.bufferLines = bufferLines ?? BUFFER_LINES
+	}
+
+	getToolDescription(args: { cwd: string; toolOptions?: { [key: string]: string } }): string {
+		return `## apply_diff
+Description: Request to change files by applying a patch in unified diff format, like the output of \`git diff\`. A single patch can modify, create, delete and rename several files.
+Each hunk is located by its context and removed lines, so include 2-3 unchanged context lines before and after every change and copy them exactly from the file. The line numbers in the \`@@\` headers are used as a hint only.
+If you're not confident in the exact content of the file, use the read_file tool first.
+ALWAYS make as many changes in a single 'apply_diff' request as possible, using multiple hunks and files.
+
+Parameters:
+- diff: (required) The patch. Every file starts with \`--- a/path\` and \`+++ b/path\` lines (relative to the current workspace directory ${args.cwd}), followed by its hunks. Use \`--- /dev/null\` to create a file and \`+++ /dev/null\` to delete one. Rename a file by giving the new path in the \`+++\` line.
+- path: (optional) The file to patch when the diff has no \`---\`/\`+++\` file headers.
+
+Example:
+
+\`\`\`
+--- a/src/utils.py
++++ b/src/utils.py
+@@ -1,5 +1,4 @@
+ def calculate_total(items):
+-    total = 0
+-    for item in items:
+-        total += item
+-    return total
++    """Calculate total with 10% markup"""
++    return sum(item * 1.1 for item in items)
+--- /dev/null
++++ b/src/constants.py
+@@ -0,0 +1 @@
++MARKUP = 1.1
+--- a/src/old_helpers.py
++++ /dev/null
+\`\`\`
+
+Usage:
+<apply_diff>
+<diff>
+Your patch here
+</diff>
+</apply_diff>`
+	}
+
+	async applyDiff(originalContent: string, diffContent: string, startLine?: number): Promise<DiffResult> {
+		const hunks = parseHunks(diffContent)
+
+		if (hunks.length === 0) {
+			return {
+				success: false,
+				error: "The diff contains no hunks. Every change has to start with a `@@ -start,count +start,count @@` header, followed by context lines starting with a space, removed lines starting with `-` and added lines starting with `+`.",
+			}
+		}
+
+		const eol = originalContent.includes("\r\n") ? "\r\n" : "\n"
+		const lines = originalContent.split(/\r?\n/)
+		const failParts: DiffResult[] = []
+		let offset = 0
+		let cursor = 0
+
+		for (const [index, hunk] of hunks.entries()) {
+			let expected: number | undefined
+
+			if (hunk.oldStart !== undefined) {
+				expected = Math.max(hunk.oldStart - 1 + offset, 0)
+			} else if (hunk.anchor) {
+				const anchorIndex = lines.findIndex((line, i) => i >= cursor && line.includes(hunk.anchor!.trim()))
+				expected = anchorIndex === -1 ? undefined : anchorIndex + 1
+			} else if (index === 0 && startLine && !isNaN(startLine)) {
+				expected = startLine - 1
+			}
+
+			const result = this.applyHunk(lines, hunk, expected, cursor)
+
+			if (!result.success) {
+				failParts.push({ ...result, error: `Hunk #${index + 1} (${hunk.header}): ${result.error}` })
+				continue
+			}
+
+			offset += result.delta
+			cursor = result.end
+		}
+
+		if (failParts.length === hunks.length) {
+			return {
+				success: false,
+				error: `None of the ${hunks.length} hunks could be applied`,
+				failParts,
+			}
+		}
+
+		return { success: true, content: lines.join(eol), failParts }
+	}
+
+	/**
+	 * Applies a hunk to `lines` in place, returning how many lines it added and where it ended.
+	 */
+	private applyHunk(
+		lines: string[],
+		hunk: Hunk,
+		expected: number | undefined,
+		cursor: number,
+	): { success: true; delta: number; end: number } | (DiffResult & { success: false; error: string }) {
+		const replace = (start: number, hunkLines: string[]) => {
+			const replacement: string[] = []
+			let j = start
+
+			for (const line of hunkLines) {
+				if (line.startsWith("+")) {
+					replacement.push(line.slice(1))
+				} else {
+					// Keep the file's own version of context lines, they may differ in whitespace
+					if (line.startsWith(" ")) {
+						replacement.push(lines[j])
+					}
+
+					j++
+				}
+			}
+
+			lines.splice(start, j - start, ...replacement)
+			return { success: true as const, delta: replacement.length - (j - start), end: start + replacement.length }
+		}
+
+		const toOldLines = (hunkLines: string[]) => hunkLines.filter((l) => !l.startsWith("+")).map((l) => l.slice(1))
+
+		if (toOldLines(hunk.lines).length === 0) {
+			// A pure insertion like `@@ -0,0 +1,3 @@` goes where its header says
+			return replace(Math.min(expected ?? lines.length, lines.length), hunk.lines)
+		}
+
+		for (let fuzz = 0; fuzz <= MAX_CONTEXT_FUZZ; fuzz++) {
+			const hunkLines = trimContext(hunk.lines, fuzz)
+			const oldLines = toOldLines(hunkLines)
+
+			if (oldLines.length === 0) {
+				break
+			}
+
+			for (const equals of LINE_COMPARISONS) {
+				const matches = findMatches(lines, oldLines, equals)
+
+				if (matches.length > 0) {
+					return replace(pickMatch(matches, expected, cursor), hunkLines)
+				}
+			}
+		}
+
+		const oldLines = toOldLines(hunk.lines)
+		const searchContent = oldLines.join("\n")
+		const searchStart = expected === undefined ? 0 : Math.max(expected - this.bufferLines, 0)
+		const searchEnd =
+			expected === undefined
+				? lines.length
+				: Math.min(expected + oldLines.length + this.bufferLines, lines.length)
+		const { bestScore, bestMatchIndex, bestMatchContent } = fuzzySearch(
+			lines,
+			searchContent,
+			searchStart,
+			searchEnd,
+		)
+
+		if (bestMatchIndex !== -1 && bestScore >= this.fuzzyThreshold) {
+			return replace(bestMatchIndex, hunk.lines)
+		}
+
+		return {
+			success: false,
+			error: `No sufficiently similar lines found (${Math.floor(bestScore * 100)}% similar, needs ${Math.floor(this.fuzzyThreshold * 100)}%). Use the read_file tool to get the current content of the file and retry with its exact lines.`,
+			details: {
+				similarity: bestScore,
+				threshold: this.fuzzyThreshold,
+				searchContent,
+				bestMatch: bestMatchContent || undefined,
+			},
+		}
+	}
+
+	getProgressStatus(toolUse: ToolUse, result?: DiffResult): ToolProgressStatus {
+		const diffContent = toolUse.params.diff
+
+		if (!diffContent) {
+			return {}
+		}
+
+		const icon = "diff-multiple"
+		const hunkCount = (diffContent.match(/^@@/gm) || []).length
+
+		if (toolUse.partial) {
+			return Math.floor(diffContent.length / 10) % 10 === 0 ? { icon, text: `${hunkCount}` } : {}
+		}
+
+		if (result?.failParts?.length) {
+			return { icon, text: `${hunkCount - result.failParts.length}/${hunkCount}` }
+		}
+
+		return result ? { icon, text: `${hunkCount}` } : {}
+	}
+}
+
+function parseHeaderPath(header: string): string | undefined {
+	const filePath = header
+		.replace(/\t.*$/, "")
+		.trim()
+		.replace(/^"(.*)"$/, "$1")
+	return filePath === "/dev/null" ? undefined : filePath
+}
+
+function stripGitPrefixes(oldPath: string | undefined, newPath: string | undefined) {
+	const isGitStyle = (!oldPath || oldPath.startsWith("a/")) && (!newPath || newPath.startsWith("b/"))
+	return isGitStyle ? { oldPath: oldPath?.slice(2), newPath: newPath?.slice(2) } : { oldPath, newPath }
+}
+
+function parsePatchEnvelope(lines: string[]): FilePatch[] {
+	const patches: FilePatch[] = []
+	let current: { type: FilePatch["type"]; path: string; movePath?: string; body: string[] } | undefined
+
+	const finish = () => {
+		if (current?.type === "add") {
+			patches.push({
+				type: "add",
+				path: current.path,
+				content: current.body.map((l) => l.replace(/^\+/, "")).join("\n") + "\n",
+			})
+		} else if (current?.type === "delete") {
+			patches.push({ type: "delete", path: current.path })
+		} else if (current) {
+			const hasHunks = current.body.some((l) => l.startsWith("@@"))
+			const diff = (hasHunks ? current.body : ["@@", ...current.body]).join("\n")
+			patches.push({ type: "update", path: current.path, movePath: current.movePath, diff })
+		}
+
+		current = undefined
+	}
+
+	for (const line of lines) {
+		const fileHeader = /^\*\*\* (Add|Delete|Update) File:\s*(.+)$/.exec(line)
+		const moveHeader = /^\*\*\* Move to:\s*(.+)$/.exec(line)
+
+		if (fileHeader) {
+			finish()
+			current = { type: fileHeader[1].toLowerCase() as FilePatch["type"], path: fileHeader[2].trim(), body: [] }
+		} else if (moveHeader && current?.type === "update") {
+			current.movePath = moveHeader[1].trim()
+		} else if (/^\*\*\* (Begin|End) Patch/.test(line)) {
+			finish()
+		} else if (current && line !== "*** End of File") {
+			current.body.push(line)
+		}
+	}
+
+	finish()
+	return patches
+}
+
+function parseUnifiedDiff(lines: string[], defaultPath?: string): FilePatch[] {
+	const patches: FilePatch[] = []
+	let current:
+		| {
+				oldPath?: string
+				newPath?: string
+				isNew?: boolean
+				isDeleted?: boolean
+				hasFileHeaders?: boolean
+				body: string[]
+		  }
+		| undefined
+
+	const finish = () => {
+		if (!current) {
+			return
+		}
+
+		const { oldPath, newPath, body } = current
+		const isAdd = current.isNew || (!oldPath && !!newPath)
+		const isDelete = current.isDeleted || (!!oldPath && !newPath)
+
+		if (isAdd && newPath) {
+			const content = body.filter((l) => l.startsWith("+")).map((l) => l.slice(1))
+			const hasTrailingNewline = !body.some((l) => l.startsWith("\\"))
+			patches.push({ type: "add", path: newPath, content: content.join("\n") + (hasTrailingNewline ? "\n" : "") })
+		} else if (isDelete && oldPath) {
+			patches.push({ type: "delete", path: oldPath })
+		} else if (oldPath) {
+			const movePath = newPath && newPath !== oldPath ? newPath : undefined
+			patches.push({ type: "update", path: oldPath, movePath, diff: body.join("\n") })
+		} else {
+			throw new Error("Found changes without a file, start every file with `--- a/path` and `+++ b/path` lines")
+		}
+
+		current = undefined
+	}
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]
+		const inHunk = current?.body.some((l) => l.startsWith("@@")) ?? false
+
+		if (line.startsWith("diff --git ")) {
+			finish()
+			const paths = /^diff --git "?(a\/.+?)"? "?(b\/.+?)"?$/.exec(line)
+			current = { ...stripGitPrefixes(paths?.[1], paths?.[2]), body: [] }
+		} else if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+			// After `diff --git` the `---`/`+++` lines belong to the same file, otherwise they start a new one
+			if (current && (inHunk || current.hasFileHeaders || current.body.length > 0)) {
+				finish()
+			}
+
+			const paths = stripGitPrefixes(parseHeaderPath(line.slice(4)), parseHeaderPath(lines[i + 1].slice(4)))
+			current = { ...current, ...paths, hasFileHeaders: true, body: [] }
+			i++
+		} else if (current && !inHunk && /^(new|deleted) file mode/.test(line)) {
+			current[line.startsWith("new") ? "isNew" : "isDeleted"] = true
+		} else if (current && !inHunk && /^rename (from|to) /.test(line)) {
+			current[line.startsWith("rename from") ? "oldPath" : "newPath"] = line.replace(/^rename (from|to) /, "")
+		} else if (
+			current &&
+			!inHunk &&
+			/^(index|similarity index|dissimilarity index|old mode|new mode) /.test(line)
+		) {
+			continue
+		} else if (current) {
+			current.body.push(line)
+		} else if (line.startsWith("@@")) {
+			// A bare list of hunks applies to the file named in the `path` parameter
+			current = { oldPath: defaultPath, newPath: defaultPath, body: [line] }
+		}
+	}
+
+	finish()
+	return patches
+}
+
+/**
+ * Splits a patch into the files it adds, deletes and updates. Both unified diffs and `*** Begin Patch` envelopes
+ * (with `*** Add File:`, `*** Update File:`, `*** Move to:` and `*** Delete File:` sections) are understood.
+ * Throws when the patch doesn't name the files it changes.
+ */
+export function parsePatch(patch: string, defaultPath?: string): FilePatch[] {
+	const lines = patch
+		.replace(/^\s*```[^\n]*\n/, "")
+		.replace(/\n```\s*$/, "")
+		.split(/\r?\n/)
+	const patches = lines.some((line) => /^\*\*\* (Begin Patch|(Add|Delete|Update) File:)/.test(line))
+		? parsePatchEnvelope(lines)
+		: parseUnifiedDiff(lines, defaultPath)
+
+	if (patches.length === 0) {
+		throw new Error("The patch doesn't change any files")
+	}
+
+	return patches
+}
@@ -134,6 +134,10 @@ describe("getEnvironmentDetails", () => {
 		;(TerminalRegistry.getBackgroundTerminals as Mock).mockReturnValue([])
 		;(TerminalRegistry.isProcessHot as Mock).mockReturnValue(false)
 		;(TerminalRegistry.getUnretrievedOutput as Mock).mockReturnValue("")
+		// kilocode_change start
+		;(TerminalRegistry.getBackgroundProcesses as Mock).mockReturnValue([])
+		;(TerminalRegistry.isRunningBackgroundProcess as Mock).mockReturnValue(false)
+		// kilocode_change end
 		vi.mocked(pWaitFor).mockResolvedValue(undefined)
 		vi.mocked(delay).mockResolvedValue(undefined)
 	})
@@ -242,6 +246,31 @@ describe("getEnvironmentDetails", () => {
 		expect(vi.mocked(pWaitFor)).toHaveBeenCalled()
 	})
 
+	// kilocode_change start
+	it("should list background processes instead of reading their terminals", async () => {
+		const mockActiveTerminal = {
+			id: "terminal-1",
+			getLastCommand: vi.fn().mockReturnValue("npm run dev"),
+			getProcessesWithOutput: vi.fn().mockReturnValue([]),
+			getCurrentWorkingDirectory: vi.fn().mockReturnValue("/test/path"),
+		} as MockTerminal
+
+		;(TerminalRegistry.getTerminals as Mock).mockImplementation((active: boolean) =>
+			active ? [mockActiveTerminal] : [],
+		)
+		;(TerminalRegistry.isRunningBackgroundProcess as Mock).mockReturnValue(true)
+		;(TerminalRegistry.getBackgroundProcesses as Mock).mockReturnValue([
+			{ name: "dev-server", command: "npm run dev", completed: false, output: "ready", readIndex: 0 },
+		])
+
+		const result = await getEnvironmentDetails(mockCline as Task)
+
+		expect(result).not.toContain("# Actively Running Terminals")
+		expect(TerminalRegistry.getUnretrievedOutput).not.toHaveBeenCalled()
+		expect(result).toContain("# Background Processes\n- dev-server (running, has unread output): `npm run dev`")
+	})
+	// kilocode_change end
+
 	it("should include inactive terminals with output", async () => {
 		const mockProcess = {
 			command: "npm build",
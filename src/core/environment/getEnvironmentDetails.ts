@@ -22,6 +22,7 @@ import { formatReminderSection } from "./reminder"
 
 // kilocode_change start
 import { OpenRouterHandler } from "../../api/providers/openrouter"
+import { unwrapApiHandler } from "../../api/providers/recording"
 import { TelemetryService } from "@roo-code/telemetry"
 import { t } from "../../i18n"
 // kilocode_change end
@@ -79,7 +80,7 @@ export async function getEnvironmentDetails(cline: Task, includeFileDetails: boo
 	const busyTerminals = [
 		...TerminalRegistry.getTerminals(true, cline.taskId),
 		...TerminalRegistry.getBackgroundTerminals(true),
-	]
+	].filter((terminal) => !TerminalRegistry.isRunningBackgroundProcess(terminal)) // kilocode_change
 
 	const inactiveTerminals = [
 		...TerminalRegistry.getTerminals(false, cline.taskId),
@@ -165,6 +166,19 @@ export async function getEnvironmentDetails(cline: Task, includeFileDetails: boo
 		}
 	}
 
+	// kilocode_change start
+	const backgroundProcesses = TerminalRegistry.getBackgroundProcesses(cline.taskId)
+
+	if (backgroundProcesses.length > 0) {
+		terminalDetails += "\n\n# Background Processes"
+
+		for (const { name, command, completed, output, readIndex } of backgroundProcesses) {
+			const unread = output.length > readIndex ? ", has unread output" : ""
+			terminalDetails += `\n- ${name} (${completed ? "exited" : "running"}${unread}): \`${command}\``
+		}
+	}
+	// kilocode_change end
+
 	// console.log(`[Task#getEnvironmentDetails] terminalDetails: ${terminalDetails}`)
 
 	// Add recently modified files section.
@@ -208,9 +222,11 @@ export async function getEnvironmentDetails(cline: Task, includeFileDetails: boo
 
 	// kilocode_change start
 	// Be sure to fetch the model information before we need it.
-	if (cline.api instanceof OpenRouterHandler) {
+	const api = unwrapApiHandler(cline.api)
+
+	if (api instanceof OpenRouterHandler) {
 		try {
-			await cline.api.fetchModel()
+			await api.fetchModel()
 		} catch (e) {
 			TelemetryService.instance.captureException(e, { context: "getEnvironmentDetails" })
 			await cline.say(
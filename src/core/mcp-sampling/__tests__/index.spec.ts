@@ -0,0 +1,104 @@
+// kilocode_change - new file
+import { ApiHandler } from "../../../api"
+import { createSamplingMessage, summarizeSamplingRequest, toAnthropicMessages } from ".."
+
+const modelInfo = { contextWindow: 1000, supportsPromptCache: false, inputPrice: 1, outputPrice: 2 }
+
+function createApiHandler(chunks: any[]): ApiHandler {
+	return {
+		createMessage: vi.fn().mockImplementation(async function* () {
+			yield* chunks
+		}),
+		getModel: vi.fn().mockReturnValue({ id: "test-model", info: modelInfo }),
+		countTokens: vi.fn(),
+	} as unknown as ApiHandler
+}
+
+describe("summarizeSamplingRequest", () => {
+	it("keeps text and replaces media with placeholders", () => {
+		expect(
+			summarizeSamplingRequest({
+				systemPrompt: "Be brief",
+				maxTokens: 100,
+				messages: [
+					{ role: "user", content: { type: "text", text: "Summarize this" } },
+					{ role: "user", content: { type: "image", data: "abc", mimeType: "image/png" } },
+				],
+			}),
+		).toEqual({
+			systemPrompt: "Be brief",
+			maxTokens: 100,
+			messages: [
+				{ role: "user", text: "Summarize this" },
+				{ role: "user", text: "[Image: image/png]" },
+			],
+		})
+	})
+})
+
+describe("toAnthropicMessages", () => {
+	it("converts text, image and audio content", () => {
+		expect(
+			toAnthropicMessages([
+				{ role: "user", content: { type: "text", text: "hi" } },
+				{ role: "user", content: { type: "image", data: "abc", mimeType: "image/png" } },
+				{ role: "assistant", content: { type: "audio", data: "xyz", mimeType: "audio/wav" } },
+			]),
+		).toEqual([
+			{ role: "user", content: [{ type: "text", text: "hi" }] },
+			{
+				role: "user",
+				content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: "abc" } }],
+			},
+			{ role: "assistant", content: [{ type: "text", text: "[Audio: audio/wav]" }] },
+		])
+	})
+})
+
+describe("createSamplingMessage", () => {
+	const params = {
+		systemPrompt: "Be brief",
+		maxTokens: 100,
+		messages: [{ role: "user" as const, content: { type: "text" as const, text: "hi" } }],
+	}
+
+	it("streams the completion and reports the provider's cost", async () => {
+		const apiHandler = createApiHandler([
+			{ type: "text", text: "Hello" },
+			{ type: "text", text: " there" },
+			{ type: "usage", inputTokens: 10, outputTokens: 5, totalCost: 0.25 },
+		])
+
+		const { result, usage } = await createSamplingMessage(apiHandler, params, { taskId: "task-1" })
+
+		expect(apiHandler.createMessage).toHaveBeenCalledWith(
+			"Be brief",
+			[{ role: "user", content: [{ type: "text", text: "hi" }] }],
+			{ taskId: "task-1" },
+		)
+		expect(result).toEqual({
+			model: "test-model",
+			role: "assistant",
+			content: { type: "text", text: "Hello there" },
+			stopReason: "endTurn",
+		})
+		expect(usage).toEqual({ tokensIn: 10, tokensOut: 5, cacheWrites: 0, cacheReads: 0, cost: 0.25 })
+	})
+
+	it("calculates the cost from the model prices when the provider does not report it", async () => {
+		const apiHandler = createApiHandler([
+			{ type: "text", text: "ok" },
+			{ type: "usage", inputTokens: 1_000_000, outputTokens: 1_000_000 },
+		])
+
+		const { usage } = await createSamplingMessage(apiHandler, params)
+
+		expect(usage.cost).toBe(3)
+	})
+
+	it("throws when the stream reports an error", async () => {
+		const apiHandler = createApiHandler([{ type: "error", error: "boom", message: "Provider failed" }])
+
+		await expect(createSamplingMessage(apiHandler, params)).rejects.toThrow("Provider failed")
+	})
+})
@@ -0,0 +1,117 @@
+// kilocode_change - new file
+import { Anthropic } from "@anthropic-ai/sdk"
+import type { CreateMessageRequest, CreateMessageResult, SamplingMessage } from "@modelcontextprotocol/sdk/types.js"
+
+import type { McpSamplingUsage } from "@roo-code/types"
+
+import { ApiHandler, ApiHandlerCreateMessageMetadata } from "../../api"
+import { calculateApiCostAnthropic } from "../../shared/cost"
+import { McpSamplingRequest } from "../../shared/mcp"
+
+export type McpSamplingParams = CreateMessageRequest["params"]
+
+export type McpSamplingResponse = {
+	result: CreateMessageResult
+	usage: McpSamplingUsage
+}
+
+function describeMediaContent(content: Exclude<SamplingMessage["content"], { type: "text" }>): string {
+	return `[${content.type === "image" ? "Image" : "Audio"}: ${content.mimeType}]`
+}
+
+/**
+ * Summarizes a sampling request for the approval prompt shown in the chat.
+ */
+export function summarizeSamplingRequest(params: McpSamplingParams): McpSamplingRequest {
+	return {
+		systemPrompt: params.systemPrompt,
+		messages: params.messages.map(({ role, content }) => ({
+			role,
+			text: content.type === "text" ? content.text : describeMediaContent(content),
+		})),
+		maxTokens: params.maxTokens,
+	}
+}
+
+/**
+ * Converts MCP sampling messages into the Anthropic message format used by every ApiHandler.
+ * Audio is not supported by the providers, so it is passed on as a placeholder.
+ */
+export function toAnthropicMessages(messages: SamplingMessage[]): Anthropic.Messages.MessageParam[] {
+	return messages.map(({ role, content }) => {
+		if (content.type === "text") {
+			return { role, content: [{ type: "text", text: content.text }] }
+		}
+		if (content.type === "image" && role === "user") {
+			return {
+				role,
+				content: [
+					{
+						type: "image",
+						source: {
+							type: "base64",
+							media_type: content.mimeType as Anthropic.Messages.Base64ImageSource["media_type"],
+							data: content.data,
+						},
+					},
+				],
+			}
+		}
+		return { role, content: [{ type: "text", text: describeMediaContent(content) }] }
+	})
+}
+
+/**
+ * Answers a sampling/createMessage request from an MCP server with the given API handler.
+ * The server's model preferences, temperature and stop sequences are advisory and are not forwarded;
+ * the model and limits of the selected API configuration apply.
+ * @returns The result to send back to the server and the usage to record against the task
+ */
+export async function createSamplingMessage(
+	apiHandler: ApiHandler,
+	params: McpSamplingParams,
+	metadata?: ApiHandlerCreateMessageMetadata,
+): Promise<McpSamplingResponse> {
+	const stream = apiHandler.createMessage(params.systemPrompt ?? "", toAnthropicMessages(params.messages), metadata)
+
+	let text = ""
+	let inputTokens = 0
+	let outputTokens = 0
+	let cacheWriteTokens = 0
+	let cacheReadTokens = 0
+	let totalCost: number | undefined
+
+	for await (const chunk of stream) {
+		if (chunk.type === "text") {
+			text += chunk.text
+		} else if (chunk.type === "usage") {
+			inputTokens += chunk.inputTokens
+			outputTokens += chunk.outputTokens
+			cacheWriteTokens += chunk.cacheWriteTokens ?? 0
+			cacheReadTokens += chunk.cacheReadTokens ?? 0
+			totalCost = chunk.totalCost
+		} else if (chunk.type === "error") {
+			throw new Error(chunk.message)
+		}
+	}
+
+	const { id, info } = apiHandler.getModel()
+
+	return {
+		result: {
+			model: id,
+			role: "assistant",
+			content: { type: "text", text },
+			stopReason: "endTurn",
+		},
+		usage: {
+			tokensIn: inputTokens,
+			tokensOut: outputTokens,
+			cacheWrites: cacheWriteTokens,
+			cacheReads: cacheReadTokens,
+			cost:
+				totalCost ??
+				calculateApiCostAnthropic(info, inputTokens, outputTokens, cacheWriteTokens, cacheReadTokens),
+		},
+	}
+}
@@ -9,6 +9,7 @@ import { parseKiloSlashCommands } from "../slash-commands/kilo"
 import { refreshWorkflowToggles } from "../context/instructions/workflows" // kilocode_change
 
 import * as vscode from "vscode" // kilocode_change
+import type { McpHub } from "../../services/mcp/McpHub" // kilocode_change
 
 // This function is a duplicate of processUserContentMentions, but it adds a check for the newrules command
 // and processes Kilo-specific slash commands. It should be merged with processUserContentMentions in the future.
@@ -20,6 +21,7 @@ export async function processKiloUserContentMentions({
 	fileContextTracker,
 	rooIgnoreController,
 	showRooIgnoredFiles = true,
+	mcpHub, // kilocode_change
 }: {
 	context: vscode.ExtensionContext // kilocode_change
 	userContent: Anthropic.Messages.ContentBlockParam[]
@@ -28,6 +30,7 @@ export async function processKiloUserContentMentions({
 	fileContextTracker: FileContextTracker
 	rooIgnoreController?: any
 	showRooIgnoredFiles: boolean
+	mcpHub?: McpHub // kilocode_change
 }): Promise<[Anthropic.Messages.ContentBlockParam[], boolean]> {
 	// Track if we need to check kilorules file
 	let needsRulesFileCheck = false
@@ -70,6 +73,7 @@ export async function processKiloUserContentMentions({
 							parsedText,
 							localWorkflowToggles, // kilocode_change
 							globalWorkflowToggles, // kilocode_change
+							mcpHub, // kilocode_change
 						)
 
 						if (needsCheck) {
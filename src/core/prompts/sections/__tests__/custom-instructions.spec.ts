@@ -240,6 +240,53 @@ describe("loadRuleFiles", () => {
 		expect(readFileMock).toHaveBeenCalledWith(expectedFile2Path, "utf-8")
 	})
 
+	// kilocode_change start
+	it("should only include rules scoped with applies_to when the task touched a matching file", async () => {
+		readdirMock.mockResolvedValue([
+			{
+				name: "api.md",
+				isFile: () => true,
+				isDirectory: () => false,
+				isSymbolicLink: () => false,
+				parentPath: "/fake/path/.kilocode/rules",
+			},
+			{
+				name: "all.md",
+				isFile: () => true,
+				isDirectory: () => false,
+				isSymbolicLink: () => false,
+				parentPath: "/fake/path/.kilocode/rules",
+			},
+		] as any)
+
+		statMock.mockImplementation((path) =>
+			Promise.resolve({
+				isDirectory: vi.fn().mockReturnValue(path.toString().replace(/\\/g, "/").endsWith("rules")),
+				isFile: vi.fn().mockReturnValue(!path.toString().endsWith("rules")),
+			}),
+		)
+
+		readFileMock.mockImplementation((filePath: PathLike) => {
+			const normalizedPath = filePath.toString().replace(/\\/g, "/")
+			if (normalizedPath === "/fake/path/.kilocode/rules/api.md") {
+				return Promise.resolve('---\napplies_to: ["packages/api/**"]\n---\nuse the api logger')
+			}
+			if (normalizedPath === "/fake/path/.kilocode/rules/all.md") {
+				return Promise.resolve("always use tabs")
+			}
+			return Promise.reject({ code: "ENOENT" })
+		})
+
+		const unscoped = await loadRuleFiles("/fake/path", ["packages/web/index.ts"])
+		expect(unscoped).toContain("always use tabs")
+		expect(unscoped).not.toContain("use the api logger")
+
+		const scoped = await loadRuleFiles("/fake/path", ["packages/api/src/server.ts"])
+		expect(scoped).toContain("use the api logger")
+		expect(scoped).not.toContain("applies_to")
+	})
+	// kilocode_change end
+
 	it("should filter out cache files from .roo/rules/ directory", async () => {
 		// Simulate .roo/rules directory exists
 		statMock.mockResolvedValueOnce({
@@ -0,0 +1,113 @@
+// kilocode_change - new file
+// npx vitest core/prompts/sections/__tests__/nested-rules.spec.ts
+
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import * as vscode from "vscode"
+
+import { loadRuleFiles } from "../custom-instructions"
+import {
+	disposeNestedRulesWatchers,
+	findActiveNestedRulesDirectories,
+	findNestedRulesDirectories,
+} from "../nested-rules"
+
+vi.mock("../../../../services/roo-config", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../../../services/roo-config")>()
+	// Leave the global rules of the machine running the tests out
+	return { ...actual, getRooDirectoriesForCwd: (cwd: string) => [actual.getProjectRooDirectoryForCwd(cwd)] }
+})
+
+describe("nested rules", () => {
+	let cwd: string
+
+	const addRule = async (scope: string) => {
+		const rulesDir = path.join(cwd, scope, ".kilocode", "rules")
+		await fs.mkdir(rulesDir, { recursive: true })
+		await fs.writeFile(path.join(rulesDir, "rules.md"), `Rules for ${scope}`)
+	}
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "nested-rules-"))
+		await fs.mkdir(path.join(cwd, ".kilocode", "rules"), { recursive: true })
+	})
+
+	afterEach(async () => {
+		disposeNestedRulesWatchers()
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("should find rules directories in subfolders but not at the root", async () => {
+		await addRule("packages/web")
+		await addRule("apps/api")
+
+		expect(await findNestedRulesDirectories(cwd)).toEqual([
+			{ scope: "apps/api", rulesDir: path.join(cwd, "apps/api/.kilocode/rules") },
+			{ scope: "packages/web", rulesDir: path.join(cwd, "packages/web/.kilocode/rules") },
+		])
+	})
+
+	it("should skip hidden, dependency and .kilocodeignore'd directories", async () => {
+		await addRule("node_modules/lib")
+		await addRule(".hidden/lib")
+		await addRule("legacy/lib")
+		await addRule("packages/web")
+		await fs.writeFile(path.join(cwd, ".kilocodeignore"), "legacy/\n")
+
+		expect((await findNestedRulesDirectories(cwd)).map(({ scope }) => scope)).toEqual(["packages/web"])
+	})
+
+	it("should only activate directories containing a file in context", async () => {
+		await addRule("packages/web")
+		await addRule("packages/api")
+
+		expect(await findActiveNestedRulesDirectories(cwd)).toEqual([])
+		expect(
+			(await findActiveNestedRulesDirectories(cwd, ["packages/web/src/index.ts", "README.md"])).map(
+				({ scope }) => scope,
+			),
+		).toEqual(["packages/web"])
+	})
+
+	it("should add the nested rules to the legacy rules file", async () => {
+		await fs.rm(path.join(cwd, ".kilocode"), { recursive: true })
+		await fs.writeFile(path.join(cwd, ".kilocoderules"), "Legacy rules")
+		await addRule("packages/web")
+
+		const result = await loadRuleFiles(cwd, ["packages/web/src/index.ts"])
+
+		expect(result).toContain("# Rules from .kilocoderules:\nLegacy rules")
+		expect(result).toContain("Rules for packages/web")
+		expect(await loadRuleFiles(cwd, ["README.md"])).toBe("\n# Rules from .kilocoderules:\nLegacy rules\n")
+	})
+
+	it("should cache the directories until the watcher reports a change", async () => {
+		const onDidCreate = vi.fn()
+		const watcher = { onDidCreate, onDidChange: vi.fn(), onDidDelete: vi.fn(), dispose: vi.fn() }
+		const createWatcher = vi
+			.spyOn(vscode.workspace, "createFileSystemWatcher")
+			.mockReturnValue(watcher as unknown as vscode.FileSystemWatcher)
+		const scopes = async () => (await findNestedRulesDirectories(cwd)).map(({ scope }) => scope)
+
+		try {
+			await addRule("packages/web")
+			expect(await scopes()).toEqual(["packages/web"])
+
+			await addRule("packages/api")
+			expect(await scopes()).toEqual(["packages/web"])
+			expect(createWatcher).toHaveBeenCalledTimes(1)
+			expect(createWatcher).toHaveBeenCalledWith(
+				new vscode.RelativePattern(cwd, "{**/.kilocode/rules,.kilocodeignore}"),
+			)
+
+			onDidCreate.mock.calls[0][0]()
+			expect(await scopes()).toEqual(["packages/api", "packages/web"])
+
+			disposeNestedRulesWatchers()
+			expect(watcher.dispose).toHaveBeenCalled()
+		} finally {
+			createWatcher.mockRestore()
+		}
+	})
+})
@@ -0,0 +1,44 @@
+// kilocode_change - new file
+// npx vitest core/prompts/sections/__tests__/rule-scope.spec.ts
+
+import { isRuleActive, parseRuleFile } from "../rule-scope"
+
+describe("parseRuleFile", () => {
+	it("should read applies_to globs and strip the frontmatter", () => {
+		expect(parseRuleFile('---\napplies_to: ["packages/api/**", "*.sql"]\n---\n\n# API rules')).toEqual({
+			appliesTo: ["packages/api/**", "*.sql"],
+			content: "# API rules",
+		})
+	})
+
+	it("should accept a single glob", () => {
+		expect(parseRuleFile("---\napplies_to: docs/**\n---\nWrite short sentences").appliesTo).toEqual(["docs/**"])
+	})
+
+	it("should leave files without applies_to unchanged", () => {
+		const content = "---\ntitle: Style\n---\nUse tabs"
+
+		expect(parseRuleFile(content)).toEqual({ content })
+		expect(parseRuleFile("Use tabs")).toEqual({ content: "Use tabs" })
+		expect(parseRuleFile("---\napplies_to: [unclosed\n---\nUse tabs")).toEqual({
+			content: "---\napplies_to: [unclosed\n---\nUse tabs",
+		})
+	})
+})
+
+describe("isRuleActive", () => {
+	it("should always apply rules without globs", () => {
+		expect(isRuleActive(undefined, [])).toBe(true)
+	})
+
+	it("should apply scoped rules once a matching file is in context", () => {
+		expect(isRuleActive(["packages/api/**"], [])).toBe(false)
+		expect(isRuleActive(["packages/api/**"], ["packages/web/index.ts"])).toBe(false)
+		expect(isRuleActive(["packages/api/**"], ["packages/web/index.ts", "packages/api/src/server.ts"])).toBe(true)
+		expect(isRuleActive(["*.sql"], ["db\\migrations\\001.sql"])).toBe(true)
+	})
+
+	it("should ignore paths outside the workspace", () => {
+		expect(isRuleActive(["**"], ["../other/file.ts"])).toBe(false)
+	})
+})
@@ -183,11 +183,30 @@ function formatDirectoryContent(dirPath: string, files: Array<{ filename: string
 		.join("\n\n")
 }
 
+// kilocode_change start
+/**
+ * Drops the rule files whose `applies_to` globs don't match any file in the task's context,
+ * and strips the frontmatter from the others.
+ */
+async function filterScopedRuleFiles(
+	files: Array<{ filename: string; content: string }>,
+	contextFilePaths?: string[],
+): Promise<Array<{ filename: string; content: string }>> {
+	// Imported at submodule level because the module is imported in the webview-ui
+	const { parseRuleFile, isRuleActive } = await import("./rule-scope")
+
+	return files.flatMap((file) => {
+		const { appliesTo, content } = parseRuleFile(file.content)
+		return isRuleActive(appliesTo, contextFilePaths) ? [{ filename: file.filename, content }] : []
+	})
+}
+// kilocode_change end
+
 /**
  * Load rule files from global and project-local directories
  * Global rules are loaded first, then project-local rules which can override global ones
  */
-export async function loadRuleFiles(cwd: string): Promise<string> {
+export async function loadRuleFiles(cwd: string, contextFilePaths?: string[] /* kilocode_change */): Promise<string> {
 	const rules: string[] = []
 	const rooDirectories = getRooDirectoriesForCwd(cwd)
 
@@ -195,7 +214,7 @@ export async function loadRuleFiles(cwd: string): Promise<string> {
 	for (const rooDir of rooDirectories) {
 		const rulesDir = path.join(rooDir, "rules")
 		if (await directoryExists(rulesDir)) {
-			const files = await readTextFilesFromDirectory(rulesDir)
+			const files = await filterScopedRuleFiles(await readTextFilesFromDirectory(rulesDir), contextFilePaths) // kilocode_change
 			if (files.length > 0) {
 				const content = formatDirectoryContent(rulesDir, files)
 				rules.push(content)
@@ -203,13 +222,26 @@ export async function loadRuleFiles(cwd: string): Promise<string> {
 		}
 	}
 
+	// kilocode_change start: rules next to the code in the subtrees the task works in
+	const { findActiveNestedRulesDirectories } = await import("./nested-rules")
+	const nestedRules: string[] = []
+
+	for (const { rulesDir } of await findActiveNestedRulesDirectories(cwd, contextFilePaths)) {
+		const files = await filterScopedRuleFiles(await readTextFilesFromDirectory(rulesDir), contextFilePaths)
+		if (files.length > 0) {
+			nestedRules.push(formatDirectoryContent(rulesDir, files))
+		}
+	}
+	// kilocode_change end
+
 	// If we found rules in .roo/rules/ directories, return them
 	if (rules.length > 0) {
-		return "\n" + rules.join("\n\n")
+		return "\n" + [...rules, ...nestedRules].join("\n\n") // kilocode_change
 	}
 
 	// Fall back to existing behavior for legacy .roorules/.clinerules files
 	const ruleFiles = [".kilocoderules", ".roorules", ".clinerules"]
+	let legacyRules = "" // kilocode_change
 
 	for (const file of ruleFiles) {
 		const content = await safeReadFile(path.join(cwd, file))
@@ -221,11 +253,14 @@ export async function loadRuleFiles(cwd: string): Promise<string> {
 				)
 				hasShownNonKilocodeRulesMessage = true
 			} // kilocode_change end
-			return `\n# Rules from ${file}:\n${content}\n`
+			// kilocode_change start: nested rules are added to the legacy rules, they don't replace them
+			legacyRules = `\n# Rules from ${file}:\n${content}\n`
+			break
 		}
 	}
 
-	return ""
+	return nestedRules.length > 0 ? legacyRules + "\n" + nestedRules.join("\n\n") : legacyRules
+	// kilocode_change end
 }
 
 export async function addCustomInstructions(
@@ -239,6 +274,7 @@ export async function addCustomInstructions(
 		rooIgnoreInstructions?: string
 		localRulesToggleState?: ClineRulesToggles
 		globalRulesToggleState?: ClineRulesToggles
+		contextFilePaths?: string[] // files the task has read or edited, for rules scoped with `applies_to`
 	} = {},
 	// kilocode_change end
 ): Promise<string> {
@@ -256,7 +292,12 @@ export async function addCustomInstructions(
 		for (const rooDir of rooDirectories) {
 			const modeRulesDir = path.join(rooDir, `rules-${mode}`)
 			if (await directoryExists(modeRulesDir)) {
-				const files = await readTextFilesFromDirectory(modeRulesDir)
+				// kilocode_change start
+				const files = await filterScopedRuleFiles(
+					await readTextFilesFromDirectory(modeRulesDir),
+					options.contextFilePaths,
+				)
+				// kilocode_change end
 				if (files.length > 0) {
 					const content = formatDirectoryContent(modeRulesDir, files)
 					modeRules.push(content)
@@ -322,6 +363,7 @@ export async function addCustomInstructions(
 					options.globalRulesToggleState || {},
 					directoryExists,
 					readTextFilesFromDirectory,
+					options.contextFilePaths,
 				)
 			)?.trim() ?? ""
 		if (genericRuleContent) {
@@ -329,7 +371,7 @@ export async function addCustomInstructions(
 		}
 	} else {
 		// Fallback to legacy function if no toggle states provided
-		const genericRuleContent = (await loadRuleFiles(cwd))?.trim() ?? ""
+		const genericRuleContent = (await loadRuleFiles(cwd, options.contextFilePaths))?.trim() ?? ""
 		if (genericRuleContent) {
 			rules.push(genericRuleContent)
 		}
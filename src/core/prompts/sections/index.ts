@@ -2,7 +2,7 @@ export { getRulesSection } from "./rules"
 export { getSystemInfoSection } from "./system-info"
 export { getObjectiveSection } from "./objective"
 export { addCustomInstructions } from "./custom-instructions"
-export { getSharedToolUseSection } from "./tool-use"
+export { getSharedToolUseSection, getNativeToolUseSection } from "./tool-use" // kilocode_change
 export { getMcpServersSection } from "./mcp-servers"
 export { getToolUseGuidelinesSection } from "./tool-use-guidelines"
 export { getCapabilitiesSection } from "./capabilities"
@@ -14,7 +14,11 @@ async function getRuleFilesTotalContent(
 	rulesFilePaths: string[],
 	basePath: string,
 	toggles: ClineRulesToggles,
+	contextFilePaths?: string[], // kilocode_change
 ): Promise<string> {
+	// kilocode_change: imported at submodule level because the module is imported in the webview-ui
+	const { parseRuleFile, isRuleActive } = await import("./rule-scope")
+
 	const ruleFilesTotalContent = await Promise.all(
 		rulesFilePaths.map(async (filePath) => {
 			const ruleFilePath = path.resolve(basePath, filePath)
@@ -25,7 +29,15 @@ async function getRuleFilesTotalContent(
 				return null
 			}
 
-			return `${ruleFilePathRelative}\n` + (await fs.readFile(ruleFilePath, "utf8")).trim()
+			// kilocode_change start: rules scoped with `applies_to` only apply to matching files
+			const { appliesTo, content } = parseRuleFile((await fs.readFile(ruleFilePath, "utf8")).trim())
+
+			if (!isRuleActive(appliesTo, contextFilePaths)) {
+				return null
+			}
+
+			return `${ruleFilePathRelative}\n` + content.trim()
+			// kilocode_change end
 		}),
 	).then((contents) => contents.filter(Boolean).join("\n\n"))
 
@@ -38,6 +50,7 @@ async function loadEnabledRulesFromDirectory(
 	label: string,
 	directoryExists: (dirPath: string) => Promise<boolean>,
 	readTextFilesFromDirectory: (dirPath: string) => Promise<Array<{ filename: string; content: string }>>,
+	contextFilePaths?: string[], // kilocode_change
 ): Promise<string | null> {
 	if (!(await directoryExists(rulesDir))) {
 		return null
@@ -52,6 +65,7 @@ async function loadEnabledRulesFromDirectory(
 		files.map((f) => f.filename),
 		rulesDir,
 		toggleState,
+		contextFilePaths, // kilocode_change
 	)
 
 	return rulesContent ? `# ${label} from ${rulesDir}:\n${rulesContent}` : null
@@ -63,6 +77,7 @@ export async function loadEnabledRules(
 	globalRulesToggleState: ClineRulesToggles,
 	directoryExists: DirectoryExistsFunction,
 	readTextFilesFromDirectory: ReadTextFilesFromDirectoryFunction,
+	contextFilePaths?: string[], // kilocode_change
 ): Promise<string> {
 	const globalRulesContent = await loadEnabledRulesFromDirectory(
 		path.join(os.homedir(), GlobalFileNames.kiloRules),
@@ -70,6 +85,7 @@ export async function loadEnabledRules(
 		"Global Rules",
 		directoryExists,
 		readTextFilesFromDirectory,
+		contextFilePaths, // kilocode_change
 	)
 	const localRulesContent = await loadEnabledRulesFromDirectory(
 		path.join(cwd, GlobalFileNames.kiloRules),
@@ -77,8 +93,25 @@ export async function loadEnabledRules(
 		"Local Rules",
 		directoryExists,
 		readTextFilesFromDirectory,
+		contextFilePaths, // kilocode_change
+	)
+	// kilocode_change start: rules next to the code in the subtrees the task works in
+	// Imported at submodule level because the module is imported in the webview-ui
+	const { findActiveNestedRulesDirectories } = await import("./nested-rules")
+	const nestedRulesContents = await Promise.all(
+		(await findActiveNestedRulesDirectories(cwd, contextFilePaths)).map(({ scope, rulesDir }) =>
+			loadEnabledRulesFromDirectory(
+				rulesDir,
+				localRulesToggleState,
+				`Rules for ${scope}`,
+				directoryExists,
+				readTextFilesFromDirectory,
+				contextFilePaths,
+			),
+		),
 	)
-	return [globalRulesContent, localRulesContent].filter(Boolean).join("\n\n")
+	return [globalRulesContent, localRulesContent, ...nestedRulesContents].filter(Boolean).join("\n\n")
+	// kilocode_change end
 }
 
 export function hasAnyToggles(toggles?: ClineRulesToggles): boolean {
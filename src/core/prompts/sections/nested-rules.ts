@@ -0,0 +1,162 @@
+// kilocode_change - new file
+import fs from "fs/promises"
+import path from "path"
+import * as vscode from "vscode"
+import ignore, { Ignore } from "ignore"
+
+import { DIRS_TO_IGNORE } from "../../../services/glob/constants"
+import { GlobalFileNames } from "../../../shared/globalFileNames"
+
+import { isRuleActive } from "./rule-scope"
+
+const MAX_NESTED_RULES_DEPTH = 6
+
+// The directories found for each workspace, until a rules directory or the .kilocodeignore changes
+const nestedRulesDirectoriesCache = new Map<string, Promise<NestedRulesDirectory[]>>()
+const nestedRulesWatchers = new Map<string, vscode.FileSystemWatcher>()
+
+export type NestedRulesDirectory = {
+	/** Workspace relative path of the directory the rules belong to, like `packages/web` */
+	scope: string
+	/** Absolute path of its `.kilocode/rules` directory */
+	rulesDir: string
+}
+
+async function loadKilocodeIgnore(cwd: string): Promise<Ignore> {
+	const ignoreInstance = ignore()
+
+	try {
+		ignoreInstance.add(await fs.readFile(path.join(cwd, ".kilocodeignore"), "utf8"))
+	} catch {
+		// Without a .kilocodeignore every directory is visible.
+	}
+
+	return ignoreInstance
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+	try {
+		return (await fs.stat(dirPath)).isDirectory()
+	} catch {
+		return false
+	}
+}
+
+async function walkNestedRulesDirectories(cwd: string): Promise<NestedRulesDirectory[]> {
+	const kilocodeIgnore = await loadKilocodeIgnore(cwd)
+	const found: NestedRulesDirectory[] = []
+	let level = [""]
+
+	for (let depth = 1; depth <= MAX_NESTED_RULES_DEPTH && level.length > 0; depth++) {
+		const nextLevel: string[] = []
+
+		for (const parent of level) {
+			let entries
+
+			try {
+				entries = await fs.readdir(path.join(cwd, parent), { withFileTypes: true })
+			} catch {
+				continue
+			}
+
+			for (const entry of entries) {
+				if (!entry.isDirectory() || entry.name.startsWith(".") || DIRS_TO_IGNORE.includes(entry.name)) {
+					continue
+				}
+
+				const scope = parent ? `${parent}/${entry.name}` : entry.name
+
+				if (kilocodeIgnore.ignores(`${scope}/`)) {
+					continue
+				}
+
+				const rulesDir = path.join(cwd, scope, GlobalFileNames.kiloRules)
+
+				if (await isDirectory(rulesDir)) {
+					found.push({ scope, rulesDir })
+				}
+
+				nextLevel.push(scope)
+			}
+		}
+
+		level = nextLevel
+	}
+
+	return found.sort((a, b) => a.scope.localeCompare(b.scope))
+}
+
+function watchNestedRulesDirectories(cwd: string): boolean {
+	if (nestedRulesWatchers.has(cwd)) {
+		return true
+	}
+
+	if (!vscode.workspace?.createFileSystemWatcher) {
+		return false
+	}
+
+	const watcher = vscode.workspace.createFileSystemWatcher(
+		new vscode.RelativePattern(cwd, `{**/${GlobalFileNames.kiloRules},.kilocodeignore}`),
+	)
+	const invalidate = () => nestedRulesDirectoriesCache.delete(cwd)
+
+	watcher.onDidCreate(invalidate)
+	watcher.onDidChange(invalidate)
+	watcher.onDidDelete(invalidate)
+	nestedRulesWatchers.set(cwd, watcher)
+	return true
+}
+
+/**
+ * Finds the `.kilocode/rules` directories below the workspace root, like `packages/web/.kilocode/rules`.
+ * Hidden, dependency and build directories are skipped, as are directories ignored by .kilocodeignore.
+ * The result is cached per workspace and refreshed when a rules directory or the .kilocodeignore changes.
+ */
+export function findNestedRulesDirectories(cwd: string): Promise<NestedRulesDirectory[]> {
+	const cached = nestedRulesDirectoriesCache.get(cwd)
+
+	if (cached) {
+		return cached
+	}
+
+	const directories = walkNestedRulesDirectories(cwd)
+
+	// Without a file watcher the cache couldn't be invalidated, so every call walks the workspace
+	if (watchNestedRulesDirectories(cwd)) {
+		nestedRulesDirectoriesCache.set(cwd, directories)
+	}
+
+	return directories
+}
+
+/**
+ * Stops watching the workspaces for rules directories and clears the cache.
+ */
+export function disposeNestedRulesWatchers(): void {
+	nestedRulesWatchers.forEach((watcher) => watcher.dispose())
+
+	nestedRulesWatchers.clear()
+	nestedRulesDirectoriesCache.clear()
+}
+
+/**
+ * The globs a nested rules directory applies to, so it can be matched like a rule with `applies_to`.
+ */
+export function getNestedRulesGlobs({ scope }: NestedRulesDirectory): string[] {
+	return [`${scope}/**`]
+}
+
+/**
+ * Finds the nested rules directories whose subtree contains a file the task has read or edited.
+ */
+export async function findActiveNestedRulesDirectories(
+	cwd: string,
+	contextFilePaths: string[] = [],
+): Promise<NestedRulesDirectory[]> {
+	if (contextFilePaths.length === 0) {
+		return []
+	}
+
+	const directories = await findNestedRulesDirectories(cwd)
+	return directories.filter((directory) => isRuleActive(getNestedRulesGlobs(directory), contextFilePaths))
+}
@@ -0,0 +1,59 @@
+// kilocode_change - new file
+import ignore from "ignore"
+import { parse } from "yaml"
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+
+/**
+ * Splits a rule file into the globs from its `applies_to` frontmatter and the content that goes into the prompt.
+ * Files without an `applies_to` frontmatter are returned unchanged.
+ */
+export function parseRuleFile(content: string): { appliesTo?: string[]; content: string } {
+	const match = FRONTMATTER_PATTERN.exec(content)
+
+	if (!match) {
+		return { content }
+	}
+
+	let frontmatter: unknown
+
+	try {
+		frontmatter = parse(match[1])
+	} catch {
+		return { content }
+	}
+
+	const appliesTo = (frontmatter as { applies_to?: unknown } | null)?.applies_to
+	const globs = (Array.isArray(appliesTo) ? appliesTo : [appliesTo]).filter(
+		(glob): glob is string => typeof glob === "string" && glob.trim().length > 0,
+	)
+
+	if (globs.length === 0) {
+		return { content }
+	}
+
+	return { appliesTo: globs, content: content.slice(match[0].length).trim() }
+}
+
+/**
+ * A rule without `applies_to` always applies, a scoped rule only once the task has read or edited a matching path.
+ * The globs follow .gitignore syntax and match paths relative to the workspace.
+ */
+export function isRuleActive(appliesTo: string[] | undefined, contextFilePaths: string[] = []): boolean {
+	if (!appliesTo?.length) {
+		return true
+	}
+
+	const matcher = ignore().add(appliesTo)
+
+	return contextFilePaths.some((filePath) => {
+		const relPath = filePath.replace(/\\/g, "/").replace(/^\.\//, "")
+
+		try {
+			return relPath.length > 0 && matcher.ignores(relPath)
+		} catch {
+			// Paths outside the workspace can't be matched.
+			return false
+		}
+	})
+}
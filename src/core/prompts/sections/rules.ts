@@ -17,6 +17,7 @@ function getEditingInstructions(diffStrategy?: DiffStrategy): string {
 
 	availableTools.push("insert_content (for adding lines to files)")
 	availableTools.push("search_and_replace (for finding and replacing individual pieces of text)")
+	availableTools.push("replace_symbol (for replacing or adding whole functions, classes and methods by name)") // kilocode_change
 
 	// Base editing instruction mentioning all available tools
 	if (availableTools.length > 1) {
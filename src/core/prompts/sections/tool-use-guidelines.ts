@@ -1,6 +1,9 @@
 import { CodeIndexManager } from "../../../services/code-index/manager"
 
-export function getToolUseGuidelinesSection(codeIndexManager?: CodeIndexManager): string {
+export function getToolUseGuidelinesSection(
+	codeIndexManager?: CodeIndexManager,
+	nativeToolCalling?: boolean, // kilocode_change
+): string {
 	const isCodebaseSearchAvailable =
 		codeIndexManager &&
 		codeIndexManager.isFeatureEnabled &&
@@ -34,7 +37,13 @@ export function getToolUseGuidelinesSection(codeIndexManager?: CodeIndexManager)
 	guidelinesList.push(
 		`${itemNumber++}. If multiple actions are needed, use one tool at a time per message to accomplish the task iteratively, with each tool use being informed by the result of the previous tool use. Do not assume the outcome of any tool use. Each step must be informed by the previous step's result.`,
 	)
-	guidelinesList.push(`${itemNumber++}. Formulate your tool use using the XML format specified for each tool.`)
+	// kilocode_change start
+	guidelinesList.push(
+		nativeToolCalling
+			? `${itemNumber++}. Call tools through the tool calling interface, never by writing XML tags in your response.`
+			: `${itemNumber++}. Formulate your tool use using the XML format specified for each tool.`,
+	)
+	// kilocode_change end
 	guidelinesList.push(`${itemNumber++}. After each tool use, the user will respond with the result of that tool use. This result will provide you with the necessary information to continue your task or make further decisions. This response may include:
   - Information about whether the tool succeeded or failed, along with any reasons for failure.
   - Linter errors that may have arisen due to the changes you made, which you'll need to address.
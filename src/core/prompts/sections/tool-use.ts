@@ -24,3 +24,17 @@ For example, to use the new_task tool:
 
 Always use the actual tool name as the XML tag name for proper parsing and execution.`
 }
+
+// kilocode_change start
+export function getNativeToolUseSection(): string {
+	return `====
+
+TOOL USE
+
+You have access to a set of tools that are executed upon the user's approval. You can use one tool per message, and will receive the result of that tool use in the user's response. You use tools step-by-step to accomplish a given task, with each tool use informed by the result of the previous tool use.
+
+# Tool Use Formatting
+
+Tools are called through the tool calling interface. Every parameter is a string. The tool descriptions show usage examples as XML; when a parameter's value is itself structured with XML tags (like the \`args\` of read_file), pass that XML as the string value of the parameter.`
+}
+// kilocode_change end
@@ -10,6 +10,7 @@ import { isEmpty } from "../../utils/object"
 
 import { McpHub } from "../../services/mcp/McpHub"
 import { CodeIndexManager } from "../../services/code-index/manager"
+import { loadCustomTools } from "../../services/custom-tools" // kilocode_change
 
 import { PromptVariables, loadSystemPromptFile } from "./sections/custom-system-prompt"
 
@@ -19,6 +20,7 @@ import {
 	getSystemInfoSection,
 	getObjectiveSection,
 	getSharedToolUseSection,
+	getNativeToolUseSection, // kilocode_change
 	getMcpServersSection,
 	getToolUseGuidelinesSection,
 	getCapabilitiesSection,
@@ -79,28 +81,35 @@ async function generatePrompt(
 	])
 
 	const codeIndexManager = CodeIndexManager.getInstance(context)
+	const customTools = await loadCustomTools(cwd) // kilocode_change
+	const nativeToolCalling = settings?.nativeToolCalling === true // kilocode_change: tools are passed to the API instead
 
 	const basePrompt = `${roleDefinition}
 
 ${markdownFormattingSection()}
 
-${getSharedToolUseSection()}
-
-${getToolDescriptionsForMode(
-	mode,
-	cwd,
-	supportsComputerUse,
-	codeIndexManager,
-	effectiveDiffStrategy,
-	browserViewportSize,
-	mcpHub,
-	customModeConfigs,
-	experiments,
-	partialReadsEnabled,
-	settings,
-)}
+${nativeToolCalling ? getNativeToolUseSection() : getSharedToolUseSection() /* kilocode_change */}
+
+${
+	nativeToolCalling // kilocode_change
+		? ""
+		: getToolDescriptionsForMode(
+				mode,
+				cwd,
+				supportsComputerUse,
+				codeIndexManager,
+				effectiveDiffStrategy,
+				browserViewportSize,
+				mcpHub,
+				customModeConfigs,
+				experiments,
+				partialReadsEnabled,
+				settings,
+				customTools, // kilocode_change
+			)
+}
 
-${getToolUseGuidelinesSection(codeIndexManager)}
+${getToolUseGuidelinesSection(codeIndexManager, nativeToolCalling /* kilocode_change */)}
 
 ${mcpServersSection}
 
@@ -119,6 +128,7 @@ ${await addCustomInstructions(baseInstructions, globalCustomInstructions || "",
 	rooIgnoreInstructions,
 	localRulesToggleState: context.workspaceState.get("localRulesToggles"), // kilocode_change
 	globalRulesToggleState: context.globalState.get("globalRulesToggles"), // kilocode_change
+	contextFilePaths: settings?.contextFilePaths, // kilocode_change
 })}`
 
 	return basePrompt
@@ -180,7 +190,11 @@ export const SYSTEM_PROMPT = async (
 			globalCustomInstructions || "",
 			cwd,
 			mode,
-			{ language: language ?? formatLanguage(vscode.env.language), rooIgnoreInstructions },
+			{
+				language: language ?? formatLanguage(vscode.env.language),
+				rooIgnoreInstructions,
+				contextFilePaths: settings?.contextFilePaths, // kilocode_change
+			},
 		)
 
 		// For file-based prompts, don't include the tool sections
@@ -0,0 +1,31 @@
+// kilocode_change - new file
+import { getNativeToolDefinitions } from "../native-tools"
+import { getAttemptCompletionDescription } from "../attempt-completion"
+import { getListFilesDescription } from "../list-files"
+
+describe("getNativeToolDefinitions", () => {
+	const args = { cwd: "/test/path", supportsComputerUse: false }
+	const definitions = getNativeToolDefinitions(
+		["# Tools", getListFilesDescription(args), getAttemptCompletionDescription(args)].join("\n\n"),
+	)
+
+	it("creates a definition for each tool section", () => {
+		expect(definitions.map((definition) => definition.name)).toEqual(["list_files", "attempt_completion"])
+	})
+
+	it("reads the parameters and which ones are required", () => {
+		const listFiles = definitions[0]
+
+		expect(Object.keys(listFiles.parameters.properties)).toEqual(["path", "recursive"])
+		expect(listFiles.parameters.required).toEqual(["path"])
+		expect(listFiles.parameters.properties.path.type).toBe("string")
+		expect(listFiles.parameters.properties.path.description).toContain("The path of the directory")
+	})
+
+	it("keeps the usage in the description without the Description prefix", () => {
+		const listFiles = definitions[0]
+
+		expect(listFiles.description).toMatch(/^Request to list files/)
+		expect(listFiles.description).toContain("Usage:")
+	})
+})
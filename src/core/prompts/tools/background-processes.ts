@@ -0,0 +1,57 @@
+// kilocode_change - new file
+
+const nameParameter = `- name: (required) The name of the background process, as reported by execute_command`
+
+export function getReadProcessOutputDescription(): string {
+	return `## read_process_output
+Description: Request to read the output a background process started with execute_command has printed since it was last read, and whether it is still running.
+Parameters:
+${nameParameter}
+Usage:
+<read_process_output>
+<name>Process name here</name>
+</read_process_output>
+
+Example: Reading the latest output of a dev server
+<read_process_output>
+<name>dev-server</name>
+</read_process_output>`
+}
+
+export function getWaitForProcessOutputDescription(): string {
+	return `## wait_for_process_output
+Description: Request to wait until a background process started with execute_command prints output matching a regular expression, for example until a dev server is ready or a watcher finished building. Returns as soon as the output matches, when the process exits or when the timeout expires, together with the output printed since it was last read.
+Parameters:
+${nameParameter}
+- regex: (required) The regular expression to look for in the new output (JavaScript regex syntax)
+- timeout: (optional) The number of seconds to wait at most (default: 60, maximum: 600)
+Usage:
+<wait_for_process_output>
+<name>Process name here</name>
+<regex>Regular expression here</regex>
+<timeout>Seconds to wait (optional)</timeout>
+</wait_for_process_output>
+
+Example: Waiting for a dev server to listen
+<wait_for_process_output>
+<name>dev-server</name>
+<regex>ready|listening on</regex>
+<timeout>120</timeout>
+</wait_for_process_output>`
+}
+
+export function getKillProcessDescription(): string {
+	return `## kill_process
+Description: Request to stop a background process started with execute_command. Stop background processes once they are no longer needed; they are also stopped when the task ends.
+Parameters:
+${nameParameter}
+Usage:
+<kill_process>
+<name>Process name here</name>
+</kill_process>
+
+Example: Stopping a dev server
+<kill_process>
+<name>dev-server</name>
+</kill_process>`
+}
@@ -0,0 +1,56 @@
+// kilocode_change - new file
+import { ToolArgs } from "./types"
+
+export function getGoToDefinitionDescription(args: ToolArgs): string {
+	return `## go_to_definition
+Description: Find where a symbol is defined, using the workspace's language server. Follows imports into other files and dependencies.
+Parameters:
+- path: (required) The file containing the symbol (relative to the current working directory ${args.cwd})
+- line: (required) The 1-based line where the symbol appears
+- symbol: (required) The symbol's name as written on that line
+Usage:
+<go_to_definition>
+<path>src/app.ts</path>
+<line>42</line>
+<symbol>parseConfig</symbol>
+</go_to_definition>`
+}
+
+export function getFindReferencesDescription(): string {
+	return `## find_references
+Description: List the references to a symbol across the workspace, using the language server. Use it before changing a signature or removing code. Takes the same parameters as go_to_definition.
+Usage:
+<find_references>
+<path>src/models/user.ts</path>
+<line>10</line>
+<symbol>User</symbol>
+</find_references>`
+}
+
+export function getGetHoverInfoDescription(): string {
+	return `## get_hover_info
+Description: Get what the editor shows when hovering over a symbol, usually its type or signature and documentation. Takes the same parameters as go_to_definition.
+Usage:
+<get_hover_info>
+<path>src/index.ts</path>
+<line>7</line>
+<symbol>options</symbol>
+</get_hover_info>`
+}
+
+export function getRenameSymbolDescription(args: ToolArgs): string {
+	return `## rename_symbol
+Description: Rename a symbol and its references across the workspace, using the language server. Prefer it over editing each file, since it skips unrelated text with the same name.
+Parameters:
+- path: (required) The file containing the symbol (relative to the current working directory ${args.cwd})
+- line: (required) The 1-based line where the symbol appears
+- symbol: (required) The current name as written on that line
+- new_name: (required) The new name
+Usage:
+<rename_symbol>
+<path>src/utils.ts</path>
+<line>15</line>
+<symbol>getData</symbol>
+<new_name>fetchUserData</new_name>
+</rename_symbol>`
+}
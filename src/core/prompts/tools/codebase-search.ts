@@ -1,13 +1,16 @@
+// kilocode_change: search_mode parameter
 export function getCodebaseSearchDescription(): string {
 	return `## codebase_search
 Description: Find files most relevant to the search query.\nThis is a semantic search tool, so the query should ask for something semantically matching what is needed.\nIf it makes sense to only search in a particular directory, please specify it in the path parameter.\nUnless there is a clear reason to use your own search query, please just reuse the user's exact query with their wording.\nTheir exact wording/phrasing can often be helpful for the semantic search query. Keeping the same exact question format can also be helpful.\nIMPORTANT: Queries MUST be in English. Translate non-English queries before searching.
 Parameters:
 - query: (required) The search query to find relevant code. You should reuse the user's exact query/most recent message with their wording unless there is a clear reason not to.
 - path: (optional) The path to the directory to search in relative to the current working directory. This parameter should only be a directory path, file paths are not supported. Defaults to the current working directory.
+- search_mode: (optional) Either "semantic" (default) or "hybrid". Hybrid mode also ranks chunks by exact keyword matches, which works better for identifiers, error messages and other literal strings.
 Usage:
 <codebase_search>
 <query>Your natural language query here</query>
 <path>Path to the directory to search in (optional)</path>
+<search_mode>semantic or hybrid (optional)</search_mode>
 </codebase_search>
 
 Example: Searching for functions related to user authentication
@@ -15,5 +18,11 @@ Example: Searching for functions related to user authentication
 <query>User login and password hashing</query>
 <path>/path/to/directory</path>
 </codebase_search>
+
+Example: Searching for an exact identifier
+<codebase_search>
+<query>RooProtectedController isWriteProtected</query>
+<search_mode>hybrid</search_mode>
+</codebase_search>
 `
 }
@@ -1,3 +1,4 @@
+// kilocode_change: timeout and background parameters
 import { ToolArgs } from "./types"
 
 export function getExecuteCommandDescription(args: ToolArgs): string | undefined {
@@ -6,10 +7,16 @@ Description: Request to execute a CLI command on the system. Use this when you n
 Parameters:
 - command: (required) The CLI command to execute. This should be valid for the current operating system. Ensure the command is properly formatted and does not contain any harmful instructions.
 - cwd: (optional) The working directory to execute the command in (default: ${args.cwd})
+- timeout: (optional) The number of seconds after which the command is interrupted. Use it for commands that may hang, like test runs
+- background: (optional) "true" to keep the command running in the background, for long-running commands like dev servers and watchers. The output printed during startup is returned, and the process can then be followed with read_process_output, wait_for_process_output and kill_process
+- name: (optional) The name of the background process, used by the other process tools (default: process-1, process-2, ...)
 Usage:
 <execute_command>
 <command>Your command here</command>
 <cwd>Working directory path (optional)</cwd>
+<timeout>Seconds before the command is interrupted (optional)</timeout>
+<background>true or false (optional)</background>
+<name>Background process name (optional)</name>
 </execute_command>
 
 Example: Requesting to execute npm run dev
@@ -17,6 +24,13 @@ Example: Requesting to execute npm run dev
 <command>npm run dev</command>
 </execute_command>
 
+Example: Requesting to start a dev server in the background
+<execute_command>
+<command>npm run dev</command>
+<background>true</background>
+<name>dev-server</name>
+</execute_command>
+
 Example: Requesting to execute ls in a specific directory if directed
 <execute_command>
 <command>ls -la</command>
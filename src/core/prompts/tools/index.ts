@@ -24,6 +24,23 @@ import { getNewTaskDescription } from "./new-task"
 import { getCodebaseSearchDescription } from "./codebase-search"
 import { getUpdateTodoListDescription } from "./update-todo-list"
 import { CodeIndexManager } from "../../../services/code-index/manager"
+import { getUseCustomToolDescription } from "./use-custom-tool" // kilocode_change
+// kilocode_change start
+import {
+	getGoToDefinitionDescription,
+	getFindReferencesDescription,
+	getGetHoverInfoDescription,
+	getRenameSymbolDescription,
+} from "./code-navigation"
+import { getReplaceSymbolDescription } from "./replace-symbol"
+import {
+	getReadProcessOutputDescription,
+	getWaitForProcessOutputDescription,
+	getKillProcessDescription,
+} from "./background-processes"
+import { getNewParallelTasksDescription } from "./new-parallel-tasks"
+// kilocode_change end
+import { type CustomTool, isCustomToolAllowedForMode } from "../../../services/custom-tools" // kilocode_change
 
 // Map of tool names to their description functions
 const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined> = {
@@ -47,6 +64,18 @@ const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined>
 	apply_diff: (args) =>
 		args.diffStrategy ? args.diffStrategy.getToolDescription({ cwd: args.cwd, toolOptions: args.toolOptions }) : "",
 	update_todo_list: (args) => getUpdateTodoListDescription(args),
+	use_custom_tool: (args) => getUseCustomToolDescription(args), // kilocode_change
+	// kilocode_change start
+	go_to_definition: (args) => getGoToDefinitionDescription(args),
+	find_references: () => getFindReferencesDescription(),
+	get_hover_info: () => getGetHoverInfoDescription(),
+	rename_symbol: (args) => getRenameSymbolDescription(args),
+	replace_symbol: (args) => getReplaceSymbolDescription(args),
+	read_process_output: () => getReadProcessOutputDescription(),
+	wait_for_process_output: () => getWaitForProcessOutputDescription(),
+	kill_process: () => getKillProcessDescription(),
+	new_parallel_tasks: (args) => getNewParallelTasksDescription(args),
+	// kilocode_change end
 }
 
 export function getToolDescriptionsForMode(
@@ -61,6 +90,7 @@ export function getToolDescriptionsForMode(
 	experiments?: Record<string, boolean>,
 	partialReadsEnabled?: boolean,
 	settings?: Record<string, any>,
+	customTools?: CustomTool[], // kilocode_change
 ): string {
 	const config = getModeConfig(mode, customModes)
 	const args: ToolArgs = {
@@ -72,6 +102,7 @@ export function getToolDescriptionsForMode(
 		partialReadsEnabled,
 		settings,
 		experiments,
+		customTools: customTools?.filter((tool) => isCustomToolAllowedForMode(tool, mode, customModes)), // kilocode_change
 	}
 
 	const tools = new Set<string>()
@@ -143,4 +174,16 @@ export {
 	getInsertContentDescription,
 	getSearchAndReplaceDescription,
 	getCodebaseSearchDescription,
+	getUseCustomToolDescription, // kilocode_change
+	// kilocode_change start
+	getGoToDefinitionDescription,
+	getFindReferencesDescription,
+	getGetHoverInfoDescription,
+	getRenameSymbolDescription,
+	getReplaceSymbolDescription,
+	getReadProcessOutputDescription,
+	getWaitForProcessOutputDescription,
+	getKillProcessDescription,
+	getNewParallelTasksDescription,
+	// kilocode_change end
 }
@@ -0,0 +1,52 @@
+// kilocode_change - new file
+import type { ApiToolDefinition } from "../../../api"
+import { toolParamNames } from "../../../shared/tools"
+
+const PARAMETER_PATTERN = /^- (\w+):\s*(\((required|optional)\))?\s*(.*)$/
+
+/**
+ * Turns the tool descriptions written for the system prompt into native tool definitions, so both
+ * protocols describe the tools the same way. The usage examples stay in the description since some
+ * parameters (like `args` of `read_file`) take structured XML content.
+ */
+export function getNativeToolDefinitions(toolDescriptions: string): ApiToolDefinition[] {
+	const sections = toolDescriptions.split(/^## /m).slice(1)
+
+	return sections.map((section) => {
+		const [header, ...lines] = section.split("\n")
+		const name = header.trim()
+		const properties: ApiToolDefinition["parameters"]["properties"] = {}
+		const required: string[] = []
+
+		const parametersStart = lines.findIndex((line) => line.trim() === "Parameters:")
+		const usageStart = lines.findIndex((line) => line.startsWith("Usage:"))
+		const parameterLines =
+			parametersStart === -1 ? [] : lines.slice(parametersStart + 1, usageStart === -1 ? undefined : usageStart)
+
+		let current: string | undefined
+
+		for (const line of parameterLines) {
+			const match = PARAMETER_PATTERN.exec(line)
+
+			if (match && (toolParamNames as readonly string[]).includes(match[1])) {
+				current = match[1]
+				properties[current] = { type: "string", description: match[4] }
+
+				if (match[3] === "required") {
+					required.push(current)
+				}
+			} else if (current && line.trim()) {
+				properties[current].description += `\n${line}`
+			}
+		}
+
+		return {
+			name,
+			description: lines
+				.join("\n")
+				.replace(/^Description:\s*/, "")
+				.trim(),
+			parameters: { type: "object", properties, required },
+		}
+	})
+}
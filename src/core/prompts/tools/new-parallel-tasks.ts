@@ -0,0 +1,35 @@
+// kilocode_change - new file
+import { ToolArgs } from "./types"
+
+export function getNewParallelTasksDescription(_args: ToolArgs): string {
+	return `## new_parallel_tasks
+Description: Request to create several subtasks in the chosen mode that run at the same time, each in its own temporary git worktree and terminal, so they can change files without getting in each other's way. Use this instead of new_task for independent pieces of work, like changes to separate modules. This task waits until all the subtasks have finished, then their changes are merged into the workspace and you receive each subtask's result, the files it changed and any conflicts to resolve. The workspace must be in a git repository; the subtasks start from its current tracked files.
+Parameters:
+- mode: (required) The slug of the mode all the subtasks run in (e.g., "code", "debug")
+- args: (required) One <task> element per subtask (at most 5), each with a <message> containing the complete instructions for the subtask, since it doesn't see this conversation
+Usage:
+<new_parallel_tasks>
+<mode>your-mode-slug-here</mode>
+<args>
+<task>
+<message>Instructions for the first subtask</message>
+</task>
+<task>
+<message>Instructions for the second subtask</message>
+</task>
+</args>
+</new_parallel_tasks>
+
+Example: Implementing two independent features in parallel
+<new_parallel_tasks>
+<mode>code</mode>
+<args>
+<task>
+<message>Add input validation to the signup form in src/components/SignupForm.tsx.</message>
+</task>
+<task>
+<message>Add pagination to the GET /users endpoint in src/api/users.ts.</message>
+</task>
+</args>
+</new_parallel_tasks>`
+}
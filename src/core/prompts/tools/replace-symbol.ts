@@ -0,0 +1,44 @@
+// kilocode_change - new file
+import { ToolArgs } from "./types"
+
+export function getReplaceSymbolDescription(args: ToolArgs): string {
+	return `## replace_symbol
+Description: Request to replace a whole function, method, class or other definition by its name, or to insert code right before or after it. The definition is found by parsing the file, so you don't need to quote its current code. Prefer this tool when rewriting or adding complete definitions. The edit is rejected if the file no longer parses afterwards, and if the symbol isn't found the error lists the symbols the file defines.
+Parameters:
+- path: (required) The path of the file to modify (relative to the current workspace directory ${args.cwd.toPosix()})
+- symbol: (required) The name of the definition. Qualify nested definitions with their parents, like \`CodeParser.parseFile\`; the name alone is enough when it is unique in the file
+- content: (required) The complete new definition, or the code to insert. Include the definition's signature and any decorators, but not the comments above it. Indentation is adjusted to match the definition
+- position: (optional) "replace" to replace the definition (default), "before" to insert the content above it and its comments, or "after" to insert the content below it
+Usage:
+<replace_symbol>
+<path>File path here</path>
+<symbol>Symbol name here</symbol>
+<content>
+Your code here
+</content>
+<position>replace, before or after</position>
+</replace_symbol>
+
+Example: Replacing a method of a class
+<replace_symbol>
+<path>src/parser.ts</path>
+<symbol>CodeParser.parseFile</symbol>
+<content>
+async parseFile(filePath: string): Promise<string> {
+	const content = await fs.readFile(filePath, "utf8")
+	return this.parse(content)
+}
+</content>
+</replace_symbol>
+
+Example: Adding a function after another one
+<replace_symbol>
+<path>src/utils/math.py</path>
+<symbol>add</symbol>
+<content>
+def subtract(a, b):
+    return a - b
+</content>
+<position>after</position>
+</replace_symbol>`
+}
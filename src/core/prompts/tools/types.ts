@@ -1,6 +1,7 @@
 import { DiffStrategy } from "../../../shared/tools"
 import { McpHub } from "../../../services/mcp/McpHub"
 import { Experiments } from "@roo-code/types"
+import type { CustomTool } from "../../../services/custom-tools" // kilocode_change
 
 export type ToolArgs = {
 	cwd: string
@@ -12,4 +13,5 @@ export type ToolArgs = {
 	partialReadsEnabled?: boolean
 	settings?: Record<string, any>
 	experiments?: Partial<Experiments>
+	customTools?: CustomTool[] // kilocode_change
 }
@@ -0,0 +1,45 @@
+// kilocode_change - new file
+import type { CustomTool } from "../../../services/custom-tools"
+
+import { ToolArgs } from "./types"
+
+function getCustomToolSignature(tool: CustomTool): string {
+	const parameters = Object.entries(tool.parameters).map(([name, parameter]) => {
+		const details = [parameter.required ? "required" : "optional", parameter.type]
+
+		if (parameter.enum) {
+			details.push(`one of: ${parameter.enum.join(", ")}`)
+		}
+
+		return `  - ${name}: (${details.join(", ")})${parameter.description ? ` ${parameter.description}` : ""}`
+	})
+
+	return [`### ${tool.name}`, tool.description, ...(parameters.length ? ["Parameters:", ...parameters] : [])].join(
+		"\n",
+	)
+}
+
+export function getUseCustomToolDescription(args: ToolArgs): string | undefined {
+	if (!args.customTools?.length) {
+		return undefined
+	}
+
+	return `## use_custom_tool
+Description: Request to run one of the custom tools defined for this project. Each custom tool runs a command in the user's terminal with the arguments you provide.
+Parameters:
+- tool_name: (required) The name of the custom tool to run
+- arguments: (required) A JSON object containing the tool's parameters. Use {} if the tool has no parameters.
+Usage:
+<use_custom_tool>
+<tool_name>tool name here</tool_name>
+<arguments>
+{
+  "param1": "value1"
+}
+</arguments>
+</use_custom_tool>
+
+Available custom tools:
+
+${args.customTools.map(getCustomToolSignature).join("\n\n")}`
+}
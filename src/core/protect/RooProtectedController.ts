@@ -1,15 +1,29 @@
 import path from "path"
 import ignore, { Ignore } from "ignore"
+// kilocode_change start
+import fs from "fs/promises"
+import * as vscode from "vscode"
+import { fileExistsAtPath } from "../../utils/fs"
+// kilocode_change end
 
 export const SHIELD_SYMBOL = "\u{1F6E1}"
 
+// kilocode_change
+export const PROTECTED_FILE_NAME = ".kilocodeprotected"
+
 /**
  * Controls write access to Roo configuration files by enforcing protection patterns.
- * Prevents auto-approved modifications to sensitive Roo configuration files.
+ * Prevents auto-approved modifications to sensitive Roo configuration files,
+ * and to any file matching the user's gitignore-style patterns in .kilocodeprotected.
  */
 export class RooProtectedController {
 	private cwd: string
 	private ignoreInstance: Ignore
+	// kilocode_change start
+	private userIgnoreInstance: Ignore
+	private disposables: vscode.Disposable[] = []
+	userProtectedContent: string | undefined
+	// kilocode_change end
 
 	// Predefined list of protected Roo configuration patterns
 	private static readonly PROTECTED_PATTERNS = [
@@ -32,8 +46,74 @@ export class RooProtectedController {
 		// Initialize ignore instance with protected patterns
 		this.ignoreInstance = ignore()
 		this.ignoreInstance.add(RooProtectedController.PROTECTED_PATTERNS)
+		// kilocode_change start
+		this.userIgnoreInstance = ignore()
+		this.userProtectedContent = undefined
+		this.setupFileWatcher()
+		// kilocode_change end
+	}
+
+	// kilocode_change start
+	/**
+	 * Initialize the controller by loading user-defined patterns
+	 * Must be called after construction and before using the controller
+	 */
+	async initialize(): Promise<void> {
+		await this.loadUserProtected()
+	}
+
+	/**
+	 * Set up the file watcher for .kilocodeprotected changes
+	 */
+	private setupFileWatcher(): void {
+		const protectedPattern = new vscode.RelativePattern(this.cwd, PROTECTED_FILE_NAME)
+		const fileWatcher = vscode.workspace.createFileSystemWatcher(protectedPattern)
+
+		this.disposables.push(
+			fileWatcher.onDidChange(() => {
+				this.loadUserProtected()
+			}),
+			fileWatcher.onDidCreate(() => {
+				this.loadUserProtected()
+			}),
+			fileWatcher.onDidDelete(() => {
+				this.loadUserProtected()
+			}),
+		)
+
+		this.disposables.push(fileWatcher)
+	}
+
+	/**
+	 * Load user-defined patterns from .kilocodeprotected if it exists
+	 */
+	private async loadUserProtected(): Promise<void> {
+		try {
+			// Reset ignore instance to prevent duplicate patterns
+			this.userIgnoreInstance = ignore()
+			const protectedPath = path.join(this.cwd, PROTECTED_FILE_NAME)
+			if (await fileExistsAtPath(protectedPath)) {
+				const content = await fs.readFile(protectedPath, "utf8")
+				this.userProtectedContent = content
+				this.userIgnoreInstance.add(content)
+			} else {
+				this.userProtectedContent = undefined
+			}
+		} catch (error) {
+			// Should never happen: reading file failed even though it exists
+			console.error(`Unexpected error loading ${PROTECTED_FILE_NAME}:`, error)
+		}
 	}
 
+	/**
+	 * Clean up resources when the controller is no longer needed
+	 */
+	dispose(): void {
+		this.disposables.forEach((d) => d.dispose())
+		this.disposables = []
+	}
+	// kilocode_change end
+
 	/**
 	 * Check if a file is write-protected
 	 * @param filePath - Path to check (relative to cwd)
@@ -46,7 +126,7 @@ export class RooProtectedController {
 			const relativePath = path.relative(this.cwd, absolutePath).toPosix()
 
 			// Use ignore library to check if file matches any protected pattern
-			return this.ignoreInstance.ignores(relativePath)
+			return this.ignoreInstance.ignores(relativePath) || this.userIgnoreInstance.ignores(relativePath) // kilocode_change
 		} catch (error) {
 			// If there's an error processing the path, err on the side of caution
 			// Ignore is designed to work with relative file paths, so will throw error for paths outside cwd
@@ -55,6 +135,27 @@ export class RooProtectedController {
 		}
 	}
 
+	// kilocode_change start
+	/**
+	 * Get the .kilocodeprotected pattern that protects a file
+	 * @param filePath - Path to check (relative to cwd)
+	 * @returns the matching user pattern, or undefined if the file is not protected by .kilocodeprotected
+	 */
+	getUserProtectionPattern(filePath: string): string | undefined {
+		if (!this.userProtectedContent) {
+			return undefined
+		}
+		try {
+			const absolutePath = path.resolve(this.cwd, filePath)
+			const relativePath = path.relative(this.cwd, absolutePath).toPosix()
+			const result = this.userIgnoreInstance.checkIgnore(relativePath)
+			return result.ignored ? result.rule?.pattern : undefined
+		} catch (error) {
+			return undefined
+		}
+	}
+	// kilocode_change end
+
 	/**
 	 * Get set of write-protected files from a list
 	 * @param paths - Array of paths to filter (relative to cwd)
@@ -97,7 +198,12 @@ export class RooProtectedController {
 	 */
 	getInstructions(): string {
 		const patterns = RooProtectedController.PROTECTED_PATTERNS.join(", ")
-		return `# Protected Files\n\n(The following Softcodes configuration file patterns are write-protected and always require approval for modifications, regardless of autoapproval settings. When using list_files, you'll notice a ${SHIELD_SYMBOL} next to files that are write-protected.)\n\nProtected patterns: ${patterns}`
+		// kilocode_change start
+		const userPatterns = this.userProtectedContent
+			? `\n\nThe user has also protected the following patterns in ${PROTECTED_FILE_NAME}:\n\n${this.userProtectedContent}`
+			: ""
+		return `# Protected Files\n\n(The following Softcodes configuration file patterns are write-protected and always require approval for modifications, regardless of autoapproval settings. When using list_files, you'll notice a ${SHIELD_SYMBOL} next to files that are write-protected.)\n\nProtected patterns: ${patterns}${userPatterns}`
+		// kilocode_change end
 	}
 
 	/**
@@ -0,0 +1,46 @@
+// kilocode_change - new file
+export const SHIELD_SYMBOL = "\u{1F6E1}"
+
+export const PROTECTED_FILE_NAME = ".kilocodeprotected"
+
+export class RooProtectedController {
+	userProtectedContent: string | undefined = undefined
+
+	constructor(_cwd: string) {
+		// No-op constructor
+	}
+
+	async initialize(): Promise<void> {
+		// No-op initialization
+		return Promise.resolve()
+	}
+
+	dispose(): void {
+		// No-op dispose
+	}
+
+	isWriteProtected(_filePath: string): boolean {
+		// Default implementation: nothing is protected
+		return false
+	}
+
+	getUserProtectionPattern(_filePath: string): string | undefined {
+		return undefined
+	}
+
+	getProtectedFiles(_paths: string[]): Set<string> {
+		return new Set()
+	}
+
+	annotatePathsWithProtection(paths: string[]): Array<{ path: string; isProtected: boolean }> {
+		return paths.map((path) => ({ path, isProtected: false }))
+	}
+
+	getProtectionMessage(): string {
+		return "This is a Softcodes configuration file and requires approval for modifications"
+	}
+
+	getInstructions(): string {
+		return ""
+	}
+}
@@ -1,5 +1,30 @@
 import path from "path"
+import type { Mock } from "vitest"
+import * as fs from "fs/promises"
+import * as vscode from "vscode"
 import { RooProtectedController } from "../RooProtectedController"
+import { fileExistsAtPath } from "../../../utils/fs"
+
+// kilocode_change start
+vi.mock("fs/promises")
+vi.mock("../../../utils/fs")
+
+vi.mock("vscode", () => {
+	const mockDisposable = { dispose: vi.fn() }
+
+	return {
+		workspace: {
+			createFileSystemWatcher: vi.fn(() => ({
+				onDidCreate: vi.fn(() => mockDisposable),
+				onDidChange: vi.fn(() => mockDisposable),
+				onDidDelete: vi.fn(() => mockDisposable),
+				dispose: vi.fn(),
+			})),
+		},
+		RelativePattern: vi.fn().mockImplementation((base, pattern) => ({ base, pattern })),
+	}
+})
+// kilocode_change end
 
 describe("RooProtectedController", () => {
 	const TEST_CWD = "/test/workspace"
@@ -130,6 +155,75 @@ describe("RooProtectedController", () => {
 		})
 	})
 
+	// kilocode_change start
+	describe(".kilocodeprotected", () => {
+		const mockFileExists = fileExistsAtPath as Mock<typeof fileExistsAtPath>
+		const mockReadFile = fs.readFile as Mock
+
+		beforeEach(() => {
+			vi.clearAllMocks()
+		})
+
+		it("watches .kilocodeprotected in the workspace", () => {
+			new RooProtectedController(TEST_CWD)
+
+			expect(vscode.RelativePattern).toHaveBeenCalledWith(TEST_CWD, ".kilocodeprotected")
+			expect(vscode.workspace.createFileSystemWatcher).toHaveBeenCalled()
+		})
+
+		it("protects files matching user patterns in addition to the built-ins", async () => {
+			mockFileExists.mockResolvedValue(true)
+			mockReadFile.mockResolvedValue("migrations/**\n*.lock\n")
+
+			await controller.initialize()
+
+			expect(controller.isWriteProtected("migrations/001_init.sql")).toBe(true)
+			expect(controller.isWriteProtected("pnpm.lock")).toBe(true)
+			expect(controller.isWriteProtected(".roomodes")).toBe(true)
+			expect(controller.isWriteProtected("src/index.ts")).toBe(false)
+		})
+
+		it("cannot unprotect built-in patterns with negations", async () => {
+			mockFileExists.mockResolvedValue(true)
+			mockReadFile.mockResolvedValue("!.roomodes\n")
+
+			await controller.initialize()
+
+			expect(controller.isWriteProtected(".roomodes")).toBe(true)
+		})
+
+		it("reports the user pattern that protects a file", async () => {
+			mockFileExists.mockResolvedValue(true)
+			mockReadFile.mockResolvedValue("# generated code\nsrc/generated/\n*.lock\n")
+
+			await controller.initialize()
+
+			expect(controller.getUserProtectionPattern("src/generated/client.ts")).toBe("src/generated/")
+			expect(controller.getUserProtectionPattern(path.join(TEST_CWD, "yarn.lock"))).toBe("*.lock")
+			expect(controller.getUserProtectionPattern(".roomodes")).toBeUndefined()
+		})
+
+		it("only protects built-ins when .kilocodeprotected does not exist", async () => {
+			mockFileExists.mockResolvedValue(false)
+
+			await controller.initialize()
+
+			expect(controller.userProtectedContent).toBeUndefined()
+			expect(controller.isWriteProtected("migrations/001_init.sql")).toBe(false)
+			expect(controller.getUserProtectionPattern("migrations/001_init.sql")).toBeUndefined()
+		})
+
+		it("includes user patterns in the instructions", async () => {
+			mockFileExists.mockResolvedValue(true)
+			mockReadFile.mockResolvedValue("migrations/**")
+
+			await controller.initialize()
+
+			expect(controller.getInstructions()).toContain(".kilocodeprotected:\n\nmigrations/**")
+		})
+	})
+	// kilocode_change end
+
 	describe("getProtectedPatterns", () => {
 		it("should return the list of protected patterns", () => {
 			const patterns = RooProtectedController.getProtectedPatterns()
@@ -0,0 +1,103 @@
+// kilocode_change - new file
+import { expandMcpPromptCommand, formatMcpPromptMessages, parseMcpPromptArguments } from "../mcp-prompts"
+import { parseKiloSlashCommands } from "../kilo"
+
+describe("parseMcpPromptArguments", () => {
+	it("reads plain and quoted arguments and keeps the remaining text", () => {
+		expect(parseMcpPromptArguments(' pr=42 title="Fix \\"quoted\\" bug" focus on tests')).toEqual({
+			promptArguments: { pr: "42", title: 'Fix "quoted" bug' },
+			remainingText: " focus on tests",
+		})
+	})
+
+	it("returns no arguments when the text does not start with one", () => {
+		expect(parseMcpPromptArguments(" please review pr=42")).toEqual({
+			promptArguments: {},
+			remainingText: " please review pr=42",
+		})
+	})
+
+	it("accepts empty values", () => {
+		expect(parseMcpPromptArguments(' a="" b=').promptArguments).toEqual({ a: "", b: "" })
+	})
+})
+
+describe("formatMcpPromptMessages", () => {
+	it("joins message contents and labels assistant messages", () => {
+		expect(
+			formatMcpPromptMessages({
+				messages: [
+					{ role: "user", content: { type: "text", text: "Review this PR" } },
+					{ role: "assistant", content: { type: "text", text: "Which files?" } },
+					{
+						role: "user",
+						content: { type: "resource", resource: { uri: "file:///a.ts", text: "const a = 1" } },
+					},
+					{ role: "user", content: { type: "image", data: "", mimeType: "image/png" } },
+				],
+			}),
+		).toBe("Review this PR\n\nAssistant: Which files?\n\nconst a = 1\n\n[Image: image/png]")
+	})
+})
+
+describe("expandMcpPromptCommand", () => {
+	const mcpHub = {
+		getPrompt: vi.fn().mockResolvedValue({
+			messages: [{ role: "user", content: { type: "text", text: "Review PR 42" } }],
+		}),
+	} as any
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("ignores commands that are not MCP prompts", async () => {
+		expect(await expandMcpPromptCommand("newtask", "", mcpHub)).toBeUndefined()
+		expect(mcpHub.getPrompt).not.toHaveBeenCalled()
+	})
+
+	it("ignores MCP prompts when no hub is available", async () => {
+		expect(await expandMcpPromptCommand("mcp:github:review_pr", "", undefined)).toBeUndefined()
+	})
+
+	it("gets the prompt from the named server", async () => {
+		const result = await expandMcpPromptCommand("mcp:github:review_pr", " pr=42 thanks", mcpHub)
+
+		expect(mcpHub.getPrompt).toHaveBeenCalledWith("github", "review_pr", { pr: "42" })
+		expect(result).toEqual({
+			instructions:
+				'<explicit_instructions type="mcp:github:review_pr">\nReview PR 42\n</explicit_instructions>\n',
+			remainingText: " thanks",
+		})
+	})
+})
+
+describe("parseKiloSlashCommands with MCP prompts", () => {
+	it("replaces the command and its arguments with the prompt content", async () => {
+		const mcpHub = {
+			getPrompt: vi.fn().mockResolvedValue({
+				messages: [{ role: "user", content: { type: "text", text: "Review PR 42" } }],
+			}),
+		} as any
+
+		const { processedText } = await parseKiloSlashCommands(
+			"<task>/mcp:github:review_pr pr=42 be brief</task>",
+			{},
+			{},
+			mcpHub,
+		)
+
+		expect(processedText).toBe(
+			'<explicit_instructions type="mcp:github:review_pr">\nReview PR 42\n</explicit_instructions>\n<task> be brief</task>',
+		)
+	})
+
+	it("leaves the message unchanged when the prompt cannot be fetched", async () => {
+		const mcpHub = { getPrompt: vi.fn().mockRejectedValue(new Error("offline")) } as any
+		const text = "<feedback>/mcp:github:review_pr pr=42</feedback>"
+
+		const { processedText } = await parseKiloSlashCommands(text, {}, {}, mcpHub)
+
+		expect(processedText).toBe(text)
+	})
+})
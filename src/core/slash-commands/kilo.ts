@@ -9,6 +9,8 @@ import {
 	reportBugToolResponse,
 	condenseToolResponse,
 } from "../prompts/commands"
+import type { McpHub } from "../../services/mcp/McpHub"
+import { expandMcpPromptCommand } from "./mcp-prompts"
 
 function enabledWorkflowToggles(workflowToggles: ClineRulesToggles) {
 	return Object.entries(workflowToggles)
@@ -27,6 +29,7 @@ export async function parseKiloSlashCommands(
 	text: string,
 	localWorkflowToggles: ClineRulesToggles,
 	globalWorkflowToggles: ClineRulesToggles,
+	mcpHub?: McpHub,
 ): Promise<{ processedText: string; needsRulesFileCheck: boolean }> {
 	const commandReplacements: Record<string, ((userInput: string) => string) | undefined> = {
 		newtask: newTaskToolResponse,
@@ -37,10 +40,10 @@ export async function parseKiloSlashCommands(
 
 	// this currently allows matching prepended whitespace prior to /slash-command
 	const tagPatterns = [
-		{ tag: "task", regex: /<task>(\s*\/([a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/task>/is },
-		{ tag: "feedback", regex: /<feedback>(\s*\/([a-zA-Z0-9_-]+))(\s+.+?)?\s*<\/feedback>/is },
-		{ tag: "answer", regex: /<answer>(\s*\/([a-zA-Z0-9_-]+))(\s+.+?)?\s*<\/answer>/is },
-		{ tag: "user_message", regex: /<user_message>(\s*\/([a-zA-Z0-9_-]+))(\s+.+?)?\s*<\/user_message>/is },
+		{ tag: "task", regex: /<task>(\s*\/([a-zA-Z0-9_.:-]+))(\s+.+?)?\s*<\/task>/is },
+		{ tag: "feedback", regex: /<feedback>(\s*\/([a-zA-Z0-9_:-]+))(\s+.+?)?\s*<\/feedback>/is },
+		{ tag: "answer", regex: /<answer>(\s*\/([a-zA-Z0-9_:-]+))(\s+.+?)?\s*<\/answer>/is },
+		{ tag: "user_message", regex: /<user_message>(\s*\/([a-zA-Z0-9_:-]+))(\s+.+?)?\s*<\/user_message>/is },
 	]
 
 	// if we find a valid match, we will return inside that block
@@ -105,6 +108,32 @@ export async function parseKiloSlashCommands(
 					console.error(`Error reading workflow file ${matchingWorkflow.fullPath}: ${error}`)
 				}
 			}
+
+			// MCP server prompts, e.g. /mcp:github:review_pr pr=42
+			try {
+				const argumentText = match[3] ?? ""
+				const expanded = await expandMcpPromptCommand(commandName, argumentText, mcpHub)
+
+				if (expanded) {
+					const fullMatchStartIndex = match.index
+					const fullMatch = match[0]
+					const relativeStartIndex = fullMatch.indexOf(match[1])
+
+					const slashCommandStartIndex = fullMatchStartIndex + relativeStartIndex
+					const argumentsEndIndex = slashCommandStartIndex + match[1].length + argumentText.length
+
+					// replace the slash command and its arguments with the prompt content
+					const processedText =
+						expanded.instructions +
+						text.substring(0, slashCommandStartIndex) +
+						expanded.remainingText +
+						text.substring(argumentsEndIndex)
+
+					return { processedText, needsRulesFileCheck: false }
+				}
+			} catch (error) {
+				console.error(`Error getting MCP prompt for /${commandName}: ${error}`)
+			}
 		}
 	}
 
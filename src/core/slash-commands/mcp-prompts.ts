@@ -0,0 +1,76 @@
+// kilocode_change - new file
+import type { McpHub } from "../../services/mcp/McpHub"
+import { McpPromptResponse, parseMcpPromptCommandName } from "../../shared/mcp"
+
+const ARGUMENT_REGEX = /^\s*([a-zA-Z_][\w-]*)=(?:"((?:[^"\\]|\\.)*)"|(\S*))/
+
+/**
+ * Reads leading `name=value` / `name="quoted value"` pairs that follow an MCP prompt slash command.
+ * Everything after the last pair is left as free-form user text.
+ */
+export function parseMcpPromptArguments(text: string): {
+	promptArguments: Record<string, string>
+	remainingText: string
+} {
+	const promptArguments: Record<string, string> = {}
+	let remainingText = text
+
+	let match = ARGUMENT_REGEX.exec(remainingText)
+	while (match) {
+		const [consumed, name, quotedValue, plainValue] = match
+		promptArguments[name] = quotedValue !== undefined ? quotedValue.replace(/\\(.)/g, "$1") : plainValue
+		remainingText = remainingText.slice(consumed.length)
+		match = ARGUMENT_REGEX.exec(remainingText)
+	}
+
+	return { promptArguments, remainingText }
+}
+
+/**
+ * Flattens the messages returned by prompts/get into plain text instructions.
+ */
+export function formatMcpPromptMessages(response: McpPromptResponse): string {
+	return response.messages
+		.map(({ role, content }) => {
+			let text: string
+			switch (content.type) {
+				case "text":
+					text = content.text
+					break
+				case "resource":
+					text = content.resource.text ?? `[Resource: ${content.resource.uri}]`
+					break
+				default:
+					text = `[${content.type === "image" ? "Image" : "Audio"}: ${content.mimeType}]`
+			}
+			return role === "assistant" ? `Assistant: ${text}` : text
+		})
+		.join("\n\n")
+		.trim()
+}
+
+/**
+ * Expands an MCP prompt slash command such as `/mcp:github:review_pr pr=42` into the prompt's content.
+ * @param commandName The slash command name without the leading slash
+ * @param argumentText The text that followed the command inside the user message
+ * @returns The expanded instructions and the user text left after the arguments, or undefined if
+ * the command does not name an MCP prompt
+ */
+export async function expandMcpPromptCommand(
+	commandName: string,
+	argumentText: string,
+	mcpHub: McpHub | undefined,
+): Promise<{ instructions: string; remainingText: string } | undefined> {
+	const command = parseMcpPromptCommandName(commandName)
+	if (!command || !mcpHub) {
+		return undefined
+	}
+
+	const { promptArguments, remainingText } = parseMcpPromptArguments(argumentText)
+	const response = await mcpHub.getPrompt(command.serverName, command.promptName, promptArguments)
+
+	return {
+		instructions: `<explicit_instructions type="${commandName}">\n${formatMcpPromptMessages(response)}\n</explicit_instructions>\n`,
+		remainingText,
+	}
+}
@@ -9,6 +9,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import delay from "delay"
 import pWaitFor from "p-wait-for"
 import { serializeError } from "serialize-error"
+import type { CreateMessageResult } from "@modelcontextprotocol/sdk/types.js" // kilocode_change
 
 import {
 	type ProviderSettings,
@@ -21,6 +22,8 @@ import {
 	type ClineSay,
 	type ToolProgressStatus,
 	type HistoryItem,
+	type SpendBudgetScope, // kilocode_change
+	type SpendBudgetStatus, // kilocode_change
 	TelemetryEventName,
 	TodoItem,
 } from "@roo-code/types"
@@ -29,6 +32,7 @@ import { CloudService } from "@roo-code/cloud"
 
 // api
 import { ApiHandler, ApiHandlerCreateMessageMetadata, buildApiHandler } from "../../api"
+import { FAILOVER_AFTER_FAILED_REQUESTS, getFailoverReason } from "../../api/failover" // kilocode_change
 import { ApiStream } from "../../api/transform/stream"
 
 // shared
@@ -36,7 +40,12 @@ import { findLastIndex } from "../../shared/array"
 import { combineApiRequests } from "../../shared/combineApiRequests"
 import { combineCommandSequences } from "../../shared/combineCommandSequences"
 import { t } from "../../i18n"
-import { ClineApiReqCancelReason, ClineApiReqInfo } from "../../shared/ExtensionMessage"
+import {
+	ClineApiFailoverInfo, // kilocode_change
+	ClineApiReqCancelReason,
+	ClineApiReqInfo,
+	ClineAskUseMcpServer,
+} from "../../shared/ExtensionMessage" // kilocode_change
 import { getApiMetrics } from "../../shared/getApiMetrics"
 import { ClineAskResponse } from "../../shared/WebviewMessage"
 import { defaultModeSlug } from "../../shared/modes"
@@ -70,31 +79,53 @@ import { ToolRepetitionDetector } from "../tools/ToolRepetitionDetector"
 import { FileContextTracker } from "../context-tracking/FileContextTracker"
 import { RooIgnoreController } from "../ignore/RooIgnoreController"
 import { RooProtectedController } from "../protect/RooProtectedController"
-import { type AssistantMessageContent, parseAssistantMessage, presentAssistantMessage } from "../assistant-message"
+import {
+	type AssistantMessageContent,
+	parseAssistantMessage,
+	presentAssistantMessage,
+	parseNativeToolCall, // kilocode_change
+	formatToolUseAsXml, // kilocode_change
+} from "../assistant-message"
 import { truncateConversationIfNeeded } from "../sliding-window"
 import { ClineProvider } from "../webview/ClineProvider"
 import { MultiSearchReplaceDiffStrategy } from "../diff/strategies/multi-search-replace"
 import { MultiFileSearchReplaceDiffStrategy } from "../diff/strategies/multi-file-search-replace"
+import { UnifiedDiffStrategy } from "../diff/strategies/unified-diff" // kilocode_change
 import { readApiMessages, saveApiMessages, readTaskMessages, saveTaskMessages, taskMetadata } from "../task-persistence"
 import { getEnvironmentDetails } from "../environment/getEnvironmentDetails"
 import {
 	type CheckpointDiffOptions,
 	type CheckpointRestoreOptions,
+	type CheckpointFilesOptions, // kilocode_change
+	type CheckpointRestoreFilesOptions, // kilocode_change
 	getCheckpointService,
 	checkpointSave,
 	checkpointRestore,
 	checkpointDiff,
+	checkpointFiles, // kilocode_change
+	checkpointRestoreFiles, // kilocode_change
+	checkpointExport, // kilocode_change
 } from "../checkpoints"
 import { ApiMessage } from "../task-persistence/apiMessages"
 import { getMessagesSinceLastSummary, summarizeConversation } from "../condense"
+import { type SpendBudgetState, getSpendBudgetStatuses } from "../budget" // kilocode_change
 import { maybeRemoveImageBlocks } from "../../api/transform/image-cleaning"
 import { processKiloUserContentMentions } from "../mentions/processKiloUserContentMentions" // kilocode_change
 import { refreshWorkflowToggles } from "../context/instructions/workflows" // kilocode_change
 import { parseMentions } from "../mentions" // kilocode_change
 import { parseKiloSlashCommands } from "../slash-commands/kilo" // kilocode_change
+import { McpSamplingParams, createSamplingMessage, summarizeSamplingRequest } from "../mcp-sampling" // kilocode_change
 import { GlobalFileNames } from "../../shared/globalFileNames" // kilocode_change
 import { ensureLocalKilorulesDirExists } from "../context/instructions/kilo-rules" // kilocode_change
 import { restoreTodoListForTask } from "../tools/updateTodoListTool"
+// kilocode_change start
+import type { ApiToolDefinition } from "../../api"
+import type { ToolUse } from "../../shared/tools"
+import { getToolDescriptionsForMode } from "../prompts/tools"
+import { getNativeToolDefinitions } from "../prompts/tools/native-tools"
+import { CodeIndexManager } from "../../services/code-index/manager"
+import { loadCustomTools } from "../../services/custom-tools"
+// kilocode_change end
 
 // Constants
 const MAX_EXPONENTIAL_BACKOFF_SECONDS = 600 // 10 minutes
@@ -130,6 +161,7 @@ export type TaskOptions = {
 	parentTask?: Task
 	taskNumber?: number
 	onCreated?: (cline: Task) => void
+	workspacePath?: string // kilocode_change: parallel subtasks run in their own worktree
 }
 
 type UserContent = Array<Anthropic.ContentBlockParam> // kilocode_change
@@ -158,10 +190,17 @@ export class Task extends EventEmitter<ClineEvents> {
 	private pauseInterval: NodeJS.Timeout | undefined
 
 	// API
-	readonly apiConfiguration: ProviderSettings
+	apiConfiguration: ProviderSettings // kilocode_change: replaced when failing over to a fallback profile
 	api: ApiHandler
 	private static lastGlobalApiRequestTime?: number
 	private consecutiveAutoApprovedRequestsCount: number = 0
+	// kilocode_change start
+	private consecutiveApiFailureCount: number = 0
+	private failedApiConfigIds = new Set<string>()
+	private apiProfileName?: string
+	private apiProfileId?: string
+	private warnedSpendBudgetScopes = new Set<SpendBudgetScope>()
+	// kilocode_change end
 
 	/**
 	 * Reset the global API request timestamp. This should only be used for testing.
@@ -196,6 +235,10 @@ export class Task extends EventEmitter<ClineEvents> {
 	private askResponse?: ClineAskResponse
 	private askResponseText?: string
 	private askResponseImages?: string[]
+	// kilocode_change start
+	private pendingAskTs?: number
+	private mcpSamplingAskQueue: Promise<void> = Promise.resolve()
+	// kilocode_change end
 	public lastMessageTs?: number
 
 	// Tool Use
@@ -238,6 +281,7 @@ export class Task extends EventEmitter<ClineEvents> {
 		parentTask,
 		taskNumber = -1,
 		onCreated,
+		workspacePath, // kilocode_change
 	}: TaskOptions) {
 		super()
 		this.context = context // kilocode_change
@@ -249,9 +293,9 @@ export class Task extends EventEmitter<ClineEvents> {
 		this.taskId = historyItem ? historyItem.id : crypto.randomUUID()
 		this.taskIsFavorited = historyItem?.isFavorited // kilocode_change
 		// normal use-case is usually retry similar history task with new workspace
-		this.workspacePath = parentTask
-			? parentTask.workspacePath
-			: getWorkspacePath(path.join(os.homedir(), "Documents")) // kilocode_change: use Documents instead of Desktop as default
+		this.workspacePath =
+			workspacePath ?? // kilocode_change
+			(parentTask ? parentTask.workspacePath : getWorkspacePath(path.join(os.homedir(), "Documents"))) // kilocode_change: use Documents instead of Desktop as default
 		this.instanceId = crypto.randomUUID().slice(0, 8)
 		this.taskNumber = -1
 
@@ -262,6 +306,11 @@ export class Task extends EventEmitter<ClineEvents> {
 		this.rooIgnoreController.initialize().catch((error) => {
 			console.error("Failed to initialize RooIgnoreController:", error)
 		})
+		// kilocode_change start
+		this.rooProtectedController.initialize().catch((error) => {
+			console.error("Failed to initialize RooProtectedController:", error)
+		})
+		// kilocode_change end
 
 		this.apiConfiguration = apiConfiguration
 		this.api = buildApiHandler(apiConfiguration)
@@ -298,10 +347,19 @@ export class Task extends EventEmitter<ClineEvents> {
 					EXPERIMENT_IDS.MULTI_FILE_APPLY_DIFF,
 				)
 
-				if (isMultiFileApplyDiffEnabled) {
+				if (
+					isMultiFileApplyDiffEnabled &&
+					!(this.diffStrategy instanceof UnifiedDiffStrategy) /* kilocode_change */
+				) {
 					this.diffStrategy = new MultiFileSearchReplaceDiffStrategy(this.fuzzyMatchThreshold)
 				}
 			})
+
+			// kilocode_change start
+			if (apiConfiguration.diffFormat === "unifiedDiff") {
+				this.diffStrategy = new UnifiedDiffStrategy(this.fuzzyMatchThreshold)
+			}
+			// kilocode_change end
 		}
 
 		this.toolRepetitionDetector = new ToolRepetitionDetector(this.consecutiveMistakeLimit)
@@ -541,8 +599,15 @@ export class Task extends EventEmitter<ClineEvents> {
 			await this.addToClineMessages({ ts: askTs, type: "ask", ask: type, text, isProtected })
 		}
 
+		this.pendingAskTs = askTs // kilocode_change
 		await pWaitFor(() => this.askResponse !== undefined || this.lastMessageTs !== askTs, { interval: 100 })
 
+		// kilocode_change start
+		if (this.pendingAskTs === askTs) {
+			this.pendingAskTs = undefined
+		}
+		// kilocode_change end
+
 		if (this.lastMessageTs !== askTs) {
 			// Could happen if we send multiple asks in a row i.e. with
 			// command_output. It's important that when we know an ask could
@@ -558,6 +623,19 @@ export class Task extends EventEmitter<ClineEvents> {
 		return result
 	}
 
+	// kilocode_change start
+	/**
+	 * The ask the task is currently waiting on, if any.
+	 */
+	public getPendingAsk(): ClineMessage | undefined {
+		if (this.pendingAskTs === undefined) {
+			return undefined
+		}
+
+		return this.clineMessages.find((message) => message.type === "ask" && message.ts === this.pendingAskTs)
+	}
+	// kilocode_change end
+
 	async handleWebviewAskResponse(askResponse: ClineAskResponse, text?: string, images?: string[]) {
 		this.askResponse = askResponse
 		this.askResponseText = text
@@ -641,6 +719,212 @@ export class Task extends EventEmitter<ClineEvents> {
 		)
 	}
 
+	// kilocode_change start
+	/**
+	 * Handles a sampling/createMessage request from an MCP server. The user approves the request in the
+	 * chat, the completion runs through the MCP sampling API configuration (or this task's API handler)
+	 * and its usage is recorded on the approval message so it counts towards the task's cost.
+	 */
+	public async handleMcpSamplingRequest(serverName: string, params: McpSamplingParams): Promise<CreateMessageResult> {
+		// A new ask would replace the one the task is waiting on, so sampling requests wait their turn
+		// until no other ask is pending or still streaming in
+		const previousAsk = this.mcpSamplingAskQueue
+		let releaseAsk!: () => void
+		this.mcpSamplingAskQueue = new Promise((resolve) => (releaseAsk = resolve))
+
+		let response: ClineAskResponse
+		let askTs: number | undefined
+
+		try {
+			await previousAsk
+			await pWaitFor(
+				() => this.abort || (this.pendingAskTs === undefined && !this.clineMessages.at(-1)?.partial),
+				{ interval: 100 },
+			)
+			;({ response } = await this.ask(
+				"use_mcp_server",
+				JSON.stringify({
+					serverName,
+					type: "sampling",
+					sampling: summarizeSamplingRequest(params),
+				} satisfies ClineAskUseMcpServer),
+			))
+			askTs = this.lastMessageTs
+		} finally {
+			releaseAsk()
+		}
+
+		if (response !== "yesButtonClicked") {
+			throw new Error("User rejected the sampling request")
+		}
+
+		await this.say("mcp_server_request_started")
+
+		try {
+			const apiHandler = (await this.getMcpSamplingApiHandler()) ?? this.api
+			const { result, usage } = await createSamplingMessage(apiHandler, params, { taskId: this.taskId })
+
+			const askMessage = this.clineMessages.find((message) => message.ts === askTs)
+			if (askMessage) {
+				askMessage.mcpSamplingUsage = usage
+				await this.updateClineMessage(askMessage)
+			}
+
+			await this.say("mcp_server_response", result.content.type === "text" ? result.content.text : "")
+			return result
+		} catch (error) {
+			await this.say("error", `Error handling sampling request from MCP server "${serverName}": ${error.message}`)
+			throw error
+		}
+	}
+
+	private async getMcpSamplingApiHandler(): Promise<ApiHandler | undefined> {
+		const provider = this.providerRef.deref()
+		const state = await provider?.getState()
+		const mcpSamplingApiConfigId = state?.mcpSamplingApiConfigId
+
+		if (!mcpSamplingApiConfigId || !state?.listApiConfigMeta?.some(({ id }) => id === mcpSamplingApiConfigId)) {
+			return undefined
+		}
+
+		const profile = await provider?.providerSettingsManager.getProfile({ id: mcpSamplingApiConfigId })
+		return profile?.apiProvider ? buildApiHandler(profile) : undefined
+	}
+
+	/**
+	 * Switches the task to the next fallback profile when a failed API request might succeed with
+	 * another provider: right away when the context window was exceeded, or after repeated failures
+	 * when the provider is unavailable.
+	 * @returns Whether the task switched to another profile
+	 */
+	private async failoverToNextApiProfile(error: any): Promise<boolean> {
+		const reason = getFailoverReason(error)
+
+		if (!reason || (reason === "unavailable" && this.consecutiveApiFailureCount < FAILOVER_AFTER_FAILED_REQUESTS)) {
+			return false
+		}
+
+		const provider = this.providerRef.deref()
+
+		if (!provider) {
+			return false
+		}
+
+		const fallbackProfiles = await provider.providerSettingsManager.getFallbackProfiles()
+
+		if (fallbackProfiles.length === 0) {
+			return false
+		}
+
+		if (this.failedApiConfigIds.size === 0) {
+			const { listApiConfigMeta = [], currentApiConfigName } = await provider.getState()
+			const currentProfile = listApiConfigMeta.find((profile) => profile.name === currentApiConfigName)
+
+			this.apiProfileName = currentApiConfigName
+
+			if (currentProfile) {
+				this.failedApiConfigIds.add(currentProfile.id)
+			}
+		}
+
+		const nextProfile = fallbackProfiles.find(
+			(profile) => profile.id && profile.apiProvider && !this.failedApiConfigIds.has(profile.id),
+		)
+
+		if (!nextProfile?.id) {
+			return false
+		}
+
+		const { name, id, ...providerSettings } = nextProfile
+		const fromModel = this.api.getModel().id
+
+		this.failedApiConfigIds.add(id)
+		this.apiProfileId = id
+		this.apiConfiguration = providerSettings
+		this.api = buildApiHandler(providerSettings)
+		this.consecutiveApiFailureCount = 0
+
+		const failoverInfo: ClineApiFailoverInfo = {
+			fromProfile: this.apiProfileName,
+			fromModel,
+			toProfile: name,
+			toModel: this.api.getModel().id,
+			reason,
+			error: error?.message,
+		}
+
+		this.apiProfileName = name
+		provider.log(`[failover] task ${this.taskId}.${this.instanceId} switched to profile '${name}' (${reason})`)
+		await this.say("api_provider_failover", JSON.stringify(failoverInfo))
+
+		return true
+	}
+
+	/**
+	 * The profile the task makes its requests with, which is the current profile unless the task failed over.
+	 */
+	private getApiProfileId({ listApiConfigMeta = [], currentApiConfigName }: SpendBudgetState): string | undefined {
+		return this.apiProfileId ?? listApiConfigMeta.find((profile) => profile.name === currentApiConfigName)?.id
+	}
+
+	public getSpendBudgetStatuses(state: SpendBudgetState): SpendBudgetStatus[] {
+		return getSpendBudgetStatuses({
+			taskSpend: this.getTokenUsage().totalCost,
+			ledger: state.spendLedger,
+			profileId: this.getApiProfileId(state),
+			taskSpendLimit: state.taskSpendLimit,
+			dailySpendLimit: state.dailySpendLimit,
+			profileSpendLimits: state.profileSpendLimits,
+			spendWarningPercent: state.spendWarningPercent,
+		})
+	}
+
+	private async recordSpend(cost: number) {
+		const provider = this.providerRef.deref()
+
+		if (!provider || !(cost > 0)) {
+			return
+		}
+
+		await provider.recordSpend(cost, this.getApiProfileId(await provider.getState()))
+	}
+
+	/**
+	 * Asks the user before a request once a spend budget crosses its warning threshold. A budget that is
+	 * used up keeps asking until it is raised, so no request is made over the limit. Any reply other than
+	 * continuing stops the task, so an automated responder that declines isn't asked again on every request.
+	 */
+	private async enforceSpendBudgets() {
+		while (true) {
+			const state = await this.providerRef.deref()?.getState()
+
+			if (!state) {
+				return
+			}
+
+			const statuses = this.getSpendBudgetStatuses(state)
+			const status =
+				statuses.find((status) => status.exceeded) ??
+				statuses.find((status) => status.warning && !this.warnedSpendBudgetScopes.has(status.scope))
+
+			if (!status) {
+				return
+			}
+
+			const { response } = await this.ask("spend_budget_reached", JSON.stringify(status))
+
+			if (response !== "yesButtonClicked") {
+				await this.abortTask()
+				throw new Error(
+					`[KiloCode#enforceSpendBudgets] task ${this.taskId}.${this.instanceId} stopped at the ${status.scope} spend budget`,
+				)
+			}
+
+			this.warnedSpendBudgetScopes.add(status.scope)
+		}
+	}
+	// kilocode_change end
+
 	async say(
 		type: ClineSay,
 		text?: string,
@@ -1081,6 +1365,17 @@ export class Task extends EventEmitter<ClineEvents> {
 			// This is the critical one for the leak fix
 		}
 
+		// kilocode_change start
+		try {
+			if (this.rooProtectedController) {
+				this.rooProtectedController.dispose()
+				this.rooProtectedController = undefined
+			}
+		} catch (error) {
+			console.error("Error disposing RooProtectedController:", error)
+		}
+		// kilocode_change end
+
 		try {
 			this.fileContextTracker.dispose()
 		} catch (error) {
@@ -1252,6 +1547,7 @@ export class Task extends EventEmitter<ClineEvents> {
 			fileContextTracker: this.fileContextTracker,
 			rooIgnoreController: this.rooIgnoreController,
 			showRooIgnoredFiles,
+			mcpHub: this.providerRef.deref()?.getMcpHub(), // kilocode_change
 		})
 
 		if (needsRulesFileCheck) {
@@ -1316,6 +1612,7 @@ export class Task extends EventEmitter<ClineEvents> {
 						),
 					cancelReason,
 					streamingFailedMessage,
+					model: this.api.getModel().id, // kilocode_change
 				} satisfies ClineApiReqInfo)
 			}
 
@@ -1381,6 +1678,10 @@ export class Task extends EventEmitter<ClineEvents> {
 			const stream = this.attemptApiRequest()
 			let assistantMessage = ""
 			let reasoningMessage = ""
+			// kilocode_change start
+			let assistantText = "" // The text before any native tool call, which is parsed for XML tool uses.
+			const nativeToolUses: ToolUse[] = []
+			// kilocode_change end
 			this.isStreaming = true
 
 			try {
@@ -1406,9 +1707,18 @@ export class Task extends EventEmitter<ClineEvents> {
 						case "text": {
 							assistantMessage += chunk.text
 
+							// kilocode_change start
+							// Text after a native tool call is kept in the history but not presented.
+							if (nativeToolUses.length > 0) {
+								break
+							}
+
+							assistantText += chunk.text
+							// kilocode_change end
+
 							// Parse raw assistant message into content blocks.
 							const prevLength = this.assistantMessageContent.length
-							this.assistantMessageContent = parseAssistantMessage(assistantMessage)
+							this.assistantMessageContent = parseAssistantMessage(assistantText) // kilocode_change
 
 							if (this.assistantMessageContent.length > prevLength) {
 								// New content we need to present, reset to
@@ -1420,6 +1730,29 @@ export class Task extends EventEmitter<ClineEvents> {
 							presentAssistantMessage(this)
 							break
 						}
+						// kilocode_change start
+						case "tool_call": {
+							const toolUse = parseNativeToolCall(chunk)
+
+							if (!toolUse) {
+								assistantMessage += `\n[Called unknown tool '${chunk.name}']`
+								break
+							}
+
+							assistantMessage += formatToolUseAsXml(toolUse)
+							nativeToolUses.push(toolUse)
+
+							// The text before the tool call is complete.
+							this.assistantMessageContent = [
+								...parseAssistantMessage(assistantText).map((block) => ({ ...block, partial: false })),
+								...nativeToolUses,
+							]
+							this.userMessageContentReady = false
+
+							presentAssistantMessage(this)
+							break
+						}
+						// kilocode_change end
 					}
 
 					if (this.abort) {
@@ -1478,32 +1811,49 @@ export class Task extends EventEmitter<ClineEvents> {
 
 					await abortStream(cancelReason, streamingFailedMessage)
 
-					const history = await provider?.getTaskWithId(this.taskId)
+					// kilocode_change start: a parallel subtask isn't on the stack, reopening it there would remove
+					// its parent and discard its siblings, so it's stopped instead and its siblings carry on
+					if (provider?.isParallelSubtask(this.taskId)) {
+						await provider.finishParallelSubtask(
+							this.taskId,
+							streamingFailedMessage ?? t("common:tasks.canceled"),
+							"cancelled",
+						)
+					} else {
+						const history = await provider?.getTaskWithId(this.taskId)
 
-					if (history) {
-						await provider?.initClineWithHistoryItem(history.historyItem)
+						if (history) {
+							await provider?.initClineWithHistoryItem(history.historyItem)
+						}
 					}
+					// kilocode_change end
 				}
 			} finally {
 				this.isStreaming = false
 			}
 
 			if (inputTokens > 0 || outputTokens > 0 || cacheWriteTokens > 0 || cacheReadTokens > 0) {
+				// kilocode_change start
+				const cost =
+					totalCost ??
+					calculateApiCostAnthropic(
+						this.api.getModel().info,
+						inputTokens,
+						outputTokens,
+						cacheWriteTokens,
+						cacheReadTokens,
+					)
+
 				TelemetryService.instance.captureLlmCompletion(this.taskId, {
 					inputTokens,
 					outputTokens,
 					cacheWriteTokens,
 					cacheReadTokens,
-					cost:
-						totalCost ??
-						calculateApiCostAnthropic(
-							this.api.getModel().info,
-							inputTokens,
-							outputTokens,
-							cacheWriteTokens,
-							cacheReadTokens,
-						),
+					cost,
 				})
+
+				await this.recordSpend(cost)
+				// kilocode_change end
 			}
 
 			// Need to call here in case the stream was aborted.
@@ -1651,6 +2001,7 @@ export class Task extends EventEmitter<ClineEvents> {
 								parsedText,
 								localWorkflowToggles,
 								globalWorkflowToggles,
+								this.providerRef.deref()?.getMcpHub(),
 							)
 
 							if (needsCheck) {
@@ -1757,11 +2108,58 @@ export class Task extends EventEmitter<ClineEvents> {
 				maxReadFileLine !== -1,
 				{
 					maxConcurrentFileReads,
+					nativeToolCalling: this.isNativeToolCallingEnabled(), // kilocode_change
+					contextFilePaths: await this.fileContextTracker.getFilesInContext(), // kilocode_change
 				},
 			)
 		})()
 	}
 
+	// kilocode_change start
+	private isNativeToolCallingEnabled(): boolean {
+		return !!this.apiConfiguration.nativeToolCalling && !!this.api.supportsNativeTools?.()
+	}
+
+	/**
+	 * Builds the definitions of the mode's tools for native tool calling from the same descriptions
+	 * the system prompt uses for the XML protocol.
+	 */
+	private async getNativeToolDefinitions(): Promise<ApiToolDefinition[]> {
+		const provider = this.providerRef.deref()
+
+		if (!provider) {
+			throw new Error("Provider not available")
+		}
+
+		const {
+			browserViewportSize,
+			mode,
+			customModes,
+			experiments,
+			browserToolEnabled,
+			maxConcurrentFileReads,
+			maxReadFileLine,
+		} = await provider.getState()
+
+		return getNativeToolDefinitions(
+			getToolDescriptionsForMode(
+				mode,
+				this.cwd,
+				(this.api.getModel().info.supportsImages ?? false) && (browserToolEnabled ?? true),
+				CodeIndexManager.getInstance(provider.context),
+				this.diffEnabled ? this.diffStrategy : undefined,
+				browserViewportSize,
+				provider.getMcpHub(),
+				customModes,
+				experiments,
+				maxReadFileLine !== -1,
+				{ maxConcurrentFileReads },
+				await loadCustomTools(this.cwd),
+			),
+		)
+	}
+	// kilocode_change end
+
 	public async *attemptApiRequest(retryAttempt: number = 0): ApiStream {
 		const state = await this.providerRef.deref()?.getState()
 		const {
@@ -1775,6 +2173,9 @@ export class Task extends EventEmitter<ClineEvents> {
 			profileThresholds = {},
 		} = state ?? {}
 
+		// kilocode_change: the configuration of the profile the task failed over to, like `getApiProfileId`
+		const activeApiConfiguration = this.apiProfileId ? this.apiConfiguration : apiConfiguration
+
 		// Get condensing configuration for automatic triggers
 		const customCondensingPrompt = state?.customCondensingPrompt
 		const condensingApiConfigId = state?.condensingApiConfigId
@@ -1803,7 +2204,7 @@ export class Task extends EventEmitter<ClineEvents> {
 		if (Task.lastGlobalApiRequestTime) {
 			const now = Date.now()
 			const timeSinceLastRequest = now - Task.lastGlobalApiRequestTime
-			const rateLimit = apiConfiguration?.rateLimitSeconds || 0
+			const rateLimit = activeApiConfiguration?.rateLimitSeconds || 0 // kilocode_change
 			rateLimitDelay = Math.ceil(Math.max(0, rateLimit * 1000 - timeSinceLastRequest) / 1000)
 		}
 
@@ -1894,9 +2295,12 @@ export class Task extends EventEmitter<ClineEvents> {
 			}
 		}
 
+		await this.enforceSpendBudgets() // kilocode_change
+
 		const metadata: ApiHandlerCreateMessageMetadata = {
 			mode: mode,
 			taskId: this.taskId,
+			...(this.isNativeToolCallingEnabled() && { tools: await this.getNativeToolDefinitions() }), // kilocode_change
 		}
 
 		const stream = this.api.createMessage(systemPrompt, cleanConversationHistory, metadata)
@@ -1908,11 +2312,19 @@ export class Task extends EventEmitter<ClineEvents> {
 			const firstChunk = await iterator.next()
 			yield firstChunk.value
 			this.isWaitingForFirstChunk = false
+			this.consecutiveApiFailureCount = 0 // kilocode_change
 			// note that this api_req_failed ask is unique in that we only present this option if the api hasn't streamed any content yet (ie it fails on the first chunk due), as it would allow them to hit a retry button. However if the api failed mid-stream, it could be in any arbitrary state where some tools may have executed, so that error is handled differently and requires cancelling the task entirely.
 		} catch (error) {
 			// kilocode_change start
+			this.consecutiveApiFailureCount++
+
+			if (await this.failoverToNextApiProfile(error)) {
+				yield* this.attemptApiRequest()
+				return
+			}
+
 			// Check for payment required error from KiloCode provider
-			if ((error as any).status === 402 && apiConfiguration?.apiProvider === "kilocode") {
+			if ((error as any).status === 402 && activeApiConfiguration?.apiProvider === "kilocode") {
 				const balance = (error as any).balance ?? "0.00"
 				const buyCreditsUrl = (error as any).buyCreditsUrl ?? "https://kilocode.ai/profile"
 
@@ -2036,6 +2448,20 @@ export class Task extends EventEmitter<ClineEvents> {
 		return checkpointDiff(this, options)
 	}
 
+	// kilocode_change start
+	public async checkpointFiles(options: CheckpointFilesOptions) {
+		return checkpointFiles(this, options)
+	}
+
+	public async checkpointRestoreFiles(options: CheckpointRestoreFilesOptions) {
+		return checkpointRestoreFiles(this, options)
+	}
+
+	public async checkpointExport() {
+		return checkpointExport(this)
+	}
+	// kilocode_change end
+
 	// Metrics
 
 	public combineMessages(messages: ClineMessage[]) {
@@ -2060,6 +2486,7 @@ export class Task extends EventEmitter<ClineEvents> {
 		}
 
 		this.toolUsage[toolName].failures++
+		this.toolRepetitionDetector.recordError(toolName) // kilocode_change
 
 		if (error) {
 			this.emit("taskToolFailed", this.taskId, toolName, error)
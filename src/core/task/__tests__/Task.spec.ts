@@ -6,12 +6,13 @@ import * as path from "path"
 import * as vscode from "vscode"
 import { Anthropic } from "@anthropic-ai/sdk"
 
-import type { GlobalState, ProviderSettings, ModelInfo } from "@roo-code/types"
+import type { GlobalState, ProviderSettings, ModelInfo, ClineMessage } from "@roo-code/types" // kilocode_change: ClineMessage
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { Task } from "../Task"
 import { ClineProvider } from "../../webview/ClineProvider"
 import { ApiStreamChunk } from "../../../api/transform/stream"
+import { AnthropicHandler } from "../../../api/providers/anthropic" // kilocode_change
 import { ContextProxy } from "../../config/ContextProxy"
 import { processUserContentMentions } from "../../mentions/processUserContentMentions"
 import { MultiSearchReplaceDiffStrategy } from "../../diff/strategies/multi-search-replace"
@@ -25,6 +26,7 @@ vi.mock("delay", () => ({
 }))
 
 import delay from "delay"
+import pWaitFor from "p-wait-for" // kilocode_change
 
 vi.mock("execa", () => ({
 	execa: vi.fn(),
@@ -116,6 +118,7 @@ vi.mock("vscode", () => {
 				stat: vi.fn().mockResolvedValue({ type: 1 }), // FileType.File = 1
 			},
 			onDidSaveTextDocument: vi.fn(() => mockDisposable),
+			onDidChangeWorkspaceFolders: vi.fn(() => mockDisposable), // kilocode_change
 			getConfiguration: vi.fn(() => ({ get: (key: string, defaultValue: any) => defaultValue })),
 		},
 		env: {
@@ -146,7 +149,16 @@ vi.mock("../../environment/getEnvironmentDetails", () => ({
 	getEnvironmentDetails: vi.fn().mockResolvedValue(""),
 }))
 
+// kilocode_change start
+vi.mock("../../../services/worktrees", () => ({
+	createTaskWorktree: vi.fn(),
+	mergeTaskWorktree: vi.fn().mockResolvedValue({ changedFiles: [], conflicts: [] }),
+	removeTaskWorktree: vi.fn().mockResolvedValue(undefined),
+}))
+// kilocode_change end
+
 vi.mock("../../ignore/RooIgnoreController")
+vi.mock("../../protect/RooProtectedController") // kilocode_change
 
 // Mock storagePathManager to prevent dynamic import issues.
 vi.mock("../../../utils/storage", () => ({
@@ -329,6 +341,191 @@ describe("Cline", () => {
 		})
 	})
 
+	// kilocode_change start
+	describe("getPendingAsk", () => {
+		it("should return the ask until it is answered", async () => {
+			const cline = new Task({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				task: "test task",
+				startTask: false,
+				context: mockExtensionContext,
+			})
+
+			vi.spyOn(cline as any, "addToClineMessages").mockImplementation(async (message: any) => {
+				cline.clineMessages.push(message)
+			})
+
+			expect(cline.getPendingAsk()).toBeUndefined()
+
+			let pendingAsk: ClineMessage | undefined
+
+			vi.mocked(pWaitFor).mockImplementationOnce(async () => {
+				pendingAsk = cline.getPendingAsk()
+				await cline.handleWebviewAskResponse("messageResponse", "src/index.ts")
+			})
+
+			const result = await cline.ask("followup", "Which file?")
+
+			expect(pendingAsk).toMatchObject({ type: "ask", ask: "followup", text: "Which file?" })
+			expect(result).toEqual({ response: "messageResponse", text: "src/index.ts", images: undefined })
+			expect(cline.getPendingAsk()).toBeUndefined()
+		})
+	})
+	// kilocode_change end
+
+	// kilocode_change start
+	describe("MCP sampling", () => {
+		it("should wait for the pending ask to be answered before asking to sample", async () => {
+			const cline = new Task({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				task: "test task",
+				startTask: false,
+				context: mockExtensionContext,
+			})
+
+			vi.spyOn(cline as any, "addToClineMessages").mockImplementation(async (message: any) => {
+				cline.clineMessages.push(message)
+			})
+			vi.mocked(pWaitFor).mockImplementation(async (condition) => {
+				while (!(await condition())) {
+					await new Promise((resolve) => setTimeout(resolve, 1))
+				}
+			})
+			const samplingAsks = () => cline.clineMessages.filter((message) => message.ask === "use_mcp_server")
+
+			try {
+				const followup = cline.ask("followup", "Which file?")
+				await vi.waitFor(() => expect(cline.getPendingAsk()).toBeDefined())
+
+				const sampling = expect(
+					cline.handleMcpSamplingRequest("test-server", {
+						maxTokens: 100,
+						messages: [{ role: "user", content: { type: "text", text: "hi" } }],
+					}),
+				).rejects.toThrow("User rejected the sampling request")
+
+				await new Promise((resolve) => setTimeout(resolve, 20))
+				expect(samplingAsks()).toHaveLength(0)
+
+				await cline.handleWebviewAskResponse("messageResponse", "src/index.ts")
+				expect(await followup).toMatchObject({ response: "messageResponse", text: "src/index.ts" })
+
+				await vi.waitFor(() => expect(samplingAsks()).toHaveLength(1))
+				await cline.handleWebviewAskResponse("noButtonClicked")
+				await sampling
+			} finally {
+				vi.mocked(pWaitFor).mockImplementation(async () => {})
+			}
+		})
+	})
+	// kilocode_change end
+
+	// kilocode_change start
+	describe("parallel subtasks", () => {
+		it("should only stop the subtask whose stream fails", async () => {
+			const createTask = (task: string, parentTask?: Task) =>
+				new Task({
+					provider: mockProvider,
+					apiConfiguration: mockApiConfig,
+					task,
+					parentTask,
+					startTask: false,
+					context: mockExtensionContext,
+				})
+
+			const parent = createTask("parent task")
+			const [failing, sibling] = [createTask("subtask 1", parent), createTask("subtask 2", parent)]
+			mockProvider.clineStack.push(parent)
+
+			for (const [i, task] of [failing, sibling].entries()) {
+				mockProvider.parallelSubtasks.set(task.taskId, {
+					task,
+					parentTaskId: parent.taskId,
+					message: `subtask ${i + 1}`,
+					worktree: { worktreeDir: `/worktrees/${i + 1}`, workspacePath: `/worktrees/${i + 1}` },
+					state: "running",
+				})
+			}
+
+			const initClineWithHistoryItem = vi.spyOn(mockProvider, "initClineWithHistoryItem")
+			const abortSibling = vi.spyOn(sibling, "abortTask")
+			const resumeParent = vi.spyOn(parent, "resumePausedTask")
+			vi.spyOn(failing.diffViewProvider, "reset").mockResolvedValue(undefined)
+			vi.spyOn(failing.api, "createMessage").mockReturnValue(
+				(async function* () {
+					yield { type: "text", text: "Working on it" } as ApiStreamChunk
+					throw new Error("socket hang up")
+				})(),
+			)
+
+			await failing.recursivelyMakeClineRequests([{ type: "text", text: "subtask 1" }])
+
+			expect(initClineWithHistoryItem).not.toHaveBeenCalled()
+			expect(mockProvider.clineStack).toEqual([parent])
+			expect(abortSibling).not.toHaveBeenCalled()
+			expect(resumeParent).not.toHaveBeenCalled()
+			expect(mockProvider.getParallelSubtaskStatuses()).toEqual([
+				expect.objectContaining({ taskId: failing.taskId, state: "cancelled" }),
+				expect.objectContaining({ taskId: sibling.taskId, state: "running" }),
+			])
+		})
+	})
+
+	describe("spend budgets", () => {
+		let task: Task
+		let dailySpendLimit: number
+
+		beforeEach(() => {
+			task = new Task({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				task: "test task",
+				startTask: false,
+				context: mockExtensionContext,
+			})
+			dailySpendLimit = 1
+
+			const getState = mockProvider.getState.bind(mockProvider)
+			vi.spyOn(mockProvider, "getState").mockImplementation(async () => ({
+				...(await getState()),
+				dailySpendLimit,
+				spendLedger: [{ ts: Date.now(), cost: 2 }],
+			}))
+		})
+
+		it("should stop the task without making the request when the prompt is declined", async () => {
+			const ask = vi.spyOn(task, "ask").mockResolvedValue({ response: "noButtonClicked" })
+			const createMessage = vi.spyOn(task.api, "createMessage")
+			vi.spyOn(mockProvider, "initClineWithHistoryItem").mockResolvedValue(undefined)
+			vi.spyOn(task.diffViewProvider, "reset").mockResolvedValue(undefined)
+
+			await task.recursivelyMakeClineRequests([{ type: "text", text: "test task" }])
+
+			expect(ask).toHaveBeenCalledTimes(1)
+			expect(ask).toHaveBeenCalledWith("spend_budget_reached", expect.stringContaining('"exceeded":true'))
+			expect(createMessage).not.toHaveBeenCalled()
+			expect(task.abort).toBe(true)
+		})
+
+		it("should keep asking while the budget stays exceeded", async () => {
+			const ask = vi
+				.spyOn(task, "ask")
+				.mockResolvedValueOnce({ response: "yesButtonClicked" })
+				.mockImplementationOnce(async () => {
+					dailySpendLimit = 10
+					return { response: "yesButtonClicked" }
+				})
+
+			await (task as any).enforceSpendBudgets()
+
+			expect(ask).toHaveBeenCalledTimes(2)
+			expect(task.abort).toBe(false)
+		})
+	})
+	// kilocode_change end
+
 	describe("getEnvironmentDetails", () => {
 		describe("API conversation handling", () => {
 			it.skip("should clean conversation history before sending to API", async () => {
@@ -1211,6 +1408,57 @@ describe("Cline", () => {
 				expect(mockDelay).not.toHaveBeenCalled()
 			})
 
+			// kilocode_change start
+			it("should rate limit with the profile the task failed over to", async () => {
+				mockApiConfig.rateLimitSeconds = 0
+				mockProvider.getState.mockResolvedValue({
+					apiConfiguration: mockApiConfig,
+					listApiConfigMeta: [{ id: "primary", name: "primary", apiProvider: "anthropic" }],
+					currentApiConfigName: "primary",
+				})
+				mockProvider.log = vi.fn()
+				mockProvider.providerSettingsManager = {
+					getFallbackProfiles: vi.fn().mockResolvedValue([
+						{
+							id: "fallback",
+							name: "fallback",
+							apiProvider: "anthropic",
+							apiKey: "fallback-key",
+							rateLimitSeconds: 3,
+						},
+					]),
+				}
+
+				const task = new Task({
+					provider: mockProvider,
+					apiConfiguration: mockApiConfig,
+					task: "test task",
+					startTask: false,
+					context: mockExtensionContext,
+				})
+
+				// eslint-disable-next-line require-yield
+				vi.spyOn(task.api, "createMessage").mockImplementation(async function* () {
+					throw Object.assign(new Error("prompt is too long"), { status: 400 })
+				})
+				const fallbackCreateMessage = vi
+					.spyOn(AnthropicHandler.prototype, "createMessage")
+					.mockImplementation(async function* () {
+						yield { type: "text", text: "fallback response" }
+					})
+
+				try {
+					const iterator = task.attemptApiRequest(0)
+					expect((await iterator.next()).value).toEqual({ type: "text", text: "fallback response" })
+				} finally {
+					fallbackCreateMessage.mockRestore()
+				}
+
+				expect(task.apiConfiguration.rateLimitSeconds).toBe(3)
+				expect(mockDelay).toHaveBeenCalledTimes(3)
+			})
+			// kilocode_change end
+
 			it("should update global timestamp even when no rate limiting is needed", async () => {
 				// Create task
 				const task = new Task({
@@ -1,21 +1,74 @@
 import { ToolUse } from "../../shared/tools"
 import { t } from "../../i18n"
 
+// kilocode_change start
+/**
+ * How to respond to a detected loop, escalating each time a loop is detected again in the same task.
+ */
+export type ToolLoopEscalation = "ask" | "suggest_mode_switch" | "condense"
+
+const TOOL_LOOP_ESCALATIONS: ToolLoopEscalation[] = ["ask", "suggest_mode_switch", "condense"]
+
+type ToolCallRecord = {
+	json: string
+	name: string
+	path?: string
+	failed: boolean
+}
+
+export type ToolRepetitionCheckResult = {
+	allowExecution: boolean
+	askUser?: {
+		messageKey: string
+		messageDetail: string
+	}
+	escalation?: ToolLoopEscalation
+}
+
+export type ToolRepetitionDetectorOptions = {
+	/** Number of recent tool calls considered for cycles and repeated failures */
+	windowSize?: number
+	/** Longest sequence of tool calls recognized as a cycle */
+	maxCycleLength?: number
+	/** Number of times a sequence must repeat back to back to count as a cycle */
+	cycleRepetitions?: number
+	/** Number of failed calls on the same path within the window before the next one is blocked */
+	pathFailureLimit?: number
+}
+// kilocode_change end
+
 /**
  * Class for detecting consecutive identical tool calls
  * to prevent the AI from getting stuck in a loop.
+ * kilocode_change: also detects cycles of tool calls and repeated failures on the same path
+ * within a sliding window of recent calls.
  */
 export class ToolRepetitionDetector {
 	private previousToolCallJson: string | null = null
 	private consecutiveIdenticalToolCallCount: number = 0
 	private readonly consecutiveIdenticalToolCallLimit: number
+	// kilocode_change start
+	private recentToolCalls: ToolCallRecord[] = []
+	private loopCount = 0
+	private readonly windowSize: number
+	private readonly maxCycleLength: number
+	private readonly cycleRepetitions: number
+	private readonly pathFailureLimit: number
+	// kilocode_change end
 
 	/**
 	 * Creates a new ToolRepetitionDetector
 	 * @param limit The maximum number of identical consecutive tool calls allowed
+	 * @param options Limits for cycle and repeated failure detection // kilocode_change
 	 */
-	constructor(limit: number = 3) {
+	constructor(limit: number = 3, options: ToolRepetitionDetectorOptions = {} /* kilocode_change */) {
 		this.consecutiveIdenticalToolCallLimit = limit
+		// kilocode_change start
+		this.windowSize = options.windowSize ?? 12
+		this.maxCycleLength = options.maxCycleLength ?? 4
+		this.cycleRepetitions = options.cycleRepetitions ?? 3
+		this.pathFailureLimit = options.pathFailureLimit ?? 3
+		// kilocode_change end
 	}
 
 	/**
@@ -25,13 +78,7 @@ export class ToolRepetitionDetector {
 	 * @param currentToolCallBlock ToolUse object representing the current tool call
 	 * @returns Object indicating if execution is allowed and a message to show if not
 	 */
-	public check(currentToolCallBlock: ToolUse): {
-		allowExecution: boolean
-		askUser?: {
-			messageKey: string
-			messageDetail: string
-		}
-	} {
+	public check(currentToolCallBlock: ToolUse): ToolRepetitionCheckResult /* kilocode_change */ {
 		// Serialize the block to a canonical JSON string for comparison
 		const currentToolCallJson = this.serializeToolUse(currentToolCallBlock)
 
@@ -62,10 +109,125 @@ export class ToolRepetitionDetector {
 			}
 		}
 
+		// kilocode_change start
+		const loopDetail = this.detectLoop(currentToolCallBlock, currentToolCallJson)
+
+		if (loopDetail) {
+			const escalation = TOOL_LOOP_ESCALATIONS[Math.min(this.loopCount, TOOL_LOOP_ESCALATIONS.length - 1)]
+			this.loopCount++
+
+			// Start over so that the calls that formed the loop are not counted again after the user steps in.
+			this.recentToolCalls = []
+			this.consecutiveIdenticalToolCallCount = 0
+			this.previousToolCallJson = null
+
+			return {
+				allowExecution: false,
+				askUser: {
+					messageKey: "mistake_limit_reached",
+					messageDetail:
+						escalation === "ask"
+							? loopDetail
+							: `${loopDetail} ${t("tools:toolLoopDetected.suggestModeSwitch")}`,
+				},
+				escalation,
+			}
+		}
+		// kilocode_change end
+
 		// Execution is allowed
 		return { allowExecution: true }
 	}
 
+	// kilocode_change start
+	/**
+	 * Records that the most recent call of the given tool failed, so that repeated failures
+	 * on the same path can be detected.
+	 */
+	public recordError(toolName: string) {
+		for (let i = this.recentToolCalls.length - 1; i >= 0; i--) {
+			if (this.recentToolCalls[i].name === toolName) {
+				this.recentToolCalls[i].failed = true
+				return
+			}
+		}
+	}
+
+	/**
+	 * Adds the call to the window of recent calls and checks it for cycles and repeated failures.
+	 * @returns A description of the detected loop, or undefined if there is none
+	 */
+	private detectLoop(toolUse: ToolUse, json: string): string | undefined {
+		const path = this.getToolPath(toolUse)
+
+		if (path) {
+			const failures = this.recentToolCalls.filter((call) => call.failed && call.path === path).length
+
+			if (failures >= this.pathFailureLimit) {
+				return t("tools:toolLoopDetected.repeatedFailures", { path, count: failures })
+			}
+		}
+
+		this.recentToolCalls.push({ json, name: toolUse.name, path, failed: false })
+
+		if (this.recentToolCalls.length > this.windowSize) {
+			this.recentToolCalls.shift()
+		}
+
+		const cycle = this.findCycle()
+
+		if (cycle) {
+			return t("tools:toolLoopDetected.cycle", { tools: cycle.map((call) => call.name).join(" → ") })
+		}
+
+		return undefined
+	}
+
+	/**
+	 * Finds a sequence of two or more different tool calls that the most recent calls repeat back to back,
+	 * such as A, B, A, B, A, B. Runs of a single identical call are left to the consecutive call limit.
+	 */
+	private findCycle(): ToolCallRecord[] | undefined {
+		const calls = this.recentToolCalls
+
+		for (let length = 2; length <= this.maxCycleLength; length++) {
+			const span = length * this.cycleRepetitions
+
+			if (span > calls.length) {
+				break
+			}
+
+			const tail = calls.slice(calls.length - span)
+			const cycle = tail.slice(0, length)
+
+			if (new Set(cycle.map((call) => call.json)).size < 2) {
+				continue
+			}
+
+			if (tail.every((call, i) => call.json === cycle[i % length].json)) {
+				return cycle
+			}
+		}
+
+		return undefined
+	}
+
+	/**
+	 * Returns the file or directory a tool call operates on, including the paths of multi-file calls.
+	 */
+	private getToolPath(toolUse: ToolUse): string | undefined {
+		if (toolUse.params.path) {
+			return toolUse.params.path
+		}
+
+		const paths = [...(toolUse.params.args ?? "").matchAll(/<path>([^<]*)<\/path>/g)].map((match) =>
+			match[1].trim(),
+		)
+
+		return paths.length > 0 ? paths.join(", ") : undefined
+	}
+	// kilocode_change end
+
 	/**
 	 * Serializes a ToolUse object into a canonical JSON string for comparison
 	 *
@@ -302,4 +302,133 @@ describe("ToolRepetitionDetector", () => {
 			expect(result3.askUser).toBeDefined()
 		})
 	})
+
+	// kilocode_change start
+	describe("cycle detection", () => {
+		const readA = () => createToolUse("read_file", undefined, { path: "a.ts" })
+		const diffA = () => createToolUse("apply_diff", undefined, { path: "a.ts", diff: "same" })
+
+		it("blocks a sequence of calls that repeats three times", () => {
+			const detector = new ToolRepetitionDetector()
+
+			for (let i = 0; i < 5; i++) {
+				expect(detector.check(i % 2 === 0 ? readA() : diffA()).allowExecution).toBe(true)
+			}
+
+			const result = detector.check(diffA())
+
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser).toEqual({
+				messageKey: "mistake_limit_reached",
+				messageDetail: "tools:toolLoopDetected.cycle",
+			})
+			expect(result.escalation).toBe("ask")
+		})
+
+		it("detects longer cycles", () => {
+			const detector = new ToolRepetitionDetector()
+			const calls = [readA, diffA, () => createToolUse("list_files", undefined, { path: "." })]
+
+			const results = Array.from({ length: 9 }, (_, i) => detector.check(calls[i % 3]()))
+
+			expect(results.slice(0, 8).every((result) => result.allowExecution)).toBe(true)
+			expect(results[8].allowExecution).toBe(false)
+		})
+
+		it("allows alternating calls that change between iterations", () => {
+			const detector = new ToolRepetitionDetector()
+
+			for (let i = 0; i < 12; i++) {
+				const block =
+					i % 2 === 0 ? readA() : createToolUse("apply_diff", undefined, { path: "a.ts", diff: `edit ${i}` })
+
+				expect(detector.check(block).allowExecution).toBe(true)
+			}
+		})
+	})
+
+	describe("repeated failures on the same path", () => {
+		const diff = (content: string, path = "a.ts") => createToolUse("apply_diff", undefined, { path, diff: content })
+
+		it("blocks the next call on a path after three failed calls", () => {
+			const detector = new ToolRepetitionDetector()
+
+			for (let i = 0; i < 3; i++) {
+				expect(detector.check(diff(`attempt ${i}`)).allowExecution).toBe(true)
+				detector.recordError("apply_diff")
+			}
+
+			expect(detector.check(diff("attempt 3", "b.ts")).allowExecution).toBe(true)
+
+			const result = detector.check(diff("attempt 4"))
+
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser?.messageDetail).toBe("tools:toolLoopDetected.repeatedFailures")
+		})
+
+		it("counts paths from multi-file calls", () => {
+			const detector = new ToolRepetitionDetector()
+			const read = (i: number) =>
+				createToolUse("read_file", undefined, {
+					args: `<file><path>a.ts</path><line_range>${i}-${i + 1}</line_range></file>`,
+				})
+
+			for (let i = 0; i < 3; i++) {
+				detector.check(read(i))
+				detector.recordError("read_file")
+			}
+
+			expect(detector.check(read(3)).allowExecution).toBe(false)
+		})
+
+		it("ignores failures that left the window", () => {
+			const detector = new ToolRepetitionDetector(3, { windowSize: 4 })
+
+			for (let i = 0; i < 3; i++) {
+				detector.check(diff(`attempt ${i}`))
+				detector.recordError("apply_diff")
+			}
+
+			detector.check(createToolUse("list_files", undefined, { path: "src" }))
+			detector.check(createToolUse("search_files", undefined, { path: "src", regex: "foo" }))
+
+			expect(detector.check(diff("attempt 3")).allowExecution).toBe(true)
+		})
+	})
+
+	describe("escalation", () => {
+		it("suggests a mode switch and then condenses the context when loops keep coming back", () => {
+			const detector = new ToolRepetitionDetector()
+			const escalations = []
+
+			for (let loop = 0; loop < 4; loop++) {
+				for (let i = 0; i < 3; i++) {
+					detector.check(createToolUse("apply_diff", undefined, { path: "a.ts", diff: `${loop}-${i}` }))
+					detector.recordError("apply_diff")
+				}
+
+				const result = detector.check(createToolUse("apply_diff", undefined, { path: "a.ts", diff: "again" }))
+				expect(result.allowExecution).toBe(false)
+				escalations.push(result.escalation)
+			}
+
+			expect(escalations).toEqual(["ask", "suggest_mode_switch", "condense", "condense"])
+		})
+
+		it("adds the mode switch suggestion to the message", () => {
+			const detector = new ToolRepetitionDetector(3, { pathFailureLimit: 1 })
+
+			detector.check(createToolUse("apply_diff", undefined, { path: "a.ts", diff: "1" }))
+			detector.recordError("apply_diff")
+			detector.check(createToolUse("apply_diff", undefined, { path: "a.ts", diff: "2" }))
+			detector.check(createToolUse("apply_diff", undefined, { path: "a.ts", diff: "3" }))
+			detector.recordError("apply_diff")
+
+			expect(
+				detector.check(createToolUse("apply_diff", undefined, { path: "a.ts", diff: "4" })).askUser
+					?.messageDetail,
+			).toBe("tools:toolLoopDetected.repeatedFailures tools:toolLoopDetected.suggestModeSwitch")
+		})
+	})
+	// kilocode_change end
 })
@@ -0,0 +1,199 @@
+// kilocode_change - new file
+// npx vitest core/tools/__tests__/applyPatchTool.spec.ts
+
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+
+import { UnifiedDiffStrategy } from "../../diff/strategies/unified-diff"
+import { applyPatchTool } from "../applyPatchTool"
+
+vi.mock("@roo-code/telemetry", () => ({
+	TelemetryService: { instance: { captureDiffApplicationError: vi.fn() } },
+}))
+
+vi.mock("../../../utils/pathUtils", () => ({
+	isPathOutsideWorkspace: vi.fn(),
+}))
+
+import { isPathOutsideWorkspace } from "../../../utils/pathUtils"
+
+describe("applyPatchTool", () => {
+	let cwd: string
+	let mockCline: any
+	let askApproval: ReturnType<typeof vi.fn>
+	let pushToolResult: ReturnType<typeof vi.fn>
+	let mode: string
+
+	const run = (diff: string) =>
+		applyPatchTool(
+			mockCline,
+			{ type: "tool_use", name: "apply_diff", params: { diff }, partial: false },
+			askApproval,
+			vi.fn(),
+			pushToolResult,
+			(_tag, content) => content ?? "",
+		)
+
+	const approvedTools = () => askApproval.mock.calls.map(([, message]) => JSON.parse(message).tool)
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "apply-patch-"))
+		await fs.writeFile(path.join(cwd, "a.ts"), "const a = 1\nconst b = 2\n")
+		await fs.writeFile(path.join(cwd, "old.ts"), "export {}\n")
+		await fs.writeFile(path.join(cwd, "legacy.ts"), "// unused\n")
+
+		vi.mocked(isPathOutsideWorkspace).mockImplementation((filePath) => !filePath.startsWith(cwd + path.sep))
+		askApproval = vi.fn().mockResolvedValue(true)
+		pushToolResult = vi.fn()
+		mode = "code"
+
+		mockCline = {
+			cwd,
+			providerRef: { deref: () => ({ getState: async () => ({ mode, customModes: [] }) }) },
+			api: { getModel: () => ({ id: "claude-sonnet" }) },
+			diffStrategy: new UnifiedDiffStrategy(),
+			consecutiveMistakeCount: 0,
+			consecutiveMistakeCountForApplyDiff: new Map(),
+			didEditFile: false,
+			taskId: "task",
+			rooIgnoreController: { validateAccess: vi.fn().mockReturnValue(true) },
+			diffViewProvider: {
+				open: vi.fn(),
+				update: vi.fn(),
+				scrollToFirstDiff: vi.fn(),
+				revertChanges: vi.fn(),
+				saveChanges: vi.fn(),
+				reset: vi.fn(),
+				pushToolWriteResult: vi.fn().mockResolvedValue("<file_write_result />"),
+			},
+			fileContextTracker: { trackFileContext: vi.fn() },
+			say: vi.fn(),
+			ask: vi.fn().mockResolvedValue({}),
+			recordToolError: vi.fn(),
+			sayAndCreateMissingParamError: vi.fn(),
+		}
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("should modify, create, rename and delete files one at a time", async () => {
+		await run(`--- a/a.ts
++++ b/a.ts
+@@ -1,2 +1,2 @@
+ const a = 1
+-const b = 2
++const b = 3
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1 @@
++export const c = 4
+--- a/old.ts
++++ b/src/renamed.ts
+--- a/legacy.ts
++++ /dev/null`)
+
+		expect(approvedTools()).toEqual(["appliedDiff", "newFileCreated", "movedFile", "deletedFile"])
+		expect(mockCline.diffViewProvider.update).toHaveBeenCalledWith("const a = 1\nconst b = 3\n", true)
+		expect(mockCline.diffViewProvider.update).toHaveBeenCalledWith("export const c = 4\n", true)
+		expect(await fs.readFile(path.join(cwd, "src/renamed.ts"), "utf8")).toBe("export {}\n")
+		await expect(fs.access(path.join(cwd, "old.ts"))).rejects.toThrow()
+		await expect(fs.access(path.join(cwd, "legacy.ts"))).rejects.toThrow()
+		expect(pushToolResult).toHaveBeenCalledTimes(1)
+		expect(pushToolResult.mock.calls[0][0]).toContain("Deleted legacy.ts")
+	})
+
+	it("should stop at the first file the user denies", async () => {
+		askApproval.mockResolvedValueOnce(false)
+
+		await run("--- a/a.ts\n+++ b/a.ts\n@@ -2 +2 @@\n-const b = 2\n+const b = 3\n--- a/legacy.ts\n+++ /dev/null")
+
+		expect(mockCline.diffViewProvider.revertChanges).toHaveBeenCalled()
+		expect(await fs.readFile(path.join(cwd, "legacy.ts"), "utf8")).toBe("// unused\n")
+		expect(pushToolResult).not.toHaveBeenCalled()
+	})
+
+	it("should report the files changed before a denied file apart from the denial", async () => {
+		askApproval.mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+
+		await run(
+			"--- a/a.ts\n+++ b/a.ts\n@@ -2 +2 @@\n-const b = 2\n+const b = 3\n--- a/legacy.ts\n+++ /dev/null\n--- a/old.ts\n+++ /dev/null",
+		)
+
+		expect(mockCline.diffViewProvider.saveChanges).toHaveBeenCalledTimes(1)
+		expect(await fs.readFile(path.join(cwd, "old.ts"), "utf8")).toBe("export {}\n")
+		expect(pushToolResult).toHaveBeenCalledTimes(1)
+		expect(pushToolResult.mock.calls[0][0]).toContain(
+			"The patch was only partly applied, these files were not changed: legacy.ts, old.ts",
+		)
+		expect(pushToolResult.mock.calls[0][0]).toContain("<file_write_result />")
+	})
+
+	it("should flag moves out of the workspace", async () => {
+		askApproval.mockResolvedValue(false)
+
+		await run("--- a/old.ts\n+++ b/../moved.ts")
+
+		expect(JSON.parse(askApproval.mock.calls[0][1])).toMatchObject({ tool: "movedFile", isOutsideWorkspace: true })
+		expect(mockCline.diffViewProvider.open).toHaveBeenCalledWith("old.ts")
+	})
+
+	it("should flag deleted files outside the workspace", async () => {
+		const outside = path.join(path.dirname(cwd), `${path.basename(cwd)}-outside.ts`)
+		await fs.writeFile(outside, "// outside\n")
+
+		try {
+			await run(`--- a/../${path.basename(outside)}\n+++ /dev/null\n--- a/legacy.ts\n+++ /dev/null`)
+		} finally {
+			await fs.rm(outside, { force: true })
+		}
+
+		expect(askApproval.mock.calls.map(([, message]) => JSON.parse(message).isOutsideWorkspace)).toEqual([
+			true,
+			false,
+		])
+	})
+
+	it("should report hunks that don't apply without asking for approval", async () => {
+		await run("--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-const z = 9\n+const z = 0")
+
+		expect(askApproval).not.toHaveBeenCalled()
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(pushToolResult.mock.calls[0][0]).toContain("Hunk #1 (@@ -1 +1 @@)")
+	})
+
+	it("should reject patches that don't name their files", async () => {
+		await run("@@ -1 +1 @@\n-a\n+b")
+
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(pushToolResult.mock.calls[0][0]).toContain("Unable to parse the patch")
+	})
+
+	it("should check every file in the patch against the mode's file restrictions", async () => {
+		mode = "architect"
+
+		await run(
+			"--- /dev/null\n+++ b/notes.md\n@@ -0,0 +1 @@\n+# Notes\n--- a/a.ts\n+++ b/a.ts\n@@ -2 +2 @@\n-const b = 2\n+const b = 3",
+		)
+
+		expect(askApproval).not.toHaveBeenCalled()
+		expect(mockCline.diffViewProvider.open).not.toHaveBeenCalled()
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(pushToolResult.mock.calls[0][0]).toContain("can only edit files matching pattern")
+		expect(pushToolResult.mock.calls[0][0]).toContain("a.ts")
+		await expect(fs.access(path.join(cwd, "notes.md"))).rejects.toThrow()
+	})
+
+	it("should check the destination of a moved file against the mode's file restrictions", async () => {
+		mode = "architect"
+		await fs.writeFile(path.join(cwd, "notes.md"), "# Notes\n")
+
+		await run("--- a/notes.md\n+++ b/notes.ts")
+
+		expect(askApproval).not.toHaveBeenCalled()
+		expect(pushToolResult.mock.calls[0][0]).toContain("notes.ts")
+		expect(await fs.readFile(path.join(cwd, "notes.md"), "utf8")).toBe("# Notes\n")
+	})
+})
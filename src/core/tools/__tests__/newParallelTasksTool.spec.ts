@@ -0,0 +1,126 @@
+// kilocode_change - new file
+// npx vitest core/tools/__tests__/newParallelTasksTool.spec.ts
+
+import type { AskApproval, HandleError, ToolUse } from "../../../shared/tools"
+
+vi.mock("delay", () => ({ default: vi.fn() }))
+
+vi.mock("../../../shared/modes", () => ({
+	getModeBySlug: vi.fn(),
+	defaultModeSlug: "ask",
+}))
+
+vi.mock("../../prompts/responses", () => ({
+	formatResponse: {
+		toolError: vi.fn((msg: string) => `Tool Error: ${msg}`),
+	},
+}))
+
+const mockAskApproval = vi.fn<AskApproval>()
+const mockHandleError = vi.fn<HandleError>()
+const mockPushToolResult = vi.fn()
+const mockRemoveClosingTag = vi.fn((_name: string, value: string | undefined) => value ?? "")
+const mockInitParallelSubtasks = vi.fn()
+const mockHandleModeSwitch = vi.fn()
+
+const mockCline = {
+	ask: vi.fn(),
+	sayAndCreateMissingParamError: vi.fn(),
+	emit: vi.fn(),
+	recordToolError: vi.fn(),
+	consecutiveMistakeCount: 0,
+	isPaused: false,
+	pausedModeSlug: "ask",
+	providerRef: {
+		deref: vi.fn(() => ({
+			getState: vi.fn(() => ({ customModes: [], mode: "architect" })),
+			handleModeSwitch: mockHandleModeSwitch,
+			initParallelSubtasks: mockInitParallelSubtasks,
+		})),
+	},
+}
+
+import { newParallelTasksTool } from "../newParallelTasksTool"
+import { getModeBySlug } from "../../../shared/modes"
+
+const createBlock = (messages: string[]): ToolUse => ({
+	type: "tool_use",
+	name: "new_parallel_tasks",
+	params: {
+		mode: "code",
+		args: messages.map((message) => `<task><message>${message}</message></task>`).join("\n"),
+	},
+	partial: false,
+})
+
+const runTool = (block: ToolUse) =>
+	newParallelTasksTool(
+		mockCline as any,
+		block,
+		mockAskApproval,
+		mockHandleError,
+		mockPushToolResult,
+		mockRemoveClosingTag,
+	)
+
+describe("newParallelTasksTool", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		mockAskApproval.mockResolvedValue(true)
+		mockInitParallelSubtasks.mockImplementation(async (_parent, messages: string[]) =>
+			messages.map((_, index) => ({ taskId: `subtask-${index}` })),
+		)
+		vi.mocked(getModeBySlug).mockReturnValue({
+			slug: "code",
+			name: "Code Mode",
+			roleDefinition: "Test role definition",
+			groups: ["command", "read", "edit"],
+		})
+		mockCline.consecutiveMistakeCount = 0
+		mockCline.isPaused = false
+		mockCline.pausedModeSlug = "ask"
+	})
+
+	it("starts a subtask for each task and pauses the parent", async () => {
+		await runTool(createBlock(["Write the parser", "Write the \\\\@docs"]))
+
+		expect(mockAskApproval).toHaveBeenCalledWith(
+			"tool",
+			JSON.stringify({
+				tool: "newParallelTasks",
+				mode: "Code Mode",
+				tasks: ["Write the parser", "Write the \\@docs"],
+			}),
+		)
+		expect(mockHandleModeSwitch).toHaveBeenCalledWith("code")
+		expect(mockInitParallelSubtasks).toHaveBeenCalledWith(mockCline, ["Write the parser", "Write the \\@docs"])
+		expect(mockCline.emit).toHaveBeenCalledWith("taskSpawned", "subtask-0")
+		expect(mockCline.emit).toHaveBeenCalledWith("taskSpawned", "subtask-1")
+		expect(mockCline.emit).toHaveBeenCalledWith("taskPaused")
+		expect(mockCline.isPaused).toBe(true)
+		expect(mockCline.pausedModeSlug).toBe("architect")
+		expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("Started 2 subtasks"))
+	})
+
+	it("rejects more subtasks than can run in parallel", async () => {
+		await runTool(createBlock(["1", "2", "3", "4", "5", "6"]))
+
+		expect(mockAskApproval).not.toHaveBeenCalled()
+		expect(mockInitParallelSubtasks).not.toHaveBeenCalled()
+		expect(mockCline.recordToolError).toHaveBeenCalledWith("new_parallel_tasks")
+		expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("At most 5 subtasks"))
+	})
+
+	it("switches the mode back when the worktrees can't be created", async () => {
+		mockInitParallelSubtasks.mockRejectedValue(new Error("The workspace is not in a git repository."))
+
+		await runTool(createBlock(["Write the parser", "Write the docs"]))
+
+		expect(mockHandleModeSwitch).toHaveBeenNthCalledWith(1, "code")
+		expect(mockHandleModeSwitch).toHaveBeenNthCalledWith(2, "architect")
+		expect(mockCline.isPaused).toBe(false)
+		expect(mockPushToolResult).toHaveBeenCalledWith(
+			expect.stringContaining("Couldn't start the parallel subtasks: The workspace is not in a git repository."),
+		)
+	})
+})
@@ -0,0 +1,125 @@
+// kilocode_change - new file
+// npx vitest core/tools/__tests__/renameSymbolTool.spec.ts
+
+import * as vscode from "vscode"
+
+import { renameSymbolTool } from "../renameSymbolTool"
+import { getRenameEdit, resolveSymbolPosition } from "../../../services/lsp"
+import { fileExistsAtPath } from "../../../utils/fs"
+import { isPathOutsideWorkspace } from "../../../utils/pathUtils"
+
+vi.mock("vscode", () => ({
+	Uri: { file: (fsPath: string) => ({ fsPath, scheme: "file", toString: () => `file://${fsPath}` }) },
+	WorkspaceEdit: class {
+		set = vi.fn()
+	},
+	workspace: {
+		openTextDocument: vi.fn(async () => ({ getText: () => "const getData = 1", save: vi.fn() })),
+		applyEdit: vi.fn().mockResolvedValue(true),
+	},
+}))
+
+vi.mock("../../../services/lsp", () => ({
+	resolveSymbolPosition: vi.fn(),
+	getRenameEdit: vi.fn(),
+	applyTextEdits: vi.fn(() => "const fetchUserData = 1"),
+}))
+
+vi.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: vi.fn(),
+}))
+
+vi.mock("../../../utils/pathUtils", () => ({
+	isPathOutsideWorkspace: vi.fn(),
+}))
+
+describe("renameSymbolTool", () => {
+	const cwd = "/workspace"
+	const textEdit = { range: {}, newText: "fetchUserData" }
+	let mockCline: any
+	let askApproval: ReturnType<typeof vi.fn>
+	let pushToolResult: ReturnType<typeof vi.fn>
+
+	const run = () =>
+		renameSymbolTool(
+			mockCline,
+			{
+				type: "tool_use",
+				name: "rename_symbol",
+				params: { path: "src/utils.ts", line: "1", symbol: "getData", new_name: "fetchUserData" },
+				partial: false,
+			},
+			askApproval,
+			vi.fn(),
+			pushToolResult,
+			(_tag, content) => content ?? "",
+		)
+
+	const renameEditing = (...paths: string[]) =>
+		vi.mocked(getRenameEdit).mockResolvedValue({
+			entries: () => paths.map((fsPath) => [vscode.Uri.file(fsPath), [textEdit]]),
+		} as unknown as vscode.WorkspaceEdit)
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(resolveSymbolPosition).mockResolvedValue({
+			document: { uri: vscode.Uri.file(`${cwd}/src/utils.ts`) },
+			position: {},
+		} as any)
+		vi.mocked(fileExistsAtPath).mockResolvedValue(true)
+		vi.mocked(isPathOutsideWorkspace).mockImplementation((filePath) => !filePath.startsWith(`${cwd}/`))
+		askApproval = vi.fn().mockResolvedValue(true)
+		pushToolResult = vi.fn()
+
+		mockCline = {
+			cwd,
+			providerRef: { deref: () => ({ getState: async () => ({ mode: "code", customModes: [] }) }) },
+			consecutiveMistakeCount: 0,
+			didEditFile: false,
+			rooIgnoreController: { validateAccess: vi.fn().mockReturnValue(true) },
+			rooProtectedController: { isWriteProtected: vi.fn().mockReturnValue(false) },
+			fileContextTracker: { trackFileContext: vi.fn() },
+			say: vi.fn(),
+			ask: vi.fn(),
+			recordToolError: vi.fn(),
+			sayAndCreateMissingParamError: vi.fn(),
+		}
+	})
+
+	it("should apply only the text edits of the rename", async () => {
+		renameEditing(`${cwd}/src/utils.ts`, `${cwd}/src/app.ts`)
+
+		await run()
+
+		const [applied] = vi.mocked(vscode.workspace.applyEdit).mock.calls[0]
+		expect(applied).toBeInstanceOf(vscode.WorkspaceEdit)
+		expect(vi.mocked(applied.set).mock.calls).toEqual([
+			[expect.objectContaining({ fsPath: `${cwd}/src/utils.ts` }), [textEdit]],
+			[expect.objectContaining({ fsPath: `${cwd}/src/app.ts` }), [textEdit]],
+		])
+		expect(pushToolResult).toHaveBeenCalledWith(
+			"Renamed 'getData' to 'fetchUserData' in 2 files:\nsrc/utils.ts\nsrc/app.ts",
+		)
+	})
+
+	it("should refuse a rename that changes files outside the workspace", async () => {
+		renameEditing(`${cwd}/src/utils.ts`, "/elsewhere/consumer.ts")
+
+		await run()
+
+		expect(askApproval).not.toHaveBeenCalled()
+		expect(vscode.workspace.applyEdit).not.toHaveBeenCalled()
+		expect(pushToolResult.mock.calls[0][0]).toContain("/elsewhere/consumer.ts, which is outside the workspace")
+	})
+
+	it("should refuse a rename that also renames or creates files", async () => {
+		renameEditing(`${cwd}/src/utils.ts`, `${cwd}/src/fetchUserData.ts`)
+		vi.mocked(fileExistsAtPath).mockImplementation(async (filePath) => filePath === `${cwd}/src/utils.ts`)
+
+		await run()
+
+		expect(askApproval).not.toHaveBeenCalled()
+		expect(vscode.workspace.applyEdit).not.toHaveBeenCalled()
+		expect(pushToolResult.mock.calls[0][0]).toContain("would also rename or create src/fetchUserData.ts")
+	})
+})
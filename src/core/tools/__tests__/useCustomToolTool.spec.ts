@@ -0,0 +1,146 @@
+// kilocode_change - new file
+// npx vitest core/tools/__tests__/useCustomToolTool.spec.ts
+
+import type { AskApproval, HandleError, ToolUse } from "../../../shared/tools"
+import type { CustomTool } from "../../../services/custom-tools"
+
+vi.mock("../executeCommandTool", () => ({
+	executeCommandTool: vi.fn(),
+}))
+
+vi.mock("../../../utils/shell", () => ({
+	getShell: vi.fn(),
+}))
+
+vi.mock("../../../services/custom-tools", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../../services/custom-tools")>()),
+	loadCustomTools: vi.fn(),
+}))
+
+vi.mock("../../prompts/responses", () => ({
+	formatResponse: {
+		toolError: vi.fn((msg: string) => `Tool Error: ${msg}`),
+	},
+}))
+
+import { useCustomToolTool } from "../useCustomToolTool"
+import { executeCommandTool } from "../executeCommandTool"
+import { getShell } from "../../../utils/shell"
+import { loadCustomTools } from "../../../services/custom-tools"
+
+const mockAskApproval = vi.fn<AskApproval>()
+const mockHandleError = vi.fn<HandleError>()
+const mockPushToolResult = vi.fn()
+const mockRemoveClosingTag = vi.fn((_name: string, value: string | undefined) => value ?? "")
+
+const runTestsTool: CustomTool = {
+	name: "run_tests",
+	description: "Run the tests of a package",
+	command: "pnpm --filter {{package}} test",
+	cwd: "packages",
+	group: "command",
+	parameters: { package: { type: "string", required: true } },
+	source: "/project/.kilocode/tools/run-tests.yaml",
+}
+
+describe("useCustomToolTool", () => {
+	let state: Record<string, unknown>
+
+	const mockCline = {
+		cwd: "/project",
+		consecutiveMistakeCount: 0,
+		recordToolError: vi.fn(),
+		sayAndCreateMissingParamError: vi.fn(async () => "Missing parameter"),
+		providerRef: { deref: () => ({ getState: async () => state }) },
+	}
+
+	const run = (params: ToolUse["params"]) =>
+		useCustomToolTool(
+			mockCline as any,
+			{ type: "tool_use", name: "use_custom_tool", params, partial: false },
+			mockAskApproval,
+			mockHandleError,
+			mockPushToolResult,
+			mockRemoveClosingTag,
+		)
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		state = { mode: "code", customModes: [] }
+		mockCline.consecutiveMistakeCount = 0
+		vi.mocked(loadCustomTools).mockResolvedValue([runTestsTool])
+		vi.mocked(getShell).mockReturnValue("/bin/bash")
+	})
+
+	it("runs the command with the quoted arguments like execute_command", async () => {
+		await run({ tool_name: "run_tests", arguments: '{"package": "$(whoami)"}' })
+
+		expect(loadCustomTools).toHaveBeenCalledWith("/project")
+		expect(executeCommandTool).toHaveBeenCalledWith(
+			mockCline,
+			{
+				type: "tool_use",
+				name: "execute_command",
+				params: { command: "pnpm --filter '$(whoami)' test", cwd: "packages" },
+				partial: false,
+			},
+			mockAskApproval,
+			mockHandleError,
+			mockPushToolResult,
+			mockRemoveClosingTag,
+		)
+	})
+
+	it("quotes the arguments for the terminal's shell", async () => {
+		vi.mocked(getShell).mockReturnValue("C:\\Program Files\\PowerShell\\7\\pwsh.exe")
+
+		await run({ tool_name: "run_tests", arguments: '{"package": "$env:USERNAME"}' })
+
+		expect(vi.mocked(executeCommandTool).mock.calls[0][1].params.command).toBe("pnpm --filter '$env:USERNAME' test")
+	})
+
+	it("refuses arguments the shell can't receive safely", async () => {
+		state.terminalShellIntegrationDisabled = true
+		const platform = vi.spyOn(process, "platform", "get").mockReturnValue("win32")
+
+		try {
+			await run({ tool_name: "run_tests", arguments: '{"package": "%USERNAME%"}' })
+		} finally {
+			platform.mockRestore()
+		}
+
+		expect(executeCommandTool).not.toHaveBeenCalled()
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(mockPushToolResult).toHaveBeenCalledWith(
+			expect.stringContaining("Invalid arguments for custom tool 'run_tests'"),
+		)
+		expect(mockPushToolResult.mock.calls[0][0]).toContain("can't be passed safely to cmd.exe")
+	})
+
+	it("rejects invalid arguments", async () => {
+		await run({ tool_name: "run_tests", arguments: '{"pkg": "api"}' })
+
+		expect(executeCommandTool).not.toHaveBeenCalled()
+		expect(mockCline.recordToolError).toHaveBeenCalledWith("use_custom_tool")
+		expect(mockPushToolResult.mock.calls[0][0]).toContain('Unknown parameter "pkg"')
+	})
+
+	it("rejects unknown tools and tools outside the mode's groups", async () => {
+		await run({ tool_name: "deploy", arguments: "{}" })
+		expect(mockPushToolResult.mock.calls[0][0]).toContain("Unknown custom tool 'deploy'")
+
+		state.mode = "ask"
+		await run({ tool_name: "run_tests", arguments: '{"package": "api"}' })
+		expect(mockPushToolResult.mock.calls[1][0]).toContain("requires the 'command' tool group")
+
+		expect(executeCommandTool).not.toHaveBeenCalled()
+		expect(mockCline.consecutiveMistakeCount).toBe(2)
+	})
+
+	it("reports a missing tool name", async () => {
+		await run({ arguments: "{}" })
+
+		expect(mockCline.sayAndCreateMissingParamError).toHaveBeenCalledWith("use_custom_tool", "tool_name")
+		expect(mockPushToolResult).toHaveBeenCalledWith("Missing parameter")
+	})
+})
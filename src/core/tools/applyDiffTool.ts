@@ -154,6 +154,7 @@ export async function applyDiffToolLegacy(
 				...sharedMessageProps,
 				diff: diffContent,
 				isProtected: isWriteProtected,
+				protectedPattern: cline.rooProtectedController?.getUserProtectionPattern(relPath), // kilocode_change
 			} satisfies ClineSayTool)
 
 			let toolProgressStatus
@@ -0,0 +1,282 @@
+// kilocode_change - new file
+import path from "path"
+import fs from "fs/promises"
+
+import { TelemetryService } from "@roo-code/telemetry"
+
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { getReadablePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import { Task } from "../task/Task"
+import { ToolUse, RemoveClosingTag, AskApproval, HandleError, PushToolResult, DiffResult } from "../../shared/tools"
+import { formatResponse } from "../prompts/responses"
+import { defaultModeSlug, FileRestrictionError, isToolAllowedForMode } from "../../shared/modes"
+import { fileExistsAtPath } from "../../utils/fs"
+import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
+import { unescapeHtmlEntities } from "../../utils/text-normalization"
+import { FilePatch, parsePatch } from "../diff/strategies/unified-diff"
+
+type FilePatchOutcome = { result: string } | { denied: true }
+
+function formatDiffError(absolutePath: string, diffResult: DiffResult): string {
+	const parts = diffResult.failParts?.length ? diffResult.failParts : [diffResult]
+
+	const details = parts
+		.filter((part) => !part.success)
+		.map((part) => {
+			const partDetails = !part.success && part.details ? JSON.stringify(part.details, null, 2) : ""
+			const error = !part.success ? part.error : ""
+			return `<error_details>\n${error}${partDetails ? `\n\nDetails:\n${partDetails}` : ""}\n</error_details>`
+		})
+
+	return `Unable to apply diff to file: ${absolutePath}\n\n${details.join("\n")}`
+}
+
+async function recordFailure(cline: Task, relPath: string, error: string): Promise<FilePatchOutcome> {
+	cline.consecutiveMistakeCount++
+	const currentCount = (cline.consecutiveMistakeCountForApplyDiff.get(relPath) || 0) + 1
+	cline.consecutiveMistakeCountForApplyDiff.set(relPath, currentCount)
+	TelemetryService.instance.captureDiffApplicationError(cline.taskId, currentCount)
+
+	if (currentCount >= 2) {
+		await cline.say("diff_error", error)
+	}
+
+	cline.recordToolError("apply_diff", error)
+	return { result: error }
+}
+
+async function applyFilePatch(cline: Task, filePatch: FilePatch, askApproval: AskApproval): Promise<FilePatchOutcome> {
+	const relPath = filePatch.path
+	const movePath = filePatch.type === "update" ? filePatch.movePath : undefined
+	const absolutePath = path.resolve(cline.cwd, relPath)
+
+	for (const checkedPath of movePath ? [relPath, movePath] : [relPath]) {
+		if (!cline.rooIgnoreController?.validateAccess(checkedPath)) {
+			await cline.say("rooignore_error", checkedPath)
+			return { result: formatResponse.toolError(formatResponse.rooIgnoreError(checkedPath)) }
+		}
+	}
+
+	const isWriteProtected = [relPath, movePath].some(
+		(checkedPath) => !!checkedPath && (cline.rooProtectedController?.isWriteProtected(checkedPath) || false),
+	)
+	const protectedPattern = cline.rooProtectedController?.getUserProtectionPattern(relPath)
+	const isOutsideWorkspace = [relPath, movePath].some(
+		(checkedPath) => !!checkedPath && isPathOutsideWorkspace(path.resolve(cline.cwd, checkedPath)),
+	)
+	const fileExists = await fileExistsAtPath(absolutePath)
+
+	if (filePatch.type === "add" ? fileExists : !fileExists) {
+		const error = filePatch.type === "add" ? "File already exists at path" : "File does not exist at path"
+		return recordFailure(cline, relPath, `${error}: ${absolutePath}`)
+	}
+
+	if (filePatch.type === "delete") {
+		const didApprove = await askApproval(
+			"tool",
+			JSON.stringify({
+				tool: "deletedFile",
+				path: getReadablePath(cline.cwd, relPath),
+				isOutsideWorkspace,
+				isProtected: isWriteProtected,
+				protectedPattern,
+			} satisfies ClineSayTool),
+			undefined,
+			isWriteProtected,
+		)
+
+		if (!didApprove) {
+			return { denied: true }
+		}
+
+		await fs.rm(absolutePath)
+		cline.didEditFile = true
+		return { result: `Deleted ${relPath}` }
+	}
+
+	let newContent: string
+	let diffResult: DiffResult | undefined
+
+	if (filePatch.type === "add") {
+		newContent = filePatch.content
+	} else if (filePatch.diff.trim()) {
+		const originalContent = await fs.readFile(absolutePath, "utf-8")
+		diffResult = (await cline.diffStrategy?.applyDiff(originalContent, filePatch.diff)) ?? {
+			success: false,
+			error: "No diff strategy available",
+		}
+
+		if (!diffResult.success) {
+			return recordFailure(cline, relPath, formatDiffError(absolutePath, diffResult))
+		}
+
+		newContent = diffResult.content
+	} else {
+		// A rename without changes
+		newContent = await fs.readFile(absolutePath, "utf-8")
+	}
+
+	if (movePath && (await fileExistsAtPath(path.resolve(cline.cwd, movePath)))) {
+		return recordFailure(cline, relPath, `Can't move ${relPath}, a file already exists at ${movePath}`)
+	}
+
+	cline.consecutiveMistakeCount = 0
+	cline.consecutiveMistakeCountForApplyDiff.delete(relPath)
+
+	// Show the changes in the diff view before asking for approval
+	cline.diffViewProvider.editType = filePatch.type === "add" ? "create" : "modify"
+	await cline.diffViewProvider.open(relPath)
+	await cline.diffViewProvider.update(newContent, true)
+	cline.diffViewProvider.scrollToFirstDiff()
+
+	const message: ClineSayTool = {
+		tool: filePatch.type === "add" ? "newFileCreated" : movePath ? "movedFile" : "appliedDiff",
+		path: getReadablePath(cline.cwd, relPath),
+		newPath: movePath && getReadablePath(cline.cwd, movePath),
+		...(filePatch.type === "add" ? { content: newContent } : { diff: filePatch.diff }),
+		isOutsideWorkspace,
+		isProtected: isWriteProtected,
+		protectedPattern,
+	}
+
+	const didApprove = await askApproval("tool", JSON.stringify(message), undefined, isWriteProtected)
+
+	if (!didApprove) {
+		await cline.diffViewProvider.revertChanges()
+		await cline.diffViewProvider.reset()
+		return { denied: true }
+	}
+
+	await cline.diffViewProvider.saveChanges()
+	await cline.fileContextTracker.trackFileContext(relPath, "roo_edited" as RecordSource)
+	cline.didEditFile = true
+
+	let result = await cline.diffViewProvider.pushToolWriteResult(cline, cline.cwd, filePatch.type === "add")
+	await cline.diffViewProvider.reset()
+
+	if (movePath) {
+		const absoluteMovePath = path.resolve(cline.cwd, movePath)
+		await fs.mkdir(path.dirname(absoluteMovePath), { recursive: true })
+		await fs.rename(absolutePath, absoluteMovePath)
+		await cline.fileContextTracker.trackFileContext(movePath, "roo_edited" as RecordSource)
+		result += `\nMoved ${relPath} to ${movePath}`
+	}
+
+	if (diffResult?.success && diffResult.failParts?.length) {
+		const failedHunks = formatDiffError(absolutePath, { success: false, failParts: diffResult.failParts })
+		result = `But unable to apply all hunks to file: ${absolutePath}, silently use <read_file> tool to check newest file version and re-apply them\n${failedHunks}\n${result}`
+	}
+
+	return { result }
+}
+
+/**
+ * Applies a patch in unified diff or `*** Begin Patch` format, one file at a time so each change is reviewed in the
+ * diff view. Denying a file stops the patch; the files approved before it stay changed.
+ */
+export async function applyPatchTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const defaultPath: string | undefined = block.params.path
+	let patch: string | undefined = block.params.diff
+
+	if (patch && !cline.api.getModel().id.includes("claude")) {
+		patch = unescapeHtmlEntities(patch)
+	}
+
+	const sharedMessageProps: ClineSayTool = {
+		tool: "appliedDiff",
+		path: getReadablePath(cline.cwd, removeClosingTag("path", defaultPath)),
+		diff: patch,
+	}
+
+	try {
+		if (block.partial) {
+			const toolProgressStatus = cline.diffStrategy?.getProgressStatus?.(block)
+
+			if (toolProgressStatus && Object.keys(toolProgressStatus).length === 0) {
+				return
+			}
+
+			await cline
+				.ask("tool", JSON.stringify(sharedMessageProps), block.partial, toolProgressStatus)
+				.catch(() => {})
+			return
+		}
+
+		if (!patch) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("apply_diff")
+			pushToolResult(await cline.sayAndCreateMissingParamError("apply_diff", "diff"))
+			return
+		}
+
+		let filePatches: FilePatch[]
+
+		try {
+			filePatches = parsePatch(patch, defaultPath)
+		} catch (error) {
+			cline.consecutiveMistakeCount++
+			const formattedError = `Unable to parse the patch: ${error instanceof Error ? error.message : String(error)}`
+			cline.recordToolError("apply_diff", formattedError)
+			await cline.say("error", formattedError)
+			pushToolResult(formatResponse.toolError(formattedError))
+			return
+		}
+
+		// The paths in the patch aren't tool parameters, so check them against the mode's file restrictions here,
+		// before any file is changed
+		const { mode = defaultModeSlug, customModes = [] } = (await cline.providerRef.deref()?.getState()) ?? {}
+
+		for (const filePatch of filePatches) {
+			const movePath = filePatch.type === "update" ? filePatch.movePath : undefined
+
+			for (const checkedPath of movePath ? [filePatch.path, movePath] : [filePatch.path]) {
+				try {
+					isToolAllowedForMode("apply_diff", mode, customModes, undefined, { path: checkedPath, diff: patch })
+				} catch (error) {
+					if (error instanceof FileRestrictionError) {
+						cline.consecutiveMistakeCount++
+						cline.recordToolError("apply_diff", error.message)
+						pushToolResult(formatResponse.toolError(error.message))
+						return
+					}
+					throw error
+				}
+			}
+		}
+
+		const results: string[] = []
+
+		for (const [index, filePatch] of filePatches.entries()) {
+			const outcome = await applyFilePatch(cline, filePatch, askApproval)
+
+			if ("denied" in outcome) {
+				// The denial is already reported, the files changed before it are reported apart from it so they
+				// aren't taken for the whole patch
+				if (results.length > 0) {
+					const skipped = filePatches.slice(index).map((skippedPatch) => skippedPatch.path)
+					pushToolResult(
+						`The patch was only partly applied, these files were not changed: ${skipped.join(", ")}\n\nChanges applied before the denied file:\n\n${results.join("\n\n")}`,
+					)
+				}
+				return
+			}
+
+			results.push(outcome.result)
+		}
+
+		if (results.length > 0) {
+			pushToolResult(results.join("\n\n"))
+		}
+	} catch (error) {
+		await handleError("applying patch", error)
+		await cline.diffViewProvider.reset()
+	}
+}
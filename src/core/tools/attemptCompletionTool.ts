@@ -71,6 +71,15 @@ export async function attemptCompletionTool(
 			TelemetryService.instance.captureTaskCompleted(cline.taskId)
 			cline.emit("taskCompleted", cline.taskId, cline.getTokenUsage(), cline.toolUsage)
 
+			// kilocode_change start: parallel subtasks are reviewed together when their changes are merged
+			const provider = cline.providerRef.deref()
+
+			if (provider?.isParallelSubtask(cline.taskId)) {
+				await provider.finishParallelSubtask(cline.taskId, result)
+				return
+			}
+			// kilocode_change end
+
 			if (cline.parentTask) {
 				const didApprove = await askFinishSubTaskApproval()
 
@@ -0,0 +1,273 @@
+// kilocode_change - new file
+import delay from "delay"
+import pWaitFor from "p-wait-for"
+
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { Task } from "../task/Task"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
+import { Terminal } from "../../integrations/terminal/Terminal"
+import { BackgroundProcess } from "../../integrations/terminal/types"
+
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60
+const MAX_WAIT_TIMEOUT_SECONDS = 600
+const WAIT_POLL_INTERVAL_MS = 500
+
+// How long a killed process gets to exit before the tool reports it as interrupted
+const KILL_GRACE_PERIOD_MS = 5_000
+
+type BackgroundProcessToolName = "read_process_output" | "wait_for_process_output" | "kill_process"
+
+const sayToolNames: Record<BackgroundProcessToolName, ClineSayTool["tool"]> = {
+	read_process_output: "readProcessOutput",
+	wait_for_process_output: "waitForProcessOutput",
+	kill_process: "killProcess",
+}
+
+function describeStatus({ completed, exitDetails }: BackgroundProcess): string {
+	if (!completed) {
+		return "running"
+	}
+
+	if (exitDetails?.signalName) {
+		return `terminated by signal ${exitDetails.signalName}`
+	}
+
+	return exitDetails?.exitCode !== undefined ? `exited with code ${exitDetails.exitCode}` : "exited"
+}
+
+async function takeUnreadOutput(cline: Task, backgroundProcess: BackgroundProcess): Promise<string> {
+	const { terminalOutputLineLimit = 500 } = (await cline.providerRef.deref()?.getState()) ?? {}
+	const output = backgroundProcess.output.slice(backgroundProcess.readIndex)
+	backgroundProcess.readIndex = backgroundProcess.output.length
+	return Terminal.compressTerminalOutput(output, terminalOutputLineLimit)
+}
+
+function formatProcessResult(backgroundProcess: BackgroundProcess, output: string, heading?: string): string {
+	return [
+		heading,
+		`Process '${backgroundProcess.name}' (\`${backgroundProcess.command}\`) is ${describeStatus(backgroundProcess)}.`,
+		output ? `New output:\n${output}` : "No new output.",
+	]
+		.filter(Boolean)
+		.join("\n")
+}
+
+/**
+ * Finds the background process named by the `name` parameter, reporting the mistake to the model when it's missing
+ * or unknown.
+ */
+async function findBackgroundProcess(
+	cline: Task,
+	block: ToolUse,
+	pushToolResult: PushToolResult,
+): Promise<BackgroundProcess | undefined> {
+	const name = block.params.name?.trim()
+
+	if (!name) {
+		cline.consecutiveMistakeCount++
+		cline.recordToolError(block.name)
+		pushToolResult(await cline.sayAndCreateMissingParamError(block.name, "name"))
+		return undefined
+	}
+
+	const backgroundProcess = TerminalRegistry.getBackgroundProcess(cline.taskId, name)
+
+	if (!backgroundProcess) {
+		const names = TerminalRegistry.getBackgroundProcesses(cline.taskId).map((p) => `'${p.name}'`)
+		cline.consecutiveMistakeCount++
+		cline.recordToolError(block.name)
+		pushToolResult(
+			formatResponse.toolError(
+				`No background process named '${name}'. ${names.length > 0 ? `The task's background processes are ${names.join(", ")}.` : "The task has no background processes, start one with execute_command and background set to true."}`,
+			),
+		)
+		return undefined
+	}
+
+	return backgroundProcess
+}
+
+async function backgroundProcessTool(
+	toolName: BackgroundProcessToolName,
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const sharedMessageProps: ClineSayTool = {
+		tool: sayToolNames[toolName],
+		processName: removeClosingTag("name", block.params.name),
+		regex: toolName === "wait_for_process_output" ? removeClosingTag("regex", block.params.regex) : undefined,
+	}
+
+	try {
+		if (block.partial) {
+			await cline.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+			return
+		}
+
+		const backgroundProcess = await findBackgroundProcess(cline, block, pushToolResult)
+
+		if (!backgroundProcess) {
+			return
+		}
+
+		let pattern: RegExp | undefined
+		let timeoutSeconds = DEFAULT_WAIT_TIMEOUT_SECONDS
+
+		if (toolName === "wait_for_process_output") {
+			if (!block.params.regex) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError(toolName)
+				pushToolResult(await cline.sayAndCreateMissingParamError(toolName, "regex"))
+				return
+			}
+
+			try {
+				pattern = new RegExp(block.params.regex, "m")
+			} catch (error) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError(toolName)
+				pushToolResult(formatResponse.toolError(`Invalid regex: ${(error as Error).message}`))
+				return
+			}
+
+			if (block.params.timeout) {
+				timeoutSeconds = Number(block.params.timeout)
+
+				if (!(timeoutSeconds > 0)) {
+					cline.consecutiveMistakeCount++
+					cline.recordToolError(toolName)
+					pushToolResult(
+						formatResponse.toolError(`Invalid timeout '${block.params.timeout}', use a number of seconds.`),
+					)
+					return
+				}
+
+				timeoutSeconds = Math.min(timeoutSeconds, MAX_WAIT_TIMEOUT_SECONDS)
+			}
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const didApprove = await askApproval("tool", JSON.stringify(sharedMessageProps))
+
+		if (!didApprove) {
+			return
+		}
+
+		switch (toolName) {
+			case "read_process_output": {
+				const output = await takeUnreadOutput(cline, backgroundProcess)
+				pushToolResult(formatProcessResult(backgroundProcess, output))
+				break
+			}
+			case "wait_for_process_output": {
+				const hasMatch = () =>
+					pattern!.test(
+						TerminalRegistry.getBackgroundProcess(cline.taskId, backgroundProcess.name)?.output.slice(
+							backgroundProcess.readIndex,
+						) ?? "",
+					)
+
+				await pWaitFor(() => hasMatch() || backgroundProcess.completed || cline.abort, {
+					interval: WAIT_POLL_INTERVAL_MS,
+					timeout: timeoutSeconds * 1000,
+				}).catch(() => {})
+
+				// The last output may arrive together with the exit
+				const matched = hasMatch()
+				const heading = matched
+					? `The output matched /${block.params.regex}/.`
+					: backgroundProcess.completed
+						? `The process exited without output matching /${block.params.regex}/.`
+						: `No output matched /${block.params.regex}/ within ${timeoutSeconds} seconds.`
+
+				const output = await takeUnreadOutput(cline, backgroundProcess)
+				pushToolResult(formatProcessResult(backgroundProcess, output, heading))
+				break
+			}
+			case "kill_process": {
+				TerminalRegistry.killBackgroundProcess(cline.taskId, backgroundProcess.name)
+
+				await pWaitFor(() => backgroundProcess.completed, {
+					interval: 100,
+					timeout: KILL_GRACE_PERIOD_MS,
+				}).catch(() => {})
+
+				// Let the last output arrive
+				await delay(100)
+				const output = await takeUnreadOutput(cline, backgroundProcess)
+				const heading = backgroundProcess.completed
+					? `Killed process '${backgroundProcess.name}'.`
+					: `Interrupted process '${backgroundProcess.name}', but it hasn't exited yet.`
+
+				pushToolResult([heading, output ? `Last output:\n${output}` : undefined].filter(Boolean).join("\n"))
+				break
+			}
+		}
+	} catch (error) {
+		await handleError("accessing the background process", error)
+	}
+}
+
+export async function readProcessOutputTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	await backgroundProcessTool(
+		"read_process_output",
+		cline,
+		block,
+		askApproval,
+		handleError,
+		pushToolResult,
+		removeClosingTag,
+	)
+}
+
+export async function waitForProcessOutputTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	await backgroundProcessTool(
+		"wait_for_process_output",
+		cline,
+		block,
+		askApproval,
+		handleError,
+		pushToolResult,
+		removeClosingTag,
+	)
+}
+
+export async function killProcessTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	await backgroundProcessTool(
+		"kill_process",
+		cline,
+		block,
+		askApproval,
+		handleError,
+		pushToolResult,
+		removeClosingTag,
+	)
+}
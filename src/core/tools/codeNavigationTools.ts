@@ -0,0 +1,219 @@
+// kilocode_change - new file
+import path from "path"
+
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { Task } from "../task/Task"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { getReadablePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import { formatResponse } from "../prompts/responses"
+import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
+import {
+	SymbolPosition,
+	formatLocations,
+	getDefinitions,
+	getHoverText,
+	getReferences,
+	resolveSymbolPosition,
+} from "../../services/lsp"
+
+type CodeNavigationToolName = "go_to_definition" | "find_references" | "get_hover_info"
+
+const sayToolNames: Record<CodeNavigationToolName, ClineSayTool["tool"]> = {
+	go_to_definition: "goToDefinition",
+	find_references: "findReferences",
+	get_hover_info: "getHoverInfo",
+}
+
+export type ValidatedSymbolParams = {
+	relPath: string
+	line: number
+	symbol: string
+}
+
+/**
+ * Checks the `path`, `line` and `symbol` parameters shared by the language server tools.
+ * Reports the mistake to the model and returns undefined when they are missing or invalid.
+ */
+export async function validateSymbolParams(
+	cline: Task,
+	block: ToolUse,
+	pushToolResult: PushToolResult,
+): Promise<ValidatedSymbolParams | undefined> {
+	const { path: relPath, line, symbol } = block.params
+
+	for (const [paramName, value] of [
+		["path", relPath],
+		["line", line],
+		["symbol", symbol],
+	] as const) {
+		if (!value) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError(block.name)
+			pushToolResult(await cline.sayAndCreateMissingParamError(block.name, paramName))
+			return undefined
+		}
+	}
+
+	const lineNumber = parseInt(line!, 10)
+
+	if (isNaN(lineNumber) || lineNumber < 1) {
+		cline.consecutiveMistakeCount++
+		cline.recordToolError(block.name)
+		pushToolResult(formatResponse.toolError(`Invalid line number '${line}'. Line numbers start at 1.`))
+		return undefined
+	}
+
+	if (!cline.rooIgnoreController?.validateAccess(relPath!)) {
+		await cline.say("rooignore_error", relPath)
+		pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(relPath!)))
+		return undefined
+	}
+
+	return { relPath: relPath!, line: lineNumber, symbol: symbol! }
+}
+
+async function runLanguageServerQuery(
+	{ document, position }: SymbolPosition,
+	toolName: CodeNavigationToolName,
+	cline: Task,
+): Promise<string> {
+	switch (toolName) {
+		case "go_to_definition": {
+			const result = await formatLocations(
+				await getDefinitions(document.uri, position),
+				cline.cwd,
+				cline.rooIgnoreController,
+			)
+			return result || "No definition found."
+		}
+		case "find_references": {
+			const result = await formatLocations(
+				await getReferences(document.uri, position),
+				cline.cwd,
+				cline.rooIgnoreController,
+			)
+			return result || "No references found."
+		}
+		case "get_hover_info":
+			return (await getHoverText(document.uri, position)) || "No hover information available."
+	}
+}
+
+async function codeNavigationTool(
+	toolName: CodeNavigationToolName,
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const relPath: string | undefined = block.params.path
+	const absolutePath = relPath ? path.resolve(cline.cwd, relPath) : cline.cwd
+
+	const sharedMessageProps: ClineSayTool = {
+		tool: sayToolNames[toolName],
+		path: getReadablePath(cline.cwd, removeClosingTag("path", relPath)),
+		symbol: removeClosingTag("symbol", block.params.symbol),
+		isOutsideWorkspace: isPathOutsideWorkspace(absolutePath),
+	}
+
+	try {
+		if (block.partial) {
+			const partialMessage = JSON.stringify({ ...sharedMessageProps, content: "" } satisfies ClineSayTool)
+			await cline.ask("tool", partialMessage, block.partial).catch(() => {})
+			return
+		}
+
+		const params = await validateSymbolParams(cline, block, pushToolResult)
+
+		if (!params) {
+			return
+		}
+
+		let result: string
+
+		try {
+			result = await runLanguageServerQuery(
+				await resolveSymbolPosition(absolutePath, params.line, params.symbol),
+				toolName,
+				cline,
+			)
+		} catch (error) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError(toolName)
+			pushToolResult(formatResponse.toolError(error instanceof Error ? error.message : String(error)))
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const completeMessage = JSON.stringify({
+			...sharedMessageProps,
+			lineNumber: params.line,
+			content: result,
+		} satisfies ClineSayTool)
+
+		const didApprove = await askApproval("tool", completeMessage)
+
+		if (!didApprove) {
+			return
+		}
+
+		await cline.fileContextTracker.trackFileContext(params.relPath, "read_tool" as RecordSource)
+
+		pushToolResult(result)
+	} catch (error) {
+		await handleError("querying the language server", error)
+	}
+}
+
+export async function goToDefinitionTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	await codeNavigationTool(
+		"go_to_definition",
+		cline,
+		block,
+		askApproval,
+		handleError,
+		pushToolResult,
+		removeClosingTag,
+	)
+}
+
+export async function findReferencesTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	await codeNavigationTool(
+		"find_references",
+		cline,
+		block,
+		askApproval,
+		handleError,
+		pushToolResult,
+		removeClosingTag,
+	)
+}
+
+export async function getHoverInfoTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	await codeNavigationTool("get_hover_info", cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+}
@@ -4,7 +4,7 @@ import { Task } from "../task/Task"
 import { CodeIndexManager } from "../../services/code-index/manager"
 import { getWorkspacePath } from "../../utils/path"
 import { formatResponse } from "../prompts/responses"
-import { VectorStoreSearchResult } from "../../services/code-index/interfaces"
+import { CodebaseSearchMode, VectorStoreSearchResult } from "../../services/code-index/interfaces" // kilocode_change
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag, ToolUse } from "../../shared/tools"
 import path from "path"
 
@@ -28,8 +28,13 @@ export async function codebaseSearchTool(
 	// --- Parameter Extraction and Validation ---
 	let query: string | undefined = block.params.query
 	let directoryPrefix: string | undefined = block.params.path
+	const searchModeParam: string | undefined = block.params.search_mode // kilocode_change
 
 	query = removeClosingTag("query", query)
+	// kilocode_change start
+	const searchMode: CodebaseSearchMode =
+		removeClosingTag("search_mode", searchModeParam)?.trim() === "hybrid" ? "hybrid" : "semantic"
+	// kilocode_change end
 
 	if (directoryPrefix) {
 		directoryPrefix = removeClosingTag("path", directoryPrefix)
@@ -40,6 +45,7 @@ export async function codebaseSearchTool(
 		tool: "codebaseSearch",
 		query: query,
 		path: directoryPrefix,
+		searchMode, // kilocode_change
 		isOutsideWorkspace: false,
 	}
 
@@ -54,6 +60,17 @@ export async function codebaseSearchTool(
 		return
 	}
 
+	// kilocode_change start
+	if (searchModeParam && !["semantic", "hybrid"].includes(searchModeParam.trim())) {
+		cline.consecutiveMistakeCount++
+		cline.recordToolError(toolName)
+		pushToolResult(
+			formatResponse.toolError(`Invalid search_mode "${searchModeParam}". Expected "semantic" or "hybrid".`),
+		)
+		return
+	}
+	// kilocode_change end
+
 	const didApprove = await askApproval("tool", JSON.stringify(sharedMessageProps))
 	if (!didApprove) {
 		pushToolResult(formatResponse.toolDenied())
@@ -82,7 +99,11 @@ export async function codebaseSearchTool(
 			throw new Error("Code Indexing is not configured (Missing OpenAI Key or Qdrant URL).")
 		}
 
-		const searchResults: VectorStoreSearchResult[] = await manager.searchIndex(query, directoryPrefix)
+		const searchResults: VectorStoreSearchResult[] = await manager.searchIndex(
+			query,
+			directoryPrefix,
+			searchMode, // kilocode_change
+		)
 
 		// 3. Format and push results
 		if (!searchResults || searchResults.length === 0) {
@@ -92,15 +113,18 @@ export async function codebaseSearchTool(
 
 		const jsonResult = {
 			query,
+			mode: searchMode, // kilocode_change
 			results: [],
 		} as {
 			query: string
+			mode: CodebaseSearchMode // kilocode_change
 			results: Array<{
 				filePath: string
 				score: number
 				startLine: number
 				endLine: number
 				codeChunk: string
+				matchedBy?: Array<"semantic" | "keyword"> // kilocode_change
 			}>
 		}
 
@@ -116,6 +140,7 @@ export async function codebaseSearchTool(
 				startLine: result.payload.startLine,
 				endLine: result.payload.endLine,
 				codeChunk: result.payload.codeChunk.trim(),
+				matchedBy: result.matchedBy, // kilocode_change
 			})
 		})
 
@@ -125,12 +150,13 @@ export async function codebaseSearchTool(
 
 		// Push results to AI
 		const output = `Query: ${query}
+Search mode: ${searchMode}
 Results:
 
 ${jsonResult.results
 	.map(
 		(result) => `File path: ${result.filePath}
-Score: ${result.score}
+Score: ${result.score}${result.matchedBy ? `\nMatched by: ${result.matchedBy.join(", ")}` : ""}
 Lines: ${result.startLine}-${result.endLine}
 Code Chunk: ${result.codeChunk}
 `,
@@ -11,12 +11,35 @@ import { Task } from "../task/Task"
 import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag, ToolResponse } from "../../shared/tools"
 import { formatResponse } from "../prompts/responses"
 import { unescapeHtmlEntities } from "../../utils/text-normalization"
-import { ExitCodeDetails, RooTerminalCallbacks, RooTerminalProcess } from "../../integrations/terminal/types"
+import {
+	BackgroundProcess, // kilocode_change
+	ExitCodeDetails,
+	RooTerminalCallbacks,
+	RooTerminalProcess,
+} from "../../integrations/terminal/types"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { Terminal } from "../../integrations/terminal/Terminal"
 
 class ShellIntegrationError extends Error {}
 
+// kilocode_change start
+// How long a background command may print its first output before the tool returns
+const BACKGROUND_STARTUP_DELAY_MS = 3_000
+
+// How long a timed out command gets to stop after being interrupted
+const TIMEOUT_GRACE_PERIOD_MS = 5_000
+
+function getDefaultBackgroundProcessName(taskId: string): string {
+	let index = 1
+
+	while (TerminalRegistry.getBackgroundProcess(taskId, `process-${index}`)) {
+		index++
+	}
+
+	return `process-${index}`
+}
+// kilocode_change end
+
 export async function executeCommandTool(
 	cline: Task,
 	block: ToolUse,
@@ -27,6 +50,10 @@ export async function executeCommandTool(
 ) {
 	let command: string | undefined = block.params.command
 	const customCwd: string | undefined = block.params.cwd
+	// kilocode_change start
+	const timeout: string | undefined = block.params.timeout
+	const background = block.params.background === "true"
+	// kilocode_change end
 
 	try {
 		if (block.partial) {
@@ -48,6 +75,35 @@ export async function executeCommandTool(
 				return
 			}
 
+			// kilocode_change start
+			const timeoutSeconds = timeout ? Number(timeout) : undefined
+
+			if (timeoutSeconds !== undefined && !(timeoutSeconds > 0)) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError("execute_command")
+				pushToolResult(formatResponse.toolError(`Invalid timeout '${timeout}', use a number of seconds.`))
+				return
+			}
+
+			const backgroundName = background
+				? block.params.name?.trim() || getDefaultBackgroundProcessName(cline.taskId)
+				: undefined
+
+			const existingProcess =
+				backgroundName && TerminalRegistry.getBackgroundProcess(cline.taskId, backgroundName)
+
+			if (existingProcess && !existingProcess.completed) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError("execute_command")
+				pushToolResult(
+					formatResponse.toolError(
+						`A background process named '${backgroundName}' is already running, kill it first or use another name.`,
+					),
+				)
+				return
+			}
+			// kilocode_change end
+
 			cline.consecutiveMistakeCount = 0
 
 			command = unescapeHtmlEntities(command) // Unescape HTML entities.
@@ -68,6 +124,8 @@ export async function executeCommandTool(
 				customCwd,
 				terminalShellIntegrationDisabled,
 				terminalOutputLineLimit,
+				timeoutSeconds, // kilocode_change
+				backgroundName, // kilocode_change
 			}
 
 			try {
@@ -113,6 +171,12 @@ export type ExecuteCommandOptions = {
 	customCwd?: string
 	terminalShellIntegrationDisabled?: boolean
 	terminalOutputLineLimit?: number
+	// kilocode_change start
+	/** Interrupts the command when it runs longer */
+	timeoutSeconds?: number
+	/** Runs the command in the background under this name instead of waiting for it */
+	backgroundName?: string
+	// kilocode_change end
 }
 
 export async function executeCommand(
@@ -123,6 +187,8 @@ export async function executeCommand(
 		customCwd,
 		terminalShellIntegrationDisabled = false,
 		terminalOutputLineLimit = 500,
+		timeoutSeconds, // kilocode_change
+		backgroundName, // kilocode_change
 	}: ExecuteCommandOptions,
 ): Promise<[boolean, ToolResponse]> {
 	let workingDir: string
@@ -152,6 +218,7 @@ export async function executeCommand(
 	const clineProvider = await cline.providerRef.deref()
 
 	let accumulatedOutput = ""
+	let backgroundProcess: BackgroundProcess | undefined // kilocode_change
 	const callbacks: RooTerminalCallbacks = {
 		onLine: async (lines: string, process: RooTerminalProcess) => {
 			accumulatedOutput += lines
@@ -159,6 +226,13 @@ export async function executeCommand(
 			const status: CommandExecutionStatus = { executionId, status: "output", output: compressedOutput }
 			clineProvider?.postMessageToWebview({ type: "commandExecutionStatus", text: JSON.stringify(status) })
 
+			// kilocode_change start
+			if (backgroundProcess) {
+				TerminalRegistry.appendBackgroundProcessOutput(backgroundProcess, lines)
+				return
+			}
+			// kilocode_change end
+
 			if (runInBackground) {
 				return
 			}
@@ -175,8 +249,21 @@ export async function executeCommand(
 		},
 		onCompleted: (output: string | undefined) => {
 			result = Terminal.compressTerminalOutput(output ?? "", terminalOutputLineLimit)
-			cline.say("command_output", result)
 			completed = true
+
+			// kilocode_change start
+			if (backgroundProcess) {
+				// The line events carried the output, only what they didn't deliver yet is added
+				TerminalRegistry.appendBackgroundProcessOutput(
+					backgroundProcess,
+					backgroundProcess.process.getUnretrievedOutput(),
+				)
+				backgroundProcess.completed = true
+				return
+			}
+			// kilocode_change end
+
+			cline.say("command_output", result)
 		},
 		onShellExecutionStarted: (pid: number | undefined) => {
 			console.log(`[executeCommand] onShellExecutionStarted: ${pid}`)
@@ -187,6 +274,12 @@ export async function executeCommand(
 			const status: CommandExecutionStatus = { executionId, status: "exited", exitCode: details.exitCode }
 			clineProvider?.postMessageToWebview({ type: "commandExecutionStatus", text: JSON.stringify(status) })
 			exitDetails = details
+
+			// kilocode_change start
+			if (backgroundProcess) {
+				backgroundProcess.exitDetails = details
+			}
+			// kilocode_change end
 		},
 	}
 
@@ -209,10 +302,59 @@ export async function executeCommand(
 	}
 
 	const process = terminal.runCommand(command, callbacks)
+
+	// kilocode_change start
+	if (backgroundName) {
+		backgroundProcess = {
+			name: backgroundName,
+			command,
+			terminal,
+			process,
+			output: "",
+			readIndex: 0,
+			completed: false,
+		}
+		TerminalRegistry.appendBackgroundProcessOutput(backgroundProcess, accumulatedOutput)
+
+		TerminalRegistry.addBackgroundProcess(cline.taskId, backgroundProcess)
+
+		// Give the command a moment to print its startup output or fail
+		await Promise.race([process, delay(BACKGROUND_STARTUP_DELAY_MS)])
+
+		const startedProcess = TerminalRegistry.getBackgroundProcess(cline.taskId, backgroundName) ?? backgroundProcess
+		const output = Terminal.compressTerminalOutput(startedProcess.output, terminalOutputLineLimit)
+		startedProcess.readIndex = startedProcess.output.length
+
+		return [
+			false,
+			[
+				startedProcess.completed
+					? `Background process '${backgroundName}' already exited${startedProcess.exitDetails?.exitCode !== undefined ? ` with exit code ${startedProcess.exitDetails.exitCode}` : ""}.`
+					: `Command is running in the background as '${backgroundName}' from '${workingDir.toPosix()}'. Use read_process_output, wait_for_process_output and kill_process with this name to follow it.`,
+				output ? `Output so far:\n${output}` : "No output yet.",
+			].join("\n"),
+		]
+	}
+
 	cline.terminalProcess = process
 
-	await process
+	let timedOut = false
+	let timeoutId: NodeJS.Timeout | undefined
+
+	const timeoutPromise = timeoutSeconds
+		? new Promise<void>((resolve) => {
+				timeoutId = setTimeout(() => {
+					timedOut = true
+					process.abort()
+					resolve()
+				}, timeoutSeconds * 1000)
+			}).then(() => Promise.race([process, delay(TIMEOUT_GRACE_PERIOD_MS)]))
+		: undefined
+
+	await (timeoutPromise ? Promise.race([process, timeoutPromise]) : process)
+	clearTimeout(timeoutId)
 	cline.terminalProcess = undefined
+	// kilocode_change end
 
 	if (shellIntegrationError) {
 		throw new ShellIntegrationError(shellIntegrationError)
@@ -225,6 +367,21 @@ export async function executeCommand(
 	// grouping command_output messages despite any gaps anyways).
 	await delay(50)
 
+	// kilocode_change start
+	if (timedOut) {
+		const output = Terminal.compressTerminalOutput(accumulatedOutput, terminalOutputLineLimit)
+
+		return [
+			false,
+			[
+				`Command timed out after ${timeoutSeconds} seconds and was interrupted${completed || exitDetails ? "" : ", but it may still be running"}.`,
+				output ? `Output before the timeout:\n${output}` : "There was no output before the timeout.",
+				"If the command is expected to keep running, like a dev server or watcher, run it in the background instead.",
+			].join("\n"),
+		]
+	}
+	// kilocode_change end
+
 	if (message) {
 		const { text, images } = message
 		await cline.say("user_feedback", text, images)
@@ -142,6 +142,7 @@ export async function insertContentTool(
 			content: approvalContent,
 			lineNumber: lineNumber,
 			isProtected: isWriteProtected,
+			protectedPattern: cline.rooProtectedController?.getUserProtectionPattern(relPath), // kilocode_change
 		} satisfies ClineSayTool)
 
 		const didApprove = await cline
@@ -282,6 +282,7 @@ Original error: ${errorMessage}`
 					changeCount,
 					key: `${readablePath} (${changeText})`,
 					content: opResult.path, // Full relative path
+					isProtected: cline.rooProtectedController?.isWriteProtected(opResult.path) || false, // kilocode_change
 					diffs: opResult.diffItems?.map((item) => ({
 						content: item.content,
 						startLine: item.startLine,
@@ -518,6 +519,7 @@ ${errorDetails ? `\nTechnical details:\n${errorDetails}\n` : ""}
 					tool: "appliedDiff",
 					path: getReadablePath(cline.cwd, relPath),
 					isProtected: isWriteProtected,
+					protectedPattern: cline.rooProtectedController?.getUserProtectionPattern(relPath), // kilocode_change
 				}
 
 				// If single file, ask for approval
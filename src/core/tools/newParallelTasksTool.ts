@@ -0,0 +1,136 @@
+// kilocode_change - new file
+import delay from "delay"
+
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { Task } from "../task/Task"
+import { defaultModeSlug, getModeBySlug } from "../../shared/modes"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { parseXml } from "../../utils/xml"
+
+export const MAX_PARALLEL_SUBTASKS = 5
+
+function parseTaskMessages(args: string): string[] {
+	const parsed = parseXml(args, ["task.message"]) as { task?: { message?: string } | { message?: string }[] }
+	const tasks = Array.isArray(parsed.task) ? parsed.task : [parsed.task]
+
+	return tasks.map((task) => task?.message?.trim()).filter((message): message is string => !!message)
+}
+
+/**
+ * Starts several subtasks in the same mode that run at the same time, each in its own git worktree, and pauses the
+ * task until they have all finished and their changes are merged back.
+ */
+export async function newParallelTasksTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const mode: string | undefined = block.params.mode
+	const args: string | undefined = block.params.args
+
+	try {
+		if (block.partial) {
+			const partialMessage: ClineSayTool = { tool: "newParallelTasks", mode: removeClosingTag("mode", mode) }
+			await cline.ask("tool", JSON.stringify(partialMessage), block.partial).catch(() => {})
+			return
+		}
+
+		if (!mode) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("new_parallel_tasks")
+			pushToolResult(await cline.sayAndCreateMissingParamError("new_parallel_tasks", "mode"))
+			return
+		}
+
+		let messages: string[]
+
+		try {
+			messages = args ? parseTaskMessages(args) : []
+		} catch (error) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("new_parallel_tasks")
+			pushToolResult(formatResponse.toolError(`Failed to parse the tasks: ${(error as Error).message}`))
+			return
+		}
+
+		if (messages.length === 0) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("new_parallel_tasks")
+			pushToolResult(await cline.sayAndCreateMissingParamError("new_parallel_tasks", "args (containing tasks)"))
+			return
+		}
+
+		if (messages.length > MAX_PARALLEL_SUBTASKS) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("new_parallel_tasks")
+			pushToolResult(
+				formatResponse.toolError(
+					`At most ${MAX_PARALLEL_SUBTASKS} subtasks can run in parallel, split the work into fewer tasks.`,
+				),
+			)
+			return
+		}
+
+		const provider = cline.providerRef.deref()
+
+		if (!provider) {
+			return
+		}
+
+		const targetMode = getModeBySlug(mode, (await provider.getState()).customModes)
+
+		if (!targetMode) {
+			pushToolResult(formatResponse.toolError(`Invalid mode: ${mode}`))
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		// Un-escape one level of backslashes before '@' for hierarchical subtasks, like new_task
+		messages = messages.map((message) => message.replace(/\\\\@/g, "\\@"))
+
+		const toolMessage: ClineSayTool = { tool: "newParallelTasks", mode: targetMode.name, tasks: messages }
+		const didApprove = await askApproval("tool", JSON.stringify(toolMessage))
+
+		if (!didApprove) {
+			return
+		}
+
+		const previousMode = (await provider.getState()).mode ?? defaultModeSlug
+
+		// The subtasks share the mode, which is switched back when the task resumes
+		await provider.handleModeSwitch(mode)
+		await delay(500)
+
+		let subtasks: Task[]
+
+		try {
+			subtasks = await provider.initParallelSubtasks(cline, messages)
+		} catch (error) {
+			await provider.handleModeSwitch(previousMode)
+			pushToolResult(
+				formatResponse.toolError(
+					`Couldn't start the parallel subtasks: ${(error as Error).message} Parallel subtasks need the workspace to be in a git repository with at least one commit, use new_task otherwise.`,
+				),
+			)
+			return
+		}
+
+		subtasks.forEach((subtask) => cline.emit("taskSpawned", subtask.taskId))
+
+		pushToolResult(
+			`Started ${subtasks.length} subtasks in ${targetMode.name} mode, each in its own git worktree. This task resumes with their results and merged changes once they have all finished.`,
+		)
+
+		// Wait for the subtasks like for a new_task subtask
+		cline.pausedModeSlug = previousMode
+		cline.isPaused = true
+		cline.emit("taskPaused")
+	} catch (error) {
+		await handleError("creating parallel tasks", error)
+	}
+}
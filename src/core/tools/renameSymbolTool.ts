@@ -0,0 +1,186 @@
+// kilocode_change - new file
+import path from "path"
+import * as vscode from "vscode"
+
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { defaultModeSlug, FileRestrictionError, isToolAllowedForMode } from "../../shared/modes"
+import { Task } from "../task/Task"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { getReadablePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import { formatResponse } from "../prompts/responses"
+import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
+import { fileExistsAtPath } from "../../utils/fs"
+import { applyTextEdits, getRenameEdit, resolveSymbolPosition } from "../../services/lsp"
+
+import { validateSymbolParams } from "./codeNavigationTools"
+
+type RenamedFile = {
+	uri: vscode.Uri
+	relPath: string
+	textEdits: vscode.TextEdit[]
+	diff: string
+}
+
+export async function renameSymbolTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const relPath: string | undefined = block.params.path
+	const newName: string | undefined = block.params.new_name
+	const absolutePath = relPath ? path.resolve(cline.cwd, relPath) : cline.cwd
+
+	const sharedMessageProps: ClineSayTool = {
+		tool: "renameSymbol",
+		path: getReadablePath(cline.cwd, removeClosingTag("path", relPath)),
+		symbol: removeClosingTag("symbol", block.params.symbol),
+		newName: removeClosingTag("new_name", newName),
+		isOutsideWorkspace: isPathOutsideWorkspace(absolutePath),
+	}
+
+	try {
+		if (block.partial) {
+			await cline.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+			return
+		}
+
+		const params = await validateSymbolParams(cline, block, pushToolResult)
+
+		if (!params) {
+			return
+		}
+
+		if (!newName) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("rename_symbol")
+			pushToolResult(await cline.sayAndCreateMissingParamError("rename_symbol", "new_name"))
+			return
+		}
+
+		let edit: vscode.WorkspaceEdit | undefined
+
+		try {
+			const { document, position } = await resolveSymbolPosition(absolutePath, params.line, params.symbol)
+			edit = await getRenameEdit(document.uri, position, newName)
+		} catch (error) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("rename_symbol")
+			pushToolResult(formatResponse.toolError(error instanceof Error ? error.message : String(error)))
+			return
+		}
+
+		const entries = edit?.entries() ?? []
+
+		if (!edit || entries.length === 0) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("rename_symbol")
+			pushToolResult(formatResponse.toolError(`The language server can't rename '${params.symbol}'.`))
+			return
+		}
+
+		const { mode = defaultModeSlug, customModes = [] } = (await cline.providerRef.deref()?.getState()) ?? {}
+		const files: RenamedFile[] = []
+
+		for (const [uri, textEdits] of entries) {
+			const fileRelPath = path.relative(cline.cwd, uri.fsPath).toPosix()
+
+			if (uri.scheme !== "file" || isPathOutsideWorkspace(uri.fsPath)) {
+				pushToolResult(
+					formatResponse.toolError(
+						`Renaming '${params.symbol}' would also change ${uri.scheme === "file" ? uri.fsPath : uri.toString()}, which is outside the workspace. Nothing was renamed.`,
+					),
+				)
+				return
+			}
+
+			// Edits to a file that doesn't exist yet come with a file rename or creation of the language server,
+			// which this tool doesn't apply
+			if (!(await fileExistsAtPath(uri.fsPath))) {
+				pushToolResult(
+					formatResponse.toolError(
+						`Renaming '${params.symbol}' would also rename or create ${fileRelPath}, which rename_symbol doesn't support. Nothing was renamed.`,
+					),
+				)
+				return
+			}
+
+			if (!cline.rooIgnoreController?.validateAccess(fileRelPath)) {
+				await cline.say("rooignore_error", fileRelPath)
+				pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(fileRelPath)))
+				return
+			}
+
+			try {
+				isToolAllowedForMode("rename_symbol", mode, customModes, undefined, {
+					path: fileRelPath,
+					line: String(params.line),
+				})
+			} catch (error) {
+				if (error instanceof FileRestrictionError) {
+					pushToolResult(formatResponse.toolError(error.message))
+					return
+				}
+				throw error
+			}
+
+			const document = await vscode.workspace.openTextDocument(uri)
+			const content = document.getText()
+
+			files.push({
+				uri,
+				relPath: fileRelPath,
+				textEdits,
+				diff: formatResponse.createPrettyPatch(fileRelPath, content, applyTextEdits(document, textEdits)),
+			})
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const isWriteProtected = files.some((file) => cline.rooProtectedController?.isWriteProtected(file.relPath))
+
+		const completeMessage = JSON.stringify({
+			...sharedMessageProps,
+			lineNumber: params.line,
+			diff: files.map((file) => file.diff).join("\n"),
+			isProtected: isWriteProtected,
+		} satisfies ClineSayTool)
+
+		const didApprove = await askApproval("tool", completeMessage, undefined, isWriteProtected)
+
+		if (!didApprove) {
+			return
+		}
+
+		// Only the reviewed text edits are applied, never file operations the language server may have added
+		const textOnlyEdit = new vscode.WorkspaceEdit()
+
+		for (const file of files) {
+			textOnlyEdit.set(file.uri, file.textEdits)
+		}
+
+		if (!(await vscode.workspace.applyEdit(textOnlyEdit))) {
+			pushToolResult(formatResponse.toolError(`Failed to apply the rename of '${params.symbol}'.`))
+			return
+		}
+
+		for (const file of files) {
+			const document = await vscode.workspace.openTextDocument(file.uri)
+			await document.save()
+			await cline.fileContextTracker.trackFileContext(file.relPath, "roo_edited" as RecordSource)
+		}
+
+		cline.didEditFile = true
+
+		pushToolResult(
+			`Renamed '${params.symbol}' to '${newName}' in ${files.length} file${files.length === 1 ? "" : "s"}:\n${files
+				.map((file) => file.relPath)
+				.join("\n")}`,
+		)
+	} catch (error) {
+		await handleError("renaming symbol", error)
+	}
+}
@@ -0,0 +1,142 @@
+// kilocode_change - new file
+import path from "path"
+import fs from "fs/promises"
+
+import { Task } from "../task/Task"
+import { AskApproval, HandleError, PushToolResult, RemoveClosingTag, ToolUse } from "../../shared/tools"
+import { formatResponse } from "../prompts/responses"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { getReadablePath } from "../../utils/path"
+import { fileExistsAtPath } from "../../utils/fs"
+import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
+import { editSymbol, SymbolEditPosition } from "../../services/tree-sitter/symbols"
+
+const POSITIONS: SymbolEditPosition[] = ["replace", "before", "after"]
+
+/**
+ * Replaces a definition found by name in the file's syntax tree, or inserts code before or after it.
+ */
+export async function replaceSymbolTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+): Promise<void> {
+	const relPath: string | undefined = block.params.path
+	const symbol: string | undefined = block.params.symbol
+	const content: string | undefined = block.params.content
+	const position = (block.params.position?.trim() || "replace") as SymbolEditPosition
+
+	const sharedMessageProps: ClineSayTool = {
+		tool: "replaceSymbol",
+		path: getReadablePath(cline.cwd, removeClosingTag("path", relPath)),
+		symbol: removeClosingTag("symbol", symbol),
+		position: POSITIONS.includes(position) ? position : undefined,
+	}
+
+	try {
+		if (block.partial) {
+			await cline.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+			return
+		}
+
+		for (const [paramName, value] of [
+			["path", relPath],
+			["symbol", symbol],
+			["content", content],
+		] as const) {
+			if (!value) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError("replace_symbol")
+				pushToolResult(await cline.sayAndCreateMissingParamError("replace_symbol", paramName))
+				return
+			}
+		}
+
+		const validRelPath = relPath!
+
+		if (!POSITIONS.includes(position)) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("replace_symbol")
+			pushToolResult(
+				formatResponse.toolError(`Invalid position '${position}', use one of: ${POSITIONS.join(", ")}.`),
+			)
+			return
+		}
+
+		if (!cline.rooIgnoreController?.validateAccess(validRelPath)) {
+			await cline.say("rooignore_error", validRelPath)
+			pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(validRelPath)))
+			return
+		}
+
+		const isWriteProtected = cline.rooProtectedController?.isWriteProtected(validRelPath) || false
+		const absolutePath = path.resolve(cline.cwd, validRelPath)
+
+		if (!(await fileExistsAtPath(absolutePath))) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("replace_symbol")
+			const formattedError = formatResponse.toolError(
+				`File does not exist at path: ${absolutePath}\nThe specified file could not be found. Please verify the file path and try again.`,
+			)
+			await cline.say("error", formattedError)
+			pushToolResult(formattedError)
+			return
+		}
+
+		const fileContent = await fs.readFile(absolutePath, "utf-8")
+		let newContent: string
+
+		try {
+			newContent = (await editSymbol(absolutePath, fileContent, symbol!, content!, position)).content
+		} catch (error) {
+			// The symbol wasn't found or the edit doesn't parse, the message tells the model what to fix
+			const errorMessage = error instanceof Error ? error.message : String(error)
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("replace_symbol", errorMessage)
+			pushToolResult(formatResponse.toolError(errorMessage))
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const diff = formatResponse.createPrettyPatch(validRelPath, fileContent, newContent)
+
+		if (!diff) {
+			pushToolResult(`No changes needed for '${relPath}'`)
+			return
+		}
+
+		cline.diffViewProvider.editType = "modify"
+		await cline.diffViewProvider.open(validRelPath)
+		await cline.diffViewProvider.update(newContent, true)
+		cline.diffViewProvider.scrollToFirstDiff()
+
+		const completeMessage = JSON.stringify({
+			...sharedMessageProps,
+			diff,
+			isProtected: isWriteProtected,
+			protectedPattern: cline.rooProtectedController?.getUserProtectionPattern(validRelPath),
+		} satisfies ClineSayTool)
+
+		const didApprove = await askApproval("tool", completeMessage, undefined, isWriteProtected)
+
+		if (!didApprove) {
+			await cline.diffViewProvider.revertChanges()
+			await cline.diffViewProvider.reset()
+			return
+		}
+
+		await cline.diffViewProvider.saveChanges()
+		await cline.fileContextTracker.trackFileContext(validRelPath, "roo_edited" as RecordSource)
+		cline.didEditFile = true
+
+		pushToolResult(await cline.diffViewProvider.pushToolWriteResult(cline, cline.cwd, false))
+		await cline.diffViewProvider.reset()
+	} catch (error) {
+		await handleError("replacing symbol", error)
+		await cline.diffViewProvider.reset()
+	}
+}
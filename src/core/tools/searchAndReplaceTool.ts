@@ -214,6 +214,7 @@ export async function searchAndReplaceTool(
 			...sharedMessageProps,
 			diff,
 			isProtected: isWriteProtected,
+			protectedPattern: cline.rooProtectedController?.getUserProtectionPattern(validRelPath), // kilocode_change
 		} satisfies ClineSayTool)
 		const didApprove = await cline
 			.ask("tool", completeMessage, isWriteProtected)
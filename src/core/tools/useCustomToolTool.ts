@@ -0,0 +1,102 @@
+// kilocode_change - new file
+import { Task } from "../task/Task"
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { defaultModeSlug } from "../../shared/modes"
+import { formatResponse } from "../prompts/responses"
+import { getShell } from "../../utils/shell"
+import {
+	buildCustomToolCommand,
+	getCustomToolShell,
+	isCustomToolAllowedForMode,
+	loadCustomTools,
+	validateCustomToolArguments,
+} from "../../services/custom-tools"
+
+import { executeCommandTool } from "./executeCommandTool"
+
+export async function useCustomToolTool(
+	cline: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const toolName: string | undefined = block.params.tool_name
+
+	try {
+		// The command to approve is only known once the arguments are complete.
+		if (block.partial) {
+			return
+		}
+
+		if (!toolName) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("use_custom_tool")
+			pushToolResult(await cline.sayAndCreateMissingParamError("use_custom_tool", "tool_name"))
+			return
+		}
+
+		const {
+			mode = defaultModeSlug,
+			customModes,
+			terminalShellIntegrationDisabled = false,
+		} = (await cline.providerRef.deref()?.getState()) ?? {}
+		const tool = (await loadCustomTools(cline.cwd)).find((tool) => tool.name === toolName)
+
+		if (!tool || !isCustomToolAllowedForMode(tool, mode, customModes)) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("use_custom_tool")
+			pushToolResult(
+				formatResponse.toolError(
+					tool
+						? `Custom tool '${toolName}' requires the '${tool.group}' tool group, which is not available in the current mode.`
+						: `Unknown custom tool '${toolName}'. Only the custom tools listed in the system prompt can be used.`,
+				),
+			)
+			return
+		}
+
+		let command: string
+
+		try {
+			const parsedArguments = block.params.arguments?.trim() ? JSON.parse(block.params.arguments) : {}
+
+			if (typeof parsedArguments !== "object" || parsedArguments === null || Array.isArray(parsedArguments)) {
+				throw new Error("Arguments must be a JSON object")
+			}
+
+			// Quote the arguments for the shell executeCommandTool runs the command in
+			const shell = getCustomToolShell(terminalShellIntegrationDisabled ? undefined : getShell())
+			command = buildCustomToolCommand(tool, validateCustomToolArguments(tool, parsedArguments), shell)
+		} catch (error) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("use_custom_tool")
+			pushToolResult(
+				formatResponse.toolError(
+					`Invalid arguments for custom tool '${toolName}': ${error instanceof Error ? error.message : String(error)}`,
+				),
+			)
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		// Custom tools run like any other command, so they share its approval, auto-approval and terminal handling.
+		await executeCommandTool(
+			cline,
+			{
+				type: "tool_use",
+				name: "execute_command",
+				params: { command, cwd: tool.cwd },
+				partial: false,
+			},
+			askApproval,
+			handleError,
+			pushToolResult,
+			removeClosingTag,
+		)
+	} catch (error) {
+		await handleError("running custom tool", error)
+	}
+}
@@ -94,6 +94,7 @@ export async function writeToFileTool(
 		content: newContent,
 		isOutsideWorkspace,
 		isProtected: isWriteProtected,
+		protectedPattern: cline.rooProtectedController?.getUserProtectionPattern(relPath), // kilocode_change
 	}
 
 	try {
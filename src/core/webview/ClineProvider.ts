@@ -24,6 +24,9 @@ import {
 	type HistoryItem,
 	type CloudUserInfo,
 	type MarketplaceItem,
+	type ParallelSubtaskState, // kilocode_change
+	type ParallelSubtaskStatus, // kilocode_change
+	type TaskSearchResult, // kilocode_change
 	requestyDefaultModelId,
 	openRouterDefaultModelId,
 	glamaDefaultModelId,
@@ -61,6 +64,7 @@ import { ProviderSettingsManager } from "../config/ProviderSettingsManager"
 import { CustomModesManager } from "../config/CustomModesManager"
 import { buildApiHandler } from "../../api"
 import { Task, TaskOptions } from "../task/Task"
+import { DEFAULT_SPEND_WARNING_PERCENT, pruneSpendLedger } from "../budget" // kilocode_change
 import { getNonce } from "./getNonce"
 import { getUri } from "./getUri"
 import { getSystemPromptFilePath } from "../prompts/sections/custom-system-prompt"
@@ -73,7 +77,9 @@ import { getWorkspaceGitInfo } from "../../utils/git"
 
 import { McpDownloadResponse, McpMarketplaceCatalog } from "../../shared/kilocode/mcp" //kilocode_change
 import { McpServer } from "../../shared/mcp" // kilocode_change
-import { OpenRouterHandler } from "../../api/providers" // kilocode_change
+import { OpenRouterHandler, unwrapApiHandler } from "../../api/providers" // kilocode_change
+import { createTaskWorktree, mergeTaskWorktree, removeTaskWorktree, TaskWorktree } from "../../services/worktrees" // kilocode_change
+import { TaskSearchIndex } from "../../services/task-search" // kilocode_change
 
 /**
  * https://github.com/microsoft/vscode-webview-ui-toolkit-samples/blob/main/default/weather-webview/src/providers/WeatherViewProvider.ts
@@ -84,6 +90,17 @@ export type ClineProviderEvents = {
 	clineCreated: [cline: Task]
 }
 
+// kilocode_change start
+type ParallelSubtask = {
+	task: Task
+	parentTaskId: string
+	message: string
+	worktree: TaskWorktree
+	state: Exclude<ParallelSubtaskState, "waiting">
+	result?: string
+}
+// kilocode_change end
+
 class OrganizationAllowListViolationError extends Error {
 	constructor(message: string) {
 		super(message)
@@ -104,6 +121,12 @@ export class ClineProvider
 	private webviewDisposables: vscode.Disposable[] = []
 	private view?: vscode.WebviewView | vscode.WebviewPanel
 	private clineStack: Task[] = []
+	// kilocode_change start
+	// Subtasks started by new_parallel_tasks run next to the stack, while their parent stays on top of it
+	private parallelSubtasks = new Map<string, ParallelSubtask>()
+	private focusedParallelSubtaskId?: string
+	// kilocode_change end
+	private taskSearchIndex?: TaskSearchIndex // kilocode_change
 	private codeIndexStatusSubscription?: vscode.Disposable
 	private _workspaceTracker?: WorkspaceTracker // workSpaceTracker read-only for access outside this class
 	public get workspaceTracker(): WorkspaceTracker | undefined {
@@ -198,6 +221,7 @@ export class ClineProvider
 
 		if (cline) {
 			console.log(`[subtasks] removing task ${cline.taskId}.${cline.instanceId} from stack`)
+			await this.discardParallelSubtasks(cline.taskId) // kilocode_change
 
 			try {
 				// Abort the running task and set isAbandoned to true so
@@ -218,6 +242,16 @@ export class ClineProvider
 	// returns the current cline object in the stack (the top one)
 	// if the stack is empty, returns undefined
 	getCurrentCline(): Task | undefined {
+		// kilocode_change start: the user can switch to a parallel subtask to follow it and answer its questions
+		const focusedSubtask = this.focusedParallelSubtaskId
+			? this.parallelSubtasks.get(this.focusedParallelSubtaskId)
+			: undefined
+
+		if (focusedSubtask) {
+			return focusedSubtask.task
+		}
+		// kilocode_change end
+
 		if (this.clineStack.length === 0) {
 			return undefined
 		}
@@ -250,6 +284,210 @@ export class ClineProvider
 		await this.removeClineFromStack()
 	}
 
+	// kilocode_change start
+	/**
+	 * Starts subtasks that run at the same time, each in its own worktree of the parent task's git repository. They
+	 * aren't added to the stack, the parent is resumed with their merged changes once they have all finished.
+	 */
+	public async initParallelSubtasks(parentTask: Task, messages: string[]): Promise<Task[]> {
+		const {
+			apiConfiguration,
+			organizationAllowList,
+			diffEnabled: enableDiff,
+			fuzzyMatchThreshold,
+			experiments,
+		} = await this.getState()
+
+		if (!ProfileValidator.isProfileAllowed(apiConfiguration, organizationAllowList)) {
+			throw new OrganizationAllowListViolationError(t("common:errors.violated_organization_allowlist"))
+		}
+
+		const worktrees: TaskWorktree[] = []
+
+		try {
+			for (let i = 0; i < messages.length; i++) {
+				worktrees.push(await createTaskWorktree(parentTask.cwd, `${parentTask.taskId}-${i + 1}`))
+			}
+		} catch (error) {
+			await Promise.all(worktrees.map((worktree) => removeTaskWorktree(worktree).catch(() => {})))
+			throw error
+		}
+
+		const tasks = messages.map((message, i) => {
+			const task = new Task({
+				context: this.context,
+				provider: this,
+				apiConfiguration,
+				enableDiff,
+				// Checkpoints track the workspace, not the worktree
+				enableCheckpoints: false,
+				fuzzyMatchThreshold,
+				task: message,
+				experiments,
+				rootTask: this.clineStack.length > 0 ? this.clineStack[0] : undefined,
+				parentTask,
+				taskNumber: this.clineStack.length + 1,
+				workspacePath: worktrees[i].workspacePath,
+				onCreated: (cline) => this.emit("clineCreated", cline),
+			})
+
+			this.parallelSubtasks.set(task.taskId, {
+				task,
+				parentTaskId: parentTask.taskId,
+				message,
+				worktree: worktrees[i],
+				state: "running",
+			})
+
+			this.log(
+				`[subtasks] parallel task ${task.taskId}.${task.instanceId} started in ${worktrees[i].worktreeDir}`,
+			)
+			return task
+		})
+
+		await this.postStateToWebview()
+		return tasks
+	}
+
+	public isParallelSubtask(taskId: string): boolean {
+		return this.parallelSubtasks.has(taskId)
+	}
+
+	/**
+	 * Shows a parallel subtask in the chat instead of the task on top of the stack, or goes back to it when no task
+	 * is given.
+	 */
+	public async focusParallelSubtask(taskId?: string) {
+		this.focusedParallelSubtaskId = taskId && this.parallelSubtasks.has(taskId) ? taskId : undefined
+		await this.postStateToWebview()
+	}
+
+	/**
+	 * Marks a parallel subtask as finished and stops it. Its changes are merged once its siblings have finished too.
+	 */
+	public async finishParallelSubtask(taskId: string, result: string, state: ParallelSubtask["state"] = "completed") {
+		const subtask = this.parallelSubtasks.get(taskId)
+
+		if (!subtask || subtask.state !== "running") {
+			return
+		}
+
+		subtask.state = state
+		subtask.result = result
+
+		if (this.focusedParallelSubtaskId === taskId) {
+			this.focusedParallelSubtaskId = undefined
+		}
+
+		try {
+			await subtask.task.abortTask(true)
+		} catch (e) {
+			this.log(`[subtasks] encountered error while aborting parallel task ${taskId}: ${e.message}`)
+		}
+
+		await this.resumeAfterParallelSubtasks(subtask.parentTaskId)
+	}
+
+	public async cancelParallelSubtask(taskId: string) {
+		await this.finishParallelSubtask(taskId, t("common:tasks.canceled"), "cancelled")
+	}
+
+	public getParallelSubtaskStatuses(): ParallelSubtaskStatus[] {
+		return [...this.parallelSubtasks.values()].map(({ task, parentTaskId, message, worktree, state, result }) => {
+			const lastMessage = task.clineMessages.at(-1)
+			const isWaiting = state === "running" && lastMessage?.type === "ask" && !lastMessage.partial
+
+			return {
+				taskId: task.taskId,
+				parentTaskId,
+				message,
+				state: isWaiting ? "waiting" : state,
+				lastActivity: result ?? findLast(task.clineMessages, (m) => m.say === "text" && !!m.text)?.text,
+				cost: task.getTokenUsage().totalCost,
+				workspacePath: worktree.workspacePath,
+			}
+		})
+	}
+
+	private async resumeAfterParallelSubtasks(parentTaskId: string) {
+		const subtasks = [...this.parallelSubtasks.values()].filter((subtask) => subtask.parentTaskId === parentTaskId)
+
+		if (subtasks.some((subtask) => subtask.state === "running")) {
+			await this.postStateToWebview()
+			return
+		}
+
+		// Forget them before merging, so a sibling finishing at the same time doesn't merge them again
+		subtasks.forEach((subtask) => this.parallelSubtasks.delete(subtask.task.taskId))
+
+		const reports: string[] = []
+
+		for (const [i, subtask] of subtasks.entries()) {
+			reports.push(`Subtask ${i + 1}: ${subtask.message}\n${await this.mergeParallelSubtask(subtask)}`)
+		}
+
+		await this.postStateToWebview()
+		await this.clineStack.find((task) => task.taskId === parentTaskId)?.resumePausedTask(reports.join("\n\n"))
+	}
+
+	private async mergeParallelSubtask({ worktree, state, result }: ParallelSubtask): Promise<string> {
+		if (state !== "completed") {
+			await removeTaskWorktree(worktree).catch(() => {})
+			return "The subtask was cancelled and its changes were discarded."
+		}
+
+		const lines = [`Result: ${result}`]
+
+		try {
+			const { changedFiles, conflicts } = await mergeTaskWorktree(worktree)
+
+			lines.push(
+				changedFiles.length > 0
+					? `Merged its changes to: ${changedFiles.join(", ")}`
+					: "It didn't change any files.",
+			)
+
+			if (conflicts.length > 0) {
+				lines.push(
+					`These files were also changed in the workspace and have conflicts to resolve: ${conflicts.join(", ")}. The subtask's versions are kept in ${worktree.worktreeDir}.`,
+				)
+				return lines.join("\n")
+			}
+		} catch (error) {
+			lines.push(
+				`Its changes couldn't be merged (${error instanceof Error ? error.message : String(error)}), they are kept in ${worktree.worktreeDir}.`,
+			)
+			return lines.join("\n")
+		}
+
+		await removeTaskWorktree(worktree).catch((error) => {
+			this.log(`[subtasks] failed to remove worktree ${worktree.worktreeDir}: ${error}`)
+		})
+
+		return lines.join("\n")
+	}
+
+	/**
+	 * Stops the parallel subtasks of a task that is being removed and throws their changes away.
+	 */
+	private async discardParallelSubtasks(parentTaskId: string) {
+		for (const subtask of [...this.parallelSubtasks.values()]) {
+			if (subtask.parentTaskId !== parentTaskId) {
+				continue
+			}
+
+			this.parallelSubtasks.delete(subtask.task.taskId)
+
+			if (this.focusedParallelSubtaskId === subtask.task.taskId) {
+				this.focusedParallelSubtaskId = undefined
+			}
+
+			await subtask.task.abortTask(true).catch(() => {})
+			await removeTaskWorktree(subtask.worktree).catch(() => {})
+		}
+	}
+	// kilocode_change end
+
 	/*
 	VSCode extensions use the disposable pattern to clean up resources when the sidebar/editor tab is closed by the user or system. This applies to event listening, commands, interacting with the UI, etc.
 	- https://vscode-docs.readthedocs.io/en/stable/extensions/patterns-and-principles/
@@ -983,6 +1221,13 @@ export class ClineProvider
 			return
 		}
 
+		// kilocode_change start
+		if (this.isParallelSubtask(cline.taskId)) {
+			await this.cancelParallelSubtask(cline.taskId)
+			return
+		}
+		// kilocode_change end
+
 		console.log(`[subtasks] cancelling task ${cline.taskId}.${cline.instanceId}`)
 
 		const { historyItem } = await this.getTaskWithId(cline.taskId)
@@ -1201,7 +1446,7 @@ export class ClineProvider
 		throw new Error("Task not found")
 	}
 
-	async showTaskWithId(id: string) {
+	async showTaskWithId(id: string, messageTs?: number /* kilocode_change */) {
 		if (id !== this.getCurrentCline()?.taskId) {
 			// Non-current task.
 			const { historyItem } = await this.getTaskWithId(id)
@@ -1209,7 +1454,21 @@ export class ClineProvider
 		}
 
 		await this.postMessageToWebview({ type: "action", action: "chatButtonClicked" })
+
+		// kilocode_change start
+		if (messageTs !== undefined) {
+			await this.postMessageToWebview({ type: "scrollToMessage", text: id, messageTs })
+		}
+		// kilocode_change end
+	}
+
+	// kilocode_change start
+	/* Searches the conversations of the tasks in the history. */
+	async searchTaskHistory(query: string, workspace?: string): Promise<TaskSearchResult[]> {
+		this.taskSearchIndex ??= new TaskSearchIndex(this.contextProxy.globalStorageUri.fsPath)
+		return this.taskSearchIndex.search(this.getGlobalState("taskHistory") ?? [], query, { workspace })
 	}
+	// kilocode_change end
 
 	async exportTaskWithId(id: string) {
 		const { historyItem, apiConversationHistory } = await this.getTaskWithId(id)
@@ -1310,9 +1569,10 @@ export class ClineProvider
 	async postRulesDataToWebview() {
 		const workspacePath = this.cwd
 		if (workspacePath) {
+			const contextFilePaths = (await this.getCurrentCline()?.fileContextTracker.getFilesInContext()) ?? [] // kilocode_change
 			this.postMessageToWebview({
 				type: "rulesData",
-				...(await getEnabledRules(workspacePath, this.contextProxy, this.context)),
+				...(await getEnabledRules(workspacePath, this.contextProxy, this.context, contextFilePaths)), // kilocode_change: contextFilePaths
 			})
 		}
 	}
@@ -1415,6 +1675,13 @@ export class ClineProvider
 			alwaysAllowSubtasks,
 			alwaysAllowUpdateTodoList,
 			allowedMaxRequests,
+			// kilocode_change start
+			taskSpendLimit,
+			dailySpendLimit,
+			profileSpendLimits,
+			spendWarningPercent,
+			spendLedger,
+			// kilocode_change end
 			autoCondenseContext,
 			autoCondenseContextPercent,
 			soundEnabled,
@@ -1452,6 +1719,7 @@ export class ClineProvider
 			customSupportPrompts,
 			enhancementApiConfigId,
 			commitMessageApiConfigId, // kilocode_change
+			mcpSamplingApiConfigId, // kilocode_change
 			autoApprovalEnabled,
 			customModes,
 			experiments,
@@ -1509,6 +1777,23 @@ export class ClineProvider
 			alwaysAllowSubtasks: alwaysAllowSubtasks ?? true,
 			alwaysAllowUpdateTodoList: alwaysAllowUpdateTodoList ?? true,
 			allowedMaxRequests,
+			// kilocode_change start
+			taskSpendLimit,
+			dailySpendLimit,
+			profileSpendLimits,
+			spendWarningPercent,
+			spendBudgets: this.getCurrentCline()?.getSpendBudgetStatuses({
+				listApiConfigMeta,
+				currentApiConfigName,
+				spendLedger,
+				taskSpendLimit,
+				dailySpendLimit,
+				profileSpendLimits,
+				spendWarningPercent,
+			}),
+			parallelSubtasks: this.getParallelSubtaskStatuses(),
+			focusedParallelSubtaskId: this.focusedParallelSubtaskId,
+			// kilocode_change end
 			autoCondenseContext: autoCondenseContext ?? true,
 			autoCondenseContextPercent: autoCondenseContextPercent ?? 100,
 			uriScheme: vscode.env.uriScheme,
@@ -1550,12 +1835,14 @@ export class ClineProvider
 			requestDelaySeconds: requestDelaySeconds ?? 10,
 			currentApiConfigName: currentApiConfigName ?? "default",
 			listApiConfigMeta: listApiConfigMeta ?? [],
+			fallbackApiConfigIds: await this.providerSettingsManager.getFallbackConfigIds(), // kilocode_change
 			pinnedApiConfigs: pinnedApiConfigs ?? {},
 			mode: mode ?? defaultModeSlug,
 			customModePrompts: customModePrompts ?? {},
 			customSupportPrompts: customSupportPrompts ?? {},
 			enhancementApiConfigId,
 			commitMessageApiConfigId, // kilocode_change
+			mcpSamplingApiConfigId, // kilocode_change
 			autoApprovalEnabled: autoApprovalEnabled ?? true,
 			customModes,
 			experiments: experiments ?? experimentDefault,
@@ -1590,6 +1877,7 @@ export class ClineProvider
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: codebaseIndexConfig?.codebaseIndexEnabled ?? true,
 				codebaseIndexQdrantUrl: codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
+				codebaseIndexVectorStoreProvider: codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant", // kilocode_change
 				codebaseIndexEmbedderProvider: codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
 				codebaseIndexEmbedderModelId: codebaseIndexConfig?.codebaseIndexEmbedderModelId ?? "",
@@ -1685,6 +1973,13 @@ export class ClineProvider
 			alwaysAllowUpdateTodoList: stateValues.alwaysAllowUpdateTodoList ?? true, // kilocode_change
 			followupAutoApproveTimeoutMs: stateValues.followupAutoApproveTimeoutMs ?? 60000,
 			allowedMaxRequests: stateValues.allowedMaxRequests,
+			// kilocode_change start
+			taskSpendLimit: stateValues.taskSpendLimit,
+			dailySpendLimit: stateValues.dailySpendLimit,
+			profileSpendLimits: stateValues.profileSpendLimits ?? {},
+			spendWarningPercent: stateValues.spendWarningPercent ?? DEFAULT_SPEND_WARNING_PERCENT,
+			spendLedger: stateValues.spendLedger ?? [],
+			// kilocode_change end
 			autoCondenseContext: stateValues.autoCondenseContext ?? true,
 			autoCondenseContextPercent: stateValues.autoCondenseContextPercent ?? 100,
 			taskHistory: stateValues.taskHistory,
@@ -1727,6 +2022,7 @@ export class ClineProvider
 			customSupportPrompts: stateValues.customSupportPrompts ?? {},
 			enhancementApiConfigId: stateValues.enhancementApiConfigId,
 			commitMessageApiConfigId: stateValues.commitMessageApiConfigId, // kilocode_change
+			mcpSamplingApiConfigId: stateValues.mcpSamplingApiConfigId, // kilocode_change
 			autocompleteApiConfigId: stateValues.autocompleteApiConfigId, // kilocode_change
 			experiments: stateValues.experiments ?? experimentDefault,
 			autoApprovalEnabled: stateValues.autoApprovalEnabled ?? true,
@@ -1756,6 +2052,10 @@ export class ClineProvider
 				codebaseIndexEnabled: stateValues.codebaseIndexConfig?.codebaseIndexEnabled ?? true,
 				codebaseIndexQdrantUrl:
 					stateValues.codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
+				// kilocode_change start
+				codebaseIndexVectorStoreProvider:
+					stateValues.codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
+				// kilocode_change end
 				codebaseIndexEmbedderProvider:
 					stateValues.codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: stateValues.codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
@@ -1779,6 +2079,18 @@ export class ClineProvider
 		return history
 	}
 
+	// kilocode_change start
+	/**
+	 * Adds the cost of an API request to the ledger the daily and per profile budgets are checked against.
+	 */
+	async recordSpend(cost: number, profileId?: string) {
+		const now = Date.now()
+		const ledger = pruneSpendLedger(this.getGlobalState("spendLedger") ?? [], now)
+
+		await this.updateGlobalState("spendLedger", [...ledger, { ts: now, cost, profileId }])
+	}
+	// kilocode_change end
+
 	// ContextProxy
 
 	// @deprecated - Use `ContextProxy#setValue` instead.
@@ -1903,8 +2215,10 @@ export class ClineProvider
 		// kilocode_change start
 		async function getModelId() {
 			try {
-				if (task?.api instanceof OpenRouterHandler) {
-					return { modelId: (await task.api.fetchModel()).id }
+				const api = task?.api && unwrapApiHandler(task.api)
+
+				if (api instanceof OpenRouterHandler) {
+					return { modelId: (await api.fetchModel()).id }
 				} else {
 					return { modelId: task?.api?.getModel().id }
 				}
@@ -222,6 +222,7 @@ vi.mock("../../task/Task", () => ({
 				setTaskNumber: vi.fn(),
 				setParentTask: vi.fn(),
 				setRootTask: vi.fn(),
+				getSpendBudgetStatuses: vi.fn().mockReturnValue([]), // kilocode_change
 				taskId: taskId || "test-task-id",
 			}),
 		),
@@ -888,6 +889,7 @@ describe("ClineProvider", () => {
 		const profile: ProviderSettingsEntry = { name: "test-config", id: "test-id", apiProvider: "anthropic" }
 
 		;(provider as any).providerSettingsManager = {
+			getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 			getModeConfigId: vi.fn().mockResolvedValue("test-id"),
 			listConfig: vi.fn().mockResolvedValue([profile]),
 			activateProfile: vi.fn().mockResolvedValue(profile),
@@ -908,6 +910,7 @@ describe("ClineProvider", () => {
 		const messageHandler = (mockWebviewView.webview.onDidReceiveMessage as any).mock.calls[0][0]
 
 		;(provider as any).providerSettingsManager = {
+			getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 			getModeConfigId: vi.fn().mockResolvedValue(undefined),
 			listConfig: vi
 				.fn()
@@ -931,6 +934,7 @@ describe("ClineProvider", () => {
 		const profile: ProviderSettingsEntry = { apiProvider: "anthropic", id: "new-id", name: "new-config" }
 
 		;(provider as any).providerSettingsManager = {
+			getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 			activateProfile: vi.fn().mockResolvedValue(profile),
 			listConfig: vi.fn().mockResolvedValue([profile]),
 			setModeConfig: vi.fn(),
@@ -958,6 +962,7 @@ describe("ClineProvider", () => {
 		}
 
 		;(provider as any).providerSettingsManager = {
+			getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 			activateProfile: vi.fn().mockResolvedValue(profile),
 			listConfig: vi.fn().mockResolvedValue([profile]),
 			setModeConfig: vi.fn(),
@@ -1159,6 +1164,7 @@ describe("ClineProvider", () => {
 		const messageHandler = (mockWebviewView.webview.onDidReceiveMessage as any).mock.calls[0][0]
 
 		;(provider as any).providerSettingsManager = {
+			getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 			listConfig: vi.fn().mockResolvedValue([{ name: "test-config", id: "test-id", apiProvider: "anthropic" }]),
 			saveConfig: vi.fn().mockResolvedValue("test-id"),
 			setModeConfig: vi.fn(),
@@ -1659,6 +1665,7 @@ describe("ClineProvider", () => {
 			}
 
 			;(provider as any).providerSettingsManager = {
+				getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 				getModeConfigId: vi.fn().mockResolvedValue("saved-config-id"),
 				listConfig: vi.fn().mockResolvedValue([profile]),
 				activateProfile: vi.fn().mockResolvedValue(profile),
@@ -1682,6 +1689,7 @@ describe("ClineProvider", () => {
 
 		test("saves current config when switching to mode without config", async () => {
 			;(provider as any).providerSettingsManager = {
+				getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 				getModeConfigId: vi.fn().mockResolvedValue(undefined),
 				listConfig: vi
 					.fn()
@@ -1811,6 +1819,7 @@ describe("ClineProvider", () => {
 
 			;(provider as any).providerSettingsManager = {
 				setModeConfig: vi.fn(),
+				getFallbackConfigIds: vi.fn().mockResolvedValue([]), // kilocode_change
 				saveConfig: vi.fn().mockResolvedValue(undefined),
 				listConfig: vi
 					.fn()
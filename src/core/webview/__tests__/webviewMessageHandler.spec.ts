@@ -397,7 +397,7 @@ describe("webviewMessageHandler - deleteCustomMode", () => {
 			} as ModeConfig,
 		])
 		vi.mocked(fsUtils.fileExistsAtPath).mockResolvedValue(true)
-		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(undefined)
+		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(true)
 
 		await webviewMessageHandler(mockClineProvider, { type: "deleteCustomMode", slug })
 
@@ -422,7 +422,7 @@ describe("webviewMessageHandler - deleteCustomMode", () => {
 			} as ModeConfig,
 		])
 		vi.mocked(fsUtils.fileExistsAtPath).mockResolvedValue(true)
-		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(undefined)
+		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(true)
 
 		await webviewMessageHandler(mockClineProvider, { type: "deleteCustomMode", slug })
 
@@ -444,7 +444,7 @@ describe("webviewMessageHandler - deleteCustomMode", () => {
 			} as ModeConfig,
 		])
 		vi.mocked(fsUtils.fileExistsAtPath).mockResolvedValue(false)
-		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(undefined)
+		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(true)
 
 		await webviewMessageHandler(mockClineProvider, { type: "deleteCustomMode", slug })
 
@@ -469,7 +469,7 @@ describe("webviewMessageHandler - deleteCustomMode", () => {
 			} as ModeConfig,
 		])
 		vi.mocked(fsUtils.fileExistsAtPath).mockResolvedValue(true)
-		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(undefined)
+		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(true)
 		vi.mocked(fs.rm).mockRejectedValue(error)
 
 		await webviewMessageHandler(mockClineProvider, { type: "deleteCustomMode", slug })
@@ -486,4 +486,21 @@ describe("webviewMessageHandler - deleteCustomMode", () => {
 		// No error response is sent anymore - we just continue with deletion
 		expect(mockClineProvider.postMessageToWebview).not.toHaveBeenCalled()
 	})
+
+	// kilocode_change start
+	it("should keep the rules folder when the mode is not deleted", async () => {
+		const slug = "extended-mode"
+
+		vi.mocked(mockClineProvider.customModesManager.getCustomModes).mockResolvedValue([
+			{ name: "Extended Mode", slug, roleDefinition: "Test Role", groups: [], source: "project" } as ModeConfig,
+		])
+		vi.mocked(fsUtils.fileExistsAtPath).mockResolvedValue(true)
+		vi.mocked(mockClineProvider.customModesManager.deleteCustomMode).mockResolvedValue(false)
+
+		await webviewMessageHandler(mockClineProvider, { type: "deleteCustomMode", slug })
+
+		expect(mockClineProvider.customModesManager.deleteCustomMode).toHaveBeenCalledWith(slug)
+		expect(fs.rm).not.toHaveBeenCalled()
+	})
+	// kilocode_change end
 })
@@ -6,6 +6,7 @@ import { experiments as experimentsModule, EXPERIMENT_IDS } from "../../shared/e
 import { SYSTEM_PROMPT } from "../prompts/system"
 import { MultiSearchReplaceDiffStrategy } from "../diff/strategies/multi-search-replace"
 import { MultiFileSearchReplaceDiffStrategy } from "../diff/strategies/multi-file-search-replace"
+import { UnifiedDiffStrategy } from "../diff/strategies/unified-diff" // kilocode_change
 
 import { ClineProvider } from "./ClineProvider"
 
@@ -32,9 +33,14 @@ export const generateSystemPrompt = async (provider: ClineProvider, message: Web
 		EXPERIMENT_IDS.MULTI_FILE_APPLY_DIFF,
 	)
 
-	const diffStrategy = isMultiFileApplyDiffEnabled
-		? new MultiFileSearchReplaceDiffStrategy(fuzzyMatchThreshold)
-		: new MultiSearchReplaceDiffStrategy(fuzzyMatchThreshold)
+	// kilocode_change start
+	const diffStrategy =
+		apiConfiguration.diffFormat === "unifiedDiff"
+			? new UnifiedDiffStrategy(fuzzyMatchThreshold)
+			: isMultiFileApplyDiffEnabled
+				? new MultiFileSearchReplaceDiffStrategy(fuzzyMatchThreshold)
+				: new MultiSearchReplaceDiffStrategy(fuzzyMatchThreshold)
+	// kilocode_change end
 
 	const cwd = provider.cwd
 
@@ -9,30 +9,57 @@ import type { ContextProxy } from "../config/ContextProxy"
 import type { ClineRulesToggles } from "../../shared/cline-rules"
 import { t } from "../../i18n"
 import { GlobalFileNames } from "../../shared/globalFileNames"
-import { allowedExtensions } from "../../shared/kilocode/rules"
+import { allowedExtensions, type RuleScope } from "../../shared/kilocode/rules" // kilocode_change: RuleScope
+import { isRuleActive, parseRuleFile } from "../prompts/sections/rule-scope" // kilocode_change
+import { findNestedRulesDirectories, getNestedRulesGlobs } from "../prompts/sections/nested-rules" // kilocode_change
 
 export interface RulesData {
 	globalRules: ClineRulesToggles
 	localRules: ClineRulesToggles
 	globalWorkflows: ClineRulesToggles
 	localWorkflows: ClineRulesToggles
+	// kilocode_change start
+	nestedRules: Record<string, ClineRulesToggles>
+	ruleScopes: Record<string, RuleScope>
+	// kilocode_change end
 }
 
 export async function getEnabledRules(
 	workspacePath: string,
 	contextProxy: ContextProxy,
 	context: vscode.ExtensionContext,
+	contextFilePaths: string[] = [], // kilocode_change
 ): Promise<RulesData> {
 	const homedir = os.homedir()
+	// kilocode_change start
+	const globalRules = await getEnabledRulesFromDirectory(
+		path.join(homedir, GlobalFileNames.kiloRules),
+		((await contextProxy.getGlobalState("globalRulesToggles")) as ClineRulesToggles) || {},
+	)
+	const localRulesToggles =
+		((await contextProxy.getWorkspaceState(context, "localRulesToggles")) as ClineRulesToggles) || {}
+	const localRules = await getEnabledRulesFromDirectory(
+		path.join(workspacePath, GlobalFileNames.kiloRules),
+		localRulesToggles,
+	)
+	const nestedRules: Record<string, ClineRulesToggles> = {}
+	const ruleScopes = await getRuleScopes([...Object.keys(globalRules), ...Object.keys(localRules)], contextFilePaths)
+
+	for (const directory of await findNestedRulesDirectories(workspacePath)) {
+		nestedRules[directory.scope] = await getEnabledRulesFromDirectory(directory.rulesDir, localRulesToggles)
+		Object.assign(
+			ruleScopes,
+			await getRuleScopes(
+				Object.keys(nestedRules[directory.scope]),
+				contextFilePaths,
+				getNestedRulesGlobs(directory),
+			),
+		)
+	}
+	// kilocode_change end
 	return {
-		globalRules: await getEnabledRulesFromDirectory(
-			path.join(homedir, GlobalFileNames.kiloRules),
-			((await contextProxy.getGlobalState("globalRulesToggles")) as ClineRulesToggles) || {},
-		),
-		localRules: await getEnabledRulesFromDirectory(
-			path.join(workspacePath, GlobalFileNames.kiloRules),
-			((await contextProxy.getWorkspaceState(context, "localRulesToggles")) as ClineRulesToggles) || {},
-		),
+		globalRules, // kilocode_change
+		localRules, // kilocode_change
 		globalWorkflows: await getEnabledRulesFromDirectory(
 			path.join(os.homedir(), GlobalFileNames.workflows),
 			((await contextProxy.getGlobalState("globalWorkflowToggles")) as ClineRulesToggles) || {},
@@ -41,9 +68,45 @@ export async function getEnabledRules(
 			path.join(workspacePath, GlobalFileNames.workflows),
 			((await contextProxy.getWorkspaceState(context, "localWorkflowToggles")) as ClineRulesToggles) || {},
 		),
+		// kilocode_change start
+		nestedRules,
+		ruleScopes,
+		// kilocode_change end
 	}
 }
 
+// kilocode_change start
+/**
+ * Collects the scope of the rules that don't always apply, either because of their `applies_to` frontmatter
+ * or because they live in a nested rules directory.
+ */
+async function getRuleScopes(
+	rulePaths: string[],
+	contextFilePaths: string[],
+	directoryGlobs?: string[],
+): Promise<Record<string, RuleScope>> {
+	const scopes: Record<string, RuleScope> = {}
+
+	for (const rulePath of rulePaths) {
+		try {
+			const { appliesTo } = parseRuleFile((await fs.readFile(rulePath, "utf8")).trim())
+			const globs = appliesTo ?? directoryGlobs
+
+			if (globs) {
+				scopes[rulePath] = {
+					appliesTo: globs,
+					active: isRuleActive(directoryGlobs, contextFilePaths) && isRuleActive(appliesTo, contextFilePaths),
+				}
+			}
+		} catch {
+			// Unreadable rules are skipped when building the prompt as well.
+		}
+	}
+
+	return scopes
+}
+// kilocode_change end
+
 async function getEnabledRulesFromDirectory(
 	dirPath: string,
 	toggleState: ClineRulesToggles = {},
@@ -25,7 +25,13 @@ import { Package } from "../../shared/package"
 import { RouterName, toRouterName, ModelRecord } from "../../shared/api"
 import { supportPrompt } from "../../shared/support-prompt"
 
-import { checkoutDiffPayloadSchema, checkoutRestorePayloadSchema, WebviewMessage } from "../../shared/WebviewMessage"
+import {
+	checkoutDiffPayloadSchema,
+	checkoutRestorePayloadSchema,
+	checkpointFilesPayloadSchema, // kilocode_change
+	checkpointRestoreFilesPayloadSchema, // kilocode_change
+	WebviewMessage,
+} from "../../shared/WebviewMessage"
 import { checkExistKey } from "../../shared/checkExistApiConfig"
 import { experimentDefault } from "../../shared/experiments"
 import { Terminal } from "../../integrations/terminal/Terminal"
@@ -391,6 +397,24 @@ export const webviewMessageHandler = async (
 			await updateGlobalState("allowedMaxRequests", message.value)
 			await provider.postStateToWebview()
 			break
+		// kilocode_change start
+		case "taskSpendLimit":
+			await updateGlobalState("taskSpendLimit", message.value)
+			await provider.postStateToWebview()
+			break
+		case "dailySpendLimit":
+			await updateGlobalState("dailySpendLimit", message.value)
+			await provider.postStateToWebview()
+			break
+		case "profileSpendLimits":
+			await updateGlobalState("profileSpendLimits", message.values)
+			await provider.postStateToWebview()
+			break
+		case "spendWarningPercent":
+			await updateGlobalState("spendWarningPercent", message.value)
+			await provider.postStateToWebview()
+			break
+		// kilocode_change end
 		case "alwaysAllowSubtasks":
 			await updateGlobalState("alwaysAllowSubtasks", message.bool)
 			await provider.postStateToWebview()
@@ -419,6 +443,12 @@ export const webviewMessageHandler = async (
 			// clear task resets the current session and allows for a new task to be started, if this session is a subtask - it allows the parent task to be resumed
 			// Check if the current task actually has a parent task
 			const currentTask = provider.getCurrentCline()
+			// kilocode_change start
+			if (currentTask && provider.isParallelSubtask(currentTask.taskId)) {
+				await provider.cancelParallelSubtask(currentTask.taskId)
+				break
+			}
+			// kilocode_change end
 			if (currentTask && currentTask.parentTask) {
 				await provider.finishSubTask(t("common:tasks.canceled"))
 			} else {
@@ -486,7 +516,7 @@ export const webviewMessageHandler = async (
 			}
 			break
 		case "showTaskWithId":
-			provider.showTaskWithId(message.text!)
+			provider.showTaskWithId(message.text!, message.messageTs) // kilocode_change
 			break
 		case "condenseTaskContextRequest":
 			provider.condenseTaskContext(message.text!)
@@ -791,9 +821,47 @@ export const webviewMessageHandler = async (
 
 			break
 		}
+		// kilocode_change start
+		case "checkpointFiles": {
+			const result = checkpointFilesPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				try {
+					await provider.getCurrentCline()?.checkpointFiles(result.data)
+				} catch (error) {
+					vscode.window.showErrorMessage(t("common:errors.checkpoint_failed"))
+				}
+			}
+
+			break
+		}
+		case "checkpointRestoreFiles": {
+			const result = checkpointRestoreFilesPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				try {
+					await provider.getCurrentCline()?.checkpointRestoreFiles(result.data)
+				} catch (error) {
+					vscode.window.showErrorMessage(t("common:errors.checkpoint_failed"))
+				}
+			}
+
+			break
+		}
+		// kilocode_change end
 		case "cancelTask":
 			await provider.cancelTask()
 			break
+		// kilocode_change start
+		case "focusParallelSubtask":
+			await provider.focusParallelSubtask(message.text)
+			break
+		case "cancelParallelSubtask":
+			if (message.text) {
+				await provider.cancelParallelSubtask(message.text)
+			}
+			break
+		// kilocode_change end
 		case "allowedCommands": {
 			// Validate and sanitize the commands array
 			const commands = message.commands ?? []
@@ -899,6 +967,24 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		// kilocode_change start
+		case "toggleSamplingAlwaysAllow": {
+			try {
+				await provider
+					.getMcpHub()
+					?.toggleSamplingAlwaysAllow(
+						message.serverName!,
+						message.source as "global" | "project",
+						Boolean(message.alwaysAllow),
+					)
+			} catch (error) {
+				provider.log(
+					`Failed to toggle auto-approve for sampling on server ${message.serverName}: ${JSON.stringify(error, Object.getOwnPropertyNames(error), 2)}`,
+				)
+			}
+			break
+		}
+		// kilocode_change end
 		case "toggleToolEnabledForPrompt": {
 			try {
 				await provider
@@ -1346,6 +1432,14 @@ export const webviewMessageHandler = async (
 			await updateGlobalState("autocompleteApiConfigId", message.text)
 			await provider.postStateToWebview()
 			break
+		case "mcpSamplingApiConfigId":
+			await updateGlobalState("mcpSamplingApiConfigId", message.text)
+			await provider.postStateToWebview()
+			break
+		case "fallbackApiConfigIds":
+			await provider.providerSettingsManager.setFallbackConfigIds(message.ids ?? [])
+			await provider.postStateToWebview()
+			break
 		// kilocode_change end
 		case "condensingApiConfigId":
 			await updateGlobalState("condensingApiConfigId", message.text)
@@ -1451,6 +1545,25 @@ export const webviewMessageHandler = async (
 			break
 		}
 		// kilocode_change start
+		case "searchTaskHistory": {
+			try {
+				const taskSearchResults = await provider.searchTaskHistory(message.query || "", message.workspace)
+				await provider.postMessageToWebview({
+					type: "taskSearchResults",
+					taskSearchResults,
+					requestId: message.requestId,
+				})
+			} catch (error) {
+				provider.log(`Error searching task history: ${error instanceof Error ? error.message : String(error)}`)
+				await provider.postMessageToWebview({
+					type: "taskSearchResults",
+					taskSearchResults: [],
+					requestId: message.requestId,
+					error: error instanceof Error ? error.message : String(error),
+				})
+			}
+			break
+		}
 		case "showFeedbackOptions": {
 			const githubIssuesText = t("common:feedback.githubIssues")
 			const discordText = t("common:feedback.discord")
@@ -1762,7 +1875,11 @@ export const webviewMessageHandler = async (
 				}
 
 				// Delete the mode
-				await provider.customModesManager.deleteCustomMode(message.slug)
+				// kilocode_change start: keep the rules folder when the delete is refused
+				if (!(await provider.customModesManager.deleteCustomMode(message.slug))) {
+					break
+				}
+				// kilocode_change end
 
 				// Delete the rules folder if it exists
 				if (rulesFolderExists) {
@@ -2211,6 +2328,7 @@ export const webviewMessageHandler = async (
 					...currentConfig,
 					codebaseIndexEnabled: settings.codebaseIndexEnabled,
 					codebaseIndexQdrantUrl: settings.codebaseIndexQdrantUrl,
+					codebaseIndexVectorStoreProvider: settings.codebaseIndexVectorStoreProvider, // kilocode_change
 					codebaseIndexEmbedderProvider: settings.codebaseIndexEmbedderProvider,
 					codebaseIndexEmbedderBaseUrl: settings.codebaseIndexEmbedderBaseUrl,
 					codebaseIndexEmbedderModelId: settings.codebaseIndexEmbedderModelId,
@@ -2536,35 +2654,35 @@ export const webviewMessageHandler = async (
 		case "insertTextToChatArea":
 			provider.postMessageToWebview({ type: "insertTextToChatArea", text: message.text })
 			break
-		
+
 		// Unified Softcodes Authentication Handlers
 		case "checkSoftcodesAuth": {
 			try {
 				const authService = UnifiedAuthService.getInstance(provider.context)
 				const isAuthenticated = await authService.isAuthenticated()
-				
+
 				if (isAuthenticated) {
 					// Get user info from unified service
 					const softcodesUserInfo = await authService.getUserInfo()
-					
+
 					provider.postMessageToWebview({
 						type: "authStateChanged",
 						isAuthenticated: true,
-						softcodesUserInfo
+						softcodesUserInfo,
 					})
 				} else {
 					provider.postMessageToWebview({
 						type: "authStateChanged",
 						isAuthenticated: false,
-						softcodesUserInfo: undefined
+						softcodesUserInfo: undefined,
 					})
 				}
 			} catch (error) {
-				console.error('Error checking Softcodes auth status:', error)
+				console.error("Error checking Softcodes auth status:", error)
 				provider.postMessageToWebview({
 					type: "authStateChanged",
 					isAuthenticated: false,
-					softcodesUserInfo: undefined
+					softcodesUserInfo: undefined,
 				})
 			}
 			break
@@ -2574,18 +2692,20 @@ export const webviewMessageHandler = async (
 			try {
 				const authService = UnifiedAuthService.getInstance(provider.context)
 				await authService.authenticate()
-				
+
 				// The authentication result will be handled by the callback
 				// and will trigger the onAuthenticated command
 			} catch (error) {
-				console.error('Error during Softcodes sign in:', error)
-				vscode.window.showErrorMessage(`Sign in failed: ${error instanceof Error ? error.message : String(error)}`)
-				
+				console.error("Error during Softcodes sign in:", error)
+				vscode.window.showErrorMessage(
+					`Sign in failed: ${error instanceof Error ? error.message : String(error)}`,
+				)
+
 				// Notify webview of sign in failure
 				provider.postMessageToWebview({
 					type: "authStateChanged",
 					isAuthenticated: false,
-					softcodesUserInfo: undefined
+					softcodesUserInfo: undefined,
 				})
 			}
 			break
@@ -2595,19 +2715,21 @@ export const webviewMessageHandler = async (
 			try {
 				const authService = UnifiedAuthService.getInstance(provider.context)
 				await authService.signOut()
-				
+
 				// Notify webview immediately
 				provider.postMessageToWebview({
 					type: "authStateChanged",
 					isAuthenticated: false,
-					softcodesUserInfo: undefined
+					softcodesUserInfo: undefined,
 				})
-				
+
 				// Update provider state
 				await provider.postStateToWebview()
 			} catch (error) {
-				console.error('Error during Softcodes sign out:', error)
-				vscode.window.showErrorMessage(`Sign out failed: ${error instanceof Error ? error.message : String(error)}`)
+				console.error("Error during Softcodes sign out:", error)
+				vscode.window.showErrorMessage(
+					`Sign out failed: ${error instanceof Error ? error.message : String(error)}`,
+				)
 			}
 			break
 		}
@@ -44,6 +44,7 @@ import {
 } from "./activate"
 import { initializeI18n } from "./i18n"
 import { registerGhostProvider } from "./services/ghost" // kilocode_change
+import { disposeNestedRulesWatchers } from "./core/prompts/sections/nested-rules" // kilocode_change
 
 /**
  * Built using https://github.com/microsoft/vscode-webview-ui-toolkit
@@ -316,6 +317,7 @@ export async function deactivate() {
 	await McpServerManager.cleanup(extensionContext)
 	TelemetryService.instance.shutdown()
 	TerminalRegistry.cleanup()
+	disposeNestedRulesWatchers() // kilocode_change
 	commandsRegistered = false
 	if (commitMessageProvider) {
 		commitMessageProvider.dispose()
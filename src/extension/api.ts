@@ -15,12 +15,19 @@ import {
 	IpcMessageType,
 	TaskCommandName,
 	TaskEvent,
+	// kilocode_change start
+	TaskAskResponse,
+	TaskCommandResult,
+	HistoryItem,
+	ClineMessage,
+	// kilocode_change end
 } from "@roo-code/types"
 import { IpcServer } from "@roo-code/ipc"
 
 import { Package } from "../shared/package"
 import { getWorkspacePath } from "../utils/path"
 import { ClineProvider } from "../core/webview/ClineProvider"
+import type { Task } from "../core/task/Task" // kilocode_change
 import { openClineInNewTab } from "../activate/registerCommands"
 
 export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
@@ -63,23 +70,52 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 			ipc.listen()
 			this.log(`[API] ipc server started: socketPath=${socketPath}, pid=${process.pid}, ppid=${process.ppid}`)
 
-			ipc.on(IpcMessageType.TaskCommand, async (_clientId, { commandName, data }) => {
-				switch (commandName) {
-					case TaskCommandName.StartNewTask:
-						this.log(`[API] StartNewTask -> ${data.text}, ${JSON.stringify(data.configuration)}`)
-						await this.startNewTask(data)
-						break
-					case TaskCommandName.CancelTask:
-						this.log(`[API] CancelTask -> ${data}`)
-						await this.cancelTask(data)
-						break
-					case TaskCommandName.CloseTask:
-						this.log(`[API] CloseTask -> ${data}`)
-						await vscode.commands.executeCommand("workbench.action.files.saveFiles")
-						await vscode.commands.executeCommand("workbench.action.closeWindow")
-						break
+			// kilocode_change start: reply with a result so headless drivers can tell commands apart
+			ipc.on(IpcMessageType.TaskCommand, async (clientId, { commandName, data }, requestId) => {
+				const result: TaskCommandResult = { commandName, requestId }
+
+				try {
+					switch (commandName) {
+						case TaskCommandName.StartNewTask:
+							this.log(`[API] StartNewTask -> ${data.text}, ${JSON.stringify(data.configuration)}`)
+							result.data = await this.startNewTask(data)
+							break
+						case TaskCommandName.CancelTask:
+							this.log(`[API] CancelTask -> ${data}`)
+							await this.cancelTask(data)
+							break
+						case TaskCommandName.CloseTask:
+							this.log(`[API] CloseTask -> ${data}`)
+							await vscode.commands.executeCommand("workbench.action.files.saveFiles")
+							await vscode.commands.executeCommand("workbench.action.closeWindow")
+							break
+						case TaskCommandName.RespondToAsk:
+							this.log(`[API] RespondToAsk -> ${data.taskId}, ${data.response}`)
+							await this.respondToAsk(data.taskId, data.response, data.text, data.images)
+							break
+						case TaskCommandName.SendMessage:
+							this.log(`[API] SendMessage -> ${data.taskId}, ${data.text}`)
+							await this.sendMessageToTask(data.taskId, data.text, data.images)
+							break
+						case TaskCommandName.ResumeTask:
+							this.log(`[API] ResumeTask -> ${data}`)
+							await this.resumeTask(data)
+							break
+						case TaskCommandName.GetTaskHistory:
+							result.data = this.getTaskHistory()
+							break
+						case TaskCommandName.GetPendingAsk:
+							result.data = this.getPendingAsk(data) ?? null
+							break
+					}
+				} catch (error) {
+					result.error = error instanceof Error ? error.message : String(error)
+					this.log(`[API] ${commandName} failed -> ${result.error}`)
 				}
+
+				ipc.send(clientId, { type: IpcMessageType.TaskCommandResult, origin: IpcOrigin.Server, data: result })
 			})
+			// kilocode_change end
 		}
 	}
 
@@ -120,6 +156,13 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 		if (configuration) {
 			await provider.setValues(configuration)
 
+			// kilocode_change start
+			// A profile name without provider settings (like `kilo --profile`) refers to a saved profile.
+			if (configuration.currentApiConfigName && !configuration.apiProvider) {
+				await provider.activateProviderProfile({ name: configuration.currentApiConfigName })
+			}
+			// kilocode_change end
+
 			if (configuration.allowedCommands) {
 				await vscode.workspace
 					.getConfiguration(Package.name)
@@ -184,6 +227,52 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 		await this.sidebarProvider.postMessageToWebview({ type: "invoke", invoke: "sendMessage", text, images })
 	}
 
+	// kilocode_change start
+	/**
+	 * Finds the running task with the given id, whether it lives in the sidebar or in a tab.
+	 */
+	private findTask(taskId: string): Task {
+		const provider = this.taskMap.get(taskId) ?? this.sidebarProvider
+		const cline = provider.getCurrentCline()
+
+		if (!cline || cline.taskId !== taskId) {
+			throw new Error(`Task ${taskId} is not running`)
+		}
+
+		return cline
+	}
+
+	public async respondToAsk(taskId: string, response: TaskAskResponse, text?: string, images?: string[]) {
+		const cline = this.findTask(taskId)
+
+		if (!cline.getPendingAsk()) {
+			throw new Error(`Task ${taskId} is not waiting on an ask`)
+		}
+
+		await cline.handleWebviewAskResponse(response, text, images)
+	}
+
+	public async sendMessageToTask(taskId: string, text?: string, images?: string[]) {
+		const cline = this.findTask(taskId)
+
+		if (!cline.getPendingAsk()) {
+			throw new Error(`Task ${taskId} is not waiting for input`)
+		}
+
+		await cline.handleWebviewAskResponse("messageResponse", text, images)
+	}
+
+	public getPendingAsk(taskId: string): ClineMessage | undefined {
+		return this.findTask(taskId).getPendingAsk()
+	}
+
+	public getTaskHistory(): HistoryItem[] {
+		return (this.sidebarProvider.getValue("taskHistory") ?? [])
+			.filter((item) => item.ts && item.task)
+			.sort((a, b) => b.ts - a.ts)
+	}
+	// kilocode_change end
+
 	public async pressPrimaryButton() {
 		await this.sidebarProvider.postMessageToWebview({ type: "invoke", invoke: "primaryButtonClick" })
 	}
@@ -2,7 +2,7 @@ import * as vscode from "vscode"
 
 import { arePathsEqual } from "../../utils/path"
 
-import { RooTerminal, RooTerminalProvider } from "./types"
+import { BackgroundProcess, RooTerminal, RooTerminalProvider } from "./types"
 import { TerminalProcess } from "./TerminalProcess"
 import { Terminal } from "./Terminal"
 import { ExecaTerminal } from "./ExecaTerminal"
@@ -17,11 +17,14 @@ import { ShellIntegrationManager } from "./ShellIntegrationManager"
 // Since we have promises keeping track of terminal processes, we get the added
 // benefit of keep track of busy terminals even after a task is closed.
 
+const BACKGROUND_PROCESS_OUTPUT_LINE_LIMIT = 5_000 // kilocode_change
+
 export class TerminalRegistry {
 	private static terminals: RooTerminal[] = []
 	private static nextTerminalId = 1
 	private static disposables: vscode.Disposable[] = []
 	private static isInitialized = false
+	private static backgroundProcesses = new Map<string, Map<string, BackgroundProcess>>() // kilocode_change
 
 	public static initialize() {
 		if (this.isInitialized) {
@@ -284,12 +287,112 @@ export class TerminalRegistry {
 		this.disposables = []
 	}
 
+	// kilocode_change start
+	/**
+	 * Tracks a command running in the background of a task under its name.
+	 * A completed process with the same name is replaced.
+	 *
+	 * @throws Error if a running process already uses the name
+	 */
+	public static addBackgroundProcess(taskId: string, backgroundProcess: BackgroundProcess): void {
+		const processes = this.backgroundProcesses.get(taskId) ?? new Map<string, BackgroundProcess>()
+		const existing = processes.get(backgroundProcess.name)
+
+		if (existing && !existing.completed) {
+			throw new Error(`A background process named '${backgroundProcess.name}' is already running.`)
+		}
+
+		processes.set(backgroundProcess.name, backgroundProcess)
+		this.backgroundProcesses.set(taskId, processes)
+	}
+
+	public static getBackgroundProcess(taskId: string, name: string): BackgroundProcess | undefined {
+		const backgroundProcess = this.backgroundProcesses.get(taskId)?.get(name)
+
+		if (backgroundProcess && !backgroundProcess.completed) {
+			// Output that arrived since the last line event is only buffered by the process.
+			this.appendBackgroundProcessOutput(backgroundProcess, backgroundProcess.process.getUnretrievedOutput())
+		}
+
+		return backgroundProcess
+	}
+
+	/**
+	 * Appends output to a background process, keeping only its last lines so long running processes don't
+	 * grow the buffer without limit. The read position moves with the trimmed output.
+	 */
+	public static appendBackgroundProcessOutput(backgroundProcess: BackgroundProcess, output: string): void {
+		if (!output) {
+			return
+		}
+
+		const combined = backgroundProcess.output + output
+		let start = combined.endsWith("\n") ? combined.length - 1 : combined.length
+
+		for (let line = 0; line < BACKGROUND_PROCESS_OUTPUT_LINE_LIMIT; line++) {
+			start = start > 0 ? combined.lastIndexOf("\n", start - 1) : -1
+
+			if (start === -1) {
+				backgroundProcess.output = combined
+				return
+			}
+		}
+
+		backgroundProcess.output = combined.slice(start + 1)
+		backgroundProcess.readIndex = Math.max(0, backgroundProcess.readIndex - (start + 1))
+	}
+
+	public static getBackgroundProcesses(taskId: string): BackgroundProcess[] {
+		return [...(this.backgroundProcesses.get(taskId)?.keys() ?? [])].map(
+			(name) => this.getBackgroundProcess(taskId, name)!,
+		)
+	}
+
+	/**
+	 * Interrupts a background process and stops tracking it.
+	 *
+	 * @returns The process, or undefined if the task has no process with the name
+	 */
+	public static killBackgroundProcess(taskId: string, name: string): BackgroundProcess | undefined {
+		const backgroundProcess = this.getBackgroundProcess(taskId, name)
+
+		if (!backgroundProcess) {
+			return undefined
+		}
+
+		if (!backgroundProcess.completed) {
+			backgroundProcess.process.abort()
+		}
+
+		this.backgroundProcesses.get(taskId)?.delete(name)
+		return backgroundProcess
+	}
+
+	/**
+	 * Checks if a terminal is running a background process, whose output is read with the background process
+	 * tools instead of the environment details.
+	 */
+	public static isRunningBackgroundProcess(terminal: RooTerminal): boolean {
+		return [...this.backgroundProcesses.values()].some((processes) =>
+			[...processes.values()].some((p) => !p.completed && p.terminal === terminal),
+		)
+	}
+	// kilocode_change end
+
 	/**
 	 * Releases all terminals associated with a task.
 	 *
 	 * @param taskId The task ID
 	 */
 	public static releaseTerminalsForTask(taskId: string): void {
+		// kilocode_change start: background processes don't outlive their task
+		for (const name of this.backgroundProcesses.get(taskId)?.keys() ?? []) {
+			this.killBackgroundProcess(taskId, name)
+		}
+
+		this.backgroundProcesses.delete(taskId)
+		// kilocode_change end
+
 		this.terminals.forEach((terminal) => {
 			if (terminal.taskId === taskId) {
 				terminal.taskId = undefined
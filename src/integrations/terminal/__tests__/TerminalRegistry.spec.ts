@@ -125,4 +125,67 @@ describe("TerminalRegistry", () => {
 			}
 		})
 	})
+
+	// kilocode_change start
+	describe("background processes", () => {
+		const createBackgroundProcess = (name: string) => {
+			const terminal = TerminalRegistry.createTerminal("/test/path", "vscode")
+			const process = { abort: vi.fn(), getUnretrievedOutput: vi.fn(() => "") } as any
+			return { name, command: "npm run dev", terminal, process, output: "", readIndex: 0, completed: false }
+		}
+
+		afterEach(() => {
+			TerminalRegistry.releaseTerminalsForTask("task-1")
+		})
+
+		it("tracks processes by name and appends output buffered by the process", () => {
+			const backgroundProcess = createBackgroundProcess("dev-server")
+			backgroundProcess.process.getUnretrievedOutput.mockReturnValueOnce("ready\n")
+			TerminalRegistry.addBackgroundProcess("task-1", backgroundProcess)
+
+			expect(TerminalRegistry.getBackgroundProcess("task-1", "dev-server")?.output).toBe("ready\n")
+			expect(TerminalRegistry.getBackgroundProcess("task-2", "dev-server")).toBeUndefined()
+			expect(TerminalRegistry.isRunningBackgroundProcess(backgroundProcess.terminal)).toBe(true)
+		})
+
+		it("keeps only the last lines of output and moves the read position with them", () => {
+			const backgroundProcess = createBackgroundProcess("dev-server")
+			const lines = (from: number, to: number) =>
+				Array.from({ length: to - from + 1 }, (_, i) => `line ${from + i}\n`).join("")
+
+			TerminalRegistry.appendBackgroundProcessOutput(backgroundProcess, lines(1, 4_000))
+			backgroundProcess.readIndex = backgroundProcess.output.length
+			TerminalRegistry.appendBackgroundProcessOutput(backgroundProcess, lines(4_001, 6_000))
+
+			expect(backgroundProcess.output).toBe(lines(1_001, 6_000))
+			expect(backgroundProcess.output.slice(backgroundProcess.readIndex)).toBe(lines(4_001, 6_000))
+
+			TerminalRegistry.appendBackgroundProcessOutput(backgroundProcess, lines(6_001, 12_000))
+
+			expect(backgroundProcess.output).toBe(lines(7_001, 12_000))
+			expect(backgroundProcess.readIndex).toBe(0)
+		})
+
+		it("refuses a second running process with the same name", () => {
+			TerminalRegistry.addBackgroundProcess("task-1", createBackgroundProcess("dev-server"))
+
+			expect(() =>
+				TerminalRegistry.addBackgroundProcess("task-1", createBackgroundProcess("dev-server")),
+			).toThrow("A background process named 'dev-server' is already running.")
+		})
+
+		it("kills the task's running processes when its terminals are released", () => {
+			const running = createBackgroundProcess("dev-server")
+			const completed = { ...createBackgroundProcess("build"), completed: true }
+			TerminalRegistry.addBackgroundProcess("task-1", running)
+			TerminalRegistry.addBackgroundProcess("task-1", completed)
+
+			TerminalRegistry.releaseTerminalsForTask("task-1")
+
+			expect(running.process.abort).toHaveBeenCalled()
+			expect(completed.process.abort).not.toHaveBeenCalled()
+			expect(TerminalRegistry.getBackgroundProcesses("task-1")).toEqual([])
+		})
+	})
+	// kilocode_change end
 })
@@ -57,3 +57,22 @@ export interface ExitCodeDetails {
 	signalName?: string
 	coreDumpPossible?: boolean
 }
+
+// kilocode_change start
+/**
+ * A command started with `background` set, which keeps running while the task continues.
+ */
+export interface BackgroundProcess {
+	/** Unique within the task, used by the tools that read, wait for and kill the process */
+	name: string
+	command: string
+	terminal: RooTerminal
+	process: RooTerminalProcess
+	/** The last lines of output received so far */
+	output: string
+	/** How much of the output has been returned to the model */
+	readIndex: number
+	completed: boolean
+	exitDetails?: ExitCodeDetails
+}
+// kilocode_change end
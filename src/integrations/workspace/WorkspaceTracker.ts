@@ -59,6 +59,14 @@ class WorkspaceTracker {
 
 		this.disposables.push(watcher)
 
+		// kilocode_change start
+		this.disposables.push(
+			vscode.workspace.onDidChangeWorkspaceFolders(() => {
+				this.providerRef.deref()?.getMcpHub()?.notifyRootsChanged()
+			}),
+		)
+		// kilocode_change end
+
 		// Listen for tab changes and call workspaceDidUpdate directly
 		this.disposables.push(
 			vscode.window.tabGroups.onDidChangeTabs(() => {
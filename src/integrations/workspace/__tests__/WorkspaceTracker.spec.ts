@@ -12,6 +12,7 @@ const mockDispose = vitest.fn()
 
 // Store registered tab change callback
 let registeredTabChangeCallback: (() => Promise<void>) | null = null
+let registeredWorkspaceFoldersCallback: (() => void) | null = null // kilocode_change
 
 // Mock workspace path
 vitest.mock("../../../utils/path", () => ({
@@ -54,6 +55,12 @@ vitest.mock("vscode", () => ({
 			},
 		],
 		createFileSystemWatcher: vitest.fn(() => mockWatcher),
+		// kilocode_change start
+		onDidChangeWorkspaceFolders: vitest.fn((callback) => {
+			registeredWorkspaceFoldersCallback = callback
+			return { dispose: mockDispose }
+		}),
+		// kilocode_change end
 		fs: {
 			stat: vitest.fn().mockResolvedValue({ type: 1 }), // FileType.File = 1
 		},
@@ -192,6 +199,17 @@ describe("WorkspaceTracker", () => {
 		expect(finalCall[0].filePaths).toHaveLength(2000)
 	})
 
+	// kilocode_change start
+	it("should notify MCP servers when workspace folders change", () => {
+		const mcpHub = { notifyRootsChanged: vitest.fn() }
+		;(mockProvider as any).getMcpHub = vitest.fn().mockReturnValue(mcpHub)
+
+		registeredWorkspaceFoldersCallback?.()
+
+		expect(mcpHub.notifyRootsChanged).toHaveBeenCalled()
+	})
+	// kilocode_change end
+
 	it("should clean up watchers and timers on dispose", () => {
 		// Set up updateTimer
 		const [[callback]] = mockOnDidCreate.mock.calls
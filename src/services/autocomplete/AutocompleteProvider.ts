@@ -17,7 +17,7 @@ import { AutocompleteStatusBar } from "./AutocompleteStatusBar"
 import { ProviderSettingsManager } from "../../core/config/ProviderSettingsManager"
 import { getAutocompleteConfiguration } from "./utils/autocompleteConfig"
 import { t } from "../../i18n"
-import { OpenRouterHandler } from "../../api/providers"
+import { OpenRouterHandler, unwrapApiHandler } from "../../api/providers"
 
 export const UI_UPDATE_DEBOUNCE_MS = 250
 export const BAIL_OUT_TOO_MANY_LINES_LIMIT = 100
@@ -93,8 +93,9 @@ function setupAutocomplete(context: vscode.ExtensionContext): vscode.Disposable
 		try {
 			const autocompleteConfig = await getAutocompleteConfiguration(providerSettingsManager)
 			apiHandler = autocompleteConfig ? buildApiHandler(autocompleteConfig) : null
-			if (apiHandler instanceof OpenRouterHandler) {
-				await apiHandler.fetchModel()
+			const providerHandler = apiHandler && unwrapApiHandler(apiHandler)
+			if (providerHandler instanceof OpenRouterHandler) {
+				await providerHandler.fetchModel()
 			}
 		} catch (error) {
 			console.warn("Failed to update autocomplete API handler:", error)
@@ -10,8 +10,9 @@ import pWaitFor from "p-wait-for"
 import { fileExistsAtPath } from "../../utils/fs"
 import { executeRipgrep } from "../../services/search/file-search"
 
-import { CheckpointDiff, CheckpointResult, CheckpointEventMap } from "./types"
+import { CheckpointDiff, CheckpointResult, CheckpointEventMap, CheckpointExportStep } from "./types" // kilocode_change
 import { getExcludePatterns } from "./excludes"
+import { revertHunk } from "./hunks" // kilocode_change
 
 export abstract class ShadowCheckpointService extends EventEmitter {
 	public readonly taskId: string
@@ -268,6 +269,182 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		}
 	}
 
+	// kilocode_change start
+	/**
+	 * Restores the given workspace-relative paths to their state in a checkpoint, leaving every other file
+	 * and the checkpoint history untouched. Paths that did not exist in the checkpoint are deleted.
+	 */
+	public async restoreFiles(commitHash: string, paths: string[]) {
+		try {
+			this.log(`[${this.constructor.name}#restoreFiles] restoring ${paths.length} file(s) from ${commitHash}`)
+
+			if (!this.git) {
+				throw new Error("Shadow git repo not initialized")
+			}
+
+			const start = Date.now()
+			const cwdPath = (await this.getShadowGitConfigWorktree(this.git)) || this.workspaceDir
+
+			for (const relPath of paths) {
+				const listing = await this.git.raw(["ls-tree", "--name-only", commitHash, "--", relPath])
+				const existsInCheckpoint = listing.trim() !== ""
+
+				if (existsInCheckpoint) {
+					await this.git.raw(["checkout", commitHash, "--", relPath])
+				} else {
+					await fs.rm(path.join(cwdPath, relPath), { force: true })
+				}
+			}
+
+			const duration = Date.now() - start
+			this.log(`[${this.constructor.name}#restoreFiles] restored ${paths.length} file(s) in ${duration}ms`)
+		} catch (e) {
+			const error = e instanceof Error ? e : new Error(String(e))
+			this.log(`[${this.constructor.name}#restoreFiles] failed to restore files: ${error.message}`)
+			this.emit("error", { type: "error", error })
+			throw error
+		}
+	}
+
+	/**
+	 * Reverts a single hunk of the changes made to a file since a checkpoint.
+	 * The hunk index refers to the hunks of the diff between the checkpoint and the current workspace file.
+	 */
+	public async restoreHunk(commitHash: string, relPath: string, hunkIndex: number) {
+		try {
+			this.log(
+				`[${this.constructor.name}#restoreHunk] restoring hunk ${hunkIndex} of ${relPath} from ${commitHash}`,
+			)
+
+			if (!this.git) {
+				throw new Error("Shadow git repo not initialized")
+			}
+
+			const cwdPath = (await this.getShadowGitConfigWorktree(this.git)) || this.workspaceDir
+			const absPath = path.join(cwdPath, relPath)
+			const before = await this.git.show([`${commitHash}:${relPath}`]).catch(() => "")
+			const after = await fs.readFile(absPath, "utf8").catch(() => "")
+
+			await fs.writeFile(absPath, revertHunk(before, after, hunkIndex))
+		} catch (e) {
+			const error = e instanceof Error ? e : new Error(String(e))
+			this.log(`[${this.constructor.name}#restoreHunk] failed to restore hunk: ${error.message}`)
+			this.emit("error", { type: "error", error })
+			throw error
+		}
+	}
+	// kilocode_change end
+
+	// kilocode_change start
+	/**
+	 * Writes the given checkpoint steps to `outputDir` as a numbered `git format-patch` series,
+	 * one patch per step that changed any files.
+	 * @returns The paths of the written patch files
+	 */
+	public async exportPatches(steps: CheckpointExportStep[], outputDir: string): Promise<string[]> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		const commits = await this.createExportCommits(this.git, steps)
+
+		if (commits.length === 0) {
+			return []
+		}
+
+		const range = `${commits[0]}^..${commits[commits.length - 1]}`
+		this.log(`[${this.constructor.name}#exportPatches] writing ${commits.length} patch(es) to ${outputDir}`)
+		const output = await this.git.raw(["format-patch", "--numbered", "-o", outputDir, range])
+
+		return output
+			.split("\n")
+			.map((line) => line.trim())
+			.filter(Boolean)
+	}
+
+	/**
+	 * Replays the given checkpoint steps as commits on a new branch of the workspace's own git repository,
+	 * starting from its current HEAD. The workspace's working tree, index and current branch are not touched.
+	 * @returns The hashes of the created commits
+	 */
+	public async exportBranch(steps: CheckpointExportStep[], branchName: string): Promise<string[]> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		const repo = simpleGit(this.workspaceDir)
+
+		if (!(await repo.checkIsRepo())) {
+			throw new Error(`${this.workspaceDir} is not a git repository`)
+		}
+
+		const commits = await this.createExportCommits(this.git, steps)
+
+		if (commits.length === 0) {
+			return []
+		}
+
+		// Build the commits against a temporary index so that the user's staged changes are left alone.
+		const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "checkpoint-export-"))
+		const index = simpleGit(this.workspaceDir).env({ ...process.env, GIT_INDEX_FILE: path.join(tmpDir, "index") })
+		const prefix = (await repo.revparse(["--show-prefix"])).trim()
+		const created: string[] = []
+
+		try {
+			let parent = await repo.revparse(["HEAD"])
+			await index.raw(["read-tree", parent])
+
+			for (const [i, commit] of commits.entries()) {
+				const patchFile = path.join(tmpDir, `${i}.patch`)
+				await fs.writeFile(patchFile, await this.git.raw(["diff", "--binary", `${commit}^`, commit]))
+
+				try {
+					await index.raw(["apply", "--cached", ...(prefix ? [`--directory=${prefix}`] : []), patchFile])
+				} catch (error) {
+					throw new Error(
+						`Checkpoint ${i + 1} does not apply to HEAD; commit the changes that existed before the task started and try again`,
+					)
+				}
+
+				const tree = (await index.raw(["write-tree"])).trim()
+				const message = (await this.git.raw(["log", "-1", "--format=%B", commit])).trim()
+				parent = (await index.raw(["commit-tree", tree, "-p", parent, "-m", message])).trim()
+				created.push(parent)
+			}
+
+			await repo.raw(["branch", branchName, parent])
+			this.log(`[${this.constructor.name}#exportBranch] created ${branchName} with ${created.length} commit(s)`)
+			return created
+		} finally {
+			await fs.rm(tmpDir, { recursive: true, force: true })
+		}
+	}
+
+	/**
+	 * Recreates the checkpoint steps as a linear chain of commits in the shadow repo, skipping steps
+	 * without changes, so that they carry the step messages instead of the checkpoint messages.
+	 */
+	private async createExportCommits(git: SimpleGit, steps: CheckpointExportStep[]): Promise<string[]> {
+		const commits: string[] = []
+		let parent: string | undefined
+
+		for (const { from, to, message } of steps) {
+			const changes = await git.raw(["diff", "--name-only", from, to])
+
+			if (!changes.trim()) {
+				continue
+			}
+
+			const tree = (await git.raw(["rev-parse", `${to}^{tree}`])).trim()
+			const commit = (await git.raw(["commit-tree", tree, "-p", parent ?? from, "-m", message])).trim()
+			commits.push(commit)
+			parent = commit
+		}
+
+		return commits
+	}
+	// kilocode_change end
+
 	public async getDiff({ from, to }: { from?: string; to?: string }): Promise<CheckpointDiff[]> {
 		if (!this.git) {
 			throw new Error("Shadow git repo not initialized")
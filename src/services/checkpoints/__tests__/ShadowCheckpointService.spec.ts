@@ -482,6 +482,159 @@ describe.each([[RepoPerTaskCheckpointService, "RepoPerTaskCheckpointService"]])(
 			})
 		})
 
+		// kilocode_change start
+		describe(`${klass.name}#restoreFiles`, () => {
+			it("restores only the selected files", async () => {
+				const otherFile = path.join(service.workspaceDir, "other.txt")
+				await fs.writeFile(otherFile, "Other v1")
+				const commit = await service.saveCheckpoint("First checkpoint")
+
+				await fs.writeFile(testFile, "Changed")
+				await fs.writeFile(otherFile, "Other v2")
+				await service.saveCheckpoint("Second checkpoint")
+
+				await service.restoreFiles(commit!.commit, ["test.txt"])
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+				expect(await fs.readFile(otherFile, "utf-8")).toBe("Other v2")
+			})
+
+			it("deletes files that did not exist in the checkpoint", async () => {
+				const commit = await service.saveCheckpoint("Empty checkpoint", { allowEmpty: true })
+				const newFile = path.join(service.workspaceDir, "new.txt")
+				await fs.writeFile(newFile, "New file")
+
+				await service.restoreFiles(commit!.commit, ["new.txt"])
+
+				expect(await fileExistsAtPath(newFile)).toBe(false)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+			})
+
+			it("recreates files that were deleted since the checkpoint", async () => {
+				const commit = await service.saveCheckpoint("Empty checkpoint", { allowEmpty: true })
+				await fs.unlink(testFile)
+
+				await service.restoreFiles(commit!.commit, ["test.txt"])
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+			})
+
+			it("does not remove later checkpoints", async () => {
+				const commit = await service.saveCheckpoint("Empty checkpoint", { allowEmpty: true })
+				await fs.writeFile(testFile, "Changed")
+				const later = await service.saveCheckpoint("Later checkpoint")
+
+				await service.restoreFiles(commit!.commit, ["test.txt"])
+				await service.restoreCheckpoint(later!.commit)
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Changed")
+			})
+		})
+
+		describe(`${klass.name}#restoreHunk`, () => {
+			it("reverts a single hunk and keeps the other changes", async () => {
+				const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+				await fs.writeFile(testFile, lines.join("\n") + "\n")
+				const commit = await service.saveCheckpoint("Checkpoint")
+
+				const changed = [...lines]
+				changed[1] = "changed 2"
+				changed[17] = "changed 18"
+				await fs.writeFile(testFile, changed.join("\n") + "\n")
+
+				const [diff] = await service.getDiff({ from: commit!.commit })
+				expect(diff.paths.relative).toBe("test.txt")
+
+				await service.restoreHunk(commit!.commit, "test.txt", 1)
+
+				const restored = [...lines]
+				restored[1] = "changed 2"
+				expect(await fs.readFile(testFile, "utf-8")).toBe(restored.join("\n") + "\n")
+			})
+
+			it("throws when the hunk does not exist", async () => {
+				const commit = await service.saveCheckpoint("Empty checkpoint", { allowEmpty: true })
+
+				await expect(service.restoreHunk(commit!.commit, "test.txt", 0)).rejects.toThrow("Hunk 0 not found")
+			})
+		})
+
+		describe(`${klass.name}#exportPatches`, () => {
+			it("writes one numbered patch per step with changes", async () => {
+				const base = await service.saveCheckpoint("Initial", { allowEmpty: true })
+				await fs.writeFile(testFile, "First change")
+				const first = await service.saveCheckpoint("First")
+				const empty = await service.saveCheckpoint("Empty", { allowEmpty: true })
+				await fs.writeFile(testFile, "Second change")
+				const second = await service.saveCheckpoint("Second")
+
+				const outputDir = path.join(tmpDir, `patches-${Date.now()}`)
+
+				const patches = await service.exportPatches(
+					[
+						{ from: base!.commit, to: first!.commit, message: "Update the greeting" },
+						{ from: first!.commit, to: empty!.commit, message: "Nothing" },
+						{ from: empty!.commit, to: second!.commit, message: "Change it again" },
+					],
+					outputDir,
+				)
+
+				expect(patches.map((patch) => path.basename(patch))).toEqual([
+					"0001-Update-the-greeting.patch",
+					"0002-Change-it-again.patch",
+				])
+
+				const patch = await fs.readFile(patches[1], "utf-8")
+				expect(patch).toContain("Subject: [PATCH 2/2] Change it again")
+				expect(patch).toContain("-First change")
+				expect(patch).toContain("+Second change")
+			})
+		})
+
+		describe(`${klass.name}#exportBranch`, () => {
+			it("replays the steps onto a new branch without touching the working tree", async () => {
+				const base = await service.saveCheckpoint("Initial", { allowEmpty: true })
+				await fs.writeFile(testFile, "First change")
+				const first = await service.saveCheckpoint("First")
+				await fs.writeFile(path.join(service.workspaceDir, "new.txt"), "New file")
+				const second = await service.saveCheckpoint("Second")
+				const head = await workspaceGit.revparse(["HEAD"])
+
+				const commits = await service.exportBranch(
+					[
+						{ from: base!.commit, to: first!.commit, message: "Update the greeting" },
+						{ from: first!.commit, to: second!.commit, message: "Add a new file\n\nWith details." },
+					],
+					"task-export",
+				)
+
+				expect(commits).toHaveLength(2)
+				expect((await workspaceGit.revparse(["task-export"])).trim()).toBe(commits[1])
+				expect((await workspaceGit.revparse(["HEAD"])).trim()).toBe(head)
+				expect(await workspaceGit.raw(["log", "--format=%s", `${head}..task-export`])).toBe(
+					"Add a new file\nUpdate the greeting\n",
+				)
+				expect(await workspaceGit.show(["task-export:test.txt"])).toBe("First change")
+				expect(await workspaceGit.show(["task-export:new.txt"])).toBe("New file")
+				expect(await fs.readFile(testFile, "utf-8")).toBe("First change")
+				expect((await workspaceGit.status()).staged).toEqual([])
+			})
+
+			it("fails when the steps do not apply to HEAD", async () => {
+				await fs.writeFile(testFile, "Uncommitted change")
+				const base = await service.saveCheckpoint("Initial")
+				await fs.writeFile(testFile, "Agent change")
+				const first = await service.saveCheckpoint("First")
+
+				await expect(
+					service.exportBranch([{ from: base!.commit, to: first!.commit, message: "Edit" }], "task-export"),
+				).rejects.toThrow("Checkpoint 1 does not apply to HEAD")
+
+				expect((await workspaceGit.branchLocal()).all).not.toContain("task-export")
+			})
+		})
+		// kilocode_change end
+
 		describe(`${klass.name}#events`, () => {
 			it("emits initialize event when service is created", async () => {
 				const shadowDir = path.join(tmpDir, `${prefix}3-${Date.now()}`)
@@ -0,0 +1,38 @@
+// kilocode_change - new file
+import { applyPatch, reversePatch, structuredPatch, Hunk } from "diff"
+
+/**
+ * Splits the changes between two versions of a file into unified diff hunks.
+ */
+export function getDiffHunks(before: string, after: string): Hunk[] {
+	return structuredPatch("before", "after", before, after).hunks
+}
+
+/**
+ * Formats the `@@ -a,b +c,d @@` header of a hunk.
+ */
+export function formatHunkHeader({ oldStart, oldLines, newStart, newLines }: Hunk): string {
+	return `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`
+}
+
+/**
+ * Undoes a single hunk of the changes between `before` and `after`, leaving the other hunks in place.
+ * Hunks are numbered in the order returned by `getDiffHunks(before, after)`.
+ * @returns The content of `after` with the hunk reverted to its `before` lines
+ */
+export function revertHunk(before: string, after: string, hunkIndex: number): string {
+	const patch = structuredPatch("before", "after", before, after)
+	const hunk = patch.hunks[hunkIndex]
+
+	if (!hunk) {
+		throw new Error(`Hunk ${hunkIndex} not found`)
+	}
+
+	const result = applyPatch(after, reversePatch({ ...patch, hunks: [hunk] }))
+
+	if (result === false) {
+		throw new Error(`Hunk ${hunkIndex} could not be reverted`)
+	}
+
+	return result
+}
@@ -1,3 +1,4 @@
-export type { CheckpointServiceOptions } from "./types"
+export type { CheckpointServiceOptions, CheckpointExportStep } from "./types" // kilocode_change
 
 export { RepoPerTaskCheckpointService } from "./RepoPerTaskCheckpointService"
+export { getDiffHunks, formatHunkHeader } from "./hunks" // kilocode_change
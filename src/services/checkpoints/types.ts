@@ -13,6 +13,15 @@ export type CheckpointDiff = {
 	}
 }
 
+// kilocode_change start
+// The changes between two checkpoints, exported as a single commit with the given message.
+export type CheckpointExportStep = {
+	from: string
+	to: string
+	message: string
+}
+// kilocode_change end
+
 export interface CheckpointServiceOptions {
 	taskId: string
 	workspaceDir: string
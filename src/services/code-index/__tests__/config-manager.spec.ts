@@ -95,6 +95,7 @@ describe("CodeIndexConfigManager", () => {
 				modelId: undefined,
 				openAiOptions: { openAiNativeApiKey: "" },
 				ollamaOptions: { ollamaBaseUrl: "" },
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://localhost:6333",
 				qdrantApiKey: "",
 				searchMinScore: 0.4,
@@ -126,6 +127,7 @@ describe("CodeIndexConfigManager", () => {
 				modelId: "text-embedding-3-large",
 				openAiOptions: { openAiNativeApiKey: "test-openai-key" },
 				ollamaOptions: { ollamaBaseUrl: "" },
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -163,6 +165,7 @@ describe("CodeIndexConfigManager", () => {
 					baseUrl: "https://api.example.com/v1",
 					apiKey: "test-openai-compatible-key",
 				},
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -201,6 +204,7 @@ describe("CodeIndexConfigManager", () => {
 					baseUrl: "https://api.example.com/v1",
 					apiKey: "test-openai-compatible-key",
 				},
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -239,6 +243,7 @@ describe("CodeIndexConfigManager", () => {
 					apiKey: "test-openai-compatible-key",
 					// modelDimension is undefined when not set
 				},
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -278,6 +283,7 @@ describe("CodeIndexConfigManager", () => {
 					apiKey: "test-openai-compatible-key",
 				},
 				geminiOptions: undefined,
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -1253,6 +1259,7 @@ describe("CodeIndexConfigManager", () => {
 				ollamaOptions: { ollamaBaseUrl: undefined },
 				geminiOptions: undefined,
 				openAiCompatibleOptions: undefined,
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -1634,5 +1641,44 @@ describe("CodeIndexConfigManager", () => {
 			configManager = new CodeIndexConfigManager(mockContextProxy)
 			expect(configManager.isConfigured()).toBe(false)
 		})
+
+		it("should not require a Qdrant URL when using the local vector store", () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexVectorStoreProvider: "local",
+			})
+			mockContextProxy.getSecret.mockImplementation((key: string) => {
+				if (key === "codeIndexOpenAiKey") return "test-key"
+				return undefined
+			})
+
+			configManager = new CodeIndexConfigManager(mockContextProxy)
+			expect(configManager.isConfigured()).toBe(true)
+			expect(configManager.currentVectorStoreProvider).toBe("local")
+		})
+
+		it("should require a restart when switching vector store backends", async () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+			})
+			mockContextProxy.getSecret.mockImplementation((key: string) => {
+				if (key === "codeIndexOpenAiKey") return "test-key"
+				return undefined
+			})
+			configManager = new CodeIndexConfigManager(mockContextProxy)
+
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+				codebaseIndexVectorStoreProvider: "local",
+			})
+
+			const { requiresRestart } = await configManager.loadConfiguration()
+			expect(requiresRestart).toBe(true)
+		})
 	})
 })
@@ -0,0 +1,203 @@
+// kilocode_change - new file
+import type { Mock } from "vitest"
+import * as vscode from "vscode"
+import { CodeIndexKeywordIndex, tokenizeForKeywordSearch } from "../keyword-index"
+
+vitest.mock("../../../utils/safeWriteJson", () => ({
+	safeWriteJson: vitest.fn().mockResolvedValue(undefined),
+}))
+
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+
+vitest.mock("vscode", () => ({
+	Uri: {
+		joinPath: vitest.fn(),
+	},
+	workspace: {
+		fs: {
+			readFile: vitest.fn(),
+		},
+	},
+}))
+
+vitest.mock("lodash.debounce", () => ({ default: vitest.fn((fn) => Object.assign(fn, { cancel: vitest.fn() })) }))
+
+describe("tokenizeForKeywordSearch", () => {
+	it("keeps identifiers whole and adds their camelCase and snake_case parts", () => {
+		expect(tokenizeForKeywordSearch("getUserName(max_retry_count)")).toEqual([
+			"getusername",
+			"get",
+			"user",
+			"name",
+			"max_retry_count",
+			"max",
+			"retry",
+			"count",
+		])
+	})
+
+	it("splits acronyms from the following word", () => {
+		expect(tokenizeForKeywordSearch("parseHTTPResponse")).toEqual([
+			"parsehttpresponse",
+			"parse",
+			"http",
+			"response",
+		])
+	})
+})
+
+describe("CodeIndexKeywordIndex", () => {
+	const workspacePath = "/mock/workspace"
+	let keywordIndex: CodeIndexKeywordIndex
+
+	const point = (id: string, filePath: string, codeChunk: string) => ({
+		id,
+		vector: [],
+		payload: { filePath, codeChunk, startLine: 1, endLine: 5 },
+	})
+
+	beforeEach(() => {
+		vitest.clearAllMocks()
+		;(vscode.Uri.joinPath as Mock).mockReturnValue({ fsPath: "/mock/storage/keyword-index.json" })
+		keywordIndex = new CodeIndexKeywordIndex(
+			{ globalStorageUri: { fsPath: "/mock/storage" } } as vscode.ExtensionContext,
+			workspacePath,
+		)
+	})
+
+	describe("initialize", () => {
+		it("loads persisted documents", async () => {
+			;(vscode.workspace.fs.readFile as Mock).mockResolvedValue(
+				Buffer.from(
+					JSON.stringify({
+						version: 1,
+						documents: [
+							{
+								id: "a",
+								payload: {
+									filePath: "src/a.ts",
+									codeChunk: "function parseConfig()",
+									startLine: 1,
+									endLine: 2,
+								},
+							},
+						],
+					}),
+				),
+			)
+
+			await keywordIndex.initialize()
+
+			expect(keywordIndex.isPersisted).toBe(true)
+			expect(keywordIndex.search("parseConfig", undefined, 10).map((r) => r.id)).toEqual(["a"])
+		})
+
+		it("starts empty and unpersisted when nothing is on disk", async () => {
+			;(vscode.workspace.fs.readFile as Mock).mockRejectedValue(new Error("not found"))
+
+			await keywordIndex.initialize()
+
+			expect(keywordIndex.isPersisted).toBe(false)
+			expect(keywordIndex.size).toBe(0)
+		})
+
+		it("ignores an index written by another version", async () => {
+			;(vscode.workspace.fs.readFile as Mock).mockResolvedValue(
+				Buffer.from(JSON.stringify({ version: 0, documents: [] })),
+			)
+
+			await keywordIndex.initialize()
+
+			expect(keywordIndex.isPersisted).toBe(false)
+		})
+	})
+
+	describe("search", () => {
+		beforeEach(() => {
+			keywordIndex.upsertPoints([
+				point(
+					"auth",
+					"src/auth/login.ts",
+					"export function validatePassword(password: string) { return hash(password) }",
+				),
+				point(
+					"config",
+					"src/config.ts",
+					"export function loadConfig() { throw new Error('ENOENT config missing') }",
+				),
+				point("docs", "docs/auth.md", "The login flow checks the password once."),
+			])
+		})
+
+		it("ranks chunks with more matching terms first", () => {
+			const results = keywordIndex.search("password", undefined, 10)
+
+			expect(results.map((r) => r.id)).toEqual(["auth", "docs"])
+			expect(results[0].score).toBeGreaterThan(results[1].score)
+		})
+
+		it("matches identifiers through their parts", () => {
+			expect(keywordIndex.search("validate password", undefined, 10)[0].id).toBe("auth")
+			expect(keywordIndex.search("validatePassword", undefined, 10).map((r) => r.id)).toEqual(["auth", "docs"])
+		})
+
+		it("finds exact error strings", () => {
+			expect(keywordIndex.search("ENOENT", undefined, 10).map((r) => r.id)).toEqual(["config"])
+		})
+
+		it("filters by directory prefix", () => {
+			expect(keywordIndex.search("password", "src", 10).map((r) => r.id)).toEqual(["auth"])
+			expect(keywordIndex.search("password", "src/au", 10)).toEqual([])
+		})
+
+		it("limits the number of results", () => {
+			expect(keywordIndex.search("password", undefined, 1)).toHaveLength(1)
+		})
+
+		it("returns nothing for queries without terms", () => {
+			expect(keywordIndex.search("   ", undefined, 10)).toEqual([])
+		})
+	})
+
+	describe("updates", () => {
+		it("replaces chunks upserted with an existing id", () => {
+			keywordIndex.upsertPoints([point("a", "src/a.ts", "alpha")])
+			keywordIndex.upsertPoints([point("a", "src/a.ts", "omega")])
+
+			expect(keywordIndex.size).toBe(1)
+			expect(keywordIndex.search("alpha", undefined, 10)).toEqual([])
+			expect(keywordIndex.search("omega", undefined, 10).map((r) => r.id)).toEqual(["a"])
+		})
+
+		it("deletes chunks for relative and absolute file paths", () => {
+			keywordIndex.upsertPoints([
+				point("a", "src/a.ts", "shared"),
+				point("b", "src/b.ts", "shared"),
+				point("c", "src/c.ts", "shared"),
+			])
+
+			keywordIndex.deletePointsByMultipleFilePaths(["src/a.ts", `${workspacePath}/src/c.ts`])
+
+			expect(keywordIndex.search("shared", undefined, 10).map((r) => r.id)).toEqual(["b"])
+		})
+
+		it("persists changes and an empty index after clear", async () => {
+			keywordIndex.upsertPoints([point("a", "src/a.ts", "shared")])
+			expect(safeWriteJson).toHaveBeenLastCalledWith("/mock/storage/keyword-index.json", {
+				version: 1,
+				documents: [
+					{ id: "a", payload: { filePath: "src/a.ts", codeChunk: "shared", startLine: 1, endLine: 5 } },
+				],
+			})
+
+			await keywordIndex.clear()
+
+			expect(keywordIndex.size).toBe(0)
+			expect(keywordIndex.isPersisted).toBe(true)
+			expect(safeWriteJson).toHaveBeenLastCalledWith("/mock/storage/keyword-index.json", {
+				version: 1,
+				documents: [],
+			})
+		})
+	})
+})
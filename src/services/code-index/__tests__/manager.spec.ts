@@ -29,6 +29,8 @@ vi.mock("../state-manager", () => ({
 	})),
 }))
 
+vi.mock("../keyword-index") // kilocode_change
+
 vi.mock("../service-factory")
 const MockedCodeIndexServiceFactory = CodeIndexServiceFactory as MockedClass<typeof CodeIndexServiceFactory>
 
@@ -167,7 +169,12 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			;(manager as any)._cacheManager = mockCacheManager
 
 			// Simulate an initialized manager by setting the required properties
-			;(manager as any)._orchestrator = { stopWatcher: vi.fn() }
+			// kilocode_change start
+			;(manager as any)._orchestrator = {
+				stopWatcher: vi.fn(),
+				flushVectorStore: vi.fn().mockResolvedValue(undefined),
+			}
+			// kilocode_change end
 			;(manager as any)._searchService = {}
 
 			// Verify manager is considered initialized
@@ -358,4 +365,19 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			expect(mockServiceFactoryInstance.validateEmbedder).not.toHaveBeenCalled()
 		})
 	})
+
+	// kilocode_change start
+	describe("dispose", () => {
+		it("should flush the vector store", () => {
+			const orchestrator = { stopWatcher: vi.fn(), flushVectorStore: vi.fn().mockResolvedValue(undefined) }
+			;(manager as any)._orchestrator = orchestrator
+			vi.spyOn(manager, "isFeatureEnabled", "get").mockReturnValue(true)
+
+			manager.dispose()
+
+			expect(orchestrator.stopWatcher).toHaveBeenCalled()
+			expect(orchestrator.flushVectorStore).toHaveBeenCalled()
+		})
+	})
+	// kilocode_change end
 })
@@ -0,0 +1,99 @@
+// kilocode_change - new file
+import { CodeIndexSearchService, fuseRankings } from "../search-service"
+import { CodeIndexKeywordIndex } from "../keyword-index"
+
+describe("fuseRankings", () => {
+	const payload = (filePath: string) => ({ filePath, codeChunk: "", startLine: 1, endLine: 2 })
+
+	it("ranks chunks found by both searches first and records their sources", () => {
+		const results = fuseRankings(
+			[
+				{ id: "a", score: 0.9, payload: payload("a.ts") },
+				{ id: "b", score: 0.8, payload: payload("b.ts") },
+			],
+			[
+				{ id: "c", score: 7, payload: payload("c.ts") },
+				{ id: "b", score: 5, payload: payload("b.ts") },
+			],
+			10,
+		)
+
+		expect(results.map((r) => r.id)).toEqual(["b", "a", "c"])
+		expect(results[0].matchedBy).toEqual(["semantic", "keyword"])
+		expect(results[1].matchedBy).toEqual(["semantic"])
+		expect(results[2].matchedBy).toEqual(["keyword"])
+	})
+
+	it("normalizes scores so a chunk ranked first by both searches scores 1", () => {
+		const [result] = fuseRankings(
+			[{ id: "a", score: 0.5, payload: payload("a.ts") }],
+			[{ id: "a", score: 3, payload: payload("a.ts") }],
+			10,
+		)
+
+		expect(result.score).toBeCloseTo(1)
+	})
+
+	it("limits the number of results", () => {
+		const results = fuseRankings(
+			[{ id: "a", score: 0.9, payload: payload("a.ts") }],
+			[{ id: "b", score: 1, payload: payload("b.ts") }],
+			1,
+		)
+
+		expect(results).toHaveLength(1)
+	})
+})
+
+describe("CodeIndexSearchService", () => {
+	const semanticResults = [
+		{ id: "a", score: 0.9, payload: { filePath: "a.ts", codeChunk: "", startLine: 1, endLine: 2 } },
+	]
+	const keywordResults = [
+		{ id: "b", score: 4, payload: { filePath: "b.ts", codeChunk: "", startLine: 1, endLine: 2 } },
+	]
+
+	let vectorStore: any
+	let keywordIndex: any
+	let service: CodeIndexSearchService
+
+	beforeEach(() => {
+		const configManager = {
+			isFeatureEnabled: true,
+			isFeatureConfigured: true,
+			currentSearchMinScore: 0.4,
+			currentSearchMaxResults: 50,
+		}
+		const stateManager = {
+			getCurrentStatus: vitest.fn().mockReturnValue({ systemStatus: "Indexed" }),
+			setSystemState: vitest.fn(),
+		}
+		const embedder = { createEmbeddings: vitest.fn().mockResolvedValue({ embeddings: [[0.1, 0.2]] }) }
+		vectorStore = { search: vitest.fn().mockResolvedValue(semanticResults) }
+		keywordIndex = { search: vitest.fn().mockReturnValue(keywordResults) }
+
+		service = new CodeIndexSearchService(
+			configManager as any,
+			stateManager as any,
+			embedder as any,
+			vectorStore,
+			keywordIndex as CodeIndexKeywordIndex,
+		)
+	})
+
+	it("returns semantic results unchanged by default", async () => {
+		const results = await service.searchIndex("query", "src")
+
+		expect(results).toBe(semanticResults)
+		expect(vectorStore.search).toHaveBeenCalledWith([0.1, 0.2], "src", 0.4, 50)
+		expect(keywordIndex.search).not.toHaveBeenCalled()
+	})
+
+	it("fuses keyword and semantic results in hybrid mode", async () => {
+		const results = await service.searchIndex("query", "src", "hybrid")
+
+		expect(keywordIndex.search).toHaveBeenCalledWith("query", "src", 50)
+		expect(results.map((r) => r.id)).toEqual(["a", "b"])
+		expect(results.map((r) => r.matchedBy)).toEqual([["semantic"], ["keyword"]])
+	})
+})
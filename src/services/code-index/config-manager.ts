@@ -1,6 +1,6 @@
 import { ApiHandlerOptions } from "../../shared/api"
 import { ContextProxy } from "../../core/config/ContextProxy"
-import { EmbedderProvider } from "./interfaces/manager"
+import { EmbedderProvider, VectorStoreProvider } from "./interfaces/manager"
 import { CodeIndexConfig, PreviousConfigSnapshot } from "./interfaces/config"
 import { DEFAULT_SEARCH_MIN_SCORE, DEFAULT_MAX_SEARCH_RESULTS } from "./constants"
 import { getDefaultModelId, getModelDimension, getModelScoreThreshold } from "../../shared/embeddingModels"
@@ -18,6 +18,7 @@ export class CodeIndexConfigManager {
 	private ollamaOptions?: ApiHandlerOptions
 	private openAiCompatibleOptions?: { baseUrl: string; apiKey: string }
 	private geminiOptions?: { apiKey: string }
+	private vectorStoreProvider: VectorStoreProvider = "qdrant" // kilocode_change
 	private qdrantUrl?: string = "http://localhost:6333"
 	private qdrantApiKey?: string
 	private searchMinScore?: number
@@ -54,6 +55,7 @@ export class CodeIndexConfigManager {
 		const {
 			codebaseIndexEnabled,
 			codebaseIndexQdrantUrl,
+			codebaseIndexVectorStoreProvider, // kilocode_change
 			codebaseIndexEmbedderProvider,
 			codebaseIndexEmbedderBaseUrl,
 			codebaseIndexEmbedderModelId,
@@ -70,6 +72,7 @@ export class CodeIndexConfigManager {
 
 		// Update instance variables with configuration
 		this.codebaseIndexEnabled = codebaseIndexEnabled ?? true
+		this.vectorStoreProvider = codebaseIndexVectorStoreProvider === "local" ? "local" : "qdrant" // kilocode_change
 		this.qdrantUrl = codebaseIndexQdrantUrl
 		this.qdrantApiKey = qdrantApiKey ?? ""
 		this.searchMinScore = codebaseIndexSearchMinScore
@@ -135,6 +138,7 @@ export class CodeIndexConfigManager {
 			ollamaOptions?: ApiHandlerOptions
 			openAiCompatibleOptions?: { baseUrl: string; apiKey: string }
 			geminiOptions?: { apiKey: string }
+			vectorStoreProvider: VectorStoreProvider // kilocode_change
 			qdrantUrl?: string
 			qdrantApiKey?: string
 			searchMinScore?: number
@@ -153,6 +157,7 @@ export class CodeIndexConfigManager {
 			openAiCompatibleBaseUrl: this.openAiCompatibleOptions?.baseUrl ?? "",
 			openAiCompatibleApiKey: this.openAiCompatibleOptions?.apiKey ?? "",
 			geminiApiKey: this.geminiOptions?.apiKey ?? "",
+			vectorStoreProvider: this.vectorStoreProvider, // kilocode_change
 			qdrantUrl: this.qdrantUrl ?? "",
 			qdrantApiKey: this.qdrantApiKey ?? "",
 		}
@@ -176,6 +181,7 @@ export class CodeIndexConfigManager {
 				ollamaOptions: this.ollamaOptions,
 				openAiCompatibleOptions: this.openAiCompatibleOptions,
 				geminiOptions: this.geminiOptions,
+				vectorStoreProvider: this.vectorStoreProvider, // kilocode_change
 				qdrantUrl: this.qdrantUrl,
 				qdrantApiKey: this.qdrantApiKey,
 				searchMinScore: this.currentSearchMinScore,
@@ -188,27 +194,27 @@ export class CodeIndexConfigManager {
 	 * Checks if the service is properly configured based on the embedder type.
 	 */
 	public isConfigured(): boolean {
+		// kilocode_change start: the local vector store needs no connection settings
+		const vectorStoreConfigured = this.vectorStoreProvider === "local" || !!this.qdrantUrl
+
 		if (this.embedderProvider === "openai") {
 			const openAiKey = this.openAiOptions?.openAiNativeApiKey
-			const qdrantUrl = this.qdrantUrl
-			return !!(openAiKey && qdrantUrl)
+			return !!(openAiKey && vectorStoreConfigured)
 		} else if (this.embedderProvider === "ollama") {
 			// Ollama model ID has a default, so only base URL is strictly required for config
 			const ollamaBaseUrl = this.ollamaOptions?.ollamaBaseUrl
-			const qdrantUrl = this.qdrantUrl
-			return !!(ollamaBaseUrl && qdrantUrl)
+			return !!(ollamaBaseUrl && vectorStoreConfigured)
 		} else if (this.embedderProvider === "openai-compatible") {
 			const baseUrl = this.openAiCompatibleOptions?.baseUrl
 			const apiKey = this.openAiCompatibleOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(baseUrl && apiKey && qdrantUrl)
+			const isConfigured = !!(baseUrl && apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "gemini") {
 			const apiKey = this.geminiOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		}
+		// kilocode_change end
 		return false // Should not happen if embedderProvider is always set correctly
 	}
 
@@ -220,6 +226,7 @@ export class CodeIndexConfigManager {
 	 * - Provider changes (openai -> ollama, etc.)
 	 * - Authentication changes (API keys, base URLs)
 	 * - Vector dimension changes (model changes that affect embedding size)
+	 * - Vector store backend changes (Qdrant <-> local)
 	 * - Qdrant connection changes (URL, API key)
 	 * - Feature enable/disable transitions
 	 *
@@ -241,6 +248,7 @@ export class CodeIndexConfigManager {
 		const prevOpenAiCompatibleApiKey = prev?.openAiCompatibleApiKey ?? ""
 		const prevModelDimension = prev?.modelDimension
 		const prevGeminiApiKey = prev?.geminiApiKey ?? ""
+		const prevVectorStoreProvider = prev?.vectorStoreProvider ?? "qdrant" // kilocode_change
 		const prevQdrantUrl = prev?.qdrantUrl ?? ""
 		const prevQdrantApiKey = prev?.qdrantApiKey ?? ""
 
@@ -300,6 +308,12 @@ export class CodeIndexConfigManager {
 			return true
 		}
 
+		// kilocode_change start
+		if (prevVectorStoreProvider !== this.vectorStoreProvider) {
+			return true
+		}
+		// kilocode_change end
+
 		if (prevQdrantUrl !== currentQdrantUrl || prevQdrantApiKey !== currentQdrantApiKey) {
 			return true
 		}
@@ -351,6 +365,7 @@ export class CodeIndexConfigManager {
 			ollamaOptions: this.ollamaOptions,
 			openAiCompatibleOptions: this.openAiCompatibleOptions,
 			geminiOptions: this.geminiOptions,
+			vectorStoreProvider: this.vectorStoreProvider, // kilocode_change
 			qdrantUrl: this.qdrantUrl,
 			qdrantApiKey: this.qdrantApiKey,
 			searchMinScore: this.currentSearchMinScore,
@@ -379,6 +394,15 @@ export class CodeIndexConfigManager {
 		return this.embedderProvider
 	}
 
+	// kilocode_change start
+	/**
+	 * Gets the current vector store backend (qdrant or local)
+	 */
+	public get currentVectorStoreProvider(): VectorStoreProvider {
+		return this.vectorStoreProvider
+	}
+	// kilocode_change end
+
 	/**
 	 * Gets the current Qdrant configuration
 	 */
@@ -1,5 +1,5 @@
 import { ApiHandlerOptions } from "../../../shared/api" // Adjust path if needed
-import { EmbedderProvider } from "./manager"
+import { EmbedderProvider, VectorStoreProvider } from "./manager"
 
 /**
  * Configuration state for the code indexing feature
@@ -13,6 +13,7 @@ export interface CodeIndexConfig {
 	ollamaOptions?: ApiHandlerOptions
 	openAiCompatibleOptions?: { baseUrl: string; apiKey: string }
 	geminiOptions?: { apiKey: string }
+	vectorStoreProvider: VectorStoreProvider // kilocode_change
 	qdrantUrl?: string
 	qdrantApiKey?: string
 	searchMinScore?: number
@@ -33,6 +34,7 @@ export type PreviousConfigSnapshot = {
 	openAiCompatibleBaseUrl?: string
 	openAiCompatibleApiKey?: string
 	geminiApiKey?: string
+	vectorStoreProvider?: VectorStoreProvider // kilocode_change
 	qdrantUrl?: string
 	qdrantApiKey?: string
 }
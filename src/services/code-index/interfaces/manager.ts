@@ -71,6 +71,8 @@ export interface ICodeIndexManager {
 
 export type IndexingState = "Standby" | "Indexing" | "Indexed" | "Error"
 export type EmbedderProvider = "openai" | "ollama" | "openai-compatible" | "gemini"
+export type VectorStoreProvider = "qdrant" | "local" // kilocode_change
+export type CodebaseSearchMode = "semantic" | "hybrid" // kilocode_change
 
 export interface IndexProgressUpdate {
 	systemStatus: IndexingState
@@ -62,14 +62,30 @@ export interface IVectorStore {
 	 * @returns Promise resolving to boolean indicating if the collection exists
 	 */
 	collectionExists(): Promise<boolean>
+
+	// kilocode_change start
+	/**
+	 * Writes pending changes to disk, for stores that persist them in the background
+	 */
+	flush?(): Promise<void>
+
+	/**
+	 * Lists the ids and payloads of all stored points, without their vectors
+	 */
+	listPoints?(): Promise<Array<{ id: string; payload: Payload }>>
+	// kilocode_change end
 }
 
 export interface VectorStoreSearchResult {
 	id: string | number
 	score: number
 	payload?: Payload | null
+	matchedBy?: SearchMatchSource[] // kilocode_change: set by hybrid search
 }
 
+// kilocode_change
+export type SearchMatchSource = "semantic" | "keyword"
+
 export interface Payload {
 	filePath: string
 	codeChunk: string
@@ -0,0 +1,288 @@
+// kilocode_change - new file
+import * as vscode from "vscode"
+import * as path from "path"
+import { createHash } from "crypto"
+import debounce from "lodash.debounce"
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { Payload, PointStruct } from "./interfaces"
+import { BM25_B, BM25_K1 } from "./constants"
+
+interface KeywordDocument {
+	payload: Payload
+	length: number
+	termFrequencies: Map<string, number>
+}
+
+interface PersistedKeywordIndex {
+	version: number
+	documents: Array<{ id: string; payload: Payload }>
+}
+
+export interface KeywordSearchResult {
+	id: string
+	score: number
+	payload: Payload
+}
+
+const KEYWORD_INDEX_VERSION = 1
+
+/**
+ * Splits text into lowercase search terms. Identifiers are kept whole and also broken into their
+ * camelCase / snake_case parts, so `RooProtectedController` matches both itself and `protected controller`.
+ */
+export function tokenizeForKeywordSearch(text: string): string[] {
+	const terms: string[] = []
+
+	for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+		const whole = word.toLowerCase()
+		terms.push(whole)
+
+		const parts = word
+			.split(/[_$]+/)
+			.flatMap((part) => part.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) ?? [])
+			.map((part) => part.toLowerCase())
+
+		if (parts.length > 1) {
+			terms.push(...parts)
+		}
+	}
+
+	return terms
+}
+
+/**
+ * BM25 keyword index over the same code chunks that are stored in the vector store.
+ * Persisted next to the file hash cache so it survives restarts without re-parsing the workspace.
+ */
+export class CodeIndexKeywordIndex {
+	private indexPath: vscode.Uri
+	private documents = new Map<string, KeywordDocument>()
+	private postings = new Map<string, Set<string>>()
+	private totalLength = 0
+	private _persisted = false
+	private readonly _debouncedSave: ReturnType<typeof debounce>
+
+	/**
+	 * Creates a new keyword index
+	 * @param context VS Code extension context
+	 * @param workspacePath Path to the workspace
+	 */
+	constructor(
+		context: vscode.ExtensionContext,
+		private readonly workspacePath: string,
+	) {
+		this.indexPath = vscode.Uri.joinPath(
+			context.globalStorageUri,
+			`roo-keyword-index-${createHash("sha256").update(workspacePath).digest("hex")}.json`,
+		)
+		this._debouncedSave = debounce(async () => {
+			await this._performSave()
+		}, 1500)
+	}
+
+	/**
+	 * Loads the persisted index, if any
+	 */
+	async initialize(): Promise<void> {
+		this.resetInMemory()
+		try {
+			const data = await vscode.workspace.fs.readFile(this.indexPath)
+			const persisted = JSON.parse(data.toString()) as PersistedKeywordIndex
+			if (persisted?.version !== KEYWORD_INDEX_VERSION || !Array.isArray(persisted.documents)) {
+				return
+			}
+			for (const { id, payload } of persisted.documents) {
+				this.addDocument(id, payload)
+			}
+			this._persisted = true
+		} catch (error) {
+			this._persisted = false
+		}
+	}
+
+	/**
+	 * Whether the index exists on disk. When it does not, chunks already stored in the vector
+	 * store are missing from it until they are listed from the store and upserted again.
+	 */
+	get isPersisted(): boolean {
+		return this._persisted
+	}
+
+	/**
+	 * Number of indexed chunks
+	 */
+	get size(): number {
+		return this.documents.size
+	}
+
+	/**
+	 * Adds or replaces chunks in the index
+	 * @param points Points as they are upserted into the vector store or listed from it
+	 */
+	upsertPoints(points: Array<Pick<PointStruct, "id" | "payload">>): void {
+		for (const point of points) {
+			const payload = point.payload as Payload
+			if (typeof payload?.codeChunk !== "string" || typeof payload?.filePath !== "string") {
+				continue
+			}
+			this.removeDocument(point.id)
+			this.addDocument(point.id, {
+				filePath: payload.filePath,
+				codeChunk: payload.codeChunk,
+				startLine: payload.startLine,
+				endLine: payload.endLine,
+			})
+		}
+		this._debouncedSave()
+	}
+
+	/**
+	 * Removes all chunks that belong to the given files
+	 * @param filePaths Absolute or workspace-relative file paths
+	 */
+	deletePointsByMultipleFilePaths(filePaths: string[]): void {
+		if (filePaths.length === 0) {
+			return
+		}
+
+		const targets = new Set(filePaths.map((filePath) => this.resolvePath(filePath)))
+		let removed = false
+
+		for (const [id, document] of this.documents) {
+			if (targets.has(this.resolvePath(document.payload.filePath))) {
+				this.removeDocument(id)
+				removed = true
+			}
+		}
+
+		if (removed) {
+			this._debouncedSave()
+		}
+	}
+
+	/**
+	 * Removes every chunk and persists the empty index
+	 */
+	async clear(): Promise<void> {
+		this.resetInMemory()
+		await this._performSave()
+	}
+
+	/**
+	 * Writes pending changes to disk immediately instead of waiting for the debounced save
+	 */
+	async flush(): Promise<void> {
+		this._debouncedSave.cancel()
+		await this._performSave()
+	}
+
+	/**
+	 * Ranks chunks against the query with BM25
+	 * @param query Free-text query; identifiers and error strings work best
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param maxResults Maximum number of results to return
+	 */
+	search(query: string, directoryPrefix: string | undefined, maxResults: number): KeywordSearchResult[] {
+		const queryTerms = Array.from(new Set(tokenizeForKeywordSearch(query)))
+		if (queryTerms.length === 0 || this.documents.size === 0) {
+			return []
+		}
+
+		const prefix = directoryPrefix ? this.resolvePath(directoryPrefix) : undefined
+		const averageLength = this.totalLength / this.documents.size
+		const scores = new Map<string, number>()
+
+		for (const term of queryTerms) {
+			const matchingIds = this.postings.get(term)
+			if (!matchingIds) {
+				continue
+			}
+
+			const idf = Math.log(1 + (this.documents.size - matchingIds.size + 0.5) / (matchingIds.size + 0.5))
+
+			for (const id of matchingIds) {
+				const document = this.documents.get(id)!
+				const frequency = document.termFrequencies.get(term) ?? 0
+				const norm = frequency + BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength)
+				scores.set(id, (scores.get(id) ?? 0) + (idf * frequency * (BM25_K1 + 1)) / norm)
+			}
+		}
+
+		const results: KeywordSearchResult[] = []
+		for (const [id, score] of scores) {
+			const { payload } = this.documents.get(id)!
+			if (prefix && !this.isWithin(payload.filePath, prefix)) {
+				continue
+			}
+			results.push({ id, score, payload })
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, maxResults)
+	}
+
+	private addDocument(id: string, payload: Payload): void {
+		const terms = tokenizeForKeywordSearch(payload.codeChunk)
+		const termFrequencies = new Map<string, number>()
+		for (const term of terms) {
+			termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1)
+		}
+
+		for (const term of termFrequencies.keys()) {
+			let ids = this.postings.get(term)
+			if (!ids) {
+				ids = new Set()
+				this.postings.set(term, ids)
+			}
+			ids.add(id)
+		}
+
+		this.documents.set(id, { payload, length: terms.length, termFrequencies })
+		this.totalLength += terms.length
+	}
+
+	private removeDocument(id: string): void {
+		const document = this.documents.get(id)
+		if (!document) {
+			return
+		}
+
+		for (const term of document.termFrequencies.keys()) {
+			const ids = this.postings.get(term)
+			ids?.delete(id)
+			if (ids?.size === 0) {
+				this.postings.delete(term)
+			}
+		}
+
+		this.documents.delete(id)
+		this.totalLength -= document.length
+	}
+
+	private resetInMemory(): void {
+		this.documents.clear()
+		this.postings.clear()
+		this.totalLength = 0
+	}
+
+	private resolvePath(filePath: string): string {
+		return path.normalize(path.resolve(this.workspacePath, filePath))
+	}
+
+	private isWithin(filePath: string, directory: string): boolean {
+		const relative = path.relative(directory, this.resolvePath(filePath))
+		return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+	}
+
+	private async _performSave(): Promise<void> {
+		const persisted: PersistedKeywordIndex = {
+			version: KEYWORD_INDEX_VERSION,
+			documents: Array.from(this.documents, ([id, document]) => ({ id, payload: document.payload })),
+		}
+		try {
+			await safeWriteJson(this.indexPath.fsPath, persisted)
+			this._persisted = true
+		} catch (error) {
+			console.error("Failed to save keyword index:", error)
+		}
+	}
+}
@@ -2,13 +2,14 @@ import * as vscode from "vscode"
 import { getWorkspacePath } from "../../utils/path"
 import { ContextProxy } from "../../core/config/ContextProxy"
 import { VectorStoreSearchResult } from "./interfaces"
-import { IndexingState } from "./interfaces/manager"
+import { CodebaseSearchMode, IndexingState } from "./interfaces/manager" // kilocode_change
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
 import { CodeIndexServiceFactory } from "./service-factory"
 import { CodeIndexSearchService } from "./search-service"
 import { CodeIndexOrchestrator } from "./orchestrator"
 import { CacheManager } from "./cache-manager"
+import { CodeIndexKeywordIndex } from "./keyword-index" // kilocode_change
 import fs from "fs/promises"
 import ignore from "ignore"
 import path from "path"
@@ -25,6 +26,7 @@ export class CodeIndexManager {
 	private _orchestrator: CodeIndexOrchestrator | undefined
 	private _searchService: CodeIndexSearchService | undefined
 	private _cacheManager: CacheManager | undefined
+	private _keywordIndex: CodeIndexKeywordIndex | undefined // kilocode_change
 
 	public static getInstance(context: vscode.ExtensionContext): CodeIndexManager | undefined {
 		// Use first workspace folder consistently
@@ -132,6 +134,13 @@ export class CodeIndexManager {
 			await this._cacheManager.initialize()
 		}
 
+		// kilocode_change start
+		if (!this._keywordIndex) {
+			this._keywordIndex = new CodeIndexKeywordIndex(this.context, this.workspacePath)
+			await this._keywordIndex.initialize()
+		}
+		// kilocode_change end
+
 		// 4. Determine if Core Services Need Recreation
 		const needsServiceRecreation = !this._serviceFactory || requiresRestart
 
@@ -183,6 +192,11 @@ export class CodeIndexManager {
 	public dispose(): void {
 		if (this._orchestrator) {
 			this.stopWatcher()
+			// kilocode_change start: write the changes the vector store hasn't persisted yet
+			this._orchestrator.flushVectorStore().catch((error) => {
+				console.error("[CodeIndexManager] Failed to flush the vector store:", error)
+			})
+			// kilocode_change end
 		}
 		this._stateManager.dispose()
 	}
@@ -206,12 +220,16 @@ export class CodeIndexManager {
 		return this._stateManager.getCurrentStatus()
 	}
 
-	public async searchIndex(query: string, directoryPrefix?: string): Promise<VectorStoreSearchResult[]> {
+	public async searchIndex(
+		query: string,
+		directoryPrefix?: string,
+		mode?: CodebaseSearchMode, // kilocode_change
+	): Promise<VectorStoreSearchResult[]> {
 		if (!this.isFeatureEnabled) {
 			return []
 		}
 		this.assertInitialized()
-		return this._searchService!.searchIndex(query, directoryPrefix)
+		return this._searchService!.searchIndex(query, directoryPrefix, mode) // kilocode_change
 	}
 
 	/**
@@ -232,6 +250,7 @@ export class CodeIndexManager {
 			this._configManager!,
 			this.workspacePath,
 			this._cacheManager!,
+			this.context.globalStorageUri.fsPath, // kilocode_change
 		)
 
 		const ignoreInstance = ignore()
@@ -257,6 +276,7 @@ export class CodeIndexManager {
 			this.context,
 			this._cacheManager!,
 			ignoreInstance,
+			this._keywordIndex, // kilocode_change
 		)
 
 		// Validate embedder configuration before proceeding
@@ -291,6 +311,7 @@ export class CodeIndexManager {
 			this._stateManager,
 			embedder,
 			vectorStore,
+			this._keywordIndex, // kilocode_change
 		)
 
 		// Clear any error state after successful recreation
@@ -328,6 +349,12 @@ export class CodeIndexManager {
 						this._cacheManager = new CacheManager(this.context, this.workspacePath)
 						await this._cacheManager.initialize()
 					}
+					// kilocode_change start
+					if (!this._keywordIndex) {
+						this._keywordIndex = new CodeIndexKeywordIndex(this.context, this.workspacePath)
+						await this._keywordIndex.initialize()
+					}
+					// kilocode_change end
 
 					// Recreate services with new configuration
 					await this._recreateServices()
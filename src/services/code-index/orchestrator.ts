@@ -189,6 +189,8 @@ export class CodeIndexOrchestrator {
 				)
 			}
 
+			await this.vectorStore.flush?.() // kilocode_change: the scan is only persisted in the background otherwise
+
 			await this._startWatcher()
 
 			this.stateManager.setSystemState("Indexed", "File watcher started.")
@@ -223,6 +225,15 @@ export class CodeIndexOrchestrator {
 		this._isProcessing = false
 	}
 
+	// kilocode_change start
+	/**
+	 * Writes the vector store's pending changes to disk.
+	 */
+	public async flushVectorStore(): Promise<void> {
+		await this.vectorStore.flush?.()
+	}
+	// kilocode_change end
+
 	/**
 	 * Clears all index data by stopping the watcher, clearing the vector store,
 	 * and resetting the cache file.
@@ -1,9 +1,11 @@
 import * as path from "path"
-import { VectorStoreSearchResult } from "./interfaces"
+import { CodebaseSearchMode, VectorStoreSearchResult } from "./interfaces" // kilocode_change
 import { IEmbedder } from "./interfaces/embedder"
 import { IVectorStore } from "./interfaces/vector-store"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
+import { CodeIndexKeywordIndex, KeywordSearchResult } from "./keyword-index" // kilocode_change
+import { RRF_K } from "./constants" // kilocode_change
 
 /**
  * Service responsible for searching the code index.
@@ -14,6 +16,7 @@ export class CodeIndexSearchService {
 		private readonly stateManager: CodeIndexStateManager,
 		private readonly embedder: IEmbedder,
 		private readonly vectorStore: IVectorStore,
+		private readonly keywordIndex?: CodeIndexKeywordIndex, // kilocode_change
 	) {}
 
 	/**
@@ -21,10 +24,15 @@ export class CodeIndexSearchService {
 	 * @param query The search query
 	 * @param limit Maximum number of results to return
 	 * @param directoryPrefix Optional directory path to filter results by
+	 * @param mode "hybrid" fuses keyword (BM25) and semantic rankings; defaults to semantic only
 	 * @returns Array of search results
 	 * @throws Error if the service is not properly configured or ready
 	 */
-	public async searchIndex(query: string, directoryPrefix?: string): Promise<VectorStoreSearchResult[]> {
+	public async searchIndex(
+		query: string,
+		directoryPrefix?: string,
+		mode: CodebaseSearchMode = "semantic", // kilocode_change
+	): Promise<VectorStoreSearchResult[]> {
 		if (!this.configManager.isFeatureEnabled || !this.configManager.isFeatureConfigured) {
 			throw new Error("Code index feature is disabled or not configured.")
 		}
@@ -52,6 +60,14 @@ export class CodeIndexSearchService {
 				normalizedPrefix = path.normalize(directoryPrefix)
 			}
 
+			// kilocode_change start
+			if (mode === "hybrid" && this.keywordIndex) {
+				const semanticResults = await this.vectorStore.search(vector, normalizedPrefix, minScore, maxResults)
+				const keywordResults = this.keywordIndex.search(query, normalizedPrefix, maxResults)
+				return fuseRankings(semanticResults, keywordResults, maxResults)
+			}
+			// kilocode_change end
+
 			// Perform search
 			const results = await this.vectorStore.search(vector, normalizedPrefix, minScore, maxResults)
 			return results
@@ -62,3 +78,38 @@ export class CodeIndexSearchService {
 		}
 	}
 }
+
+// kilocode_change start
+/**
+ * Merges semantic and keyword rankings with reciprocal rank fusion. Scores are normalized so that a
+ * chunk ranked first by both searches scores 1.
+ */
+export function fuseRankings(
+	semanticResults: VectorStoreSearchResult[],
+	keywordResults: KeywordSearchResult[],
+	maxResults: number,
+): VectorStoreSearchResult[] {
+	const fused = new Map<string, VectorStoreSearchResult>()
+	const maxScore = 2 / (RRF_K + 1)
+
+	const add = (
+		id: string | number,
+		payload: VectorStoreSearchResult["payload"],
+		rank: number,
+		source: "semantic" | "keyword",
+	) => {
+		const key = String(id)
+		const existing = fused.get(key) ?? { id, score: 0, payload, matchedBy: [] }
+		existing.score += 1 / (RRF_K + rank + 1) / maxScore
+		existing.matchedBy!.push(source)
+		fused.set(key, existing)
+	}
+
+	semanticResults.forEach((result, rank) => add(result.id, result.payload, rank, "semantic"))
+	keywordResults.forEach((result, rank) => add(result.id, result.payload, rank, "keyword"))
+
+	return Array.from(fused.values())
+		.sort((a, b) => b.score - a.score)
+		.slice(0, maxResults)
+}
+// kilocode_change end
@@ -5,6 +5,9 @@ import { OpenAICompatibleEmbedder } from "./embedders/openai-compatible"
 import { GeminiEmbedder } from "./embedders/gemini"
 import { EmbedderProvider, getDefaultModelId, getModelDimension } from "../../shared/embeddingModels"
 import { QdrantVectorStore } from "./vector-store/qdrant-client"
+import { LocalVectorStore } from "./vector-store/local-vector-store" // kilocode_change
+import { KeywordIndexedVectorStore } from "./vector-store/keyword-indexed-vector-store" // kilocode_change
+import { CodeIndexKeywordIndex } from "./keyword-index" // kilocode_change
 import { codeParser, DirectoryScanner, FileWatcher } from "./processors"
 import { ICodeParser, IEmbedder, IFileWatcher, IVectorStore } from "./interfaces"
 import { CodeIndexConfigManager } from "./config-manager"
@@ -20,6 +23,7 @@ export class CodeIndexServiceFactory {
 		private readonly configManager: CodeIndexConfigManager,
 		private readonly workspacePath: string,
 		private readonly cacheManager: CacheManager,
+		private readonly globalStoragePath?: string, // kilocode_change
 	) {}
 
 	/**
@@ -117,6 +121,15 @@ export class CodeIndexServiceFactory {
 			}
 		}
 
+		// kilocode_change start
+		if (config.vectorStoreProvider === "local") {
+			if (!this.globalStoragePath) {
+				throw new Error(t("embeddings:serviceFactory.localStoragePathMissing"))
+			}
+			return new LocalVectorStore(this.workspacePath, this.globalStoragePath, vectorSize)
+		}
+		// kilocode_change end
+
 		if (!config.qdrantUrl) {
 			throw new Error(t("embeddings:serviceFactory.qdrantUrlMissing"))
 		}
@@ -158,6 +171,7 @@ export class CodeIndexServiceFactory {
 		context: vscode.ExtensionContext,
 		cacheManager: CacheManager,
 		ignoreInstance: Ignore,
+		keywordIndex?: CodeIndexKeywordIndex, // kilocode_change
 	): {
 		embedder: IEmbedder
 		vectorStore: IVectorStore
@@ -170,7 +184,10 @@ export class CodeIndexServiceFactory {
 		}
 
 		const embedder = this.createEmbedder()
-		const vectorStore = this.createVectorStore()
+		// kilocode_change start: keep the keyword index in sync with every vector store write
+		const baseVectorStore = this.createVectorStore()
+		const vectorStore = keywordIndex ? new KeywordIndexedVectorStore(baseVectorStore, keywordIndex) : baseVectorStore
+		// kilocode_change end
 		const parser = codeParser
 		const scanner = this.createDirectoryScanner(embedder, vectorStore, parser, ignoreInstance)
 		const fileWatcher = this.createFileWatcher(context, embedder, vectorStore, cacheManager, ignoreInstance)
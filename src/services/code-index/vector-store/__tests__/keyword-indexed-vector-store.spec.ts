@@ -0,0 +1,102 @@
+// kilocode_change - new file
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { KeywordIndexedVectorStore } from "../keyword-indexed-vector-store"
+import { LocalVectorStore } from "../local-vector-store"
+import { CodeIndexKeywordIndex } from "../../keyword-index"
+import { getWorkspacePath } from "../../../../utils/path"
+
+vitest.mock("../../../../utils/path")
+
+vitest.mock("vscode", () => ({
+	Uri: {
+		joinPath: vitest.fn((base: { fsPath: string }, name: string) => ({ fsPath: `${base.fsPath}/${name}` })),
+	},
+	workspace: {
+		fs: {
+			readFile: vitest.fn(async (uri: { fsPath: string }) => (await import("fs/promises")).readFile(uri.fsPath)),
+		},
+	},
+}))
+
+describe("KeywordIndexedVectorStore", () => {
+	const workspacePath = "/test/workspace"
+	const vectorSize = 3
+	let storagePath: string
+
+	const point = (id: string, vector: number[], filePath: string, codeChunk: string) => ({
+		id,
+		vector,
+		payload: { filePath, codeChunk, startLine: 1, endLine: 2 },
+	})
+
+	// Opens the stores the way the service factory does after an extension restart
+	const open = async () => {
+		const vectorStore = new LocalVectorStore(workspacePath, storagePath, vectorSize)
+		const keywordIndex = new CodeIndexKeywordIndex(
+			{ globalStorageUri: { fsPath: storagePath } } as vscode.ExtensionContext,
+			workspacePath,
+		)
+		await keywordIndex.initialize()
+		return { vectorStore, keywordIndex, store: new KeywordIndexedVectorStore(vectorStore, keywordIndex) }
+	}
+
+	beforeEach(async () => {
+		vitest.clearAllMocks()
+		;(getWorkspacePath as any).mockReturnValue(workspacePath)
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "keyword-indexed-vector-store-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	describe("flush", () => {
+		it("persists pending writes of the vector store and the keyword index", async () => {
+			const { store } = await open()
+			expect(await store.initialize()).toBe(true)
+			await store.upsertPoints([point("a", [1, 0, 0], "src/a.ts", "function parseConfig()")])
+			await store.flush()
+
+			const reopened = await open()
+			expect(reopened.keywordIndex.isPersisted).toBe(true)
+			expect(await reopened.store.initialize()).toBe(false)
+			expect((await reopened.store.search([1, 0, 0], undefined, 0.5)).map((r) => r.id)).toEqual(["a"])
+			expect(reopened.keywordIndex.search("parseConfig", undefined, 10).map((r) => r.id)).toEqual(["a"])
+		})
+	})
+
+	describe("initialize", () => {
+		it("rebuilds a missing keyword index from the stored points instead of reporting a new collection", async () => {
+			// A collection indexed before the keyword index existed
+			const vectorStore = new LocalVectorStore(workspacePath, storagePath, vectorSize)
+			await vectorStore.initialize()
+			await vectorStore.upsertPoints([
+				point("a", [1, 0, 0], "src/a.ts", "function parseConfig()"),
+				point("b", [0, 1, 0], "src/b.ts", "class RetryPolicy"),
+			])
+			await vectorStore.flush()
+
+			const reopened = await open()
+			expect(reopened.keywordIndex.isPersisted).toBe(false)
+			expect(await reopened.store.initialize()).toBe(false)
+			expect(reopened.keywordIndex.isPersisted).toBe(true)
+			expect(reopened.keywordIndex.search("RetryPolicy", undefined, 10).map((r) => r.id)).toEqual(["b"])
+
+			const restarted = await open()
+			expect(restarted.keywordIndex.search("parseConfig", undefined, 10).map((r) => r.id)).toEqual(["a"])
+		})
+
+		it("clears the keyword index when the collection is new", async () => {
+			const { store, keywordIndex } = await open()
+			keywordIndex.upsertPoints([point("stale", [], "src/old.ts", "function stale()")])
+
+			expect(await store.initialize()).toBe(true)
+			expect(keywordIndex.size).toBe(0)
+			expect(keywordIndex.isPersisted).toBe(true)
+		})
+	})
+})
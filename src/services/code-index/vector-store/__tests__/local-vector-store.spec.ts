@@ -0,0 +1,153 @@
+// kilocode_change - new file
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { LocalVectorStore } from "../local-vector-store"
+import { getWorkspacePath } from "../../../../utils/path"
+
+vitest.mock("../../../../utils/path")
+
+describe("LocalVectorStore", () => {
+	const workspacePath = "/test/workspace"
+	const vectorSize = 3
+	let storagePath: string
+	let store: LocalVectorStore
+
+	const point = (id: string, vector: number[], filePath: string) => ({
+		id,
+		vector,
+		payload: { filePath, codeChunk: `chunk ${id}`, startLine: 1, endLine: 2 },
+	})
+
+	beforeEach(async () => {
+		vitest.clearAllMocks()
+		;(getWorkspacePath as any).mockReturnValue(workspacePath)
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "local-vector-store-"))
+		store = new LocalVectorStore(workspacePath, storagePath, vectorSize)
+	})
+
+	afterEach(async () => {
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	describe("initialize", () => {
+		it("creates a new collection on first run", async () => {
+			expect(await store.collectionExists()).toBe(false)
+			expect(await store.initialize()).toBe(true)
+			expect(await store.collectionExists()).toBe(true)
+		})
+
+		it("reuses a persisted collection with the same vector size", async () => {
+			await store.initialize()
+			await store.upsertPoints([point("a", [1, 0, 0], "src/a.ts")])
+			await store.flush()
+
+			const reopened = new LocalVectorStore(workspacePath, storagePath, vectorSize)
+			expect(await reopened.initialize()).toBe(false)
+
+			const results = await reopened.search([1, 0, 0], undefined, 0.5)
+			expect(results.map((r) => r.id)).toEqual(["a"])
+		})
+
+		it("recreates the collection when the vector size changes", async () => {
+			await store.initialize()
+			await store.upsertPoints([point("a", [1, 0, 0], "src/a.ts")])
+			await store.flush()
+
+			const resized = new LocalVectorStore(workspacePath, storagePath, 4)
+			expect(await resized.initialize()).toBe(true)
+			expect(await resized.search([1, 0, 0, 0], undefined, 0)).toEqual([])
+		})
+
+		it("recreates the collection when the vector file does not match the sidecar", async () => {
+			await store.initialize()
+			await store.upsertPoints([point("a", [1, 0, 0], "src/a.ts")])
+			await store.flush()
+
+			const [collectionDir] = await fs.readdir(path.join(storagePath, "code-index"))
+			await fs.writeFile(path.join(storagePath, "code-index", collectionDir, "vectors.bin"), Buffer.alloc(5))
+
+			const reopened = new LocalVectorStore(workspacePath, storagePath, vectorSize)
+			expect(await reopened.initialize()).toBe(true)
+		})
+	})
+
+	describe("search", () => {
+		beforeEach(async () => {
+			await store.initialize()
+			await store.upsertPoints([
+				point("a", [1, 0, 0], "src/a.ts"),
+				point("b", [0.9, 0.1, 0], "src/utils/b.ts"),
+				point("c", [0, 1, 0], "lib/c.ts"),
+			])
+		})
+
+		it("ranks results by cosine similarity and applies the score threshold", async () => {
+			const results = await store.search([2, 0, 0], undefined, 0.5)
+
+			expect(results.map((r) => r.id)).toEqual(["a", "b"])
+			expect(results[0].score).toBeCloseTo(1)
+			expect(results[0].payload?.codeChunk).toBe("chunk a")
+		})
+
+		it("limits the number of results", async () => {
+			const results = await store.search([1, 0, 0], undefined, 0, 1)
+			expect(results.map((r) => r.id)).toEqual(["a"])
+		})
+
+		it("filters by directory prefix segment by segment", async () => {
+			expect((await store.search([1, 0, 0], "src/utils", 0)).map((r) => r.id)).toEqual(["b"])
+			expect((await store.search([1, 0, 0], "src", 0)).map((r) => r.id)).toEqual(["a", "b"])
+			expect(await store.search([1, 0, 0], "sr", 0)).toEqual([])
+		})
+
+		it("replaces points that are upserted with an existing id", async () => {
+			await store.upsertPoints([point("a", [0, 0, 1], "src/a.ts")])
+
+			const results = await store.search([0, 0, 1], undefined, 0.5)
+			expect(results.map((r) => r.id)).toEqual(["a"])
+		})
+	})
+
+	describe("deletion", () => {
+		beforeEach(async () => {
+			await store.initialize()
+			await store.upsertPoints([
+				point("a", [1, 0, 0], "src/a.ts"),
+				point("b", [1, 0, 0], "src/b.ts"),
+				point("c", [1, 0, 0], "src/c.ts"),
+			])
+		})
+
+		it("deletes points for relative and absolute file paths", async () => {
+			await store.deletePointsByMultipleFilePaths(["src/a.ts", path.join(workspacePath, "src/c.ts")])
+
+			const results = await store.search([1, 0, 0], undefined, 0)
+			expect(results.map((r) => r.id)).toEqual(["b"])
+		})
+
+		it("persists deletions", async () => {
+			await store.deletePointsByFilePath("src/b.ts")
+			await store.flush()
+
+			const reopened = new LocalVectorStore(workspacePath, storagePath, vectorSize)
+			await reopened.initialize()
+			expect((await reopened.search([1, 0, 0], undefined, 0)).map((r) => r.id).sort()).toEqual(["a", "c"])
+		})
+
+		it("clears all points but keeps the collection", async () => {
+			await store.clearCollection()
+
+			expect(await store.search([1, 0, 0], undefined, 0)).toEqual([])
+			expect(await store.collectionExists()).toBe(true)
+		})
+
+		it("removes the collection from disk", async () => {
+			await store.deleteCollection()
+
+			expect(await store.collectionExists()).toBe(false)
+			expect(await fs.readdir(path.join(storagePath, "code-index"))).toEqual([])
+		})
+	})
+})
@@ -22,6 +22,7 @@ const mockQdrantClientInstance = {
 	upsert: vitest.fn(),
 	query: vitest.fn(),
 	delete: vitest.fn(),
+	scroll: vitest.fn(), // kilocode_change
 }
 
 const mockCreateHashInstance = {
@@ -1291,4 +1292,46 @@ describe("QdrantVectorStore", () => {
 			expect(callArgs.score_threshold).toBe(DEFAULT_SEARCH_MIN_SCORE)
 		})
 	})
+
+	// kilocode_change start
+	describe("listPoints", () => {
+		it("should scroll through all pages without vectors and skip invalid payloads", async () => {
+			const payload = (filePath: string) => ({ filePath, codeChunk: "code", startLine: 1, endLine: 2 })
+			mockQdrantClientInstance.scroll
+				.mockResolvedValueOnce({
+					points: [
+						{ id: "a", payload: payload("src/a.ts") },
+						{ id: "b", payload: { filePath: "src/b.ts" } },
+					],
+					next_page_offset: "c",
+				})
+				.mockResolvedValueOnce({ points: [{ id: 3, payload: payload("src/c.ts") }], next_page_offset: null })
+
+			const points = await vectorStore.listPoints()
+
+			expect(points).toEqual([
+				{ id: "a", payload: payload("src/a.ts") },
+				{ id: "3", payload: payload("src/c.ts") },
+			])
+			expect(mockQdrantClientInstance.scroll).toHaveBeenCalledTimes(2)
+			expect(mockQdrantClientInstance.scroll).toHaveBeenNthCalledWith(1, expectedCollectionName, {
+				limit: 1000,
+				offset: undefined,
+				with_payload: { include: ["filePath", "codeChunk", "startLine", "endLine"] },
+				with_vector: false,
+			})
+			expect(mockQdrantClientInstance.scroll.mock.calls[1][1].offset).toBe("c")
+		})
+
+		it("should log and re-throw errors", async () => {
+			const scrollError = new Error("Scroll failed")
+			mockQdrantClientInstance.scroll.mockRejectedValue(scrollError)
+			vitest.spyOn(console, "error").mockImplementation(() => {})
+
+			await expect(vectorStore.listPoints()).rejects.toThrow(scrollError)
+			expect(console.error).toHaveBeenCalledWith("Failed to list points:", scrollError)
+			;(console.error as any).mockRestore()
+		})
+	})
+	// kilocode_change end
 })
@@ -0,0 +1,81 @@
+// kilocode_change - new file
+import { IVectorStore, PointStruct, VectorStoreSearchResult } from "../interfaces/vector-store"
+import { CodeIndexKeywordIndex } from "../keyword-index"
+
+/**
+ * Vector store decorator that mirrors every write into the keyword index, so lexical and
+ * semantic search always see the same code chunks regardless of the vector store backend.
+ */
+export class KeywordIndexedVectorStore implements IVectorStore {
+	constructor(
+		private readonly vectorStore: IVectorStore,
+		private readonly keywordIndex: CodeIndexKeywordIndex,
+	) {}
+
+	/**
+	 * Initializes the wrapped store. When the keyword index has nothing on disk, it is rebuilt from the
+	 * chunks already stored, so they don't have to be embedded again. Only a store that can't list its
+	 * points reports a new collection, so the orchestrator clears the file cache and rescans the workspace.
+	 */
+	async initialize(): Promise<boolean> {
+		const created = await this.vectorStore.initialize()
+
+		if (this.keywordIndex.isPersisted && !created) {
+			return false
+		}
+
+		if (created || !this.vectorStore.listPoints) {
+			await this.keywordIndex.clear()
+			return true
+		}
+
+		this.keywordIndex.upsertPoints(await this.vectorStore.listPoints())
+		await this.keywordIndex.flush()
+		return false
+	}
+
+	async upsertPoints(points: PointStruct[]): Promise<void> {
+		await this.vectorStore.upsertPoints(points)
+		this.keywordIndex.upsertPoints(points)
+	}
+
+	search(
+		queryVector: number[],
+		directoryPrefix?: string,
+		minScore?: number,
+		maxResults?: number,
+	): Promise<VectorStoreSearchResult[]> {
+		return this.vectorStore.search(queryVector, directoryPrefix, minScore, maxResults)
+	}
+
+	async deletePointsByFilePath(filePath: string): Promise<void> {
+		await this.vectorStore.deletePointsByFilePath(filePath)
+		this.keywordIndex.deletePointsByMultipleFilePaths([filePath])
+	}
+
+	async deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void> {
+		await this.vectorStore.deletePointsByMultipleFilePaths(filePaths)
+		this.keywordIndex.deletePointsByMultipleFilePaths(filePaths)
+	}
+
+	async clearCollection(): Promise<void> {
+		await this.vectorStore.clearCollection()
+		await this.keywordIndex.clear()
+	}
+
+	async deleteCollection(): Promise<void> {
+		await this.vectorStore.deleteCollection()
+		await this.keywordIndex.clear()
+	}
+
+	collectionExists(): Promise<boolean> {
+		return this.vectorStore.collectionExists()
+	}
+
+	/**
+	 * Writes pending changes of both the wrapped store and the keyword index to disk
+	 */
+	async flush(): Promise<void> {
+		await Promise.all([this.vectorStore.flush?.(), this.keywordIndex.flush()])
+	}
+}
@@ -0,0 +1,451 @@
+// kilocode_change - new file
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import debounce from "lodash.debounce"
+import { getWorkspacePath } from "../../../utils/path"
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+import { IVectorStore, PointStruct } from "../interfaces/vector-store"
+import { Payload, VectorStoreSearchResult } from "../interfaces"
+import { DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_SEARCH_MIN_SCORE } from "../constants"
+import { t } from "../../../i18n"
+
+const INDEX_FORMAT_VERSION = 1
+const PAYLOADS_FILE = "payloads.json"
+const VECTORS_FILE = "vectors.bin"
+const BYTES_PER_FLOAT = Float32Array.BYTES_PER_ELEMENT
+
+/**
+ * Shape of the payload sidecar. Entry `i` describes the vector stored at row `i` of `vectors.bin`.
+ */
+interface LocalIndexSidecar {
+	version: number
+	vectorSize: number
+	points: Array<{ id: string; payload: Payload }>
+}
+
+/**
+ * Embedded vector store that keeps a flat cosine index on disk, so codebase indexing works without a Qdrant server.
+ *
+ * Vectors are L2-normalized on insert and kept in memory; search is an exact dot-product scan. The index is
+ * persisted under the extension's global storage as a packed Float32 file plus a JSON payload sidecar.
+ */
+export class LocalVectorStore implements IVectorStore {
+	private readonly vectorSize: number
+	private readonly collectionName: string
+	private readonly collectionPath: string
+
+	private ids: string[] = []
+	private payloads: Payload[] = []
+	private vectors: Float32Array[] = []
+	private idToRow = new Map<string, number>()
+
+	private loaded = false
+	private persistChain: Promise<void> = Promise.resolve()
+	private readonly _debouncedPersist: ReturnType<typeof debounce>
+
+	/**
+	 * Creates a new local vector store
+	 * @param workspacePath Path to the workspace
+	 * @param storagePath Directory that holds all local collections (usually the extension's global storage)
+	 * @param vectorSize Dimension of the stored vectors
+	 */
+	constructor(workspacePath: string, storagePath: string, vectorSize: number) {
+		const hash = createHash("sha256").update(workspacePath).digest("hex")
+		this.vectorSize = vectorSize
+		this.collectionName = `ws-${hash.substring(0, 16)}`
+		this.collectionPath = path.join(storagePath, "code-index", this.collectionName)
+		this._debouncedPersist = debounce(() => {
+			void this.persist().catch((error) => {
+				console.error(`[LocalVectorStore] Failed to persist collection ${this.collectionName}:`, error)
+			})
+		}, 1500)
+	}
+
+	private get payloadsPath(): string {
+		return path.join(this.collectionPath, PAYLOADS_FILE)
+	}
+
+	private get vectorsPath(): string {
+		return path.join(this.collectionPath, VECTORS_FILE)
+	}
+
+	/**
+	 * Initializes the vector store
+	 * @returns Promise resolving to boolean indicating if a new collection was created
+	 */
+	async initialize(): Promise<boolean> {
+		try {
+			const sidecar = await this.readSidecar()
+
+			if (sidecar === null) {
+				this.resetInMemory()
+				await this.persist()
+				return true
+			}
+
+			if (sidecar.vectorSize !== this.vectorSize) {
+				console.warn(
+					`[LocalVectorStore] Collection ${this.collectionName} exists with vector size ${sidecar.vectorSize}, but expected ${this.vectorSize}. Recreating collection.`,
+				)
+				this.resetInMemory()
+				await this.persist()
+				return true
+			}
+
+			const loaded = await this.loadVectors(sidecar)
+			if (!loaded) {
+				console.warn(
+					`[LocalVectorStore] Collection ${this.collectionName} is inconsistent on disk. Recreating collection.`,
+				)
+				this.resetInMemory()
+				await this.persist()
+				return true
+			}
+
+			return false
+		} catch (error: any) {
+			const errorMessage = error?.message || error
+			console.error(
+				`[LocalVectorStore] Failed to initialize local collection "${this.collectionName}":`,
+				errorMessage,
+			)
+			throw new Error(
+				t("embeddings:vectorStore.localStoreInitFailed", { storagePath: this.collectionPath, errorMessage }),
+			)
+		}
+	}
+
+	/**
+	 * Upserts points into the vector store
+	 * @param points Array of points to upsert
+	 */
+	async upsertPoints(points: PointStruct[]): Promise<void> {
+		await this.ensureLoaded()
+
+		for (const point of points) {
+			if (point.vector.length !== this.vectorSize) {
+				throw new Error(
+					`[LocalVectorStore] Vector for point ${point.id} has dimension ${point.vector.length}, expected ${this.vectorSize}`,
+				)
+			}
+
+			const vector = normalize(point.vector)
+			const payload = point.payload as Payload
+			const row = this.idToRow.get(point.id)
+
+			if (row !== undefined) {
+				this.vectors[row] = vector
+				this.payloads[row] = payload
+			} else {
+				this.idToRow.set(point.id, this.ids.length)
+				this.ids.push(point.id)
+				this.vectors.push(vector)
+				this.payloads.push(payload)
+			}
+		}
+
+		this._debouncedPersist()
+	}
+
+	/**
+	 * Searches for similar vectors
+	 * @param queryVector Vector to search for
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param minScore Optional minimum score threshold
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to search results
+	 */
+	async search(
+		queryVector: number[],
+		directoryPrefix?: string,
+		minScore?: number,
+		maxResults?: number,
+	): Promise<VectorStoreSearchResult[]> {
+		await this.ensureLoaded()
+
+		const threshold = minScore ?? DEFAULT_SEARCH_MIN_SCORE
+		const limit = maxResults ?? DEFAULT_MAX_SEARCH_RESULTS
+		const query = normalize(queryVector)
+		const prefixSegments = directoryPrefix ? splitPathSegments(directoryPrefix) : []
+
+		const results: VectorStoreSearchResult[] = []
+
+		for (let row = 0; row < this.ids.length; row++) {
+			const payload = this.payloads[row]
+			if (!isPayloadValid(payload)) {
+				continue
+			}
+
+			if (prefixSegments.length > 0 && !hasPathPrefix(payload.filePath, prefixSegments)) {
+				continue
+			}
+
+			const score = dot(query, this.vectors[row])
+			if (score < threshold) {
+				continue
+			}
+
+			results.push({ id: this.ids[row], score, payload })
+		}
+
+		results.sort((a, b) => b.score - a.score)
+		return results.slice(0, limit)
+	}
+
+	/**
+	 * Deletes points by file path
+	 * @param filePath Path of the file to delete points for
+	 */
+	async deletePointsByFilePath(filePath: string): Promise<void> {
+		return this.deletePointsByMultipleFilePaths([filePath])
+	}
+
+	/**
+	 * Deletes points by multiple file paths
+	 * @param filePaths Array of file paths to delete points for
+	 */
+	async deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void> {
+		if (filePaths.length === 0) {
+			return
+		}
+
+		await this.ensureLoaded()
+
+		// Payloads store workspace-relative paths while callers may pass absolute ones, so compare resolved paths.
+		const workspaceRoot = getWorkspacePath()
+		const targets = new Set(filePaths.map((filePath) => path.normalize(path.resolve(workspaceRoot, filePath))))
+
+		const keep: number[] = []
+		for (let row = 0; row < this.ids.length; row++) {
+			const filePath = this.payloads[row]?.filePath
+			if (!filePath || !targets.has(path.normalize(path.resolve(workspaceRoot, filePath)))) {
+				keep.push(row)
+			}
+		}
+
+		if (keep.length === this.ids.length) {
+			return
+		}
+
+		this.ids = keep.map((row) => this.ids[row])
+		this.vectors = keep.map((row) => this.vectors[row])
+		this.payloads = keep.map((row) => this.payloads[row])
+		this.rebuildRowIndex()
+
+		this._debouncedPersist()
+	}
+
+	/**
+	 * Clears all points from the collection
+	 */
+	async clearCollection(): Promise<void> {
+		try {
+			this.resetInMemory()
+			await this.persist()
+		} catch (error) {
+			console.error("Failed to clear collection:", error)
+			throw error
+		}
+	}
+
+	/**
+	 * Deletes the entire collection.
+	 */
+	async deleteCollection(): Promise<void> {
+		try {
+			this._debouncedPersist.cancel()
+			await this.persistChain
+			this.resetInMemory()
+			this.loaded = false
+			await fs.rm(this.collectionPath, { recursive: true, force: true })
+		} catch (error) {
+			console.error(`[LocalVectorStore] Failed to delete collection ${this.collectionName}:`, error)
+			throw error
+		}
+	}
+
+	/**
+	 * Checks if the collection exists
+	 * @returns Promise resolving to boolean indicating if the collection exists
+	 */
+	async collectionExists(): Promise<boolean> {
+		try {
+			await fs.access(this.payloadsPath)
+			return true
+		} catch {
+			return false
+		}
+	}
+
+	/**
+	 * Lists the ids and payloads of all stored points, without their vectors
+	 * @returns Promise resolving to the stored points
+	 */
+	async listPoints(): Promise<Array<{ id: string; payload: Payload }>> {
+		await this.ensureLoaded()
+		return this.ids.map((id, row) => ({ id, payload: this.payloads[row] }))
+	}
+
+	/**
+	 * Writes any pending changes to disk immediately.
+	 */
+	async flush(): Promise<void> {
+		this._debouncedPersist.cancel()
+		await this.persist()
+	}
+
+	private async ensureLoaded(): Promise<void> {
+		if (this.loaded) {
+			return
+		}
+
+		const sidecar = await this.readSidecar()
+		if (sidecar === null || sidecar.vectorSize !== this.vectorSize || !(await this.loadVectors(sidecar))) {
+			this.resetInMemory()
+		}
+	}
+
+	private async readSidecar(): Promise<LocalIndexSidecar | null> {
+		let raw: string
+		try {
+			raw = await fs.readFile(this.payloadsPath, "utf8")
+		} catch {
+			return null
+		}
+
+		try {
+			const sidecar = JSON.parse(raw) as LocalIndexSidecar
+			if (sidecar?.version !== INDEX_FORMAT_VERSION || !Array.isArray(sidecar.points)) {
+				return null
+			}
+			return sidecar
+		} catch (error) {
+			console.warn(`[LocalVectorStore] Could not parse ${this.payloadsPath}:`, error)
+			return null
+		}
+	}
+
+	/**
+	 * Loads the packed vector file that belongs to the given sidecar.
+	 * @returns false if the vector file is missing or does not match the sidecar
+	 */
+	private async loadVectors(sidecar: LocalIndexSidecar): Promise<boolean> {
+		let buffer: Buffer
+		try {
+			buffer = await fs.readFile(this.vectorsPath)
+		} catch {
+			return sidecar.points.length === 0 && this.adopt(sidecar, [])
+		}
+
+		const rowBytes = this.vectorSize * BYTES_PER_FLOAT
+		if (buffer.byteLength !== sidecar.points.length * rowBytes) {
+			return false
+		}
+
+		// Copy into an aligned buffer; Node may hand back a slice of a shared pool at an arbitrary offset.
+		const packed = new Float32Array(buffer.byteLength / BYTES_PER_FLOAT)
+		new Uint8Array(packed.buffer).set(buffer)
+
+		const vectors: Float32Array[] = []
+		for (let row = 0; row < sidecar.points.length; row++) {
+			vectors.push(packed.subarray(row * this.vectorSize, (row + 1) * this.vectorSize))
+		}
+
+		return this.adopt(sidecar, vectors)
+	}
+
+	private adopt(sidecar: LocalIndexSidecar, vectors: Float32Array[]): boolean {
+		this.ids = sidecar.points.map((point) => point.id)
+		this.payloads = sidecar.points.map((point) => point.payload)
+		this.vectors = vectors
+		this.rebuildRowIndex()
+		this.loaded = true
+		return true
+	}
+
+	private resetInMemory(): void {
+		this.ids = []
+		this.payloads = []
+		this.vectors = []
+		this.idToRow.clear()
+		this.loaded = true
+	}
+
+	private rebuildRowIndex(): void {
+		this.idToRow = new Map(this.ids.map((id, row) => [id, row]))
+	}
+
+	/**
+	 * Serializes writes so a debounced save never interleaves with an explicit one.
+	 */
+	private persist(): Promise<void> {
+		this.persistChain = this.persistChain.catch(() => {}).then(() => this.writeToDisk())
+		return this.persistChain
+	}
+
+	private async writeToDisk(): Promise<void> {
+		await fs.mkdir(this.collectionPath, { recursive: true })
+
+		const packed = new Float32Array(this.vectors.length * this.vectorSize)
+		this.vectors.forEach((vector, row) => packed.set(vector, row * this.vectorSize))
+
+		// Write vectors first; on load a length mismatch with the sidecar marks the collection for rebuild.
+		const tempVectorsPath = `${this.vectorsPath}.tmp`
+		await fs.writeFile(tempVectorsPath, Buffer.from(packed.buffer, packed.byteOffset, packed.byteLength))
+		await fs.rename(tempVectorsPath, this.vectorsPath)
+
+		const sidecar: LocalIndexSidecar = {
+			version: INDEX_FORMAT_VERSION,
+			vectorSize: this.vectorSize,
+			points: this.ids.map((id, row) => ({ id, payload: this.payloads[row] })),
+		}
+		await safeWriteJson(this.payloadsPath, sidecar)
+	}
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+	const result = Float32Array.from(vector)
+	let norm = 0
+	for (let i = 0; i < result.length; i++) {
+		norm += result[i] * result[i]
+	}
+	norm = Math.sqrt(norm)
+	if (norm > 0) {
+		for (let i = 0; i < result.length; i++) {
+			result[i] /= norm
+		}
+	}
+	return result
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i]
+	}
+	return sum
+}
+
+function splitPathSegments(filePath: string): string[] {
+	return filePath.split(/[\\/]+/).filter((segment) => segment && segment !== ".")
+}
+
+/**
+ * Mirrors the Qdrant `pathSegments.N` filter: every segment of the prefix must match the file path at the same depth.
+ */
+function hasPathPrefix(filePath: string, prefixSegments: string[]): boolean {
+	const segments = splitPathSegments(filePath)
+	if (segments.length < prefixSegments.length) {
+		return false
+	}
+	return prefixSegments.every((segment, index) => segments[index] === segment)
+}
+
+function isPayloadValid(payload: Payload | null | undefined): payload is Payload {
+	if (!payload) {
+		return false
+	}
+	const validKeys = ["filePath", "codeChunk", "startLine", "endLine"]
+	return validKeys.every((key) => key in payload)
+}
@@ -320,6 +320,44 @@ export class QdrantVectorStore implements IVectorStore {
 		}
 	}
 
+	// kilocode_change start
+	/**
+	 * Lists the ids and payloads of all stored points, without their vectors
+	 * @returns Promise resolving to the stored points
+	 */
+	async listPoints(): Promise<Array<{ id: string; payload: Payload }>> {
+		try {
+			const points: Array<{ id: string; payload: Payload }> = []
+			let offset: Schemas["ExtendedPointId"] | undefined
+
+			do {
+				const page = await this.client.scroll(this.collectionName, {
+					limit: 1000,
+					offset,
+					with_payload: {
+						include: ["filePath", "codeChunk", "startLine", "endLine"],
+					},
+					with_vector: false,
+				})
+
+				for (const point of page.points) {
+					if (this.isPayloadValid(point.payload)) {
+						points.push({ id: String(point.id), payload: point.payload })
+					}
+				}
+
+				const next = page.next_page_offset
+				offset = typeof next === "string" || typeof next === "number" ? next : undefined
+			} while (offset !== undefined)
+
+			return points
+		} catch (error) {
+			console.error("Failed to list points:", error)
+			throw error
+		}
+	}
+	// kilocode_change end
+
 	/**
 	 * Deletes points by file path
 	 * @param filePath Path of the file to delete points for
@@ -0,0 +1,187 @@
+// kilocode_change - new file
+import * as os from "os"
+import * as path from "path"
+import fs from "fs/promises"
+
+import type { ModeConfig } from "@roo-code/types"
+
+import {
+	type CustomTool,
+	buildCustomToolCommand,
+	getCustomToolShell,
+	isCustomToolAllowedForMode,
+	loadCustomTools,
+	validateCustomToolArguments,
+} from "../index"
+
+const createTool = (overrides: Partial<CustomTool> = {}): CustomTool => ({
+	name: "run_tests",
+	description: "Run the tests of a package",
+	command: "pnpm --filter {{package}} test {{pattern}}",
+	group: "command",
+	parameters: {
+		package: { type: "string", required: true },
+		pattern: { type: "string", required: false },
+	},
+	source: "/project/.kilocode/tools/run-tests.yaml",
+	...overrides,
+})
+
+describe("loadCustomTools", () => {
+	let cwd: string
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "custom-tools-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("returns no tools without a tools directory", async () => {
+		expect(await loadCustomTools(cwd)).toEqual([])
+	})
+
+	it("loads valid tools and skips invalid or duplicate ones", async () => {
+		const toolsDir = path.join(cwd, ".kilocode", "tools")
+		await fs.mkdir(toolsDir, { recursive: true })
+		await fs.writeFile(
+			path.join(toolsDir, "a-lint.yaml"),
+			[
+				"name: lint",
+				"description: Lint a file",
+				"command: npx eslint {{path}}",
+				"group: read",
+				"parameters:",
+				"  path:",
+				"    description: The file to lint",
+				"    required: true",
+			].join("\n"),
+		)
+		await fs.writeFile(path.join(toolsDir, "b-duplicate.yml"), "name: lint\ndescription: Other\ncommand: echo")
+		await fs.writeFile(path.join(toolsDir, "c-invalid.yaml"), "name: has spaces\ndescription: x\ncommand: echo")
+		await fs.writeFile(path.join(toolsDir, "d-broken.yaml"), "name: [")
+		await fs.writeFile(path.join(toolsDir, "notes.md"), "name: ignored")
+
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+		const tools = await loadCustomTools(cwd)
+		warn.mockRestore()
+
+		expect(tools).toEqual([
+			{
+				name: "lint",
+				description: "Lint a file",
+				command: "npx eslint {{path}}",
+				group: "read",
+				parameters: { path: { type: "string", description: "The file to lint", required: true } },
+				source: path.join(toolsDir, "a-lint.yaml"),
+			},
+		])
+	})
+})
+
+describe("isCustomToolAllowedForMode", () => {
+	it("allows the tool in modes that include its group", () => {
+		const customModes: ModeConfig[] = [
+			{ slug: "reviewer", name: "Reviewer", roleDefinition: "Review", groups: ["read", "command"] },
+		]
+
+		expect(isCustomToolAllowedForMode(createTool(), "reviewer", customModes)).toBe(true)
+		expect(isCustomToolAllowedForMode(createTool({ group: "edit" }), "reviewer", customModes)).toBe(false)
+		expect(isCustomToolAllowedForMode(createTool(), "ask")).toBe(false)
+	})
+})
+
+describe("validateCustomToolArguments", () => {
+	it("converts the arguments to strings", () => {
+		const tool = createTool({
+			parameters: {
+				count: { type: "number", required: true },
+				watch: { type: "boolean", required: false },
+				reporter: { type: "string", required: false, enum: ["dot", "verbose"] },
+			},
+		})
+
+		expect(validateCustomToolArguments(tool, { count: 3, watch: false, reporter: "dot" })).toEqual({
+			count: "3",
+			watch: "false",
+			reporter: "dot",
+		})
+	})
+
+	it("rejects missing, unknown and mistyped arguments", () => {
+		const tool = createTool({
+			parameters: {
+				package: { type: "string", required: true },
+				count: { type: "number", required: false },
+				reporter: { type: "string", required: false, enum: ["dot"] },
+			},
+		})
+
+		expect(() => validateCustomToolArguments(tool, {})).toThrow('Missing value for required parameter "package"')
+		expect(() => validateCustomToolArguments(tool, { package: "a", other: 1 })).toThrow('Unknown parameter "other"')
+		expect(() => validateCustomToolArguments(tool, { package: "a", count: "many" })).toThrow("must be a number")
+		expect(() => validateCustomToolArguments(tool, { package: "a", reporter: "json" })).toThrow("must be one of")
+	})
+})
+
+describe("getCustomToolShell", () => {
+	it("detects the quoting rules of the shell", () => {
+		expect(getCustomToolShell("/bin/zsh", "darwin")).toBe("posix")
+		expect(getCustomToolShell("C:\\Program Files\\Git\\bin\\bash.exe", "win32")).toBe("posix")
+		expect(getCustomToolShell("C:\\Program Files\\PowerShell\\7\\pwsh.exe", "win32")).toBe("powershell")
+		expect(getCustomToolShell("C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe", "win32")).toBe(
+			"powershell",
+		)
+		expect(getCustomToolShell("/usr/local/bin/pwsh", "linux")).toBe("powershell")
+		expect(getCustomToolShell("C:\\Windows\\System32\\cmd.exe", "win32")).toBe("cmd")
+	})
+
+	it("falls back to the shell that runs commands without a terminal", () => {
+		expect(getCustomToolShell(undefined, "win32")).toBe("cmd")
+		expect(getCustomToolShell(undefined, "linux")).toBe("posix")
+	})
+})
+
+describe("buildCustomToolCommand", () => {
+	it("substitutes quoted arguments and drops missing optional ones", () => {
+		expect(buildCustomToolCommand(createTool(), { package: "it's" }, "posix")).toBe("pnpm --filter 'it'\\''s' test")
+		expect(buildCustomToolCommand(createTool(), { package: "api", pattern: "a b" }, "cmd")).toBe(
+			'pnpm --filter "api" test "a b"',
+		)
+	})
+
+	it("keeps POSIX shells from expanding the arguments", () => {
+		expect(buildCustomToolCommand(createTool(), { package: "$(rm -rf ~)`id`" }, "posix")).toBe(
+			"pnpm --filter '$(rm -rf ~)`id`' test",
+		)
+	})
+
+	it("keeps PowerShell from expanding the arguments", () => {
+		expect(
+			buildCustomToolCommand(
+				createTool(),
+				{ package: "$(calc)", pattern: "$env:PATH it's \u2019" },
+				"powershell",
+			),
+		).toBe("pnpm --filter '$(calc)' test '$env:PATH it''s \u2019\u2019'")
+	})
+
+	it("passes cmd.exe arguments with its special characters quoted", () => {
+		expect(buildCustomToolCommand(createTool(), { package: "a & calc | more ^ <x>" }, "cmd")).toBe(
+			'pnpm --filter "a & calc | more ^ <x>" test',
+		)
+	})
+
+	it("refuses cmd.exe arguments that would be expanded or end the quotes", () => {
+		for (const value of ["%PATH%", 'a" & calc & "', "!VAR!", "a\r\ncalc"]) {
+			expect(() => buildCustomToolCommand(createTool(), { package: value }, "cmd")).toThrow(
+				"can't be passed safely to cmd.exe",
+			)
+		}
+	})
+
+	it("leaves placeholders that are not parameters untouched", () => {
+		expect(buildCustomToolCommand(createTool({ command: "echo {{other}}" }), {}, "posix")).toBe("echo {{other}}")
+	})
+})
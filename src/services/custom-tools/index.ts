@@ -0,0 +1,189 @@
+// kilocode_change - new file
+import * as path from "path"
+import fs from "fs/promises"
+import * as yaml from "yaml"
+import { z } from "zod"
+
+import { type ModeConfig, toolGroupsSchema } from "@roo-code/types"
+
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getGroupName, getModeConfig } from "../../shared/modes"
+
+const customToolParameterSchema = z.object({
+	type: z.enum(["string", "number", "boolean"]).default("string"),
+	description: z.string().optional(),
+	required: z.boolean().default(false),
+	enum: z.array(z.string()).optional(),
+})
+
+export const customToolSchema = z.object({
+	name: z.string().regex(/^[a-zA-Z0-9_-]+$/, "Tool names may only contain letters, numbers, '_' and '-'"),
+	description: z.string().min(1),
+	command: z.string().min(1),
+	cwd: z.string().optional(),
+	group: toolGroupsSchema.default("command"),
+	parameters: z.record(z.string().regex(/^[a-zA-Z0-9_]+$/), customToolParameterSchema).default({}),
+})
+
+export type CustomToolParameter = z.infer<typeof customToolParameterSchema>
+
+export type CustomTool = z.infer<typeof customToolSchema> & {
+	source: string
+}
+
+/**
+ * Loads the project's custom tools from `.kilocode/tools/*.yaml`.
+ * Files that can't be parsed are skipped, as are tools whose name is already taken.
+ */
+export async function loadCustomTools(cwd: string): Promise<CustomTool[]> {
+	const toolsDir = path.join(cwd, GlobalFileNames.customTools)
+	let fileNames: string[]
+
+	try {
+		fileNames = await fs.readdir(toolsDir)
+	} catch {
+		return []
+	}
+
+	const tools: CustomTool[] = []
+
+	for (const fileName of fileNames.filter((name) => /\.ya?ml$/.test(name)).sort()) {
+		const source = path.join(toolsDir, fileName)
+
+		try {
+			const result = customToolSchema.safeParse(yaml.parse(await fs.readFile(source, "utf-8")))
+
+			if (!result.success) {
+				console.warn(`[loadCustomTools] Invalid custom tool ${source}:`, result.error.issues)
+				continue
+			}
+
+			if (tools.some((tool) => tool.name === result.data.name)) {
+				console.warn(`[loadCustomTools] Duplicate custom tool name "${result.data.name}" in ${source}`)
+				continue
+			}
+
+			tools.push({ ...result.data, source })
+		} catch (error) {
+			console.warn(`[loadCustomTools] Failed to load custom tool ${source}:`, error)
+		}
+	}
+
+	return tools
+}
+
+/**
+ * A custom tool is available in the modes that include its tool group.
+ */
+export function isCustomToolAllowedForMode(tool: CustomTool, mode: string, customModes?: ModeConfig[]): boolean {
+	return getModeConfig(mode, customModes).groups.some((groupEntry) => getGroupName(groupEntry) === tool.group)
+}
+
+/**
+ * Checks the arguments passed by the model against the tool's parameters.
+ * @returns The arguments as strings, ready to be substituted into the command
+ * @throws {Error} When a parameter is missing, unknown or has the wrong type
+ */
+export function validateCustomToolArguments(tool: CustomTool, args: Record<string, unknown>): Record<string, string> {
+	const values: Record<string, string> = {}
+
+	for (const name of Object.keys(args)) {
+		if (!(name in tool.parameters)) {
+			throw new Error(`Unknown parameter "${name}"`)
+		}
+	}
+
+	for (const [name, parameter] of Object.entries(tool.parameters)) {
+		const value = args[name]
+
+		if (value === undefined || value === null || value === "") {
+			if (parameter.required) {
+				throw new Error(`Missing value for required parameter "${name}"`)
+			}
+			continue
+		}
+
+		const stringValue = String(value)
+
+		if (parameter.type === "number" && (typeof value === "boolean" || !Number.isFinite(Number(value)))) {
+			throw new Error(`Parameter "${name}" must be a number`)
+		}
+
+		if (parameter.type === "boolean" && stringValue !== "true" && stringValue !== "false") {
+			throw new Error(`Parameter "${name}" must be a boolean`)
+		}
+
+		if (parameter.type === "string" && typeof value === "object") {
+			throw new Error(`Parameter "${name}" must be a string`)
+		}
+
+		if (parameter.enum && !parameter.enum.includes(stringValue)) {
+			throw new Error(`Parameter "${name}" must be one of: ${parameter.enum.join(", ")}`)
+		}
+
+		values[name] = stringValue
+	}
+
+	return values
+}
+
+/** The quoting rules an argument has to follow to reach the command unchanged. */
+export type CustomToolShell = "posix" | "powershell" | "cmd"
+
+/**
+ * Finds the quoting rules of the shell at the given path. Without a shell, commands run in `cmd.exe` on Windows
+ * and in `/bin/sh` elsewhere.
+ */
+export function getCustomToolShell(
+	shellPath: string | undefined,
+	platform: NodeJS.Platform = process.platform,
+): CustomToolShell {
+	const shellName = path.basename(shellPath?.replace(/\\/g, "/") ?? "").toLowerCase()
+
+	if (/^(pwsh|powershell)(\.exe)?$/.test(shellName)) {
+		return "powershell"
+	}
+
+	if (/^cmd(\.exe)?$/.test(shellName) || (!shellName && platform === "win32")) {
+		return "cmd"
+	}
+
+	return "posix"
+}
+
+function quoteShellArgument(value: string, shell: CustomToolShell): string {
+	switch (shell) {
+		case "powershell":
+			// Nothing is expanded in single quotes; PowerShell also treats typographic single quotes as quotes
+			return `'${value.replace(/['\u2018\u2019\u201a\u201b]/g, "$&$&")}'`
+		case "cmd":
+			// cmd.exe expands %VAR% even in double quotes and has no way to escape it there
+			if (/["%!\r\n]/.test(value)) {
+				throw new Error(`The value ${JSON.stringify(value)} can't be passed safely to cmd.exe`)
+			}
+			return `"${value}"`
+		case "posix":
+			return `'${value.replace(/'/g, "'\\''")}'`
+	}
+}
+
+/**
+ * Substitutes `{{parameter}}` placeholders in the tool's command with the arguments, quoted for the shell that runs
+ * the command. Placeholders of parameters without a value are removed.
+ * @throws {Error} When an argument can't be quoted safely for the shell
+ */
+export function buildCustomToolCommand(
+	tool: CustomTool,
+	values: Record<string, string>,
+	shell: CustomToolShell = getCustomToolShell(undefined),
+): string {
+	return tool.command
+		.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (placeholder, name: string) => {
+			if (!(name in tool.parameters)) {
+				return placeholder
+			}
+
+			return name in values ? quoteShellArgument(values[name], shell) : ""
+		})
+		.trim()
+}
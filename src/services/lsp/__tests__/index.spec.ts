@@ -0,0 +1,74 @@
+// kilocode_change - new file
+import * as vscode from "vscode"
+
+import { applyTextEdits, findSymbolColumn, formatLocations } from "../index"
+
+vi.mock("vscode", () => ({
+	workspace: {
+		openTextDocument: vi.fn(),
+	},
+}))
+
+const location = (fsPath: string, line: number) =>
+	({ uri: { fsPath }, range: { start: { line, character: 0 }, end: { line, character: 0 } } }) as vscode.Location
+
+describe("findSymbolColumn", () => {
+	it("prefers whole-word matches", () => {
+		expect(findSymbolColumn("const userId = getUser(user)", "user")).toBe(23)
+		expect(findSymbolColumn("this.$store.dispatch()", "$store")).toBe(5)
+	})
+
+	it("falls back to a partial match", () => {
+		expect(findSymbolColumn("const userId = 1", "user")).toBe(6)
+		expect(findSymbolColumn("const userId = 1", "account")).toBe(-1)
+	})
+})
+
+describe("applyTextEdits", () => {
+	it("applies the edits from the end of the document", () => {
+		const content = "foo(foo)\nfoo"
+		const document = {
+			getText: () => content,
+			offsetAt: ({ line, character }: vscode.Position) =>
+				content.split("\n").slice(0, line).join("\n").length + (line > 0 ? 1 : 0) + character,
+		}
+		const edit = (line: number, start: number, end: number) =>
+			({
+				range: { start: { line, character: start }, end: { line, character: end } },
+				newText: "bar",
+			}) as vscode.TextEdit
+
+		expect(applyTextEdits(document, [edit(0, 0, 3), edit(1, 0, 3), edit(0, 4, 7)])).toBe("bar(bar)\nbar")
+	})
+})
+
+describe("formatLocations", () => {
+	beforeEach(() => {
+		vi.mocked(vscode.workspace.openTextDocument).mockImplementation(
+			async () => ({ lineAt: () => ({ text: "  export function foo() {" }) }) as any,
+		)
+	})
+
+	it("formats the locations relative to the workspace and hides ignored files", async () => {
+		const rooIgnoreController = { validateAccess: (relPath: string) => !relPath.startsWith("secret/") } as any
+
+		const result = await formatLocations(
+			[location("/project/src/foo.ts", 4), location("/project/secret/keys.ts", 0)],
+			"/project",
+			rooIgnoreController,
+		)
+
+		expect(result).toBe(
+			"src/foo.ts:5: export function foo() {\n(1 results in files ignored by .kilocodeignore not shown)",
+		)
+	})
+
+	it("limits the number of locations", async () => {
+		const locations = Array.from({ length: 60 }, (_, i) => location(`/project/src/file${i}.ts`, 0))
+
+		const result = (await formatLocations(locations, "/project")).split("\n")
+
+		expect(result).toHaveLength(51)
+		expect(result[50]).toBe("(10 more results not shown)")
+	})
+})
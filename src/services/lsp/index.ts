@@ -0,0 +1,171 @@
+// kilocode_change - new file
+import * as path from "path"
+import * as vscode from "vscode"
+
+import type { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
+
+const MAX_LOCATIONS = 50
+
+export type SymbolPosition = {
+	document: vscode.TextDocument
+	position: vscode.Position
+}
+
+function escapeRegExp(input: string): string {
+	return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Finds the column of a symbol on a line, preferring a whole-word match.
+ * @returns The zero-based column, or -1 when the symbol isn't on the line
+ */
+export function findSymbolColumn(lineText: string, symbol: string): number {
+	const wholeWord = new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`).exec(lineText)
+	return wholeWord ? wholeWord.index : lineText.indexOf(symbol)
+}
+
+/**
+ * Opens the document and locates a symbol on a line, so the model doesn't have to count columns.
+ * @param line - One-based line number
+ * @throws {Error} When the line is out of range or doesn't contain the symbol
+ */
+export async function resolveSymbolPosition(
+	absolutePath: string,
+	line: number,
+	symbol: string,
+): Promise<SymbolPosition> {
+	const document = await vscode.workspace.openTextDocument(vscode.Uri.file(absolutePath))
+
+	if (!Number.isInteger(line) || line < 1 || line > document.lineCount) {
+		throw new Error(`Line ${line} is out of range, the file has ${document.lineCount} lines`)
+	}
+
+	const column = findSymbolColumn(document.lineAt(line - 1).text, symbol)
+
+	if (column === -1) {
+		throw new Error(`Symbol '${symbol}' was not found on line ${line}`)
+	}
+
+	return { document, position: new vscode.Position(line - 1, column) }
+}
+
+export async function getDefinitions(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]> {
+	const definitions =
+		(await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+			"vscode.executeDefinitionProvider",
+			uri,
+			position,
+		)) ?? []
+
+	return definitions.map((definition) =>
+		"targetUri" in definition
+			? new vscode.Location(definition.targetUri, definition.targetSelectionRange ?? definition.targetRange)
+			: definition,
+	)
+}
+
+export async function getReferences(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]> {
+	return (
+		(await vscode.commands.executeCommand<vscode.Location[]>("vscode.executeReferenceProvider", uri, position)) ??
+		[]
+	)
+}
+
+export async function getHoverText(uri: vscode.Uri, position: vscode.Position): Promise<string> {
+	const hovers =
+		(await vscode.commands.executeCommand<vscode.Hover[]>("vscode.executeHoverProvider", uri, position)) ?? []
+
+	return hovers
+		.flatMap((hover) => hover.contents)
+		.map((content) => (typeof content === "string" ? content : content.value))
+		.map((content) => content.trim())
+		.filter(Boolean)
+		.join("\n\n")
+}
+
+export async function getRenameEdit(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	newName: string,
+): Promise<vscode.WorkspaceEdit | undefined> {
+	return vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+		"vscode.executeDocumentRenameProvider",
+		uri,
+		position,
+		newName,
+	)
+}
+
+/**
+ * Applies text edits to a document's content without touching the document.
+ */
+export function applyTextEdits(
+	document: Pick<vscode.TextDocument, "getText" | "offsetAt">,
+	edits: readonly vscode.TextEdit[],
+): string {
+	let content = document.getText()
+
+	const offsetEdits = edits
+		.map((edit) => ({
+			start: document.offsetAt(edit.range.start),
+			end: document.offsetAt(edit.range.end),
+			newText: edit.newText,
+		}))
+		.sort((a, b) => b.start - a.start)
+
+	for (const { start, end, newText } of offsetEdits) {
+		content = content.slice(0, start) + newText + content.slice(end)
+	}
+
+	return content
+}
+
+/**
+ * Formats locations as `path:line: source line`, relative to the workspace.
+ * Locations in files that are ignored by .kilocodeignore are left out.
+ */
+export async function formatLocations(
+	locations: vscode.Location[],
+	cwd: string,
+	rooIgnoreController?: RooIgnoreController,
+): Promise<string> {
+	const lines: string[] = []
+	let ignoredCount = 0
+
+	for (const location of locations) {
+		const relPath = path.relative(cwd, location.uri.fsPath).toPosix()
+
+		if (rooIgnoreController && !rooIgnoreController.validateAccess(relPath)) {
+			ignoredCount++
+			continue
+		}
+
+		if (lines.length === MAX_LOCATIONS) {
+			continue
+		}
+
+		let source = ""
+
+		try {
+			const document = await vscode.workspace.openTextDocument(location.uri)
+			source = document.lineAt(location.range.start.line).text.trim()
+		} catch {
+			// The location is still useful without its source line.
+		}
+
+		lines.push(`${relPath}:${location.range.start.line + 1}${source ? `: ${source}` : ""}`)
+	}
+
+	const shownCount = lines.length
+	const omittedCount = locations.length - ignoredCount - shownCount
+
+	if (omittedCount > 0) {
+		lines.push(`(${omittedCount} more results not shown)`)
+	}
+
+	if (ignoredCount > 0) {
+		lines.push(`(${ignoredCount} results in files ignored by .kilocodeignore not shown)`)
+	}
+
+	return lines.join("\n")
+}
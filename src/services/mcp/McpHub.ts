@@ -5,9 +5,17 @@ import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/
 import ReconnectingEventSource from "reconnecting-eventsource"
 import {
 	CallToolResultSchema,
+	CreateMessageRequest, // kilocode_change
+	CreateMessageRequestSchema, // kilocode_change
+	CreateMessageResult, // kilocode_change
+	GetPromptResultSchema, // kilocode_change
+	ListPromptsResultSchema, // kilocode_change
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
+	ListRootsRequestSchema, // kilocode_change
+	ListRootsResult, // kilocode_change
 	ListToolsResultSchema,
+	PromptListChangedNotificationSchema, // kilocode_change
 	ReadResourceResultSchema,
 } from "@modelcontextprotocol/sdk/types.js"
 import chokidar, { FSWatcher } from "chokidar"
@@ -22,6 +30,8 @@ import { t } from "../../i18n"
 import { ClineProvider } from "../../core/webview/ClineProvider"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import {
+	McpPrompt, // kilocode_change
+	McpPromptResponse, // kilocode_change
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
@@ -33,6 +43,7 @@ import { fileExistsAtPath } from "../../utils/fs"
 import { arePathsEqual } from "../../utils/path"
 import { injectVariables } from "../../utils/config"
 import { NotificationService } from "./kilocode/NotificationService"
+import { RooIgnoreController } from "../../core/ignore/RooIgnoreController" // kilocode_change
 
 export type McpConnection = {
 	server: McpServer
@@ -47,6 +58,7 @@ const BaseConfigSchema = z.object({
 	alwaysAllow: z.array(z.string()).default([]),
 	watchPaths: z.array(z.string()).optional(), // paths to watch for changes and restart server
 	disabledTools: z.array(z.string()).default([]),
+	alwaysAllowSampling: z.boolean().optional(), // kilocode_change
 })
 
 // Custom error messages for better user feedback
@@ -136,6 +148,7 @@ export class McpHub {
 	readonly kiloNotificationService = new NotificationService()
 	private refCount: number = 0 // Reference counter for active clients
 	private configChangeDebounceTimers: Map<string, NodeJS.Timeout> = new Map()
+	private rootIgnoreControllers: Map<string, Promise<RooIgnoreController>> = new Map() // kilocode_change
 
 	constructor(provider: ClineProvider) {
 		this.providerRef = new WeakRef(provider)
@@ -579,7 +592,7 @@ export class McpHub {
 					version: this.providerRef.deref()?.context.extension?.packageJSON?.version ?? "1.0.0",
 				},
 				{
-					capabilities: {},
+					capabilities: { sampling: {}, roots: { listChanged: true } }, // kilocode_change
 				},
 			)
 
@@ -754,12 +767,20 @@ export class McpHub {
 					source,
 					projectPath: source === "project" ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath : undefined,
 					errorHistory: [],
+					alwaysAllowSampling: configInjected.alwaysAllowSampling, // kilocode_change
 				},
 				client,
 				transport,
 			}
 			this.connections.push(connection)
 
+			// kilocode_change start
+			client.setRequestHandler(CreateMessageRequestSchema, (request) =>
+				this.handleSamplingRequest(name, source, request.params),
+			)
+			client.setRequestHandler(ListRootsRequestSchema, () => this.listRoots())
+			// kilocode_change end
+
 			// Connect (this will automatically start the transport)
 			await client.connect(transport)
 			connection.server.status = "connected"
@@ -768,10 +789,18 @@ export class McpHub {
 
 			this.kiloNotificationService.connect(name, connection.client)
 
+			// kilocode_change start
+			connection.client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+				connection.server.prompts = await this.fetchPromptsList(name, source)
+				await this.notifyWebviewOfServerChanges()
+			})
+			// kilocode_change end
+
 			// Initial fetch of tools and resources
 			connection.server.tools = await this.fetchToolsList(name, source)
 			connection.server.resources = await this.fetchResourcesList(name, source)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name, source)
+			connection.server.prompts = await this.fetchPromptsList(name, source) // kilocode_change
 		} catch (error) {
 			// Update status with error
 			const connection = this.findConnection(name, source)
@@ -926,6 +955,22 @@ export class McpHub {
 		}
 	}
 
+	// kilocode_change start
+	private async fetchPromptsList(serverName: string, source?: "global" | "project"): Promise<McpPrompt[]> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			if (!connection) {
+				return []
+			}
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+			return response?.prompts || []
+		} catch (error) {
+			// Servers without the prompts capability reject prompts/list
+			return []
+		}
+	}
+	// kilocode_change end
+
 	async deleteConnection(name: string, source?: "global" | "project"): Promise<void> {
 		// If source is provided, only delete connections from that source
 		const connections = source
@@ -1279,6 +1324,7 @@ export class McpHub {
 							serverName,
 							serverSource,
 						)
+						connection.server.prompts = await this.fetchPromptsList(serverName, serverSource) // kilocode_change
 					}
 				} catch (error) {
 					console.error(`Failed to refresh capabilities for ${serverName}:`, error)
@@ -1470,6 +1516,33 @@ export class McpHub {
 		)
 	}
 
+	// kilocode_change start
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments?: Record<string, string>,
+		source?: "global" | "project",
+	): Promise<McpPromptResponse> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+		return (await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: promptArguments,
+				},
+			},
+			GetPromptResultSchema,
+		)) as McpPromptResponse
+	}
+	// kilocode_change end
+
 	async callTool(
 		serverName: string,
 		toolName: string,
@@ -1632,6 +1705,117 @@ export class McpHub {
 		}
 	}
 
+	// kilocode_change start
+	async toggleSamplingAlwaysAllow(
+		serverName: string,
+		source: "global" | "project",
+		shouldAllow: boolean,
+	): Promise<void> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			if (!connection) {
+				throw new Error(`Server ${serverName} with source ${source} not found`)
+			}
+
+			await this.updateServerConfig(serverName, { alwaysAllowSampling: shouldAllow }, source)
+			connection.server.alwaysAllowSampling = shouldAllow
+			await this.notifyWebviewOfServerChanges()
+		} catch (error) {
+			this.showErrorMessage(
+				`Failed to toggle always allow for sampling on server "${serverName}" with source "${source}"`,
+				error,
+			)
+			throw error
+		}
+	}
+
+	/**
+	 * Answers roots/list with the workspace folders. A folder that sits inside another workspace folder
+	 * is left out when that folder's .kilocodeignore excludes it.
+	 */
+	private async listRoots(): Promise<ListRootsResult> {
+		const folders = vscode.workspace.workspaceFolders ?? []
+		const folderPaths = new Set(folders.map((folder) => folder.uri.fsPath))
+
+		for (const [folderPath, controller] of this.rootIgnoreControllers) {
+			if (!folderPaths.has(folderPath)) {
+				this.rootIgnoreControllers.delete(folderPath)
+				controller.then((c) => c.dispose()).catch(() => {})
+			}
+		}
+
+		const ignoreControllers = await Promise.all(folders.map((folder) => this.getRootIgnoreController(folder)))
+
+		return {
+			roots: folders
+				.filter((folder) =>
+					ignoreControllers.every((controller) => controller.validateAccess(folder.uri.fsPath)),
+				)
+				.map((folder) => ({ uri: folder.uri.toString(), name: folder.name })),
+		}
+	}
+
+	/**
+	 * Returns the ignore controller of a workspace folder. It is created on the first roots/list and
+	 * kept up to date by its own file watcher until the folder leaves the workspace or the hub is disposed.
+	 */
+	private getRootIgnoreController(folder: vscode.WorkspaceFolder): Promise<RooIgnoreController> {
+		let controller = this.rootIgnoreControllers.get(folder.uri.fsPath)
+
+		if (!controller) {
+			controller = (async () => {
+				const ignoreController = new RooIgnoreController(folder.uri.fsPath)
+				await ignoreController.initialize()
+				return ignoreController
+			})()
+			// Let the next roots/list try again instead of caching the failure
+			controller.catch(() => this.rootIgnoreControllers.delete(folder.uri.fsPath))
+			this.rootIgnoreControllers.set(folder.uri.fsPath, controller)
+		}
+
+		return controller
+	}
+
+	/**
+	 * Tells connected servers that the workspace folders changed so they can request roots/list again.
+	 */
+	public async notifyRootsChanged(): Promise<void> {
+		await Promise.all(
+			this.connections
+				.filter((connection) => connection.server.status === "connected" && !connection.server.disabled)
+				.map(async (connection) => {
+					try {
+						await connection.client.sendRootsListChanged()
+					} catch (error) {
+						console.error(`Failed to send roots list change to ${connection.server.name}:`, error)
+					}
+				}),
+		)
+	}
+
+	/**
+	 * Routes a sampling/createMessage request from a server to the active task, which asks the user
+	 * for approval and runs the completion through its provider.
+	 */
+	private async handleSamplingRequest(
+		serverName: string,
+		source: "global" | "project",
+		params: CreateMessageRequest["params"],
+	): Promise<CreateMessageResult> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection || connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is not available for sampling`)
+		}
+
+		const task = this.providerRef.deref()?.getCurrentCline()
+		if (!task) {
+			throw new Error("Sampling requests can only be handled while a task is active")
+		}
+
+		return task.handleMcpSamplingRequest(serverName, params)
+	}
+	// kilocode_change end
+
 	async toggleToolEnabledForPrompt(
 		serverName: string,
 		source: "global" | "project",
@@ -1664,6 +1848,13 @@ export class McpHub {
 		}
 		this.configChangeDebounceTimers.clear()
 
+		// kilocode_change start
+		for (const controller of this.rootIgnoreControllers.values()) {
+			controller.then((c) => c.dispose()).catch(() => {})
+		}
+		this.rootIgnoreControllers.clear()
+		// kilocode_change end
+
 		this.removeAllFileWatchers()
 		for (const connection of this.connections) {
 			try {
@@ -4,6 +4,8 @@ import type { ExtensionContext, Uri } from "vscode"
 import { ServerConfigSchema, McpHub } from "../McpHub"
 import fs from "fs/promises"
 import { vi, Mock } from "vitest"
+import * as vscode from "vscode" // kilocode_change
+import { RooIgnoreController } from "../../../core/ignore/RooIgnoreController" // kilocode_change
 
 // Mock fs/promises before importing anything that uses it
 vi.mock("fs/promises", () => ({
@@ -68,6 +70,7 @@ vi.mock("vscode", () => ({
 }))
 vi.mock("fs/promises")
 vi.mock("../../../core/webview/ClineProvider")
+vi.mock("../../../core/ignore/RooIgnoreController") // kilocode_change
 
 // Mock the MCP SDK modules
 vi.mock("@modelcontextprotocol/sdk/client/stdio.js", () => ({
@@ -167,6 +170,143 @@ describe("McpHub", () => {
 		}
 	})
 
+	// kilocode_change start
+	describe("sampling", () => {
+		const createConnection = (disabled?: boolean): McpConnection => ({
+			server: {
+				name: "test-server",
+				config: JSON.stringify({ type: "stdio", command: "node", args: ["test.js"] }),
+				status: "connected",
+				source: "global",
+				disabled,
+			},
+			client: {} as any,
+			transport: {} as any,
+		})
+
+		const params = {
+			maxTokens: 100,
+			messages: [{ role: "user" as const, content: { type: "text" as const, text: "hi" } }],
+		}
+
+		it("should save always allow sampling in the server config", async () => {
+			vi.mocked(fs.readFile).mockResolvedValueOnce(
+				JSON.stringify({ mcpServers: { "test-server": { command: "node", alwaysAllow: [] } } }),
+			)
+			const connection = createConnection()
+			mcpHub.connections = [connection]
+
+			await mcpHub.toggleSamplingAlwaysAllow("test-server", "global", true)
+
+			const writeCalls = vi.mocked(fs.writeFile).mock.calls
+			const writtenConfig = JSON.parse(writeCalls[writeCalls.length - 1][1] as string)
+			expect(writtenConfig.mcpServers["test-server"].alwaysAllowSampling).toBe(true)
+			expect(connection.server.alwaysAllowSampling).toBe(true)
+		})
+
+		it("should route sampling requests to the current task", async () => {
+			const result = { model: "m", role: "assistant", content: { type: "text", text: "hello" } }
+			const task = { handleMcpSamplingRequest: vi.fn().mockResolvedValue(result) }
+			mockProvider.getCurrentCline = vi.fn().mockReturnValue(task)
+			mcpHub.connections = [createConnection()]
+
+			await expect((mcpHub as any).handleSamplingRequest("test-server", "global", params)).resolves.toBe(result)
+			expect(task.handleMcpSamplingRequest).toHaveBeenCalledWith("test-server", params)
+		})
+
+		it("should reject sampling requests without an active task", async () => {
+			mockProvider.getCurrentCline = vi.fn().mockReturnValue(undefined)
+			mcpHub.connections = [createConnection()]
+
+			await expect((mcpHub as any).handleSamplingRequest("test-server", "global", params)).rejects.toThrow(
+				"Sampling requests can only be handled while a task is active",
+			)
+		})
+
+		it("should reject sampling requests from disabled servers", async () => {
+			mcpHub.connections = [createConnection(true)]
+
+			await expect((mcpHub as any).handleSamplingRequest("test-server", "global", params)).rejects.toThrow(
+				'Server "test-server" is not available for sampling',
+			)
+		})
+	})
+	// kilocode_change end
+
+	// kilocode_change start
+	describe("roots", () => {
+		const folder = (fsPath: string, name: string) => ({
+			uri: { fsPath, toString: () => `file://${fsPath}` },
+			name,
+		})
+
+		afterEach(() => {
+			;(vscode.workspace as any).workspaceFolders = []
+		})
+
+		it("should list workspace folders that are not excluded by .kilocodeignore", async () => {
+			;(vscode.workspace as any).workspaceFolders = [
+				folder("/workspace/app", "app"),
+				folder("/workspace/app/vendor", "vendor"),
+			]
+			const validateAccess = vi
+				.spyOn(RooIgnoreController.prototype, "validateAccess")
+				.mockImplementation((filePath) => filePath !== "/workspace/app/vendor")
+
+			const result = await (mcpHub as any).listRoots()
+
+			expect(result).toEqual({ roots: [{ uri: "file:///workspace/app", name: "app" }] })
+			validateAccess.mockRestore()
+		})
+
+		it("should reuse the ignore controllers and dispose them when their folder is removed", async () => {
+			;(vscode.workspace as any).workspaceFolders = [
+				folder("/workspace/app", "app"),
+				folder("/workspace/lib", "lib"),
+			]
+			const validateAccess = vi.spyOn(RooIgnoreController.prototype, "validateAccess").mockReturnValue(true)
+			const initialize = vi.spyOn(RooIgnoreController.prototype, "initialize")
+			const dispose = vi.spyOn(RooIgnoreController.prototype, "dispose")
+
+			await (mcpHub as any).listRoots()
+			await (mcpHub as any).listRoots()
+			expect(initialize).toHaveBeenCalledTimes(2)
+			const [app, lib] = initialize.mock.contexts
+
+			;(vscode.workspace as any).workspaceFolders = [folder("/workspace/app", "app")]
+			await (mcpHub as any).listRoots()
+			expect(initialize).toHaveBeenCalledTimes(2)
+			await vi.waitFor(() => expect(dispose).toHaveBeenCalledTimes(1))
+			expect(dispose.mock.contexts[0]).toBe(lib)
+
+			await mcpHub.dispose()
+			await vi.waitFor(() => expect(dispose).toHaveBeenCalledTimes(2))
+			expect(dispose.mock.contexts[1]).toBe(app)
+			validateAccess.mockRestore()
+			initialize.mockRestore()
+			dispose.mockRestore()
+		})
+
+		it("should notify connected servers when the roots change", async () => {
+			const createConnection = (name: string, status: "connected" | "disconnected", disabled?: boolean) => ({
+				server: { name, config: "{}", status, disabled },
+				client: { sendRootsListChanged: vi.fn().mockResolvedValue(undefined) } as any,
+				transport: {} as any,
+			})
+			const connected = createConnection("connected", "connected")
+			const disconnected = createConnection("disconnected", "disconnected")
+			const disabled = createConnection("disabled", "connected", true)
+			mcpHub.connections = [connected, disconnected, disabled]
+
+			await mcpHub.notifyRootsChanged()
+
+			expect(connected.client.sendRootsListChanged).toHaveBeenCalled()
+			expect(disconnected.client.sendRootsListChanged).not.toHaveBeenCalled()
+			expect(disabled.client.sendRootsListChanged).not.toHaveBeenCalled()
+		})
+	})
+	// kilocode_change end
+
 	describe("toggleToolAlwaysAllow", () => {
 		it("should add tool to always allow list when enabling", async () => {
 			const mockConfig = {
@@ -571,6 +711,61 @@ describe("McpHub", () => {
 		})
 	})
 
+	// kilocode_change start
+	describe("getPrompt", () => {
+		it("should request the prompt with its arguments", async () => {
+			const messages = [{ role: "user", content: { type: "text", text: "Review PR 42" } }]
+			const mockConnection: McpConnection = {
+				server: {
+					name: "test-server",
+					config: JSON.stringify({}),
+					status: "connected" as const,
+				},
+				client: {
+					request: vi.fn().mockResolvedValue({ messages }),
+				} as any,
+				transport: {} as any,
+			}
+
+			mcpHub.connections = [mockConnection]
+
+			const result = await mcpHub.getPrompt("test-server", "review_pr", { pr: "42" })
+
+			expect(result.messages).toEqual(messages)
+			expect(mockConnection.client.request).toHaveBeenCalledWith(
+				{
+					method: "prompts/get",
+					params: {
+						name: "review_pr",
+						arguments: { pr: "42" },
+					},
+				},
+				expect.any(Object),
+			)
+		})
+
+		it("should prevent getting prompts from disabled servers", async () => {
+			mcpHub.connections = [
+				{
+					server: { name: "disabled-server", config: "{}", status: "connected", disabled: true },
+					client: { request: vi.fn() } as any,
+					transport: {} as any,
+				},
+			]
+
+			await expect(mcpHub.getPrompt("disabled-server", "some-prompt")).rejects.toThrow(
+				'Server "disabled-server" is disabled',
+			)
+		})
+
+		it("should throw error if server not found", async () => {
+			await expect(mcpHub.getPrompt("non-existent-server", "some-prompt")).rejects.toThrow(
+				"No connection found for server: non-existent-server",
+			)
+		})
+	})
+	// kilocode_change end
+
 	describe("callTool", () => {
 		it("should execute tool successfully", async () => {
 			// Mock the connection with a minimal client implementation
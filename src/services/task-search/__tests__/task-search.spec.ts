@@ -0,0 +1,196 @@
+// kilocode_change - new file
+// npx vitest services/task-search/__tests__/task-search.spec.ts
+
+import fs from "fs/promises"
+import os from "os"
+import * as path from "path"
+
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import type { ApiMessage } from "../../../core/task-persistence/apiMessages"
+import { parseTaskSearchQuery, TaskSearchIndex } from "../index"
+
+vi.mock("../../../utils/storage", () => ({
+	getTaskDirectoryPath: vi.fn(async (globalStoragePath: string, taskId: string) => {
+		const taskDir = path.join(globalStoragePath, "tasks", taskId)
+		await fs.mkdir(taskDir, { recursive: true })
+		return taskDir
+	}),
+}))
+
+const createHistoryItem = (id: string, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+	id,
+	number: 1,
+	ts: new Date(2025, 5, 15).getTime(),
+	task: `Task ${id}`,
+	tokensIn: 0,
+	tokensOut: 0,
+	totalCost: 0.1,
+	workspace: "/workspace",
+	...overrides,
+})
+
+describe("parseTaskSearchQuery", () => {
+	it("parses words, phrases and filters", () => {
+		expect(parseTaskSearchQuery('Bedrock "cache  Points" mode:code after:2025-01-31 cost>0.5 cost<$2')).toEqual({
+			terms: ["bedrock"],
+			phrases: ["cache points"],
+			mode: "code",
+			after: new Date(2025, 0, 31).getTime(),
+			minCost: 0.5,
+			maxCost: 2,
+		})
+	})
+
+	it("searches for filters with invalid values as words", () => {
+		expect(parseTaskSearchQuery("before:yesterday cost>much")).toEqual({
+			terms: ["before:yesterday", "cost>much"],
+			phrases: [],
+		})
+	})
+})
+
+describe("TaskSearchIndex", () => {
+	let globalStoragePath: string
+
+	const writeTask = async (taskId: string, uiMessages: ClineMessage[], apiMessages: ApiMessage[] = []) => {
+		const taskDir = path.join(globalStoragePath, "tasks", taskId)
+		await fs.mkdir(taskDir, { recursive: true })
+		await fs.writeFile(path.join(taskDir, "ui_messages.json"), JSON.stringify(uiMessages))
+		await fs.writeFile(path.join(taskDir, "api_conversation_history.json"), JSON.stringify(apiMessages))
+	}
+
+	beforeEach(async () => {
+		globalStoragePath = await fs.mkdtemp(path.join(os.tmpdir(), "task-search-test-"))
+
+		await writeTask(
+			"bedrock",
+			[
+				{ ts: 1, type: "say", say: "text", text: "Fix the Bedrock provider" },
+				{ ts: 2, type: "say", say: "api_req_started", text: '{"cache":"points"}' },
+				{ ts: 3, type: "say", say: "text", text: "The Bedrock cache points were set on the wrong messages." },
+			],
+			[
+				{
+					role: "user",
+					ts: 1,
+					content: [
+						{ type: "text", text: "<task>Fix the Bedrock provider</task>" },
+						{
+							type: "text",
+							text: "<environment_details>\n# Current Mode\n<slug>code</slug>\n<name>Code</name>\n</environment_details>",
+						},
+					],
+				},
+				{
+					role: "assistant",
+					ts: 4,
+					content: "I moved the cache points to the last two user messages.",
+				},
+			],
+		)
+
+		await writeTask(
+			"docs",
+			[
+				{ ts: 10, type: "say", say: "text", text: "Document the cache settings" },
+				{ ts: 11, type: "say", say: "text", text: "Points about caching are in the docs now." },
+			],
+			[
+				{
+					role: "user",
+					ts: 10,
+					content: "<environment_details>\n# Current Mode\n<slug>architect</slug>\n</environment_details>",
+				},
+			],
+		)
+	})
+
+	afterEach(async () => {
+		await fs.rm(globalStoragePath, { recursive: true, force: true })
+	})
+
+	it("finds tasks by phrases in any message and returns snippets to jump to", async () => {
+		const index = new TaskSearchIndex(globalStoragePath)
+		const results = await index.search(
+			[createHistoryItem("bedrock"), createHistoryItem("docs")],
+			'"cache points" bedrock',
+		)
+
+		expect(results).toHaveLength(1)
+		expect(results[0].taskId).toBe("bedrock")
+		expect(results[0].snippets[0]).toEqual({
+			ts: 3,
+			text: "The Bedrock cache points were set on the wrong messages.",
+			highlights: [
+				[4, 11],
+				[12, 24],
+			],
+		})
+		expect(results[0].snippets.map(({ ts }) => ts)).toEqual([3, 1, 4])
+	})
+
+	it("doesn't match request metadata or environment details", async () => {
+		const index = new TaskSearchIndex(globalStoragePath)
+		const history = [createHistoryItem("bedrock"), createHistoryItem("docs")]
+
+		expect(await index.search(history, '"cache":"points"')).toEqual([])
+		expect(await index.search(history, "slug")).toEqual([])
+	})
+
+	it("filters by workspace, mode, date and cost", async () => {
+		const index = new TaskSearchIndex(globalStoragePath)
+		const history = [
+			createHistoryItem("bedrock", { totalCost: 1.5 }),
+			createHistoryItem("docs", { workspace: "/other", ts: new Date(2025, 6, 1).getTime() }),
+		]
+		const search = async (query: string, workspace?: string) =>
+			(await index.search(history, query, { workspace })).map(({ taskId }) => taskId)
+
+		expect(await search("cache")).toEqual(["bedrock", "docs"])
+		expect(await search("cache", "/workspace")).toEqual(["bedrock"])
+		expect(await search("cache mode:architect")).toEqual(["docs"])
+		expect(await search("mode:code")).toEqual(["bedrock"])
+		expect(await search("cache after:2025-06-20")).toEqual(["docs"])
+		expect(await search("cache before:2025-06-20")).toEqual(["bedrock"])
+		expect(await search("cache cost>1")).toEqual(["bedrock"])
+		expect(await search("cache cost<1")).toEqual(["docs"])
+	})
+
+	it("reads a task again when its history item changes", async () => {
+		const index = new TaskSearchIndex(globalStoragePath)
+
+		expect(await index.search([createHistoryItem("docs")], "sitemap")).toEqual([])
+
+		await writeTask("docs", [{ ts: 12, type: "say", say: "text", text: "Added the sitemap too." }])
+		expect(await index.search([createHistoryItem("docs")], "sitemap")).toEqual([])
+
+		expect(await index.search([createHistoryItem("docs", { ts: 12 })], "sitemap")).toEqual([
+			{
+				taskId: "docs",
+				score: 1,
+				snippets: [{ ts: 12, text: "Added the sitemap too.", highlights: [[10, 17]] }],
+			},
+		])
+	})
+
+	it("drops the least recently searched tasks beyond its size", async () => {
+		// Room for the documents of the docs task, but not of both tasks
+		const index = new TaskSearchIndex(globalStoragePath, 300)
+		const search = async (ids: string[], query: string) =>
+			(
+				await index.search(
+					ids.map((id) => createHistoryItem(id)),
+					query,
+				)
+			).map(({ taskId }) => taskId)
+
+		expect(await search(["bedrock", "docs"], "cache")).toEqual(["bedrock", "docs"])
+
+		await fs.rm(path.join(globalStoragePath, "tasks"), { recursive: true })
+
+		// The docs task is still in the index, the bedrock task is read again
+		expect(await search(["bedrock", "docs"], "cache")).toEqual(["docs"])
+		expect(await search(["docs"], "cache")).toEqual(["docs"])
+	})
+})
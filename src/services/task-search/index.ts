@@ -0,0 +1,381 @@
+// kilocode_change - new file
+import fs from "fs/promises"
+import * as path from "path"
+
+import type { ClineMessage, ClineSay, HistoryItem, TaskSearchResult, TaskSearchSnippet } from "@roo-code/types"
+
+import type { ApiMessage } from "../../core/task-persistence/apiMessages"
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getTaskDirectoryPath } from "../../utils/storage"
+
+export type TaskSearchQuery = {
+	/** Lowercased words that must all appear in the task */
+	terms: string[]
+	/** Lowercased quoted phrases that must all appear in the task */
+	phrases: string[]
+	/** Slug of a mode the task must have run in */
+	mode?: string
+	/** Only tasks last active at or after this time */
+	after?: number
+	/** Only tasks last active before this time */
+	before?: number
+	/** Only tasks that cost more than this */
+	minCost?: number
+	/** Only tasks that cost less than this */
+	maxCost?: number
+}
+
+export type TaskSearchOptions = {
+	/** Only search the tasks of this workspace */
+	workspace?: string
+	limit?: number
+}
+
+type TaskDocument = {
+	ts?: number
+	lowerText: string
+	// The text for snippets, left out when it's the same as the lowercased text
+	text?: string
+}
+
+type TaskIndexEntry = {
+	// The state of the history item the entry was read for
+	version: string
+	documents: TaskDocument[]
+	modes: Set<string>
+	// The number of characters the documents hold
+	size: number
+}
+
+const DEFAULT_LIMIT = 100
+const MAX_SNIPPETS_PER_TASK = 3
+const SNIPPET_CONTEXT_LENGTH = 60
+const SNIPPET_LENGTH = 200
+
+// Long messages are mostly file contents and command output, which are cut to keep the index small
+const MAX_DOCUMENT_LENGTH = 10_000
+
+// The least recently searched tasks are dropped from the index beyond this, and read again when they are searched
+const MAX_INDEX_SIZE = 20_000_000
+
+// Messages that only carry request metadata
+const IGNORED_SAYS: ClineSay[] = [
+	"api_req_started",
+	"api_req_finished",
+	"api_req_retried",
+	"api_req_retry_delayed",
+	"api_req_deleted",
+	"checkpoint_saved",
+]
+
+const ENVIRONMENT_DETAILS_REGEX = /<environment_details>[\s\S]*?<\/environment_details>/g
+const CURRENT_MODE_REGEX = /# Current Mode\s*<slug>([^<]+)<\/slug>/g
+
+function parseDate(value: string): number | undefined {
+	const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+	return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() : undefined
+}
+
+/**
+ * Parses a search query made of words and "quoted phrases", with optional filters: `mode:<slug>`,
+ * `after:YYYY-MM-DD` (on or after the day), `before:YYYY-MM-DD` (before the day), `cost>N` and `cost<N`.
+ * Filters with invalid values are searched for as words.
+ */
+export function parseTaskSearchQuery(query: string): TaskSearchQuery {
+	const parsed: TaskSearchQuery = { terms: [], phrases: [] }
+
+	for (const [, phrase, word] of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+		if (phrase !== undefined) {
+			const normalized = phrase.replace(/\s+/g, " ").trim().toLowerCase()
+
+			if (normalized) {
+				parsed.phrases.push(normalized)
+			}
+
+			continue
+		}
+
+		const filter = word.match(/^(mode|after|before):(.+)$/i)
+		const costFilter = word.match(/^cost([<>])\$?(\d+(?:\.\d+)?|\.\d+)$/i)
+
+		if (filter?.[1].toLowerCase() === "mode") {
+			parsed.mode = filter[2]
+		} else if (filter && parseDate(filter[2]) !== undefined) {
+			parsed[filter[1].toLowerCase() as "after" | "before"] = parseDate(filter[2])
+		} else if (costFilter) {
+			parsed[costFilter[1] === ">" ? "minCost" : "maxCost"] = Number(costFilter[2])
+		} else {
+			parsed.terms.push(word.toLowerCase())
+		}
+	}
+
+	return parsed
+}
+
+function createDocument(text: string, ts?: number): TaskDocument | undefined {
+	const normalized = text.replace(/\s+/g, " ").trim().slice(0, MAX_DOCUMENT_LENGTH)
+
+	if (!normalized) {
+		return undefined
+	}
+
+	const lowerText = normalized.toLowerCase()
+	return lowerText === normalized ? { ts, lowerText } : { ts, lowerText, text: normalized }
+}
+
+function getApiMessageTexts(message: ApiMessage): string[] {
+	if (typeof message.content === "string") {
+		return [message.content]
+	}
+
+	return message.content.flatMap((block) => {
+		if (block.type === "text") {
+			return [block.text]
+		}
+
+		if (block.type === "tool_result") {
+			return typeof block.content === "string"
+				? [block.content]
+				: (block.content ?? []).flatMap((part) => (part.type === "text" ? [part.text] : []))
+		}
+
+		return []
+	})
+}
+
+async function readJsonArray<T>(filePath: string): Promise<T[]> {
+	try {
+		const parsed = JSON.parse(await fs.readFile(filePath, "utf8"))
+		return Array.isArray(parsed) ? parsed : []
+	} catch {
+		return []
+	}
+}
+
+function countOccurrences(text: string, needle: string): number {
+	let count = 0
+
+	for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + needle.length)) {
+		count++
+	}
+
+	return count
+}
+
+function createSnippet(document: TaskDocument, needles: string[]): TaskSearchSnippet {
+	const firstMatch = Math.min(
+		...needles.map((needle) => document.lowerText.indexOf(needle)).filter((index) => index !== -1),
+	)
+	const text = document.text ?? document.lowerText
+	const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_LENGTH)
+	const end = Math.min(text.length, start + SNIPPET_LENGTH)
+	const prefix = start > 0 ? "…" : ""
+	const suffix = end < text.length ? "…" : ""
+	const lowerWindow = document.lowerText.slice(start, end)
+
+	const ranges = needles
+		.flatMap((needle) => {
+			const found: [number, number][] = []
+
+			for (
+				let index = lowerWindow.indexOf(needle);
+				index !== -1;
+				index = lowerWindow.indexOf(needle, index + 1)
+			) {
+				found.push([index, Math.min(index + needle.length, lowerWindow.length)])
+			}
+
+			return found
+		})
+		.sort((a, b) => a[0] - b[0])
+
+	// Merge overlapping matches, like a term inside a phrase
+	const highlights: [number, number][] = []
+
+	for (const [rangeStart, rangeEnd] of ranges) {
+		const last = highlights[highlights.length - 1]
+
+		if (last && rangeStart <= last[1]) {
+			last[1] = Math.max(last[1], rangeEnd)
+		} else {
+			highlights.push([rangeStart, rangeEnd])
+		}
+	}
+
+	return {
+		ts: document.ts,
+		text: prefix + text.slice(start, end) + suffix,
+		highlights: highlights.map(([rangeStart, rangeEnd]) => [rangeStart + prefix.length, rangeEnd + prefix.length]),
+	}
+}
+
+/**
+ * An in-memory full-text index of the persisted conversations of tasks. Tasks are read when they are first searched,
+ * and read again when their history item changes.
+ */
+export class TaskSearchIndex {
+	// In the order the tasks were last searched
+	private entries = new Map<string, TaskIndexEntry>()
+	private size = 0
+
+	constructor(
+		private readonly globalStoragePath: string,
+		private readonly maxSize = MAX_INDEX_SIZE,
+	) {}
+
+	/**
+	 * Finds the tasks of the history that match the query, the most relevant first, with snippets of the matching
+	 * messages.
+	 */
+	async search(history: HistoryItem[], query: string, options: TaskSearchOptions = {}): Promise<TaskSearchResult[]> {
+		const { terms, phrases, mode, after, before, minCost, maxCost } = parseTaskSearchQuery(query)
+		const needles = [...phrases, ...terms]
+		const results: (TaskSearchResult & { ts: number })[] = []
+
+		// Forget the tasks that were deleted
+		const historyIds = new Set(history.map((item) => item.id))
+
+		for (const taskId of this.entries.keys()) {
+			if (!historyIds.has(taskId)) {
+				this.deleteEntry(taskId)
+			}
+		}
+
+		for (const item of history) {
+			if (
+				(options.workspace !== undefined && item.workspace !== options.workspace) ||
+				(after !== undefined && item.ts < after) ||
+				(before !== undefined && item.ts >= before) ||
+				(minCost !== undefined && !(item.totalCost > minCost)) ||
+				(maxCost !== undefined && !(item.totalCost < maxCost))
+			) {
+				continue
+			}
+
+			const entry = await this.getEntry(item)
+
+			if (mode !== undefined && !entry.modes.has(mode)) {
+				continue
+			}
+
+			const matches = entry.documents
+				.map((document) => ({
+					document,
+					counts: needles.map((needle) => countOccurrences(document.lowerText, needle)),
+				}))
+				.filter(({ counts }) => counts.some((count) => count > 0))
+
+			if (needles.some((_, index) => !matches.some(({ counts }) => counts[index] > 0))) {
+				continue
+			}
+
+			const snippets: TaskSearchSnippet[] = []
+
+			// Prefer the messages that match the most of the query, in conversation order
+			const rankedMatches = [...matches].sort(
+				(a, b) => b.counts.filter((count) => count > 0).length - a.counts.filter((count) => count > 0).length,
+			)
+
+			for (const { document } of rankedMatches) {
+				const snippet = createSnippet(document, needles)
+
+				// The conversation history repeats the messages shown in the chat
+				if (
+					!snippets.some(({ ts, text }) => text === snippet.text || (ts !== undefined && ts === snippet.ts))
+				) {
+					snippets.push(snippet)
+				}
+
+				if (snippets.length === MAX_SNIPPETS_PER_TASK) {
+					break
+				}
+			}
+
+			results.push({
+				taskId: item.id,
+				ts: item.ts,
+				score: matches.reduce((score, { counts }) => score + counts.reduce((sum, count) => sum + count, 0), 0),
+				snippets,
+			})
+		}
+
+		return results
+			.sort((a, b) => b.score - a.score || b.ts - a.ts)
+			.slice(0, options.limit ?? DEFAULT_LIMIT)
+			.map(({ ts: _ts, ...result }) => result)
+	}
+
+	private async getEntry(item: HistoryItem): Promise<TaskIndexEntry> {
+		// The history item is updated whenever the messages of the task are saved
+		const version = [item.ts, item.size, item.totalCost].join(":")
+		const cached = this.entries.get(item.id)
+
+		if (cached?.version === version) {
+			this.entries.delete(item.id)
+			this.entries.set(item.id, cached)
+			return cached
+		}
+
+		const taskDir = await getTaskDirectoryPath(this.globalStoragePath, item.id)
+		const uiMessagesPath = path.join(taskDir, GlobalFileNames.uiMessages)
+		const apiHistoryPath = path.join(taskDir, GlobalFileNames.apiConversationHistory)
+
+		const [uiMessages, apiMessages] = await Promise.all([
+			readJsonArray<ClineMessage>(uiMessagesPath),
+			readJsonArray<ApiMessage>(apiHistoryPath),
+		])
+
+		const documents: (TaskDocument | undefined)[] = []
+		const modes = new Set<string>()
+
+		for (const message of uiMessages) {
+			if (message.text && !(message.say && IGNORED_SAYS.includes(message.say))) {
+				documents.push(createDocument(message.text, message.ts))
+			}
+		}
+
+		for (const message of apiMessages) {
+			for (const text of getApiMessageTexts(message)) {
+				for (const [, slug] of text.matchAll(CURRENT_MODE_REGEX)) {
+					modes.add(slug.trim())
+				}
+
+				documents.push(createDocument(text.replace(ENVIRONMENT_DETAILS_REGEX, ""), message.ts))
+			}
+		}
+
+		const indexedDocuments = documents.filter((document): document is TaskDocument => document !== undefined)
+		const entry: TaskIndexEntry = {
+			version,
+			documents: indexedDocuments,
+			modes,
+			size: indexedDocuments.reduce(
+				(size, { lowerText, text }) => size + lowerText.length + (text?.length ?? 0),
+				0,
+			),
+		}
+
+		this.deleteEntry(item.id)
+		this.entries.set(item.id, entry)
+		this.size += entry.size
+
+		for (const taskId of this.entries.keys()) {
+			if (this.size <= this.maxSize || taskId === item.id) {
+				break
+			}
+
+			this.deleteEntry(taskId)
+		}
+
+		return entry
+	}
+
+	private deleteEntry(taskId: string) {
+		const entry = this.entries.get(taskId)
+
+		if (entry) {
+			this.size -= entry.size
+			this.entries.delete(taskId)
+		}
+	}
+}
@@ -0,0 +1,108 @@
+// kilocode_change - new file
+// npx vitest services/tree-sitter/__tests__/symbols.spec.ts
+
+import * as path from "path"
+import { Language, Parser } from "web-tree-sitter"
+
+import { pythonQuery, typescriptQuery } from "../queries"
+import { editSymbolInSource, getSymbolDefinitions } from "../symbols"
+
+const source = `import { readFile } from "fs/promises"
+
+/** Parses source files */
+export class CodeParser {
+	private cache = new Map<string, string>()
+
+	async parseFile(filePath: string) {
+		return readFile(filePath, "utf8")
+	}
+}
+
+export const formatResult = (result: string) => {
+	return result.trim()
+}
+`
+
+async function createParser(language: string, query: string) {
+	await Parser.init()
+	const lang = await Language.load(path.join(process.cwd(), `dist/tree-sitter-${language}.wasm`))
+	const parser = new Parser()
+	parser.setLanguage(lang)
+	return { parser, query: lang.query(query) }
+}
+
+describe("symbols", () => {
+	let typescript: Awaited<ReturnType<typeof createParser>>
+
+	beforeAll(async () => {
+		typescript = await createParser("typescript", typescriptQuery)
+	})
+
+	it("should qualify nested symbols by their parents", () => {
+		const symbols = getSymbolDefinitions(typescript.parser.parse(source)!, typescript.query)
+
+		expect(symbols.map(({ name, startLine, endLine }) => ({ name, startLine, endLine }))).toEqual(
+			expect.arrayContaining([
+				{ name: "CodeParser", startLine: 4, endLine: 10 },
+				{ name: "CodeParser.parseFile", startLine: 7, endLine: 9 },
+			]),
+		)
+	})
+
+	it("should replace a method by its unqualified name and keep the indentation", () => {
+		const result = editSymbolInSource(
+			typescript,
+			source,
+			"parseFile",
+			'async parseFile(filePath: string) {\n\treturn this.cache.get(filePath) ?? readFile(filePath, "utf8")\n}',
+			"replace",
+		)
+
+		expect(result.symbol.name).toBe("CodeParser.parseFile")
+		expect(result.content).toBe(
+			source.replace(
+				'\t\treturn readFile(filePath, "utf8")',
+				'\t\treturn this.cache.get(filePath) ?? readFile(filePath, "utf8")',
+			),
+		)
+	})
+
+	it("should insert before a symbol's comments and after its end", () => {
+		const before = editSymbolInSource(typescript, source, "CodeParser", "const VERSION = 1", "before")
+		expect(before.content).toContain(
+			'"fs/promises"\n\nconst VERSION = 1\n\n/** Parses source files */\nexport class',
+		)
+
+		const after = editSymbolInSource(typescript, source, "formatResult", "export const VERSION = 1", "after")
+		expect(after.content).toBe(
+			source.replace("result.trim()\n}\n", "result.trim()\n}\n\nexport const VERSION = 1\n"),
+		)
+	})
+
+	it("should list the candidates when the symbol isn't found", () => {
+		expect(() => editSymbolInSource(typescript, source, "parse", "", "replace")).toThrow(
+			/Symbol 'parse' not found. The file defines these symbols:\n- CodeParser \(class, lines 4-10\)/,
+		)
+	})
+
+	it("should refuse edits that break the syntax", () => {
+		expect(() =>
+			editSymbolInSource(
+				typescript,
+				source,
+				"CodeParser.parseFile",
+				"async parseFile() {\n\treturn (",
+				"replace",
+			),
+		).toThrow(/the file would no longer parse: unexpected '}[^']*' at line 9\./)
+	})
+
+	it("should replace decorated Python functions as a whole", async () => {
+		const python = await createParser("python", pythonQuery)
+		const content = "class Api:\n    @cached\n    def get(self):\n        return 1\n"
+
+		const result = editSymbolInSource(python, content, "Api.get", "def get(self):\n    return 2", "replace")
+
+		expect(result.content).toBe("class Api:\n    def get(self):\n        return 2\n")
+	})
+})
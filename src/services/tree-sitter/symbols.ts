@@ -0,0 +1,297 @@
+// kilocode_change - new file
+import * as path from "path"
+import type { Node, Parser, Query, Tree } from "web-tree-sitter"
+
+import { loadRequiredLanguageParsers } from "./languageParser"
+
+const MAX_LISTED_SYMBOLS = 50
+
+// Nodes that wrap a definition without being one, like `export class Foo {}` or a decorated Python function
+const WRAPPER_NODE_TYPES = ["export_statement", "decorated_definition"]
+
+// Declarations of a single variable, so `const handler = () => {}` is replaced as a whole
+const DECLARATION_NODE_TYPES = ["lexical_declaration", "variable_declaration"]
+
+export type SymbolEditPosition = "replace" | "before" | "after"
+
+export type SymbolDefinition = {
+	/** The name qualified by the symbols it's nested in, like `CodeParser.parseFile` */
+	name: string
+	/** The kind from the language's definition query, like `class` or `method` */
+	kind: string
+	/** Offsets of the definition, including wrappers like `export` or decorators */
+	startIndex: number
+	endIndex: number
+	/** Offset of the comments directly above the definition, which stay with it when inserting before it */
+	leadingStartIndex: number
+	/** 1-based line numbers */
+	startLine: number
+	endLine: number
+}
+
+type SymbolParser = { parser: Parser; query: Query }
+
+function getDefinitionNode(node: Node): Node {
+	let definition = node
+
+	if (
+		definition.type === "variable_declarator" &&
+		definition.parent &&
+		DECLARATION_NODE_TYPES.includes(definition.parent.type) &&
+		definition.parent.namedChildCount === 1
+	) {
+		definition = definition.parent
+	}
+
+	while (definition.parent && WRAPPER_NODE_TYPES.includes(definition.parent.type)) {
+		definition = definition.parent
+	}
+
+	return definition
+}
+
+function getLeadingStartIndex(node: Node): number {
+	let first = node
+
+	while (
+		first.previousNamedSibling?.type === "comment" &&
+		first.previousNamedSibling.endPosition.row >= first.startPosition.row - 1
+	) {
+		first = first.previousNamedSibling
+	}
+
+	return first.startIndex
+}
+
+/**
+ * Lists the definitions the language's query captures, with names qualified by the definitions they are nested in.
+ * Definitions are sorted by their position in the file.
+ */
+export function getSymbolDefinitions(tree: Tree, query: Query): SymbolDefinition[] {
+	const found = new Map<string, Omit<SymbolDefinition, "name"> & { simpleName: string }>()
+
+	for (const match of query.matches(tree.rootNode)) {
+		const definitionCapture = match.captures.find((capture) => capture.name.startsWith("definition."))
+		const nameCapture =
+			match.captures.find((capture) => capture.name === `name.${definitionCapture?.name}`) ??
+			match.captures.find((capture) => capture.name.startsWith("name.definition."))
+		const definitionNode = definitionCapture?.node ?? nameCapture?.node.parent
+		// Unnamed definitions like arrow functions take the name of the variable they are assigned to
+		const nameNode =
+			nameCapture?.node ??
+			(definitionNode?.parent?.type === "variable_declarator"
+				? definitionNode.parent.childForFieldName("name")
+				: null)
+
+		if (!nameNode || !definitionNode) {
+			continue
+		}
+
+		const node = getDefinitionNode(nameCapture ? definitionNode : definitionNode.parent!)
+		const simpleName = nameNode.text
+		const key = `${node.startIndex}:${node.endIndex}:${simpleName}`
+
+		if (!found.has(key)) {
+			found.set(key, {
+				simpleName,
+				kind: (nameCapture ?? definitionCapture)!.name.replace(/^(name\.)?definition\./, ""),
+				startIndex: node.startIndex,
+				endIndex: node.endIndex,
+				leadingStartIndex: getLeadingStartIndex(node),
+				startLine: node.startPosition.row + 1,
+				endLine: node.endPosition.row + 1,
+			})
+		}
+	}
+
+	const sorted = [...found.values()].sort((a, b) => a.startIndex - b.startIndex || b.endIndex - a.endIndex)
+	const enclosing: SymbolDefinition[] = []
+
+	return sorted.map(({ simpleName, ...definition }) => {
+		while (enclosing.length > 0) {
+			const parent = enclosing[enclosing.length - 1]
+			const isSameRange = parent.startIndex === definition.startIndex && parent.endIndex === definition.endIndex
+
+			if (!isSameRange && parent.startIndex <= definition.startIndex && definition.endIndex <= parent.endIndex) {
+				break
+			}
+
+			enclosing.pop()
+		}
+
+		const parent = enclosing[enclosing.length - 1]
+		const symbol = { ...definition, name: parent ? `${parent.name}.${simpleName}` : simpleName }
+		enclosing.push(symbol)
+		return symbol
+	})
+}
+
+export function formatSymbolList(symbols: SymbolDefinition[]): string {
+	const listed = symbols
+		.slice(0, MAX_LISTED_SYMBOLS)
+		.map((symbol) => `- ${symbol.name} (${symbol.kind}, lines ${symbol.startLine}-${symbol.endLine})`)
+
+	if (symbols.length > MAX_LISTED_SYMBOLS) {
+		listed.push(`- ... and ${symbols.length - MAX_LISTED_SYMBOLS} more`)
+	}
+
+	return listed.join("\n")
+}
+
+/**
+ * Finds a symbol by its qualified name, or by its name alone when that is unique, like `parseFile` for
+ * `CodeParser.parseFile`. Throws an error listing the candidates when there is no single match.
+ */
+export function findSymbol(symbols: SymbolDefinition[], name: string): SymbolDefinition {
+	const exactMatches = symbols.filter((symbol) => symbol.name === name)
+	const matches =
+		exactMatches.length > 0 ? exactMatches : symbols.filter((symbol) => symbol.name.endsWith(`.${name}`))
+
+	if (matches.length === 1) {
+		return matches[0]
+	}
+
+	if (matches.length > 1) {
+		throw new Error(
+			`Symbol '${name}' is ambiguous, use one of these names or another editing tool:\n${formatSymbolList(matches)}`,
+		)
+	}
+
+	if (symbols.length === 0) {
+		throw new Error(`Symbol '${name}' not found, the file has no definitions that can be edited by symbol.`)
+	}
+
+	throw new Error(`Symbol '${name}' not found. The file defines these symbols:\n${formatSymbolList(symbols)}`)
+}
+
+function reindent(code: string, indentation: string, eol: string): string {
+	const lines = code
+		.replace(/^(\s*\n)+/, "")
+		.trimEnd()
+		.split(/\r?\n/)
+	const commonIndentation = Math.min(
+		...lines.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length),
+	)
+
+	return lines.map((line) => (line.trim() ? indentation + line.slice(commonIndentation) : "")).join(eol)
+}
+
+/**
+ * Replaces a symbol, or inserts code on the lines before or after it. The code is indented like the symbol,
+ * whatever indentation it was written with.
+ */
+export function applySymbolEdit(
+	content: string,
+	symbol: SymbolDefinition,
+	code: string,
+	position: SymbolEditPosition,
+): string {
+	const eol = content.includes("\r\n") ? "\r\n" : "\n"
+	const startIndex = position === "before" ? symbol.leadingStartIndex : symbol.startIndex
+	const lineStart = content.lastIndexOf("\n", startIndex - 1) + 1
+	const indentation = /^[ \t]*/.exec(content.slice(lineStart, startIndex))![0]
+	const indentedCode = reindent(code, indentation, eol)
+
+	if (position === "before") {
+		return content.slice(0, lineStart) + indentedCode + eol + eol + content.slice(lineStart)
+	}
+
+	if (position === "after") {
+		const lineEnd = content.indexOf("\n", symbol.endIndex)
+		const insertAt = lineEnd === -1 ? content.length : content[lineEnd - 1] === "\r" ? lineEnd - 1 : lineEnd
+		return content.slice(0, insertAt) + eol + eol + indentedCode + content.slice(insertAt)
+	}
+
+	return content.slice(0, symbol.startIndex) + indentedCode.slice(indentation.length) + content.slice(symbol.endIndex)
+}
+
+function findSyntaxError(node: Node): Node | undefined {
+	if (node.isMissing) {
+		return node
+	}
+
+	// Error nodes can wrap most of the file, so look for the innermost error first
+	if (!node.hasError) {
+		return undefined
+	}
+
+	for (const child of node.children) {
+		const error = child && findSyntaxError(child)
+
+		if (error) {
+			return error
+		}
+	}
+
+	return node
+}
+
+/**
+ * Edits a symbol in source code parsed by the given parser. Throws when the symbol can't be found, or when the
+ * edit leaves syntax errors in code that parsed without them.
+ */
+export function editSymbolInSource(
+	{ parser, query }: SymbolParser,
+	content: string,
+	name: string,
+	code: string,
+	position: SymbolEditPosition,
+): { content: string; symbol: SymbolDefinition } {
+	const tree = parser.parse(content)
+
+	if (!tree) {
+		throw new Error("Unable to parse the file.")
+	}
+
+	let newTree: Tree | null = null
+
+	try {
+		const symbol = findSymbol(getSymbolDefinitions(tree, query), name)
+		const newContent = applySymbolEdit(content, symbol, code, position)
+		newTree = parser.parse(newContent)
+
+		// Read the error node before the trees are deleted, their nodes don't outlive them.
+		const syntaxError = newTree && !tree.rootNode.hasError ? findSyntaxError(newTree.rootNode) : undefined
+
+		if (syntaxError) {
+			const line = syntaxError.startPosition.row + 1
+			const problem = syntaxError.isMissing ? `missing '${syntaxError.type}'` : `unexpected '${syntaxError.text}'`
+			throw new Error(
+				`The edit wasn't applied because the file would no longer parse: ${problem} at line ${line}. Check that the content is a complete ${symbol.kind} with balanced brackets.`,
+			)
+		}
+
+		return { content: newContent, symbol }
+	} finally {
+		tree.delete()
+		newTree?.delete()
+	}
+}
+
+/**
+ * Edits a symbol in the given file's content, using the tree-sitter parser for the file's language.
+ */
+export async function editSymbol(
+	filePath: string,
+	content: string,
+	name: string,
+	code: string,
+	position: SymbolEditPosition = "replace",
+): Promise<{ content: string; symbol: SymbolDefinition }> {
+	const ext = path.extname(filePath).toLowerCase().slice(1)
+	let parsers
+
+	try {
+		parsers = await loadRequiredLanguageParsers([filePath])
+	} catch {
+		throw new Error(`Editing by symbol isn't supported for .${ext} files, use another editing tool instead.`)
+	}
+
+	const symbolParser = parsers[ext] ?? parsers["embedded_template"]
+
+	if (!symbolParser) {
+		throw new Error(`Editing by symbol isn't supported for .${ext} files, use another editing tool instead.`)
+	}
+
+	return editSymbolInSource(symbolParser, content, name, code, position)
+}
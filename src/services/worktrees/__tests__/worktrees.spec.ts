@@ -0,0 +1,81 @@
+// kilocode_change - new file
+// npx vitest run src/services/worktrees/__tests__/worktrees.spec.ts
+
+import fs from "fs/promises"
+import path from "path"
+import os from "os"
+
+import { simpleGit } from "simple-git"
+
+import { fileExistsAtPath } from "../../../utils/fs"
+import { createTaskWorktree, mergeTaskWorktree, removeTaskWorktree } from ".."
+
+const tmpDir = path.join(os.tmpdir(), "TaskWorktrees")
+
+describe("task worktrees", () => {
+	let workspaceDir: string
+	let worktreesDir: string
+
+	beforeEach(async () => {
+		workspaceDir = path.join(tmpDir, `workspace-${Date.now()}`)
+		worktreesDir = path.join(tmpDir, `worktrees-${Date.now()}`)
+		await fs.mkdir(workspaceDir, { recursive: true })
+
+		const git = simpleGit(workspaceDir)
+		await git.init()
+		await git.addConfig("user.name", "Softcodes")
+		await git.addConfig("user.email", "support@kilocode.ai")
+		await fs.writeFile(path.join(workspaceDir, "a.txt"), "one\ntwo\nthree\n")
+		await fs.writeFile(path.join(workspaceDir, "b.txt"), "b\n")
+		await git.add(".")
+		await git.commit("Initial commit")
+	})
+
+	afterAll(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should start from the workspace's uncommitted changes and merge the worktree's changes back", async () => {
+		await fs.writeFile(path.join(workspaceDir, "b.txt"), "b changed\n")
+
+		const worktree = await createTaskWorktree(workspaceDir, "task-1", worktreesDir)
+
+		expect(await fs.readFile(path.join(worktree.workspacePath, "b.txt"), "utf8")).toBe("b changed\n")
+
+		await fs.writeFile(path.join(worktree.workspacePath, "a.txt"), "one\ntwo\nthree\nfour\n")
+		await fs.writeFile(path.join(worktree.workspacePath, "c.txt"), "new\n")
+
+		// The workspace keeps changing while the task runs
+		await fs.writeFile(path.join(workspaceDir, "a.txt"), "zero\none\ntwo\nthree\n")
+
+		const result = await mergeTaskWorktree(worktree)
+
+		expect(result).toEqual({ changedFiles: ["a.txt", "c.txt"], conflicts: [] })
+		expect(await fs.readFile(path.join(workspaceDir, "a.txt"), "utf8")).toBe("zero\none\ntwo\nthree\nfour\n")
+		expect(await fs.readFile(path.join(workspaceDir, "c.txt"), "utf8")).toBe("new\n")
+
+		await removeTaskWorktree(worktree)
+		expect(await fileExistsAtPath(worktree.worktreeDir)).toBe(false)
+	})
+
+	it("should report files changed on both sides as conflicts", async () => {
+		const worktree = await createTaskWorktree(workspaceDir, "task-2", worktreesDir)
+
+		await fs.writeFile(path.join(worktree.workspacePath, "a.txt"), "one\n2\nthree\n")
+		await fs.writeFile(path.join(workspaceDir, "a.txt"), "one\nTWO\nthree\n")
+
+		const result = await mergeTaskWorktree(worktree)
+
+		expect(result).toEqual({ changedFiles: ["a.txt"], conflicts: ["a.txt"] })
+		expect(await fs.readFile(path.join(workspaceDir, "a.txt"), "utf8")).toContain("<<<<<<<")
+
+		await removeTaskWorktree(worktree)
+	})
+
+	it("should refuse workspaces outside of git repositories", async () => {
+		const emptyDir = path.join(tmpDir, `empty-${Date.now()}`)
+		await fs.mkdir(emptyDir, { recursive: true })
+
+		await expect(createTaskWorktree(emptyDir, "task-3", worktreesDir)).rejects.toThrow("isn't in a git repository")
+	})
+})
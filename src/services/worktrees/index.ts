@@ -0,0 +1,195 @@
+// kilocode_change - new file
+import fs from "fs/promises"
+import os from "os"
+import * as path from "path"
+import { execFile } from "child_process"
+import { promisify } from "util"
+
+import simpleGit from "simple-git"
+
+export type TaskWorktree = {
+	/** The root of the repository the worktree was created from */
+	repositoryRoot: string
+	/** The root of the worktree */
+	worktreeDir: string
+	/** The worktree's counterpart of the workspace directory, which may be nested in the repository */
+	workspacePath: string
+	/** The commit the worktree was checked out at */
+	baseCommit: string
+}
+
+export type WorktreeMergeResult = {
+	/** Files changed in the worktree, relative to the repository root */
+	changedFiles: string[]
+	/** Files changed on both sides that couldn't be merged cleanly */
+	conflicts: string[]
+}
+
+export const getDefaultWorktreesDir = () => path.join(os.tmpdir(), "kilocode-worktrees")
+
+const execFileAsync = promisify(execFile)
+
+const splitLines = (output: string) => output.split("\n").filter((line) => line.trim())
+
+/**
+ * Creates a detached worktree of the repository containing the workspace, so a task can change files without
+ * affecting the workspace. The worktree starts from the workspace's tracked files as they are, including changes
+ * that aren't committed yet. Untracked files aren't copied.
+ */
+export async function createTaskWorktree(
+	workspacePath: string,
+	taskId: string,
+	worktreesDir = getDefaultWorktreesDir(),
+): Promise<TaskWorktree> {
+	const git = simpleGit(workspacePath)
+
+	if (!(await git.checkIsRepo())) {
+		throw new Error(`${workspacePath} isn't in a git repository.`)
+	}
+
+	const repositoryRoot = (await git.revparse(["--show-toplevel"])).trim()
+	let baseCommit: string
+
+	try {
+		// `stash create` commits the working tree without touching it or the stash, and prints nothing when it's clean
+		baseCommit = (await git.raw(["stash", "create"])).trim() || (await git.revparse(["HEAD"])).trim()
+	} catch {
+		throw new Error(`The git repository at ${repositoryRoot} has no commits yet.`)
+	}
+
+	const worktreeDir = path.join(worktreesDir, taskId)
+	await fs.mkdir(worktreesDir, { recursive: true })
+	await git.raw(["worktree", "add", "--detach", worktreeDir, baseCommit])
+
+	return {
+		repositoryRoot,
+		worktreeDir,
+		workspacePath: path.join(worktreeDir, path.relative(repositoryRoot, workspacePath)),
+		baseCommit,
+	}
+}
+
+async function readFileIfExists(filePath: string): Promise<Buffer | undefined> {
+	return fs.readFile(filePath).catch(() => undefined)
+}
+
+const isSame = (a: Buffer | undefined, b: Buffer | undefined) => (a && b ? a.equals(b) : a === b)
+
+const isBinary = (content: Buffer) => content.includes(0)
+
+/**
+ * Merges the three versions of a text file with `git merge-file`.
+ *
+ * @returns The merged content, with conflict markers where both sides changed the same lines
+ */
+async function mergeFile(
+	repositoryRoot: string,
+	ours: Buffer,
+	base: Buffer,
+	theirs: Buffer,
+): Promise<{ content: Buffer; hasConflicts: boolean }> {
+	const mergeDir = await fs.mkdtemp(path.join(os.tmpdir(), "kilocode-merge-"))
+	const [oursFile, baseFile, theirsFile] = ["workspace", "original", "subtask"].map((name) =>
+		path.join(mergeDir, name),
+	)
+
+	try {
+		await Promise.all([
+			fs.writeFile(oursFile, ours),
+			fs.writeFile(baseFile, base),
+			fs.writeFile(theirsFile, theirs),
+		])
+		let hasConflicts = false
+
+		try {
+			await execFileAsync(
+				"git",
+				["merge-file", "-L", "workspace", "-L", "original", "-L", "subtask", oursFile, baseFile, theirsFile],
+				{ cwd: repositoryRoot },
+			)
+		} catch (error) {
+			// The exit code is the number of conflicts, or negative when the merge failed
+			const code = (error as { code?: unknown }).code
+
+			if (typeof code !== "number" || code < 0) {
+				throw error
+			}
+
+			hasConflicts = true
+		}
+
+		return { content: await fs.readFile(oursFile), hasConflicts }
+	} finally {
+		await fs.rm(mergeDir, { recursive: true, force: true })
+	}
+}
+
+/**
+ * Applies the changes made in a worktree to the repository's working tree, leaving the index alone. Files that also
+ * changed in the repository since the worktree was created are merged, with conflict markers where both sides changed
+ * the same lines. When a binary file or a file deleted on one side changed on both, the repository's version is kept
+ * and the file is reported as a conflict.
+ */
+export async function mergeTaskWorktree({
+	repositoryRoot,
+	worktreeDir,
+	baseCommit,
+}: TaskWorktree): Promise<WorktreeMergeResult> {
+	const worktreeGit = simpleGit(worktreeDir)
+	await worktreeGit.raw(["add", "--all"])
+
+	const changedFiles = splitLines(
+		await worktreeGit.raw(["diff", "--cached", "--name-only", "--no-renames", baseCommit]),
+	)
+	const conflicts: string[] = []
+
+	for (const file of changedFiles) {
+		const targetPath = path.join(repositoryRoot, file)
+		const base = await worktreeGit.showBuffer([`${baseCommit}:${file}`]).catch(() => undefined)
+		const theirs = await readFileIfExists(path.join(worktreeDir, file))
+		const ours = await readFileIfExists(targetPath)
+
+		if (isSame(ours, theirs)) {
+			continue
+		}
+
+		if (isSame(ours, base)) {
+			if (theirs) {
+				await fs.mkdir(path.dirname(targetPath), { recursive: true })
+				await fs.writeFile(targetPath, theirs)
+			} else {
+				await fs.rm(targetPath, { force: true })
+			}
+
+			continue
+		}
+
+		if (ours && theirs && !isBinary(ours) && !isBinary(theirs)) {
+			const merged = await mergeFile(repositoryRoot, ours, base ?? Buffer.alloc(0), theirs)
+			await fs.writeFile(targetPath, merged.content)
+
+			if (!merged.hasConflicts) {
+				continue
+			}
+		}
+
+		conflicts.push(file)
+	}
+
+	return { changedFiles, conflicts }
+}
+
+/**
+ * Removes a worktree and its files, whether or not its changes were merged.
+ */
+export async function removeTaskWorktree({ repositoryRoot, worktreeDir }: TaskWorktree): Promise<void> {
+	const git = simpleGit(repositoryRoot)
+
+	try {
+		await git.raw(["worktree", "remove", "--force", worktreeDir])
+	} catch {
+		// The worktree directory may already be gone, let git forget about it
+		await fs.rm(worktreeDir, { recursive: true, force: true })
+		await git.raw(["worktree", "prune"])
+	}
+}
@@ -10,16 +10,20 @@ import type {
 	OrganizationAllowList,
 	CloudUserInfo,
 	ShareVisibility,
+	SpendBudgetStatus, // kilocode_change
+	ParallelSubtaskStatus, // kilocode_change
+	TaskSearchResult, // kilocode_change
 } from "@roo-code/types"
 
 import { GitCommit } from "../utils/git"
 
-import { McpServer } from "./mcp"
+import { McpSamplingRequest, McpServer } from "./mcp" // kilocode_change
 import { McpMarketplaceCatalog, McpDownloadResponse } from "./kilocode/mcp"
 import { Mode } from "./modes"
 import { RouterModels } from "./api"
 import { ProfileDataResponsePayload, BalanceDataResponsePayload } from "./WebviewMessage" // kilocode_change
 import { ClineRulesToggles } from "./cline-rules" // kilocode_change
+import type { RuleScope } from "./kilocode/rules" // kilocode_change
 import type { MarketplaceItem } from "@roo-code/types"
 
 // Type for marketplace installed metadata
@@ -49,6 +53,19 @@ export interface LanguageModelChatSelector {
 	id?: string
 }
 
+// kilocode_change start
+export interface CheckpointFileHunk {
+	header: string
+	lines: string[]
+}
+
+// A file that differs between a checkpoint and the current workspace.
+export interface CheckpointFileChange {
+	path: string
+	hunks: CheckpointFileHunk[]
+}
+// kilocode_change end
+
 // Represents JSON data that is sent from extension to webview, called
 // ExtensionMessage and has 'type' enum which can be 'plusButtonClicked' or
 // 'settingsButtonClicked' or 'hello'. Webview will hold state.
@@ -64,6 +81,8 @@ export interface ExtensionMessage {
 		| "mcpServers"
 		| "enhancedPrompt"
 		| "commitSearchResults"
+		| "taskSearchResults" // kilocode_change
+		| "scrollToMessage" // kilocode_change
 		| "listApiConfig"
 		| "routerModels"
 		| "openAiModels"
@@ -115,6 +134,7 @@ export interface ExtensionMessage {
 		| "marketplaceInstallResult"
 		| "marketplaceData"
 		| "mermaidFixResponse" // kilocode_change
+		| "checkpointFiles" // kilocode_change
 		| "shareTaskSuccess"
 		| "codeIndexSettingsSaved"
 		| "codeIndexSecretStatus"
@@ -151,6 +171,8 @@ export interface ExtensionMessage {
 	vsCodeLmModels?: { vendor?: string; family?: string; version?: string; id?: string }[]
 	mcpServers?: McpServer[]
 	commits?: GitCommit[]
+	taskSearchResults?: TaskSearchResult[] // kilocode_change
+	messageTs?: number // kilocode_change
 	listApiConfig?: ProviderSettingsEntry[]
 	mode?: Mode
 	customMode?: ModeConfig
@@ -189,12 +211,17 @@ export interface ExtensionMessage {
 	localRules?: ClineRulesToggles
 	globalWorkflows?: ClineRulesToggles
 	localWorkflows?: ClineRulesToggles
+	// kilocode_change start
+	nestedRules?: Record<string, ClineRulesToggles>
+	ruleScopes?: Record<string, RuleScope>
+	// kilocode_change end
 	marketplaceItems?: MarketplaceItem[]
 	marketplaceInstalledMetadata?: MarketplaceInstalledMetadata
 	fixedCode?: string | null // For mermaidFixResponse // kilocode_change
 	visibility?: ShareVisibility
 	rulesFolderPath?: string
 	settings?: any
+	checkpointFiles?: { commitHash: string; files: CheckpointFileChange[] } // kilocode_change
 }
 
 export type ExtensionState = Pick<
@@ -222,6 +249,12 @@ export type ExtensionState = Pick<
 	| "alwaysAllowUpdateTodoList"
 	| "allowedCommands"
 	| "allowedMaxRequests"
+	// kilocode_change start
+	| "taskSpendLimit"
+	| "dailySpendLimit"
+	| "profileSpendLimits"
+	| "spendWarningPercent"
+	// kilocode_change end
 	| "browserToolEnabled"
 	| "browserViewportSize"
 	| "showAutoApproveMenu" // kilocode_change
@@ -267,6 +300,7 @@ export type ExtensionState = Pick<
 	| "localRulesToggles" // kilocode_change
 	| "globalWorkflowToggles" // kilocode_change
 	| "commitMessageApiConfigId" // kilocode_change
+	| "mcpSamplingApiConfigId" // kilocode_change
 	| "autocompleteApiConfigId" // kilocode_change
 	| "condensingApiConfigId"
 	| "customCondensingPrompt"
@@ -281,6 +315,12 @@ export type ExtensionState = Pick<
 	apiConfiguration?: ProviderSettings
 	uriScheme?: string
 	uiKind?: string // kilocode_change
+	fallbackApiConfigIds?: string[] // kilocode_change
+	spendBudgets?: SpendBudgetStatus[] // kilocode_change
+	// kilocode_change start
+	parallelSubtasks?: ParallelSubtaskStatus[]
+	focusedParallelSubtaskId?: string
+	// kilocode_change end
 	shouldShowAnnouncement: boolean
 
 	taskHistory: HistoryItem[]
@@ -345,7 +385,21 @@ export interface ClineSayTool {
 		| "finishTask"
 		| "searchAndReplace"
 		| "insertContent"
+		// kilocode_change start
+		| "goToDefinition"
+		| "findReferences"
+		| "getHoverInfo"
+		| "renameSymbol"
+		| "replaceSymbol"
+		| "deletedFile"
+		| "movedFile"
+		| "readProcessOutput"
+		| "waitForProcessOutput"
+		| "killProcess"
+		| "newParallelTasks"
+	// kilocode_change end
 	path?: string
+	newPath?: string // kilocode_change: destination of a moved file
 	diff?: string
 	content?: string
 	regex?: string
@@ -354,6 +408,7 @@ export interface ClineSayTool {
 	reason?: string
 	isOutsideWorkspace?: boolean
 	isProtected?: boolean
+	protectedPattern?: string // kilocode_change: matching .kilocodeprotected pattern
 	additionalFileCount?: number // Number of additional files in the same read_file request
 	search?: string
 	replace?: string
@@ -363,6 +418,12 @@ export interface ClineSayTool {
 	endLine?: number
 	lineNumber?: number
 	query?: string
+	searchMode?: "semantic" | "hybrid" // kilocode_change
+	symbol?: string // kilocode_change
+	newName?: string // kilocode_change
+	position?: "replace" | "before" | "after" // kilocode_change
+	processName?: string // kilocode_change: name of a background process started by execute_command
+	tasks?: string[] // kilocode_change: messages of the subtasks started by new_parallel_tasks
 	batchFiles?: Array<{
 		path: string
 		lineSnippet: string
@@ -375,6 +436,7 @@ export interface ClineSayTool {
 		changeCount: number
 		key: string
 		content: string
+		isProtected?: boolean // kilocode_change
 		diffs?: Array<{
 			content: string
 			startLine?: number
@@ -413,10 +475,11 @@ export type BrowserActionResult = {
 
 export interface ClineAskUseMcpServer {
 	serverName: string
-	type: "use_mcp_tool" | "access_mcp_resource"
+	type: "use_mcp_tool" | "access_mcp_resource" | "sampling" // kilocode_change
 	toolName?: string
 	arguments?: string
 	uri?: string
+	sampling?: McpSamplingRequest // kilocode_change
 	response?: string
 }
 
@@ -429,6 +492,20 @@ export interface ClineApiReqInfo {
 	cost?: number
 	cancelReason?: ClineApiReqCancelReason
 	streamingFailedMessage?: string
+	model?: string // kilocode_change
 }
 
 export type ClineApiReqCancelReason = "streaming_failed" | "user_cancelled"
+
+// kilocode_change start
+export type ApiFailoverReason = "unavailable" | "context_window"
+
+export interface ClineApiFailoverInfo {
+	fromProfile?: string
+	fromModel: string
+	toProfile: string
+	toModel: string
+	reason: ApiFailoverReason
+	error?: string
+}
+// kilocode_change end
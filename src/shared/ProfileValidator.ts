@@ -86,6 +86,7 @@ export class ProfileValidator {
 				return profile.requestyModelId
 			case "human-relay":
 			case "fake-ai":
+			case "replay": // kilocode_change
 			default:
 				return undefined
 		}
@@ -88,6 +88,12 @@ export interface WebviewMessage {
 		| "alwaysAllowMcp"
 		| "alwaysAllowModeSwitch"
 		| "allowedMaxRequests"
+		// kilocode_change start
+		| "taskSpendLimit"
+		| "dailySpendLimit"
+		| "profileSpendLimits"
+		| "spendWarningPercent"
+		// kilocode_change end
 		| "alwaysAllowSubtasks"
 		| "alwaysAllowUpdateTodoList"
 		| "autoCondenseContext"
@@ -111,6 +117,7 @@ export interface WebviewMessage {
 		| "restartMcpServer"
 		| "refreshAllMcpServers"
 		| "toggleToolAlwaysAllow"
+		| "toggleSamplingAlwaysAllow" // kilocode_change
 		| "toggleToolEnabledForPrompt"
 		| "toggleMcpServer"
 		| "updateMcpTimeout"
@@ -134,6 +141,7 @@ export interface WebviewMessage {
 		| "mcpEnabled"
 		| "enableMcpServerCreation"
 		| "searchCommits"
+		| "searchTaskHistory" // kilocode_change
 		| "alwaysApproveResubmit"
 		| "requestDelaySeconds"
 		| "setApiConfigPassword"
@@ -145,6 +153,8 @@ export interface WebviewMessage {
 		| "systemPrompt"
 		| "enhancementApiConfigId"
 		| "commitMessageApiConfigId" // kilocode_change
+		| "mcpSamplingApiConfigId" // kilocode_change
+		| "fallbackApiConfigIds" // kilocode_change
 		| "autocompleteApiConfigId" // kilocode_change
 		| "updateExperimental"
 		| "autoApprovalEnabled"
@@ -154,6 +164,8 @@ export interface WebviewMessage {
 		| "openCustomModesSettings"
 		| "checkpointDiff"
 		| "checkpointRestore"
+		| "checkpointFiles" // kilocode_change
+		| "checkpointRestoreFiles" // kilocode_change
 		| "deleteMcpServer"
 		| "maxOpenTabsContext"
 		| "maxWorkspaceFiles"
@@ -224,6 +236,8 @@ export interface WebviewMessage {
 		| "profileThresholds"
 		| "editMessage" // kilocode_change
 		| "systemNotificationsEnabled" // kilocode_change
+		| "focusParallelSubtask" // kilocode_change
+		| "cancelParallelSubtask" // kilocode_change
 		| "shareTaskSuccess"
 		| "exportMode"
 		| "exportModeResult"
@@ -275,6 +289,8 @@ export interface WebviewMessage {
 	dataUrls?: string[]
 	values?: Record<string, any>
 	query?: string
+	workspace?: string // kilocode_change: limits searchTaskHistory to the tasks of a workspace
+	messageTs?: number // kilocode_change: the message to scroll to when showing a task
 	setting?: string
 	slug?: string
 	modeConfig?: ModeConfig
@@ -298,6 +314,7 @@ export interface WebviewMessage {
 		// Global state settings
 		codebaseIndexEnabled: boolean
 		codebaseIndexQdrantUrl: string
+		codebaseIndexVectorStoreProvider?: "qdrant" | "local" // kilocode_change
 		codebaseIndexEmbedderProvider: "openai" | "ollama" | "openai-compatible" | "gemini"
 		codebaseIndexEmbedderBaseUrl?: string
 		codebaseIndexEmbedderModelId: string
@@ -356,6 +373,23 @@ export const checkoutRestorePayloadSchema = z.object({
 
 export type CheckpointRestorePayload = z.infer<typeof checkoutRestorePayloadSchema>
 
+// kilocode_change start
+export const checkpointFilesPayloadSchema = z.object({
+	commitHash: z.string(),
+})
+
+export type CheckpointFilesPayload = z.infer<typeof checkpointFilesPayloadSchema>
+
+export const checkpointRestoreFilesPayloadSchema = z.object({
+	commitHash: z.string(),
+	paths: z.array(z.string()).min(1),
+	// Restores only this hunk of the first path instead of the whole files.
+	hunkIndex: z.number().int().nonnegative().optional(),
+})
+
+export type CheckpointRestoreFilesPayload = z.infer<typeof checkpointRestoreFilesPayloadSchema>
+// kilocode_change end
+
 export interface IndexingStatusPayload {
 	state: "Standby" | "Indexing" | "Indexed" | "Error"
 	message: string
@@ -378,6 +412,8 @@ export type InstallMarketplaceItemWithParametersPayload = z.infer<
 export type WebViewMessagePayload =
 	| CheckpointDiffPayload
 	| CheckpointRestorePayload
+	| CheckpointFilesPayload // kilocode_change
+	| CheckpointRestoreFilesPayload // kilocode_change
 	| IndexingStatusPayload
 	| IndexClearedPayload
 	| ProfileDataResponsePayload // kilocode_change
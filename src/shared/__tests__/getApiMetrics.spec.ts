@@ -125,6 +125,28 @@ describe("getApiMetrics", () => {
 			expect(result.totalCost).toBe(0.01) // 0.005 + 0.002 + 0.003
 			expect(result.contextTokens).toBe(210) // 50 + 150 + 3 + 7 (from the last api_req_started message)
 		})
+
+		// kilocode_change start
+		it("should add MCP sampling usage without changing context tokens", () => {
+			const messages: ClineMessage[] = [
+				createApiReqStartedMessage('{"tokensIn":100,"tokensOut":200,"cost":0.005}', 1000),
+				{
+					type: "ask",
+					ask: "use_mcp_server",
+					text: '{"serverName":"docs","type":"sampling"}',
+					mcpSamplingUsage: { tokensIn: 40, tokensOut: 60, cacheWrites: 0, cacheReads: 0, cost: 0.001 },
+					ts: 2000,
+				},
+			]
+
+			const result = getApiMetrics(messages)
+
+			expect(result.totalTokensIn).toBe(140)
+			expect(result.totalTokensOut).toBe(260)
+			expect(result.totalCost).toBeCloseTo(0.006)
+			expect(result.contextTokens).toBe(300)
+		})
+		// kilocode_change end
 	})
 
 	describe("Edge cases", () => {
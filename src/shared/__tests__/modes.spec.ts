@@ -9,7 +9,18 @@ vi.mock("../../core/prompts/sections/custom-instructions", () => ({
 	addCustomInstructions: vi.fn().mockResolvedValue("Combined instructions"),
 }))
 
-import { isToolAllowedForMode, FileRestrictionError, getFullModeDetails, modes, getModeSelection } from "../modes"
+import {
+	isToolAllowedForMode,
+	FileRestrictionError,
+	getFullModeDetails,
+	modes,
+	getModeSelection,
+	// kilocode_change start
+	getModeBySlug,
+	getModeInheritanceChain,
+	ModeInheritanceError,
+	// kilocode_change end
+} from "../modes"
 import { addCustomInstructions } from "../../core/prompts/sections/custom-instructions"
 
 describe("isToolAllowedForMode", () => {
@@ -704,3 +715,70 @@ describe("getModeSelection", () => {
 		expect(selection.baseInstructions).toBe(promptComponentAsk.customInstructions)
 	})
 })
+
+// kilocode_change start
+describe("mode inheritance", () => {
+	const docsMode: ModeConfig = {
+		slug: "docs",
+		name: "Docs",
+		roleDefinition: "",
+		customInstructions: "Write short sentences.",
+		groups: [["edit", { fileRegex: "\\.md$" }]],
+		removeGroups: ["command"],
+		extends: "code",
+	}
+
+	it("should merge a mode's deltas into the mode it extends", () => {
+		const code = modes.find((mode) => mode.slug === "code")!
+		const docs = getModeBySlug("docs", [docsMode])!
+
+		expect(docs.roleDefinition).toBe(code.roleDefinition)
+		expect(docs.customInstructions).toBe("Write short sentences.")
+		expect(docs.groups).toEqual(["read", ["edit", { fileRegex: "\\.md$" }], "browser", "mcp"])
+		expect(isToolAllowedForMode("execute_command", "docs", [docsMode])).toBe(false)
+		expect(() =>
+			isToolAllowedForMode("write_to_file", "docs", [docsMode], undefined, { path: "a.ts", content: "x" }),
+		).toThrow(FileRestrictionError)
+	})
+
+	it("should resolve chains of custom modes and append their instructions", () => {
+		const apiDocs: ModeConfig = {
+			slug: "api-docs",
+			name: "API Docs",
+			roleDefinition: "You document APIs",
+			customInstructions: "Link every endpoint.",
+			groups: [],
+			extends: "docs",
+		}
+
+		const resolved = getModeBySlug("api-docs", [docsMode, apiDocs])!
+
+		expect(resolved.roleDefinition).toBe("You document APIs")
+		expect(resolved.customInstructions).toBe("Write short sentences.\n\nLink every endpoint.")
+		expect(resolved.groups).toEqual(getModeBySlug("docs", [docsMode])!.groups)
+	})
+
+	it("should let a custom mode extend the built-in mode it overrides", () => {
+		const code: ModeConfig = { slug: "code", name: "Code", roleDefinition: "", groups: [], extends: "code" }
+
+		expect(getModeBySlug("code", [code])!.groups).toEqual(modes.find((mode) => mode.slug === "code")!.groups)
+	})
+
+	it("should detect cycles and unknown parents", () => {
+		const a: ModeConfig = { slug: "a", name: "A", roleDefinition: "", groups: [], extends: "b" }
+		const b: ModeConfig = { slug: "b", name: "B", roleDefinition: "", groups: [], extends: "a" }
+		const orphan: ModeConfig = {
+			slug: "orphan",
+			name: "Orphan",
+			roleDefinition: "",
+			groups: [],
+			extends: "missing",
+		}
+
+		expect(() => getModeInheritanceChain(a, [a, b])).toThrow(ModeInheritanceError)
+		expect(() => getModeInheritanceChain(a, [a, b])).toThrow("a -> b -> a")
+		expect(() => getModeInheritanceChain(orphan, [orphan])).toThrow("unknown mode 'missing'")
+		expect(getModeBySlug("a", [a, b])).toBe(a)
+	})
+})
+// kilocode_change end
@@ -21,6 +21,7 @@ export function checkExistKey(config: ProviderSettings | undefined) {
 		config.lmStudioModelId,
 		config.vsCodeLmModelSelector,
 		config.kilocodeModel, // kilocode_change
+		config.replayCassetteDir, // kilocode_change
 	].some((value) => value !== undefined)
 
 	return hasSecretKey || hasOtherConfig
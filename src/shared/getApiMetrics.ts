@@ -13,6 +13,7 @@ export type ParsedApiReqStartedTextType = {
  *
  * This function processes 'condense_context' messages and 'api_req_started' messages that have been
  * combined with their corresponding 'api_req_finished' messages by the combineApiRequests function.
+ * MCP sampling usage recorded on 'use_mcp_server' approvals counts towards the totals but not the context tokens.
  * It extracts and sums up the tokensIn, tokensOut, cacheWrites, cacheReads, and cost from these messages.
  *
  * @param messages - An array of ClineMessage objects to process.
@@ -63,6 +64,20 @@ export function getApiMetrics(messages: ClineMessage[]) {
 		} else if (message.type === "say" && message.say === "condense_context") {
 			result.totalCost += message.contextCondense?.cost ?? 0
 		}
+		// kilocode_change start
+		else if (message.type === "ask" && message.ask === "use_mcp_server" && message.mcpSamplingUsage) {
+			const { tokensIn, tokensOut, cacheWrites, cacheReads, cost } = message.mcpSamplingUsage
+			result.totalTokensIn += tokensIn
+			result.totalTokensOut += tokensOut
+			if (typeof cacheWrites === "number") {
+				result.totalCacheWrites = (result.totalCacheWrites ?? 0) + cacheWrites
+			}
+			if (typeof cacheReads === "number") {
+				result.totalCacheReads = (result.totalCacheReads ?? 0) + cacheReads
+			}
+			result.totalCost += cost
+		}
+		// kilocode_change end
 	})
 
 	// Calculate context tokens, from the last API request started or condense context message
@@ -1 +1,11 @@
 export const allowedExtensions = [".md", ".txt"]
+
+// kilocode_change start
+/**
+ * The `applies_to` globs of a rule file, and whether they match a file the current task has read or edited.
+ */
+export type RuleScope = {
+	appliesTo: string[]
+	active: boolean
+}
+// kilocode_change end
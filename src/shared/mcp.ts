@@ -13,11 +13,13 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[] // kilocode_change
 	disabled?: boolean
 	timeout?: number
 	source?: "global" | "project"
 	projectPath?: string
 	instructions?: string
+	alwaysAllowSampling?: boolean // kilocode_change
 }
 
 export type McpTool = {
@@ -42,6 +44,72 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+// kilocode_change start
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPrompt = {
+	name: string
+	title?: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptResponse = {
+	_meta?: Record<string, any>
+	description?: string
+	messages: Array<{
+		role: "user" | "assistant"
+		content:
+			| { type: "text"; text: string }
+			| { type: "image"; data: string; mimeType: string }
+			| { type: "audio"; data: string; mimeType: string }
+			| { type: "resource"; resource: { uri: string; mimeType?: string; text?: string; blob?: string } }
+	}>
+}
+
+export const MCP_PROMPT_COMMAND_PREFIX = "mcp:"
+
+/**
+ * Slash command name that invokes an MCP prompt, e.g. `mcp:github:review_pr`.
+ * Returns undefined when the names contain characters slash commands cannot carry.
+ */
+export function getMcpPromptCommandName(serverName: string, promptName: string): string | undefined {
+	if (!/^[a-zA-Z0-9_-]+$/.test(serverName) || !/^[a-zA-Z0-9_:-]+$/.test(promptName)) {
+		return undefined
+	}
+	return `${MCP_PROMPT_COMMAND_PREFIX}${serverName}:${promptName}`
+}
+
+/**
+ * Splits an MCP prompt slash command name back into server and prompt names.
+ */
+export function parseMcpPromptCommandName(commandName: string): { serverName: string; promptName: string } | undefined {
+	if (!commandName.startsWith(MCP_PROMPT_COMMAND_PREFIX)) {
+		return undefined
+	}
+	const rest = commandName.slice(MCP_PROMPT_COMMAND_PREFIX.length)
+	const separatorIndex = rest.indexOf(":")
+	if (separatorIndex <= 0 || separatorIndex === rest.length - 1) {
+		return undefined
+	}
+	return { serverName: rest.slice(0, separatorIndex), promptName: rest.slice(separatorIndex + 1) }
+}
+
+/**
+ * What the user sees when approving a sampling/createMessage request from an MCP server.
+ * Image and audio content is replaced by a short placeholder.
+ */
+export type McpSamplingRequest = {
+	systemPrompt?: string
+	messages: Array<{ role: "user" | "assistant"; text: string }>
+	maxTokens: number
+}
+// kilocode_change end
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
@@ -140,12 +140,118 @@ export const modes: readonly ModeConfig[] = [
 // Export the default mode slug
 export const defaultModeSlug = modes[0].slug
 
+// kilocode_change start
+export class ModeInheritanceError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = "ModeInheritanceError"
+	}
+}
+
+function getParentMode(mode: ModeConfig, customModes?: ModeConfig[]): ModeConfig | undefined {
+	// A custom mode extending its own slug builds on the built-in mode it overrides
+	if (mode.extends === mode.slug) {
+		return modes.find((m) => m.slug === mode.slug)
+	}
+
+	return customModes?.find((m) => m.slug === mode.extends) ?? modes.find((m) => m.slug === mode.extends)
+}
+
+/**
+ * Returns the mode followed by the modes it extends, nearest first.
+ * Throws a ModeInheritanceError when a mode extends an unknown mode or the chain loops back on itself.
+ */
+export function getModeInheritanceChain(mode: ModeConfig, customModes?: ModeConfig[]): ModeConfig[] {
+	const chain = [mode]
+
+	for (let current = mode; current.extends; ) {
+		const parent = getParentMode(current, customModes)
+
+		if (!parent) {
+			throw new ModeInheritanceError(`Mode '${current.slug}' extends unknown mode '${current.extends}'`)
+		}
+
+		if (chain.includes(parent)) {
+			const cycle = [...chain, parent].map((m) => m.slug).join(" -> ")
+			throw new ModeInheritanceError(`Mode inheritance cycle: ${cycle}`)
+		}
+
+		chain.push(parent)
+		current = parent
+	}
+
+	return chain
+}
+
+function mergeGroups(parentGroups: readonly GroupEntry[], mode: ModeConfig): GroupEntry[] {
+	const removed = new Set(mode.removeGroups ?? [])
+	const groups = parentGroups.filter((group) => !removed.has(getGroupName(group)))
+
+	for (const group of mode.groups) {
+		const index = groups.findIndex((g) => getGroupName(g) === getGroupName(group))
+
+		if (index === -1) {
+			groups.push(group)
+		} else {
+			// Lets a mode narrow an inherited group, like limiting `edit` to a tighter fileRegex
+			groups[index] = group
+		}
+	}
+
+	return groups
+}
+
+function mergeModeConfig(parent: ModeConfig, mode: ModeConfig): ModeConfig {
+	const customInstructions = [parent.customInstructions, mode.customInstructions]
+		.filter((instructions) => instructions?.trim())
+		.join("\n\n")
+
+	return {
+		slug: mode.slug,
+		name: mode.name,
+		roleDefinition: mode.roleDefinition || parent.roleDefinition,
+		whenToUse: mode.whenToUse ?? parent.whenToUse,
+		description: mode.description ?? parent.description,
+		customInstructions: customInstructions || undefined,
+		groups: mergeGroups(parent.groups, mode),
+		source: mode.source,
+		iconName: mode.iconName ?? parent.iconName,
+		extends: mode.extends,
+	}
+}
+
+/**
+ * Returns the effective config of a mode, with everything it inherits through `extends` merged in.
+ */
+export function resolveModeConfig(mode: ModeConfig, customModes?: ModeConfig[]): ModeConfig {
+	if (!mode.extends) {
+		return mode
+	}
+
+	try {
+		const [self, ...ancestors] = getModeInheritanceChain(mode, customModes)
+		const root = ancestors.pop()!
+
+		// Walk back down from the root so each mode's deltas apply on top of its resolved parent
+		return [...ancestors.reverse(), self].reduce((parent, child) => mergeModeConfig(parent, child), {
+			...root,
+			extends: undefined,
+			removeGroups: undefined,
+		} as ModeConfig)
+	} catch (error) {
+		// Only hand-edited mode files get here, CustomModesManager refuses changes that orphan a mode
+		console.error(`[resolveModeConfig] ${error instanceof Error ? error.message : String(error)}`)
+		return mode
+	}
+}
+// kilocode_change end
+
 // Helper functions
 export function getModeBySlug(slug: string, customModes?: ModeConfig[]): ModeConfig | undefined {
 	// Check custom modes first
 	const customMode = customModes?.find((mode) => mode.slug === slug)
 	if (customMode) {
-		return customMode
+		return resolveModeConfig(customMode, customModes) // kilocode_change
 	}
 	// Then check built-in modes
 	return modes.find((mode) => mode.slug === slug)
@@ -173,10 +279,10 @@ export function getAllModes(customModes?: ModeConfig[]): ModeConfig[] {
 		const index = allModes.findIndex((mode) => mode.slug === customMode.slug)
 		if (index !== -1) {
 			// Override existing mode
-			allModes[index] = customMode
+			allModes[index] = resolveModeConfig(customMode, customModes) // kilocode_change
 		} else {
 			// Add new mode
-			allModes.push(customMode)
+			allModes.push(resolveModeConfig(customMode, customModes)) // kilocode_change
 		}
 	})
 
@@ -202,7 +308,10 @@ export function findModeBySlug(slug: string, modes: readonly ModeConfig[] | unde
  * If neither is found, the default mode is used.
  */
 export function getModeSelection(mode: string, promptComponent?: PromptComponent, customModes?: ModeConfig[]) {
-	const customMode = findModeBySlug(mode, customModes)
+	// kilocode_change start
+	const rawCustomMode = findModeBySlug(mode, customModes)
+	const customMode = rawCustomMode && resolveModeConfig(rawCustomMode, customModes)
+	// kilocode_change end
 	const builtInMode = findModeBySlug(mode, modes)
 
 	// If we have a custom mode, use it entirely
@@ -67,6 +67,15 @@ export const toolParamNames = [
 	"query",
 	"args",
 	"todos",
+	"search_mode", // kilocode_change
+	"symbol", // kilocode_change
+	"new_name", // kilocode_change
+	"position", // kilocode_change
+	// kilocode_change start
+	"timeout",
+	"background",
+	"name",
+	// kilocode_change end
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -82,7 +91,7 @@ export interface ToolUse {
 export interface ExecuteCommandToolUse extends ToolUse {
 	name: "execute_command"
 	// Pick<Record<ToolParamName, string>, "command"> makes "command" required, but Partial<> makes it optional
-	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd">>
+	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd" | "timeout" | "background" | "name">> // kilocode_change
 }
 
 export interface ReadFileToolUse extends ToolUse {
@@ -107,7 +116,7 @@ export interface InsertCodeBlockToolUse extends ToolUse {
 
 export interface CodebaseSearchToolUse extends ToolUse {
 	name: "codebase_search"
-	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path">>
+	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path" | "search_mode">> // kilocode_change
 }
 
 export interface SearchFilesToolUse extends ToolUse {
@@ -135,6 +144,35 @@ export interface UseMcpToolToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "server_name" | "tool_name" | "arguments">>
 }
 
+// kilocode_change start
+export interface UseCustomToolToolUse extends ToolUse {
+	name: "use_custom_tool"
+	params: Partial<Pick<Record<ToolParamName, string>, "tool_name" | "arguments">>
+}
+// kilocode_change end
+
+// kilocode_change start
+export interface CodeNavigationToolUse extends ToolUse {
+	name: "go_to_definition" | "find_references" | "get_hover_info"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "line" | "symbol">>
+}
+
+export interface RenameSymbolToolUse extends ToolUse {
+	name: "rename_symbol"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "line" | "symbol" | "new_name">>
+}
+
+export interface BackgroundProcessToolUse extends ToolUse {
+	name: "read_process_output" | "wait_for_process_output" | "kill_process"
+	params: Partial<Pick<Record<ToolParamName, string>, "name" | "regex" | "timeout">>
+}
+
+export interface ReplaceSymbolToolUse extends ToolUse {
+	name: "replace_symbol"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "symbol" | "content" | "position">>
+}
+// kilocode_change end
+
 export interface AccessMcpResourceToolUse extends ToolUse {
 	name: "access_mcp_resource"
 	params: Partial<Pick<Record<ToolParamName, string>, "server_name" | "uri">>
@@ -160,6 +198,13 @@ export interface NewTaskToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "mode" | "message">>
 }
 
+// kilocode_change start
+export interface NewParallelTasksToolUse extends ToolUse {
+	name: "new_parallel_tasks"
+	params: Partial<Pick<Record<ToolParamName, string>, "mode" | "args">>
+}
+// kilocode_change end
+
 export interface ReportBugToolUse extends ToolUse {
 	name: "report_bug"
 	params: Partial<Pick<Record<ToolParamName, string>, "title" | "description">>
@@ -193,6 +238,7 @@ export const TOOL_DISPLAY_NAMES: Record<ToolName, string> = {
 	attempt_completion: "complete tasks",
 	switch_mode: "switch modes",
 	new_task: "create new task",
+	new_parallel_tasks: "create parallel tasks", // kilocode_change
 	insert_content: "insert content",
 	search_and_replace: "search and replace",
 	new_rule: "create new rule",
@@ -200,6 +246,17 @@ export const TOOL_DISPLAY_NAMES: Record<ToolName, string> = {
 	condense: "condense the current context window", // kilocode_change
 	codebase_search: "codebase search",
 	update_todo_list: "update todo list",
+	use_custom_tool: "use custom tools", // kilocode_change
+	// kilocode_change start
+	go_to_definition: "go to definitions",
+	find_references: "find references",
+	get_hover_info: "get hover info",
+	rename_symbol: "rename symbols",
+	replace_symbol: "replace symbols",
+	read_process_output: "read process output",
+	wait_for_process_output: "wait for process output",
+	kill_process: "kill processes",
+	// kilocode_change end
 } as const
 
 // Define available tool groups.
@@ -212,22 +269,37 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 			"list_files",
 			"list_code_definition_names",
 			"codebase_search",
+			// kilocode_change start
+			"go_to_definition",
+			"find_references",
+			"get_hover_info",
+			// kilocode_change end
 		],
 	},
 	edit: {
-		tools: ["apply_diff", "write_to_file", "insert_content", "search_and_replace", "new_rule"],
+		tools: [
+			"apply_diff",
+			"write_to_file",
+			"insert_content",
+			"search_and_replace",
+			"new_rule",
+			// kilocode_change start
+			"rename_symbol",
+			"replace_symbol",
+			// kilocode_change end
+		],
 	},
 	browser: {
 		tools: ["browser_action"],
 	},
 	command: {
-		tools: ["execute_command"],
+		tools: ["execute_command", "read_process_output", "wait_for_process_output", "kill_process"], // kilocode_change
 	},
 	mcp: {
 		tools: ["use_mcp_tool", "access_mcp_resource"],
 	},
 	modes: {
-		tools: ["switch_mode", "new_task"],
+		tools: ["switch_mode", "new_task", "new_parallel_tasks"], // kilocode_change
 		alwaysAvailable: true,
 	},
 }
@@ -238,9 +310,11 @@ export const ALWAYS_AVAILABLE_TOOLS: ToolName[] = [
 	"attempt_completion",
 	"switch_mode",
 	"new_task",
+	"new_parallel_tasks", // kilocode_change
 	"report_bug",
 	"condense", // kilocode_Change
 	"update_todo_list",
+	"use_custom_tool", // kilocode_change: each custom tool is checked against the mode's groups when used
 ] as const
 
 export type DiffResult =
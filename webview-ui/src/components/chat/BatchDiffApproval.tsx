@@ -1,11 +1,13 @@
 import React, { memo, useState } from "react"
 import CodeAccordian from "../common/CodeAccordian"
+import { SHIELD_SYMBOL } from "./ProtectedFileNotice" // kilocode_change
 
 interface FileDiff {
 	path: string
 	changeCount: number
 	key: string
 	content: string
+	isProtected?: boolean // kilocode_change
 	diffs?: Array<{
 		content: string
 		startLine?: number
@@ -39,14 +41,23 @@ export const BatchDiffApproval = memo(({ files = [], ts }: BatchDiffApprovalProp
 					const combinedDiff = file.diffs?.map((diff) => diff.content).join("\n\n") || file.content
 
 					return (
-						<div key={`${file.path}-${ts}`}>
-							<CodeAccordian
-								path={file.path}
-								code={combinedDiff}
-								language="diff"
-								isExpanded={expandedFiles[file.path] || false}
-								onToggleExpand={() => handleToggleExpand(file.path)}
-							/>
+						<div key={`${file.path}-${ts}`} className="flex items-start gap-1">
+							{/* kilocode_change start */}
+							{file.isProtected && (
+								<span className="pt-2" aria-hidden="true">
+									{SHIELD_SYMBOL}
+								</span>
+							)}
+							{/* kilocode_change end */}
+							<div className="flex-1 min-w-0">
+								<CodeAccordian
+									path={file.path}
+									code={combinedDiff}
+									language="diff"
+									isExpanded={expandedFiles[file.path] || false}
+									onToggleExpand={() => handleToggleExpand(file.path)}
+								/>
+							</div>
 						</div>
 					)
 				})}
@@ -5,9 +5,14 @@ import { useTranslation, Trans } from "react-i18next"
 import deepEqual from "fast-deep-equal"
 import { VSCodeBadge, VSCodeButton } from "@vscode/webview-ui-toolkit/react"
 
-import type { ClineMessage } from "@roo-code/types"
+import type { ClineMessage, SpendBudgetStatus } from "@roo-code/types" // kilocode_change: SpendBudgetStatus
 
-import { ClineApiReqInfo, ClineAskUseMcpServer, ClineSayTool } from "@roo/ExtensionMessage"
+import {
+	ClineApiFailoverInfo, // kilocode_change
+	ClineApiReqInfo,
+	ClineAskUseMcpServer,
+	ClineSayTool,
+} from "@roo/ExtensionMessage"
 import { COMMAND_OUTPUT_STRING } from "@roo/combineCommandSequences"
 import { safeJsonParse } from "@roo/safeJsonParse"
 import { FollowUpData, SuggestionItem } from "@roo-code/types"
@@ -28,6 +33,7 @@ import MarkdownBlock from "../common/MarkdownBlock"
 import { ReasoningBlock } from "./ReasoningBlock"
 // import Thumbnails from "../common/Thumbnails" // kilocode_change
 import McpResourceRow from "../mcp/McpResourceRow"
+import McpSamplingRow from "../mcp/McpSamplingRow" // kilocode_change
 
 // import { Mention } from "./Mention" // kilocode_change
 import { CheckpointSaved } from "./checkpoints/CheckpointSaved"
@@ -46,6 +52,7 @@ import { KiloChatRowGutterBar } from "../kilocode/chat/KiloChatRowGutterBar" //
 import { AutoApprovedRequestLimitWarning } from "./AutoApprovedRequestLimitWarning"
 import { CondenseContextErrorRow, CondensingContextRow, ContextCondenseRow } from "./ContextCondenseRow"
 import CodebaseSearchResultsDisplay from "./CodebaseSearchResultsDisplay"
+import { ProtectedFileNotice } from "./ProtectedFileNotice" // kilocode_change
 import { cn } from "@/lib/utils"
 import { KiloChatRowUserFeedback } from "../kilocode/chat/KiloChatRowUserFeedback" // kilocode_change
 
@@ -175,6 +182,13 @@ export const ChatRowContent = ({
 		return [undefined, undefined, undefined]
 	}, [message.text, message.say])
 
+	// kilocode_change start
+	const apiReqModel = useMemo(
+		() => (message.say === "api_req_started" ? safeJsonParse<ClineApiReqInfo>(message.text)?.model : undefined),
+		[message.text, message.say],
+	)
+	// kilocode_change end
+
 	// When resuming task, last wont be api_req_failed but a resume_task
 	// message, so api_req_started will show loading spinner. That's why we just
 	// remove the last api_req_started that failed without streaming anything.
@@ -238,7 +252,9 @@ export const ChatRowContent = ({
 					<span style={{ color: normalColor, fontWeight: "bold" }}>
 						{mcpServerUse.type === "use_mcp_tool"
 							? t("chat:mcp.wantsToUseTool", { serverName: mcpServerUse.serverName })
-							: t("chat:mcp.wantsToAccessResource", { serverName: mcpServerUse.serverName })}
+							: mcpServerUse.type === "sampling" // kilocode_change
+								? t("chat:mcp.wantsToSample", { serverName: mcpServerUse.serverName }) // kilocode_change
+								: t("chat:mcp.wantsToAccessResource", { serverName: mcpServerUse.serverName })}
 					</span>,
 				]
 			case "completion_result":
@@ -345,6 +361,15 @@ export const ChatRowContent = ({
 				style={{ color: "var(--vscode-foreground)", marginBottom: "-1.5px" }}></span>
 		)
 
+		// kilocode_change start
+		const protectedEditLabel = tool.protectedPattern
+			? t("chat:fileOperations.wantsToEditUserProtected")
+			: t("chat:fileOperations.wantsToEditProtected")
+		const protectionNotice = tool.isProtected && message.type === "ask" && (
+			<ProtectedFileNotice pattern={tool.protectedPattern} />
+		)
+		// kilocode_change end
+
 		switch (tool.tool) {
 			case "editedExistingFile":
 			case "appliedDiff":
@@ -377,12 +402,13 @@ export const ChatRowContent = ({
 							)}
 							<span style={{ fontWeight: "bold" }}>
 								{tool.isProtected
-									? t("chat:fileOperations.wantsToEditProtected")
+									? protectedEditLabel /* kilocode_change */
 									: tool.isOutsideWorkspace
 										? t("chat:fileOperations.wantsToEditOutsideWorkspace")
 										: t("chat:fileOperations.wantsToEdit")}
 							</span>
 						</div>
+						{protectionNotice /* kilocode_change */}
 						<CodeAccordian
 							path={tool.path}
 							code={tool.content ?? tool.diff}
@@ -408,7 +434,7 @@ export const ChatRowContent = ({
 							)}
 							<span style={{ fontWeight: "bold" }}>
 								{tool.isProtected
-									? t("chat:fileOperations.wantsToEditProtected")
+									? protectedEditLabel /* kilocode_change */
 									: tool.isOutsideWorkspace
 										? t("chat:fileOperations.wantsToEditOutsideWorkspace")
 										: tool.lineNumber === 0
@@ -418,6 +444,7 @@ export const ChatRowContent = ({
 												})}
 							</span>
 						</div>
+						{protectionNotice /* kilocode_change */}
 						<CodeAccordian
 							path={tool.path}
 							code={tool.diff}
@@ -443,12 +470,13 @@ export const ChatRowContent = ({
 							)}
 							<span style={{ fontWeight: "bold" }}>
 								{tool.isProtected && message.type === "ask"
-									? t("chat:fileOperations.wantsToEditProtected")
+									? protectedEditLabel /* kilocode_change */
 									: message.type === "ask"
 										? t("chat:fileOperations.wantsToSearchReplace")
 										: t("chat:fileOperations.didSearchReplace")}
 							</span>
 						</div>
+						{protectionNotice /* kilocode_change */}
 						<CodeAccordian
 							path={tool.path}
 							code={tool.diff}
@@ -478,6 +506,13 @@ export const ChatRowContent = ({
 									values={{ query: tool.query }}
 								/>
 							)}
+							{/* kilocode_change start */}
+							{tool.searchMode === "hybrid" && (
+								<span className="ml-2 text-xs font-normal text-vscode-descriptionForeground bg-vscode-badge-background px-2 py-0.5 rounded">
+									{t("chat:codebaseSearch.hybridBadge")}
+								</span>
+							)}
+							{/* kilocode_change end */}
 						</span>
 					</div>
 				)
@@ -511,10 +546,11 @@ export const ChatRowContent = ({
 							)}
 							<span style={{ fontWeight: "bold" }}>
 								{tool.isProtected
-									? t("chat:fileOperations.wantsToEditProtected")
+									? protectedEditLabel /* kilocode_change */
 									: t("chat:fileOperations.wantsToCreate")}
 							</span>
 						</div>
+						{protectionNotice /* kilocode_change */}
 						<CodeAccordian
 							path={tool.path}
 							code={tool.content}
@@ -709,6 +745,177 @@ export const ChatRowContent = ({
 						/>
 					</>
 				)
+			// kilocode_change start
+			case "goToDefinition":
+			case "findReferences":
+			case "getHoverInfo": {
+				const keyPrefix = {
+					goToDefinition: "GoToDefinition",
+					findReferences: "FindReferences",
+					getHoverInfo: "GetHoverInfo",
+				}[tool.tool]
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon(tool.tool === "getHoverInfo" ? "info" : "symbol-reference")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={`chat:codeNavigation.${message.type === "ask" ? "wantsTo" : "did"}${keyPrefix}`}
+									components={{ code: <code>{tool.symbol}</code> }}
+									values={{ symbol: tool.symbol }}
+								/>
+							</span>
+						</div>
+						<CodeAccordian
+							path={tool.path! + (tool.lineNumber ? `:${tool.lineNumber}` : "")}
+							code={tool.content}
+							language={tool.tool === "getHoverInfo" ? "markdown" : "shellsession"}
+							isExpanded={isExpanded}
+							onToggleExpand={handleToggleExpand}
+						/>
+					</>
+				)
+			}
+			case "renameSymbol":
+				return (
+					<>
+						<div style={headerStyle}>
+							{tool.isProtected ? (
+								<span
+									className="codicon codicon-lock"
+									style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "-1.5px" }}
+								/>
+							) : (
+								toolIcon("symbol-namespace")
+							)}
+							<span style={{ fontWeight: "bold" }}>
+								{tool.isProtected && message.type === "ask" ? (
+									protectedEditLabel
+								) : (
+									<Trans
+										i18nKey={
+											message.type === "ask"
+												? "chat:codeNavigation.wantsToRenameSymbol"
+												: "chat:codeNavigation.didRenameSymbol"
+										}
+										components={{ code: <code></code> }}
+										values={{ symbol: tool.symbol, newName: tool.newName }}
+									/>
+								)}
+							</span>
+						</div>
+						{protectionNotice}
+						<CodeAccordian
+							path={tool.path}
+							code={tool.diff}
+							language="diff"
+							isLoading={message.partial}
+							isExpanded={isExpanded}
+							onToggleExpand={handleToggleExpand}
+						/>
+					</>
+				)
+			case "replaceSymbol": {
+				const action = {
+					replace: "ReplaceSymbol",
+					before: "InsertBeforeSymbol",
+					after: "InsertAfterSymbol",
+				}[tool.position ?? "replace"]
+				return (
+					<>
+						<div style={headerStyle}>
+							{tool.isProtected ? (
+								<span
+									className="codicon codicon-lock"
+									style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "-1.5px" }}
+								/>
+							) : (
+								toolIcon("symbol-method")
+							)}
+							<span style={{ fontWeight: "bold" }}>
+								{tool.isProtected && message.type === "ask" ? (
+									protectedEditLabel
+								) : (
+									<Trans
+										i18nKey={`chat:codeNavigation.${message.type === "ask" ? "wantsTo" : "did"}${action}`}
+										components={{ code: <code></code> }}
+										values={{ symbol: tool.symbol }}
+									/>
+								)}
+							</span>
+						</div>
+						{protectionNotice}
+						<CodeAccordian
+							path={tool.path}
+							code={tool.diff}
+							language="diff"
+							isLoading={message.partial}
+							isExpanded={isExpanded}
+							onToggleExpand={handleToggleExpand}
+						/>
+					</>
+				)
+			}
+			case "deletedFile":
+			case "movedFile":
+				return (
+					<>
+						<div style={headerStyle}>
+							{tool.isProtected ? (
+								<span
+									className="codicon codicon-lock"
+									style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "-1.5px" }}
+								/>
+							) : (
+								toolIcon(tool.tool === "deletedFile" ? "trash" : "file-symlink-file")
+							)}
+							<span style={{ fontWeight: "bold" }}>
+								{tool.isProtected && message.type === "ask" ? (
+									protectedEditLabel
+								) : tool.tool === "deletedFile" ? (
+									t("chat:fileOperations.wantsToDelete")
+								) : (
+									<Trans
+										i18nKey="chat:fileOperations.wantsToMove"
+										components={{ code: <code></code> }}
+										values={{ newPath: tool.newPath }}
+									/>
+								)}
+							</span>
+						</div>
+						{protectionNotice}
+						<CodeAccordian
+							path={tool.path}
+							code={tool.diff}
+							language="diff"
+							isLoading={message.partial}
+							isExpanded={isExpanded}
+							onToggleExpand={handleToggleExpand}
+						/>
+					</>
+				)
+			case "readProcessOutput":
+			case "waitForProcessOutput":
+			case "killProcess": {
+				const key = {
+					readProcessOutput: "wantsToRead",
+					waitForProcessOutput: "wantsToWait",
+					killProcess: "wantsToKill",
+				}[tool.tool]
+				return (
+					<div style={headerStyle}>
+						{toolIcon(tool.tool === "killProcess" ? "debug-stop" : "terminal")}
+						<span style={{ fontWeight: "bold" }}>
+							<Trans
+								i18nKey={`chat:backgroundProcesses.${key}`}
+								components={{ code: <code></code> }}
+								values={{ name: tool.processName, regex: tool.regex }}
+							/>
+						</span>
+					</div>
+				)
+			}
+			// kilocode_change end
 			case "switchMode":
 				return (
 					<>
@@ -795,6 +1002,47 @@ export const ChatRowContent = ({
 						</div>
 					</>
 				)
+			// kilocode_change start
+			case "newParallelTasks":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("split-horizontal")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey="chat:parallelSubtasks.wantsToCreate"
+									components={{ code: <code></code> }}
+									values={{ count: tool.tasks?.length ?? 0, mode: tool.mode }}
+								/>
+							</span>
+						</div>
+						{tool.tasks?.map((content, index) => (
+							<div
+								key={index}
+								style={{
+									marginTop: "4px",
+									border: "1px solid var(--vscode-badge-background)",
+									borderRadius: "4px",
+									overflow: "hidden",
+								}}>
+								<div
+									style={{
+										padding: "6px 10px",
+										backgroundColor: "var(--vscode-badge-background)",
+										color: "var(--vscode-badge-foreground)",
+										fontWeight: "bold",
+									}}>
+									{t("chat:parallelSubtasks.subtask", { number: index + 1 })}
+								</div>
+								<div
+									style={{ padding: "8px 12px", backgroundColor: "var(--vscode-editor-background)" }}>
+									<MarkdownBlock markdown={content} />
+								</div>
+							</div>
+						))}
+					</>
+				)
+			// kilocode_change end
 			case "finishTask":
 				return (
 					<>
@@ -1033,6 +1281,13 @@ export const ChatRowContent = ({
 
 							{isExpanded && (
 								<div style={{ marginTop: "10px" }}>
+									{/* kilocode_change start */}
+									{apiReqModel && (
+										<div className="text-vscode-descriptionForeground text-sm mb-1">
+											{t("chat:apiRequest.model", { model: apiReqModel })}
+										</div>
+									)}
+									{/* kilocode_change end */}
 									<CodeAccordian
 										code={safeJsonParse<any>(message.text)?.request}
 										language="markdown"
@@ -1116,16 +1371,49 @@ export const ChatRowContent = ({
 					return message.contextCondense ? <ContextCondenseRow {...message.contextCondense} /> : null
 				case "condense_context_error":
 					return <CondenseContextErrorRow errorText={message.text} />
+				// kilocode_change start
+				case "api_provider_failover": {
+					const failover = safeJsonParse<ClineApiFailoverInfo>(message.text)
+
+					if (!failover) {
+						return null
+					}
+
+					return (
+						<>
+							<div style={headerStyle}>
+								<span
+									className="codicon codicon-arrow-swap"
+									style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "-1.5px" }}
+								/>
+								<span style={{ fontWeight: "bold" }}>
+									{t("chat:apiFailover.title", { profile: failover.toProfile })}
+								</span>
+							</div>
+							<div className="text-vscode-descriptionForeground text-sm pt-1">
+								<Trans
+									i18nKey="chat:apiFailover.description"
+									components={{ code: <code></code> }}
+									values={{ fromModel: failover.fromModel, toModel: failover.toModel }}
+								/>{" "}
+								{t(`chat:apiFailover.reason.${failover.reason}`)}
+							</div>
+						</>
+					)
+				}
+				// kilocode_change end
 				case "codebase_search_result":
 					let parsed: {
 						content: {
 							query: string
+							mode?: "semantic" | "hybrid" // kilocode_change
 							results: Array<{
 								filePath: string
 								score: number
 								startLine: number
 								endLine: number
 								codeChunk: string
+								matchedBy?: Array<"semantic" | "keyword"> // kilocode_change
 							}>
 						}
 					} | null = null
@@ -1143,9 +1431,9 @@ export const ChatRowContent = ({
 						return <div>Error displaying search results.</div>
 					}
 
-					const { query = "", results = [] } = parsed?.content || {}
+					const { query = "", mode, results = [] } = parsed?.content || {} // kilocode_change
 
-					return <CodebaseSearchResultsDisplay query={query} results={results} />
+					return <CodebaseSearchResultsDisplay query={query} mode={mode} results={results} /> // kilocode_change
 				case "browser_action_result":
 					// This should not normally be rendered here as browser_action_result messages
 					// should be grouped into browser sessions and rendered by BrowserSessionRow.
@@ -1271,6 +1559,15 @@ export const ChatRowContent = ({
 										alwaysAllowMcp={alwaysAllowMcp}
 									/>
 								)}
+								{/* kilocode_change start */}
+								{useMcpServer.type === "sampling" && useMcpServer.sampling && (
+									<McpSamplingRow
+										sampling={useMcpServer.sampling}
+										response={useMcpServer.response}
+										usage={message.mcpSamplingUsage}
+									/>
+								)}
+								{/* kilocode_change end */}
 							</div>
 						</>
 					)
@@ -1357,6 +1654,36 @@ export const ChatRowContent = ({
 				case "auto_approval_max_req_reached": {
 					return <AutoApprovedRequestLimitWarning message={message} />
 				}
+				// kilocode_change start
+				case "spend_budget_reached": {
+					const budget = safeJsonParse<SpendBudgetStatus>(message.text)
+
+					if (!budget) {
+						return null
+					}
+
+					const level = budget.exceeded ? "exceeded" : "warning"
+
+					return (
+						<>
+							<div style={headerStyle}>
+								<span
+									className="codicon codicon-warning"
+									style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "-1.5px" }}
+								/>
+								<span style={{ fontWeight: "bold" }}>{t(`chat:spendBudget.${level}.title`)}</span>
+							</div>
+							<div className="text-vscode-descriptionForeground text-sm pt-1">
+								{t(`chat:spendBudget.scope.${budget.scope}`, {
+									spent: budget.spent.toFixed(2),
+									limit: budget.limit.toFixed(2),
+								})}{" "}
+								{t(`chat:spendBudget.${level}.description`)}
+							</div>
+						</>
+					)
+				}
+				// kilocode_change end
 				default:
 					return null
 			}
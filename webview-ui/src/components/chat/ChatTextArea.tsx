@@ -51,6 +51,7 @@ import {
 	getMatchingSlashCommands,
 	insertSlashCommand,
 	validateSlashCommand,
+	getSlashCommandInsertText,
 } from "@/utils/slash-commands"
 // kilocode_change end
 
@@ -104,6 +105,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			togglePinnedApiConfig,
 			localWorkflows, // kilocode_change
 			globalWorkflows, // kilocode_change
+			mcpServers, // kilocode_change
 			taskHistory,
 			clineMessages,
 		} = useExtensionState()
@@ -415,8 +417,15 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 
 				// Handle other slash commands (like newtask)
 				if (textAreaRef.current) {
-					const { newValue, commandIndex } = insertSlashCommand(textAreaRef.current.value, command.name)
-					const newCursorPosition = newValue.indexOf(" ", commandIndex + 1 + command.name.length) + 1
+					const { newValue, commandIndex } = insertSlashCommand(
+						textAreaRef.current.value,
+						getSlashCommandInsertText(command),
+					)
+					// place the cursor inside the first argument placeholder of MCP prompts
+					const firstArgument = command.arguments?.[0]
+					const newCursorPosition = firstArgument
+						? commandIndex + 1 + command.name.length + 1 + firstArgument.name.length + 2
+						: newValue.indexOf(" ", commandIndex + 1 + command.name.length) + 1
 
 					setInputValue(newValue)
 					setCursorPosition(newCursorPosition)
@@ -452,6 +461,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 								customModes,
 								localWorkflows,
 								globalWorkflows,
+								mcpServers,
 							) // kilocode_change
 
 							if (commands.length === 0) {
@@ -471,6 +481,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							customModes,
 							localWorkflows,
 							globalWorkflows,
+							mcpServers,
 						) // kilocode_change
 						if (commands.length > 0) {
 							handleSlashCommandsSelect(commands[selectedSlashCommandsIndex])
@@ -631,6 +642,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				setInputValue,
 				localWorkflows, // kilocode_change
 				globalWorkflows, // kilocode_change
+				mcpServers, // kilocode_change
 			],
 		)
 
@@ -855,7 +867,13 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 
 				// extract and validate the exact command text
 				const commandText = processedText.substring(slashIndex + 1, endIndex)
-				const isValidCommand = validateSlashCommand(commandText, customModes)
+				const isValidCommand = validateSlashCommand(
+					commandText,
+					customModes,
+					localWorkflows, // kilocode_change
+					globalWorkflows, // kilocode_change
+					mcpServers, // kilocode_change
+				)
 
 				if (isValidCommand) {
 					const fullCommand = processedText.substring(slashIndex, endIndex) // includes slash
@@ -870,7 +888,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			highlightLayerRef.current.innerHTML = processedText
 			highlightLayerRef.current.scrollTop = textAreaRef.current.scrollTop
 			highlightLayerRef.current.scrollLeft = textAreaRef.current.scrollLeft
-		}, [customModes])
+		}, [customModes, localWorkflows, globalWorkflows, mcpServers]) // kilocode_change
 
 		useLayoutEffect(() => {
 			updateHighlights()
@@ -10,17 +10,18 @@ import { LRUCache } from "lru-cache"
 
 import { useDebounceEffect } from "@src/utils/useDebounceEffect"
 
-import type { ClineAsk, ClineMessage } from "@roo-code/types"
+import type { ClineAsk, ClineMessage, SpendBudgetStatus } from "@roo-code/types" // kilocode_change: SpendBudgetStatus
 
 import { ClineSayBrowserAction, ClineSayTool, ExtensionMessage } from "@roo/ExtensionMessage"
 import { McpServer, McpTool } from "@roo/mcp"
-import { findLast } from "@roo/array"
+import { findLast, findLastIndex } from "@roo/array" // kilocode_change
 import { FollowUpData, SuggestionItem } from "@roo-code/types"
 import { combineApiRequests } from "@roo/combineApiRequests"
 import { combineCommandSequences } from "@roo/combineCommandSequences"
 import { getApiMetrics } from "@roo/getApiMetrics"
 import { AudioType } from "@roo/WebviewMessage"
 import { getAllModes } from "@roo/modes"
+import { safeJsonParse } from "@roo/safeJsonParse" // kilocode_change
 import { ProfileValidator } from "@roo/ProfileValidator"
 
 import { vscode } from "@src/utils/vscode"
@@ -47,6 +48,7 @@ import { showSystemNotification } from "@/kilocode/helpers" // kilocode_change
 // import ProfileViolationWarning from "./ProfileViolationWarning" kilocode_change: unused
 import { CheckpointWarning } from "./CheckpointWarning"
 import { IdeaSuggestionsBox } from "../kilocode/chat/IdeaSuggestionsBox" // kilocode_change
+import { ParallelSubtasksPanel } from "../kilocode/chat/ParallelSubtasksPanel" // kilocode_change
 import { getLatestTodo } from "@roo/todo"
 
 export interface ChatViewProps {
@@ -174,6 +176,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 	const autoApproveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 	const userRespondedRef = useRef<boolean>(false)
 	const [currentFollowUpTs, setCurrentFollowUpTs] = useState<number | null>(null)
+	const [scrollTarget, setScrollTarget] = useState<{ taskId: string; ts: number }>() // kilocode_change
 
 	const clineAskRef = useRef(clineAsk)
 	useEffect(() => {
@@ -263,6 +266,19 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 							setPrimaryButtonText(t("chat:proceedAnyways.title"))
 							setSecondaryButtonText(t("chat:startNewTask.title"))
 							break
+						// kilocode_change start
+						case "spend_budget_reached": {
+							const { exceeded } = safeJsonParse<SpendBudgetStatus>(lastMessage.text) ?? {}
+							playSound("progress_loop")
+							setSendingDisabled(true)
+							setClineAsk("spend_budget_reached")
+							setEnableButtons(true)
+							// Once a budget is used up the request is only retried after the budget was raised.
+							setPrimaryButtonText(exceeded ? t("chat:retry.title") : t("chat:proceedAnyways.title"))
+							setSecondaryButtonText(t("chat:startNewTask.title"))
+							break
+						}
+						// kilocode_change end
 						case "followup":
 							if (!isPartial) {
 								playSound("notification")
@@ -291,6 +307,9 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 								case "appliedDiff":
 								case "newFileCreated":
 								case "insertContent":
+								case "deletedFile": // kilocode_change
+								case "movedFile": // kilocode_change
+								case "replaceSymbol": // kilocode_change
 									setPrimaryButtonText(t("chat:save.title"))
 									setSecondaryButtonText(t("chat:reject.title"))
 									break
@@ -639,6 +658,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				case "resume_task":
 				case "mistake_limit_reached":
 				case "report_bug":
+				case "spend_budget_reached": // kilocode_change
 					// Only send text/images if they exist
 					if (trimmedInput || (images && images.length > 0)) {
 						vscode.postMessage({
@@ -696,6 +716,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				case "api_req_failed":
 				case "mistake_limit_reached":
 				case "resume_task":
+				case "spend_budget_reached": // kilocode_change
 					startNewTask()
 					break
 				case "command":
@@ -779,6 +800,13 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 							break
 					}
 					break
+				// kilocode_change start
+				case "scrollToMessage":
+					if (message.text && message.messageTs !== undefined) {
+						setScrollTarget({ taskId: message.text, ts: message.messageTs })
+					}
+					break
+				// kilocode_change end
 				case "condenseTaskContextResponse":
 					if (message.text && message.text === currentTaskItem?.id) {
 						if (isCondensing && sendingDisabled) {
@@ -902,6 +930,13 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				"listCodeDefinitionNames",
 				"searchFiles",
 				"codebaseSearch",
+				// kilocode_change start
+				"goToDefinition",
+				"findReferences",
+				"getHoverInfo",
+				"readProcessOutput",
+				"waitForProcessOutput",
+				// kilocode_change end
 			].includes(tool.tool)
 		}
 
@@ -922,6 +957,12 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				"newFileCreated",
 				"searchAndReplace",
 				"insertContent",
+				// kilocode_change start
+				"renameSymbol",
+				"replaceSymbol",
+				"deletedFile",
+				"movedFile",
+				// kilocode_change end
 			].includes(tool.tool)
 		}
 
@@ -942,6 +983,13 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 					const tool = server?.tools?.find((t: McpTool) => t.name === mcpServerUse.toolName)
 					return tool?.alwaysAllow || false
 				}
+
+				// kilocode_change start
+				if (mcpServerUse.type === "sampling") {
+					const server = mcpServers?.find((s: McpServer) => s.name === mcpServerUse.serverName)
+					return server?.alwaysAllowSampling || false
+				}
+				// kilocode_change end
 			}
 
 			return false
@@ -1021,7 +1069,13 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 					return alwaysAllowModeSwitch
 				}
 
-				if (["newTask", "finishTask"].includes(tool?.tool)) {
+				// kilocode_change start: stopping a background process is allowed along with running commands
+				if (tool?.tool === "killProcess") {
+					return alwaysAllowExecute
+				}
+				// kilocode_change end
+
+				if (["newTask", "finishTask", "newParallelTasks"].includes(tool?.tool)) {
 					return alwaysAllowSubtasks
 				}
 
@@ -1240,6 +1294,24 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 		clearTimeout(highlightClearTimerRef.current)
 		highlightClearTimerRef.current = setTimeout(() => setHighlightedMessageIndex(null), 1000)
 	}, [])
+
+	// Scroll to a message of a task opened from the history search, once the task's messages are shown
+	useEffect(() => {
+		if (!scrollTarget || scrollTarget.taskId !== currentTaskItem?.id || groupedMessages.length === 0) {
+			return
+		}
+
+		const index = findLastIndex(
+			groupedMessages,
+			(group) => (Array.isArray(group) ? group[0] : group).ts <= scrollTarget.ts,
+		)
+
+		if (index !== -1) {
+			handleMessageClick(index)
+		}
+
+		setScrollTarget(undefined)
+	}, [scrollTarget, currentTaskItem?.id, groupedMessages, handleMessageClick])
 	// kilocode_change end
 
 	const handleSetExpandedRow = useCallback(
@@ -1644,13 +1716,12 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 						// kilocode_change end
 						todos={latestTodos}
 					/>
-
+					<ParallelSubtasksPanel /> {/* kilocode_change */}
 					{hasSystemPromptOverride && (
 						<div className="px-3">
 							<SystemPromptWarning />
 						</div>
 					)}
-
 					{showCheckpointWarning && (
 						<div className="px-3">
 							<CheckpointWarning />
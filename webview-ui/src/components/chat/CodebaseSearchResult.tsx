@@ -10,11 +10,27 @@ interface CodebaseSearchResultProps {
 	endLine: number
 	snippet: string
 	language: string
+	matchedBy?: Array<"semantic" | "keyword"> // kilocode_change
 }
 
-const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, score, startLine, endLine }) => {
+const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({
+	filePath,
+	score,
+	startLine,
+	endLine,
+	matchedBy, // kilocode_change
+}) => {
 	const { t } = useTranslation("chat")
 
+	// kilocode_change start
+	const tooltip = matchedBy?.length
+		? t("codebaseSearch.hybridResultTooltip", {
+				score: score.toFixed(3),
+				sources: matchedBy.map((source) => t(`codebaseSearch.matchSource.${source}`)).join(", "),
+			})
+		: t("codebaseSearch.resultTooltip", { score: score.toFixed(3) })
+	// kilocode_change end
+
 	const handleClick = () => {
 		console.log(filePath)
 		vscode.postMessage({
@@ -27,7 +43,7 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 	}
 
 	return (
-		<StandardTooltip content={t("codebaseSearch.resultTooltip", { score: score.toFixed(3) })}>
+		<StandardTooltip content={tooltip /* kilocode_change */}>
 			<div
 				onClick={handleClick}
 				className="mb-1 p-2 border border-primary rounded cursor-pointer hover:bg-secondary hover:text-white">
@@ -38,7 +54,18 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 					<span className="text-gray-500 truncate min-w-0 flex-1">
 						{filePath.split("/").slice(0, -1).join("/")}
 					</span>
-					<span className="text-xs text-vscode-descriptionForeground bg-vscode-badge-background px-2 py-1 rounded whitespace-nowrap ml-auto">
+					{/* kilocode_change start */}
+					{matchedBy?.includes("keyword") && (
+						<span
+							className="codicon codicon-symbol-key text-vscode-descriptionForeground flex-shrink-0 ml-auto"
+							aria-label={t("codebaseSearch.matchSource.keyword")}
+						/>
+					)}
+					{/* kilocode_change end */}
+					<span
+						className={
+							`text-xs text-vscode-descriptionForeground bg-vscode-badge-background px-2 py-1 rounded whitespace-nowrap ${matchedBy?.includes("keyword") ? "" : "ml-auto"}` /* kilocode_change */
+						}>
 						{score.toFixed(3)}
 					</span>
 				</div>
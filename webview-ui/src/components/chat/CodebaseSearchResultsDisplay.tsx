@@ -1,19 +1,22 @@
 import React, { useState } from "react"
 import CodebaseSearchResult from "./CodebaseSearchResult"
-import { Trans } from "react-i18next"
+import { Trans, useTranslation } from "react-i18next" // kilocode_change
 
 interface CodebaseSearchResultsDisplayProps {
 	query: string
+	mode?: "semantic" | "hybrid" // kilocode_change
 	results: Array<{
 		filePath: string
 		score: number
 		startLine: number
 		endLine: number
 		codeChunk: string
+		matchedBy?: Array<"semantic" | "keyword"> // kilocode_change
 	}>
 }
 
-const CodebaseSearchResultsDisplay: React.FC<CodebaseSearchResultsDisplayProps> = ({ query, results }) => {
+const CodebaseSearchResultsDisplay: React.FC<CodebaseSearchResultsDisplayProps> = ({ query, mode, results }) => {
+	const { t } = useTranslation("chat") // kilocode_change
 	const [codebaseSearchResultsExpanded, setCodebaseSearchResultsExpanded] = useState(false)
 
 	return (
@@ -27,6 +30,13 @@ const CodebaseSearchResultsDisplay: React.FC<CodebaseSearchResultsDisplayProps>
 						components={{ code: <code></code> }}
 						values={{ query, count: results.length }}
 					/>
+					{/* kilocode_change start */}
+					{mode === "hybrid" && (
+						<span className="ml-2 text-xs font-normal text-vscode-descriptionForeground bg-vscode-badge-background px-2 py-0.5 rounded">
+							{t("codebaseSearch.hybridBadge")}
+						</span>
+					)}
+					{/* kilocode_change end */}
 				</span>
 				<span className={`codicon codicon-chevron-${codebaseSearchResultsExpanded ? "up" : "down"}`}></span>
 			</div>
@@ -42,6 +52,7 @@ const CodebaseSearchResultsDisplay: React.FC<CodebaseSearchResultsDisplayProps>
 							endLine={result.endLine}
 							language="plaintext"
 							snippet={result.codeChunk}
+							matchedBy={result.matchedBy} // kilocode_change
 						/>
 					))}
 				</div>
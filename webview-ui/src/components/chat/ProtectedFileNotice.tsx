@@ -0,0 +1,33 @@
+// kilocode_change - new file
+import { Trans, useTranslation } from "react-i18next"
+
+export const SHIELD_SYMBOL = "\u{1F6E1}"
+
+interface ProtectedFileNoticeProps {
+	pattern?: string
+}
+
+/**
+ * Explains why a write needs explicit approval: either the file is a built-in Softcodes configuration
+ * file, or it matches a pattern from the workspace's .kilocodeprotected file.
+ */
+export const ProtectedFileNotice = ({ pattern }: ProtectedFileNoticeProps) => {
+	const { t } = useTranslation()
+
+	return (
+		<div className="flex items-center gap-1.5 text-xs text-vscode-descriptionForeground mb-2">
+			<span aria-hidden="true">{SHIELD_SYMBOL}</span>
+			<span>
+				{pattern ? (
+					<Trans
+						i18nKey="chat:fileOperations.protectedByPattern"
+						components={{ code: <code /> }}
+						values={{ pattern }}
+					/>
+				) : (
+					t("chat:fileOperations.protectedConfigFile")
+				)}
+			</span>
+		</div>
+	)
+}
@@ -19,7 +19,7 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 	query,
 	customModes,
 }) => {
-	const { localWorkflows, globalWorkflows } = useExtensionState() // kilocode_change
+	const { localWorkflows, globalWorkflows, mcpServers } = useExtensionState() // kilocode_change
 	const menuRef = useRef<HTMLDivElement>(null)
 
 	const handleClick = useCallback(
@@ -47,7 +47,7 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 	}, [selectedIndex])
 
 	// Filter commands based on query
-	const filteredCommands = getMatchingSlashCommands(query, customModes, localWorkflows, globalWorkflows) // kilocode_change
+	const filteredCommands = getMatchingSlashCommands(query, customModes, localWorkflows, globalWorkflows, mcpServers) // kilocode_change
 
 	return (
 		<div
@@ -75,6 +75,15 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 							<div className="text-[0.85em] text-[var(--vscode-descriptionForeground)] whitespace-normal overflow-hidden text-ellipsis">
 								{command.description}
 							</div>
+							{/* kilocode_change start */}
+							{command.arguments && command.arguments.length > 0 && (
+								<div className="text-[0.8em] font-mono text-[var(--vscode-descriptionForeground)] whitespace-normal">
+									{command.arguments
+										.map((argument) => (argument.required ? argument.name : `[${argument.name}]`))
+										.join(" ")}
+								</div>
+							)}
+							{/* kilocode_change end */}
 						</div>
 					))
 				) : (
@@ -26,6 +26,7 @@ import { mentionRegexGlobal } from "@roo/context-mentions"
 import { vscode } from "@/utils/vscode" // kilocode_change: pull slash commands from Cline
 // import { Mention } from "./Mention" // kilocode_change
 import { TodoListDisplay } from "./TodoListDisplay"
+import { SpendBudgetRemaining } from "../kilocode/chat/SpendBudgetRemaining" // kilocode_change
 
 export interface TaskHeaderProps {
 	task: ClineMessage
@@ -149,6 +150,7 @@ const TaskHeader = ({
 							{condenseButton}
 							<ShareButton item={currentTaskItem} disabled={buttonsDisabled} />
 							{!!totalCost && <VSCodeBadge>${totalCost.toFixed(2)}</VSCodeBadge>}
+							<SpendBudgetRemaining /> {/* kilocode_change */}
 						</div>
 					</div>
 				)}
@@ -250,6 +252,7 @@ const TaskHeader = ({
 									<div className="flex items-center gap-1">
 										<span className="font-bold">{t("chat:task.apiCost")}</span>
 										<span>${totalCost?.toFixed(2)}</span>
+										<SpendBudgetRemaining /> {/* kilocode_change */}
 									</div>
 									<TaskActions item={currentTaskItem} buttonsDisabled={buttonsDisabled} />
 								</div>
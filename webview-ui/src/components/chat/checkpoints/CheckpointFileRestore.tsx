@@ -0,0 +1,127 @@
+// kilocode_change - new file
+import { useCallback, useEffect, useState } from "react"
+import { useEvent } from "react-use"
+import { useTranslation } from "react-i18next"
+
+import type { CheckpointFileChange, ExtensionMessage } from "@roo/ExtensionMessage"
+
+import { Button, StandardTooltip } from "@/components/ui"
+import { vscode } from "@src/utils/vscode"
+
+type CheckpointFileRestoreProps = {
+	commitHash: string
+}
+
+const lineClassName = (line: string) => {
+	if (line.startsWith("+")) {
+		return "text-vscode-gitDecoration-addedResourceForeground"
+	}
+	if (line.startsWith("-")) {
+		return "text-vscode-gitDecoration-deletedResourceForeground"
+	}
+	return "text-vscode-descriptionForeground"
+}
+
+export const CheckpointFileRestore = ({ commitHash }: CheckpointFileRestoreProps) => {
+	const { t } = useTranslation()
+	const [files, setFiles] = useState<CheckpointFileChange[]>()
+	const [selected, setSelected] = useState<string[]>([])
+	const [expanded, setExpanded] = useState<string>()
+
+	useEffect(() => {
+		vscode.postMessage({ type: "checkpointFiles", payload: { commitHash } })
+	}, [commitHash])
+
+	const onMessage = useCallback(
+		(event: MessageEvent) => {
+			const message: ExtensionMessage = event.data
+
+			if (message.type === "checkpointFiles" && message.checkpointFiles?.commitHash === commitHash) {
+				const changedPaths = message.checkpointFiles.files.map((file) => file.path)
+				setFiles(message.checkpointFiles.files)
+				setSelected((prev) => prev.filter((path) => changedPaths.includes(path)))
+			}
+		},
+		[commitHash],
+	)
+
+	useEvent("message", onMessage)
+
+	const onToggleSelected = useCallback((path: string) => {
+		setSelected((prev) => (prev.includes(path) ? prev.filter((p) => p !== path) : [...prev, path]))
+	}, [])
+
+	const onRestoreSelected = useCallback(() => {
+		vscode.postMessage({ type: "checkpointRestoreFiles", payload: { commitHash, paths: selected } })
+	}, [commitHash, selected])
+
+	const onRestoreHunk = useCallback(
+		(path: string, hunkIndex: number) => {
+			vscode.postMessage({ type: "checkpointRestoreFiles", payload: { commitHash, paths: [path], hunkIndex } })
+		},
+		[commitHash],
+	)
+
+	if (!files) {
+		return <div className="text-muted">{t("chat:checkpoint.menu.loadingFiles")}</div>
+	}
+
+	if (files.length === 0) {
+		return <div className="text-muted">{t("chat:checkpoint.menu.noChangedFiles")}</div>
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="flex flex-col gap-1 max-h-80 overflow-y-auto">
+				{files.map((file) => (
+					<div key={file.path} className="flex flex-col gap-1">
+						<div className="flex items-center gap-2">
+							<input
+								type="checkbox"
+								checked={selected.includes(file.path)}
+								onChange={() => onToggleSelected(file.path)}
+								aria-label={file.path}
+							/>
+							<span className="grow truncate" title={file.path}>
+								{file.path}
+							</span>
+							{file.hunks.length > 0 && (
+								<StandardTooltip content={t("chat:checkpoint.menu.showChanges")}>
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => setExpanded(expanded === file.path ? undefined : file.path)}>
+										<span
+											className={`codicon codicon-chevron-${expanded === file.path ? "up" : "down"}`}
+										/>
+									</Button>
+								</StandardTooltip>
+							)}
+						</div>
+						{expanded === file.path &&
+							file.hunks.map((hunk, hunkIndex) => (
+								<div key={hunkIndex} className="flex flex-col gap-1 ml-5">
+									<div className="flex items-center justify-between gap-2">
+										<code className="text-xs text-vscode-descriptionForeground">{hunk.header}</code>
+										<Button variant="secondary" onClick={() => onRestoreHunk(file.path, hunkIndex)}>
+											{t("chat:checkpoint.menu.restoreHunk")}
+										</Button>
+									</div>
+									<pre className="m-0 p-1 text-xs overflow-x-auto bg-vscode-textCodeBlock-background">
+										{hunk.lines.map((line, lineIndex) => (
+											<div key={lineIndex} className={lineClassName(line)}>
+												{line}
+											</div>
+										))}
+									</pre>
+								</div>
+							))}
+					</div>
+				))}
+			</div>
+			<Button variant="default" disabled={selected.length === 0} onClick={onRestoreSelected}>
+				{t("chat:checkpoint.menu.restoreSelected", { count: selected.length })}
+			</Button>
+		</div>
+	)
+}
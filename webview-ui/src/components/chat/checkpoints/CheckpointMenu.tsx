@@ -7,6 +7,7 @@ import { useRooPortal } from "@/components/ui/hooks"
 
 import { vscode } from "@src/utils/vscode"
 import { Checkpoint } from "./schema"
+import { CheckpointFileRestore } from "./CheckpointFileRestore" // kilocode_change
 
 type CheckpointMenuProps = {
 	ts: number
@@ -19,6 +20,7 @@ export const CheckpointMenu = ({ ts, commitHash, currentHash, checkpoint }: Chec
 	const { t } = useTranslation()
 	const [isOpen, setIsOpen] = useState(false)
 	const [isConfirming, setIsConfirming] = useState(false)
+	const [isSelectingFiles, setIsSelectingFiles] = useState(false) // kilocode_change
 	const portalContainer = useRooPortal("roo-portal")
 
 	const isCurrent = currentHash === commitHash
@@ -60,6 +62,7 @@ export const CheckpointMenu = ({ ts, commitHash, currentHash, checkpoint }: Chec
 					onOpenChange={(open) => {
 						setIsOpen(open)
 						setIsConfirming(false)
+						setIsSelectingFiles(false) // kilocode_change
 					}}>
 					<StandardTooltip content={t("chat:checkpoint.menu.restore")}>
 						<PopoverTrigger asChild>
@@ -68,9 +71,27 @@ export const CheckpointMenu = ({ ts, commitHash, currentHash, checkpoint }: Chec
 							</Button>
 						</PopoverTrigger>
 					</StandardTooltip>
-					<PopoverContent align="end" container={portalContainer}>
+					<PopoverContent
+						align="end"
+						container={portalContainer}
+						className={isSelectingFiles ? "w-96" : undefined} // kilocode_change
+					>
 						<div className="flex flex-col gap-2">
-							{!isCurrent && (
+							{/* kilocode_change start */}
+							{isSelectingFiles ? (
+								<CheckpointFileRestore commitHash={commitHash} />
+							) : (
+								<div className="flex flex-col gap-1 group hover:text-foreground">
+									<Button variant="secondary" onClick={() => setIsSelectingFiles(true)}>
+										{t("chat:checkpoint.menu.restoreSelectedFiles")}
+									</Button>
+									<div className="text-muted transition-colors group-hover:text-foreground">
+										{t("chat:checkpoint.menu.restoreSelectedFilesDescription")}
+									</div>
+								</div>
+							)}
+							{/* kilocode_change end */}
+							{!isCurrent && !isSelectingFiles /* kilocode_change */ && (
 								<div className="flex flex-col gap-1 group hover:text-foreground">
 									<Button variant="secondary" onClick={onPreview}>
 										{t("chat:checkpoint.menu.restoreFiles")}
@@ -80,7 +101,7 @@ export const CheckpointMenu = ({ ts, commitHash, currentHash, checkpoint }: Chec
 									</div>
 								</div>
 							)}
-							{!isFirst && (
+							{!isFirst && !isSelectingFiles /* kilocode_change */ && (
 								<div className="flex flex-col gap-1 group hover:text-foreground">
 									<div className="flex flex-col gap-1 group hover:text-foreground">
 										{!isConfirming ? (
@@ -130,6 +130,13 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 							/>
 						)}
 					</VSCodeTextField>
+					{/* kilocode_change start */}
+					{searchQuery && (
+						<div className="text-xs text-vscode-descriptionForeground" data-testid="history-search-hint">
+							{t("history:searchHint")}
+						</div>
+					)}
+					{/* kilocode_change end */}
 					<div className="flex gap-2">
 						<Select
 							value={showAllWorkspaces ? "all" : "current"}
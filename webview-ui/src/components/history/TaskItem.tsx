@@ -1,7 +1,8 @@
 import { memo } from "react"
-import type { HistoryItem } from "@roo-code/types"
+import type { HistoryItem, TaskSearchSnippet } from "@roo-code/types" // kilocode_change
 
 import { vscode } from "@/utils/vscode"
+import { highlightFzfMatch } from "@/utils/highlight" // kilocode_change
 import { cn } from "@/lib/utils"
 import { Checkbox } from "@/components/ui/checkbox"
 
@@ -10,8 +11,17 @@ import TaskItemFooter from "./TaskItemFooter"
 
 interface DisplayHistoryItem extends HistoryItem {
 	highlight?: string
+	snippets?: TaskSearchSnippet[] // kilocode_change
 }
 
+// kilocode_change start
+const highlightSnippet = ({ text, highlights }: TaskSearchSnippet) =>
+	highlightFzfMatch(
+		text,
+		highlights.flatMap(([start, end]) => Array.from({ length: end - start }, (_, index) => start + index)),
+	)
+// kilocode_change end
+
 interface TaskItemProps {
 	item: DisplayHistoryItem
 	variant: "compact" | "full"
@@ -87,6 +97,37 @@ const TaskItem = ({
 						{item.highlight ? undefined : item.task}
 					</div>
 
+					{/* kilocode_change start: messages matching the search, which open the task at the message */}
+					{item.snippets && item.snippets.length > 0 && (
+						<div className="flex flex-col gap-1 mt-1" data-testid="task-snippets">
+							{item.snippets.map((snippet, index) => (
+								<div
+									key={index}
+									data-testid="task-snippet"
+									className="flex gap-1 min-w-0 text-sm text-vscode-descriptionForeground hover:text-vscode-foreground"
+									onClick={(e) => {
+										if (isSelectionMode) {
+											return
+										}
+
+										e.stopPropagation()
+										vscode.postMessage({
+											type: "showTaskWithId",
+											text: item.id,
+											messageTs: snippet.ts,
+										})
+									}}>
+									<span className="codicon codicon-comment shrink-0 scale-80" />
+									<span
+										className="line-clamp-2 break-words"
+										dangerouslySetInnerHTML={{ __html: highlightSnippet(snippet) }}
+									/>
+								</div>
+							))}
+						</div>
+					)}
+					{/* kilocode_change end */}
+
 					{/* Task Item Footer */}
 					<TaskItemFooter item={item} variant={variant} isSelectionMode={isSelectionMode} />
 
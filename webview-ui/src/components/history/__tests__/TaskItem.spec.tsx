@@ -1,5 +1,7 @@
 import { render, screen, fireEvent } from "@/utils/test-utils"
 
+import { vscode } from "@src/utils/vscode" // kilocode_change
+
 import TaskItem from "../TaskItem"
 
 vi.mock("@src/utils/vscode")
@@ -117,4 +119,24 @@ describe("TaskItem", () => {
 		// Cache section should not be present
 		expect(screen.queryByTestId("cache-compact")).not.toBeInTheDocument()
 	})
+
+	// kilocode_change start
+	it("opens the task at the message of a search snippet", () => {
+		render(
+			<TaskItem
+				item={{ ...mockTask, snippets: [{ ts: 123, text: "Set the cache points", highlights: [[8, 13]] }] }}
+				variant="full"
+			/>,
+		)
+
+		const snippet = screen.getByTestId("task-snippet")
+		const highlighted = Array.from(snippet.querySelectorAll(".history-item-highlight"), (span) => span.textContent)
+		expect(highlighted.join("")).toBe("cache")
+
+		fireEvent.click(snippet)
+
+		expect(vscode.postMessage).toHaveBeenCalledTimes(1)
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "showTaskWithId", text: "1", messageTs: 123 })
+	})
+	// kilocode_change end
 })
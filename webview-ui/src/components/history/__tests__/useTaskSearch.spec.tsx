@@ -12,7 +12,14 @@ vi.mock("@/utils/highlight", () => ({
 	highlightFzfMatch: vi.fn((text) => `<mark>${text}</mark>`),
 }))
 
+// kilocode_change start
+vi.mock("@/utils/vscode", () => ({
+	vscode: { postMessage: vi.fn() },
+}))
+// kilocode_change end
+
 import { useExtensionState } from "@/context/ExtensionStateContext"
+import { vscode } from "@/utils/vscode" // kilocode_change
 
 const mockUseExtensionState = useExtensionState as ReturnType<typeof vi.fn>
 
@@ -284,4 +291,55 @@ describe("useTaskSearch", () => {
 		// When not searching, it should fall back to newest
 		expect(result.current.sortOption).toBe("mostRelevant")
 	})
+
+	// kilocode_change start
+	it("uses the results of the full-text search once they arrive", () => {
+		vi.useFakeTimers()
+
+		try {
+			const { result } = renderHook(() => useTaskSearch())
+
+			act(() => {
+				result.current.setSearchQuery('"cache points"')
+			})
+
+			expect(result.current.tasks).toHaveLength(0) // Nothing fuzzy-matches the first messages
+
+			act(() => {
+				vi.advanceTimersByTime(200)
+			})
+
+			expect(vscode.postMessage).toHaveBeenCalledWith({
+				type: "searchTaskHistory",
+				query: '"cache points"',
+				requestId: expect.any(String),
+				workspace: "/workspace/project1",
+			})
+
+			const { requestId } = vi.mocked(vscode.postMessage).mock.calls[0][0]
+			const snippets = [{ ts: 123, text: "Set the cache points", highlights: [[8, 20]] }]
+
+			act(() => {
+				window.dispatchEvent(
+					new MessageEvent("message", {
+						data: {
+							type: "taskSearchResults",
+							requestId,
+							taskSearchResults: [
+								{ taskId: "task-1", score: 2, snippets },
+								// Deleted or filtered out in the meantime
+								{ taskId: "task-3", score: 1, snippets },
+							],
+						},
+					}),
+				)
+			})
+
+			expect(result.current.tasks).toHaveLength(1)
+			expect(result.current.tasks[0]).toMatchObject({ id: "task-1", snippets })
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+	// kilocode_change end
 })
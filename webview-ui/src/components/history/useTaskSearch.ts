@@ -1,7 +1,12 @@
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useMemo, useRef } from "react" // kilocode_change
+import { useEvent } from "react-use" // kilocode_change
 import { Fzf } from "fzf"
 
+import type { TaskSearchResult } from "@roo-code/types" // kilocode_change
+import type { ExtensionMessage } from "@roo/ExtensionMessage" // kilocode_change
+
 import { highlightFzfMatch } from "@/utils/highlight"
+import { vscode } from "@/utils/vscode" // kilocode_change
 import { useExtensionState } from "@/context/ExtensionStateContext"
 
 type SortOption = "newest" | "oldest" | "mostExpensive" | "mostTokens" | "mostRelevant"
@@ -13,6 +18,10 @@ export const useTaskSearch = () => {
 	const [lastNonRelevantSort, setLastNonRelevantSort] = useState<SortOption | null>("newest")
 	const [showAllWorkspaces, setShowAllWorkspaces] = useState(false)
 	const [showFavoritesOnly, setShowFavoritesOnly] = useState(false) // kilocode_change
+	// kilocode_change start
+	const [fullTextResults, setFullTextResults] = useState<{ query: string; results: TaskSearchResult[] }>()
+	const searchRequestRef = useRef<{ requestId: string; query: string }>()
+	// kilocode_change end
 
 	useEffect(() => {
 		if (searchQuery && sortOption !== "mostRelevant" && !lastNonRelevantSort) {
@@ -37,6 +46,38 @@ export const useTaskSearch = () => {
 		return tasks
 	}, [taskHistory, showAllWorkspaces, showFavoritesOnly, cwd]) // kilocode_change
 
+	// kilocode_change start
+	// Search the whole conversations in the extension, and fuzzy-match the first messages until the results arrive
+	useEffect(() => {
+		if (!searchQuery.trim()) {
+			searchRequestRef.current = undefined
+			return
+		}
+
+		const timeout = setTimeout(() => {
+			const requestId = Math.random().toString(36).substring(2, 9)
+			searchRequestRef.current = { requestId, query: searchQuery }
+			vscode.postMessage({
+				type: "searchTaskHistory",
+				query: searchQuery,
+				requestId,
+				workspace: showAllWorkspaces ? undefined : cwd,
+			})
+		}, 200)
+
+		return () => clearTimeout(timeout)
+	}, [searchQuery, showAllWorkspaces, cwd])
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+		const request = searchRequestRef.current
+
+		if (message.type === "taskSearchResults" && request && message.requestId === request.requestId) {
+			setFullTextResults({ query: request.query, results: message.taskSearchResults ?? [] })
+		}
+	})
+	// kilocode_change end
+
 	const fzf = useMemo(() => {
 		return new Fzf(presentableTasks, {
 			selector: (item) => item.task,
@@ -46,7 +87,16 @@ export const useTaskSearch = () => {
 	const tasks = useMemo(() => {
 		let results = presentableTasks
 
-		if (searchQuery) {
+		// kilocode_change start
+		if (searchQuery && fullTextResults?.query === searchQuery) {
+			const tasksById = new Map(presentableTasks.map((item) => [item.id, item]))
+
+			results = fullTextResults.results.flatMap(({ taskId, snippets }) => {
+				const item = tasksById.get(taskId)
+				return item ? [{ ...item, snippets }] : []
+			})
+		} else if (searchQuery) {
+			// kilocode_change end
 			const searchResults = fzf.find(searchQuery)
 			results = searchResults.map((result) => {
 				const positions = Array.from(result.positions)
@@ -82,7 +132,7 @@ export const useTaskSearch = () => {
 					return (b.ts || 0) - (a.ts || 0)
 			}
 		})
-	}, [presentableTasks, searchQuery, fzf, sortOption])
+	}, [presentableTasks, searchQuery, fzf, sortOption, fullTextResults]) // kilocode_change
 
 	return {
 		tasks,
@@ -0,0 +1,108 @@
+// kilocode_change - new file
+import { useTranslation } from "react-i18next"
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+
+import type { ParallelSubtaskState } from "@roo-code/types"
+
+import { cn } from "@src/lib/utils"
+import { vscode } from "@src/utils/vscode"
+import { useExtensionState } from "@src/context/ExtensionStateContext"
+
+const stateIcons: Record<ParallelSubtaskState, string> = {
+	running: "codicon-loading codicon-modifier-spin",
+	waiting: "codicon-bell-dot",
+	completed: "codicon-pass",
+	cancelled: "codicon-circle-slash",
+}
+
+/**
+ * Shows the progress of the parallel subtasks of the current task side by side, and lets the user open one of them
+ * in the chat to follow it and answer its questions.
+ */
+export const ParallelSubtasksPanel = () => {
+	const { t } = useTranslation()
+	const { parallelSubtasks = [], focusedParallelSubtaskId } = useExtensionState()
+
+	if (parallelSubtasks.length === 0) {
+		return null
+	}
+
+	const finishedCount = parallelSubtasks.filter(({ state }) => state === "completed" || state === "cancelled").length
+
+	return (
+		<div className="px-3 py-2 flex flex-col gap-2" data-testid="parallel-subtasks-panel">
+			<div className="flex items-center justify-between gap-2">
+				<span className="font-bold">
+					{t("chat:parallelSubtasks.title", { finished: finishedCount, total: parallelSubtasks.length })}
+				</span>
+				{focusedParallelSubtaskId && (
+					<VSCodeButton
+						appearance="secondary"
+						onClick={() => vscode.postMessage({ type: "focusParallelSubtask" })}>
+						{t("chat:parallelSubtasks.backToParent")}
+					</VSCodeButton>
+				)}
+			</div>
+			<div className="grid grid-cols-[repeat(auto-fit,minmax(160px,1fr))] gap-2">
+				{parallelSubtasks.map(({ taskId, message, state, lastActivity, cost }, index) => {
+					const isFocused = taskId === focusedParallelSubtaskId
+					const isActive = state === "running" || state === "waiting"
+
+					return (
+						<div
+							key={taskId}
+							data-testid="parallel-subtask"
+							className={cn(
+								"flex flex-col gap-1 p-2 rounded-xs border border-vscode-panel-border min-w-0",
+								isFocused && "border-vscode-focusBorder",
+								state === "waiting" && !isFocused && "border-vscode-editorWarning-foreground",
+							)}>
+							<div className="flex items-center gap-1 min-w-0">
+								<span className={cn("codicon shrink-0", stateIcons[state])} />
+								<span className="font-bold shrink-0">
+									{t("chat:parallelSubtasks.subtask", { number: index + 1 })}
+								</span>
+								<span className="text-vscode-descriptionForeground truncate">
+									{t(`chat:parallelSubtasks.states.${state}`)}
+								</span>
+								{cost > 0 && (
+									<span className="ml-auto shrink-0 text-vscode-descriptionForeground">
+										${cost.toFixed(2)}
+									</span>
+								)}
+							</div>
+							<div className="truncate" title={message}>
+								{message}
+							</div>
+							{lastActivity && (
+								<div className="text-vscode-descriptionForeground line-clamp-2" title={lastActivity}>
+									{lastActivity}
+								</div>
+							)}
+							{isActive && (
+								<div className="flex gap-1 mt-auto">
+									{!isFocused && (
+										<VSCodeButton
+											appearance={state === "waiting" ? "primary" : "secondary"}
+											onClick={() =>
+												vscode.postMessage({ type: "focusParallelSubtask", text: taskId })
+											}>
+											{t("chat:parallelSubtasks.open")}
+										</VSCodeButton>
+									)}
+									<VSCodeButton
+										appearance="secondary"
+										onClick={() =>
+											vscode.postMessage({ type: "cancelParallelSubtask", text: taskId })
+										}>
+										{t("chat:parallelSubtasks.cancel")}
+									</VSCodeButton>
+								</div>
+							)}
+						</div>
+					)
+				})}
+			</div>
+		</div>
+	)
+}
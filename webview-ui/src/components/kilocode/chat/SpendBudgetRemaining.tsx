@@ -0,0 +1,51 @@
+// kilocode_change - new file
+import { useTranslation } from "react-i18next"
+import { VSCodeBadge } from "@vscode/webview-ui-toolkit/react"
+
+import { StandardTooltip } from "@src/components/ui"
+import { useExtensionState } from "@src/context/ExtensionStateContext"
+
+/**
+ * Shows what is left of the tightest spend budget of the current task, with all budgets in the tooltip.
+ */
+export const SpendBudgetRemaining = () => {
+	const { t } = useTranslation()
+	const { spendBudgets = [] } = useExtensionState()
+
+	if (spendBudgets.length === 0) {
+		return null
+	}
+
+	const tightest = spendBudgets.reduce((a, b) => (b.limit - b.spent < a.limit - a.spent ? b : a))
+	const remaining = Math.max(0, tightest.limit - tightest.spent)
+
+	const tooltipContent = (
+		<div className="space-y-1">
+			{spendBudgets.map((status) => (
+				<div key={status.scope}>
+					{t(`chat:spendBudget.scope.${status.scope}`, {
+						spent: status.spent.toFixed(2),
+						limit: status.limit.toFixed(2),
+					})}
+				</div>
+			))}
+		</div>
+	)
+
+	return (
+		<StandardTooltip content={tooltipContent} side="top" sideOffset={8}>
+			<VSCodeBadge
+				data-testid="spend-budget-remaining"
+				style={
+					tightest.warning
+						? {
+								backgroundColor: "var(--vscode-editorWarning-foreground)",
+								color: "var(--vscode-editor-background)",
+							}
+						: undefined
+				}>
+				{t("chat:spendBudget.remaining", { remaining: remaining.toFixed(2) })}
+			</VSCodeBadge>
+		</StandardTooltip>
+	)
+}
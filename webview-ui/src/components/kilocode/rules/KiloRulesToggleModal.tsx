@@ -6,6 +6,7 @@ import styled from "styled-components"
 
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../../ui/tooltip"
 import { vscode } from "@/utils/vscode"
+import type { RuleScope } from "@roo/kilocode/rules" // kilocode_change
 import BottomButton from "../BottomButton"
 
 import RulesWorkflowsSection from "./RulesWorkflowsSection"
@@ -44,6 +45,10 @@ const KiloRulesToggleModal: React.FC = () => {
 	const [globalRules, setGlobalRules] = useState<[string, boolean][]>([])
 	const [localWorkflows, setLocalWorkflows] = useState<[string, boolean][]>([])
 	const [globalWorkflows, setGlobalWorkflows] = useState<[string, boolean][]>([])
+	// kilocode_change start
+	const [nestedRules, setNestedRules] = useState<[string, [string, boolean][]][]>([])
+	const [ruleScopes, setRuleScopes] = useState<Record<string, RuleScope>>({})
+	// kilocode_change end
 
 	useEffect(() => {
 		if (isVisible) {
@@ -59,6 +64,14 @@ const KiloRulesToggleModal: React.FC = () => {
 				setGlobalRules(sortedRules(message.globalRules))
 				setLocalWorkflows(sortedRules(message.localWorkflows))
 				setGlobalWorkflows(sortedRules(message.globalWorkflows))
+				// kilocode_change start
+				setNestedRules(
+					Object.entries((message.nestedRules ?? {}) as Record<string, Record<string, unknown>>)
+						.map(([directory, rules]): [string, [string, boolean][]] => [directory, sortedRules(rules)])
+						.sort(([a], [b]) => a.localeCompare(b)),
+				)
+				setRuleScopes(message.ruleScopes ?? {})
+				// kilocode_change end
 			}
 		}
 
@@ -179,6 +192,10 @@ const KiloRulesToggleModal: React.FC = () => {
 						type={currentView}
 						globalItems={currentView === "rule" ? globalRules : globalWorkflows}
 						localItems={currentView === "rule" ? localRules : localWorkflows}
+						// kilocode_change start
+						scopes={currentView === "rule" ? ruleScopes : undefined}
+						nestedItems={currentView === "rule" ? nestedRules : undefined}
+						// kilocode_change end
 						toggleGlobal={(path: string, enabled: boolean) =>
 							currentView === "rule"
 								? toggleRule(true, path, enabled)
@@ -1,12 +1,17 @@
 import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { useTranslation } from "react-i18next" // kilocode_change
+import type { RuleScope } from "@roo/kilocode/rules" // kilocode_change
 import { vscode } from "@/utils/vscode"
 import { getBasename } from "@/utils/kilocode/path-webview"
 
 const RuleRow: React.FC<{
 	rulePath: string
 	enabled: boolean
+	scope?: RuleScope // kilocode_change
 	toggleRule: (rulePath: string, enabled: boolean) => void
-}> = ({ rulePath, enabled, toggleRule }) => {
+}> = ({ rulePath, enabled, scope, toggleRule }) => {
+	const { t } = useTranslation() // kilocode_change
+
 	const handleEditClick = () => {
 		vscode.postMessage({
 			type: "openFile",
@@ -33,6 +38,23 @@ const RuleRow: React.FC<{
 					<span className="ph-no-capture">{getBasename(rulePath)}</span>
 				</span>
 				<div className="flex items-center ml-2 space-x-2">
+					{/* kilocode_change start */}
+					{scope && (
+						<span
+							data-testid="rule-scope"
+							className={`flex items-center gap-1 text-xs whitespace-nowrap ${
+								scope.active && enabled
+									? "text-[var(--vscode-testing-iconPassed)]"
+									: "text-[var(--vscode-descriptionForeground)]"
+							}`}
+							title={t("kilocode:rules.scope.appliesTo", { globs: scope.appliesTo.join(", ") })}>
+							<span className="codicon codicon-filter" style={{ fontSize: "12px" }} />
+							{scope.active && enabled
+								? t("kilocode:rules.scope.active")
+								: t("kilocode:rules.scope.inactive")}
+						</span>
+					)}
+					{/* kilocode_change end */}
 					<div
 						role="switch"
 						aria-checked={enabled}
@@ -1,23 +1,34 @@
+import type { RuleScope } from "@roo/kilocode/rules" // kilocode_change
 import NewRuleRow from "./NewRuleRow"
 import RuleRow from "./RuleRow"
 
 const RulesToggleList = ({
 	rules,
+	scopes, // kilocode_change
 	toggleRule,
 	isGlobal,
 	ruleType,
+	showNewRuleRow = true, // kilocode_change
 }: {
 	rules: [string, boolean][]
+	scopes?: Record<string, RuleScope> // kilocode_change
 	toggleRule: (rulePath: string, enabled: boolean) => void
 	isGlobal: boolean
 	ruleType: "rule" | "workflow"
+	showNewRuleRow?: boolean // kilocode_change
 }) => (
 	<div className="flex flex-col gap-0">
 		{rules.length > 0 &&
 			rules.map(([rulePath, enabled]) => (
-				<RuleRow key={rulePath} rulePath={rulePath} enabled={enabled} toggleRule={toggleRule} />
+				<RuleRow
+					key={rulePath}
+					rulePath={rulePath}
+					enabled={enabled}
+					scope={scopes?.[rulePath]} // kilocode_change
+					toggleRule={toggleRule}
+				/>
 			))}
-		<NewRuleRow isGlobal={isGlobal} ruleType={ruleType} />
+		{showNewRuleRow && <NewRuleRow isGlobal={isGlobal} ruleType={ruleType} /> /* kilocode_change */}
 	</div>
 )
 
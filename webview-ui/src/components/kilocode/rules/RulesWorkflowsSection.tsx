@@ -1,10 +1,15 @@
 import { useTranslation } from "react-i18next"
+import type { RuleScope } from "@roo/kilocode/rules" // kilocode_change
 import RulesToggleList from "./RulesToggleList"
 
 interface RulesWorkflowsSectionProps {
 	type: "rule" | "workflow"
 	globalItems: [string, boolean][]
 	localItems: [string, boolean][]
+	// kilocode_change start
+	scopes?: Record<string, RuleScope>
+	nestedItems?: [string, [string, boolean][]][]
+	// kilocode_change end
 	toggleGlobal: (path: string, enabled: boolean) => void
 	toggleLocal: (path: string, enabled: boolean) => void
 }
@@ -13,6 +18,10 @@ const RulesWorkflowsSection: React.FC<RulesWorkflowsSectionProps> = ({
 	type,
 	globalItems,
 	localItems,
+	// kilocode_change start
+	scopes,
+	nestedItems = [],
+	// kilocode_change end
 	toggleGlobal,
 	toggleLocal,
 }) => {
@@ -27,13 +36,47 @@ const RulesWorkflowsSection: React.FC<RulesWorkflowsSectionProps> = ({
 		<>
 			<div className="mb-3">
 				<div className="text-sm font-normal mb-2">{t(globalSectionKey)}</div>
-				<RulesToggleList rules={globalItems} toggleRule={toggleGlobal} isGlobal={true} ruleType={type} />
+				<RulesToggleList
+					rules={globalItems}
+					scopes={scopes} // kilocode_change
+					toggleRule={toggleGlobal}
+					isGlobal={true}
+					ruleType={type}
+				/>
 			</div>
 
-			<div style={{ marginBottom: -10 }}>
+			<div style={nestedItems.length > 0 ? undefined : { marginBottom: -10 } /* kilocode_change */}>
 				<div className="text-sm font-normal mb-2">{t(workspaceSectionKey)}</div>
-				<RulesToggleList rules={localItems} toggleRule={toggleLocal} isGlobal={false} ruleType={type} />
+				<RulesToggleList
+					rules={localItems}
+					scopes={scopes} // kilocode_change
+					toggleRule={toggleLocal}
+					isGlobal={false}
+					ruleType={type}
+				/>
 			</div>
+
+			{/* kilocode_change start */}
+			{nestedItems.length > 0 && (
+				<div style={{ marginBottom: -10 }}>
+					{nestedItems.map(([directory, items]) => (
+						<div key={directory} className="mt-3">
+							<div className="text-sm font-normal mb-2 ph-no-capture">
+								{t("kilocode:rules.sections.nestedRules", { directory })}
+							</div>
+							<RulesToggleList
+								rules={items}
+								scopes={scopes}
+								toggleRule={toggleLocal}
+								isGlobal={false}
+								ruleType={type}
+								showNewRuleRow={false}
+							/>
+						</div>
+					))}
+				</div>
+			)}
+			{/* kilocode_change end */}
 		</>
 	)
 }
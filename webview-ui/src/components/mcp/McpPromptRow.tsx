@@ -0,0 +1,71 @@
+// kilocode_change - new file
+import { Trans } from "react-i18next"
+
+import { McpPrompt, getMcpPromptCommandName } from "@roo/mcp"
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+
+type McpPromptRowProps = {
+	prompt: McpPrompt
+	serverName: string
+}
+
+const McpPromptRow = ({ prompt, serverName }: McpPromptRowProps) => {
+	const { t } = useAppTranslation()
+	const commandName = getMcpPromptCommandName(serverName, prompt.name)
+
+	return (
+		<div style={{ padding: "3px 0" }}>
+			<div style={{ display: "flex", alignItems: "center", marginBottom: "4px" }}>
+				<span className="codicon codicon-comment-discussion" style={{ marginRight: "6px" }} />
+				<span style={{ fontWeight: 500 }}>{prompt.title || prompt.name}</span>
+			</div>
+			<div style={{ fontSize: "12px", opacity: 0.8, margin: "4px 0" }}>
+				{prompt.description || t("mcp:tool.noDescription")}
+			</div>
+			{prompt.arguments && prompt.arguments.length > 0 && (
+				<div style={{ marginTop: "8px", fontSize: "12px" }}>
+					<div style={{ marginBottom: "4px", opacity: 0.8, fontSize: "11px", textTransform: "uppercase" }}>
+						{t("mcp:prompt.arguments")}
+					</div>
+					{prompt.arguments.map((argument) => (
+						<div key={argument.name} style={{ display: "flex", alignItems: "baseline", marginTop: "4px" }}>
+							<code
+								style={{
+									color: "var(--vscode-textPreformat-foreground)",
+									marginRight: "8px",
+								}}>
+								{argument.name}
+								{argument.required && <span style={{ color: "var(--vscode-errorForeground)" }}>*</span>}
+							</code>
+							<span style={{ opacity: 0.8, overflowWrap: "anywhere" }}>
+								{argument.description || t("mcp:tool.noDescription")}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+			{commandName && (
+				<div style={{ marginTop: "8px", fontSize: "12px", opacity: 0.8 }}>
+					<Trans
+						i18nKey="mcp:prompt.slashCommandHint"
+						components={{
+							code: (
+								<code
+									style={{
+										color: "var(--vscode-textPreformat-foreground)",
+										background: "var(--vscode-textPreformat-background)",
+										padding: "1px 4px",
+										borderRadius: "3px",
+									}}
+								/>
+							),
+						}}
+						values={{ command: `/${commandName}` }}
+					/>
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default McpPromptRow
@@ -0,0 +1,53 @@
+// kilocode_change - new file
+import type { McpSamplingUsage } from "@roo-code/types"
+
+import { McpSamplingRequest } from "@roo/mcp"
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+
+type McpSamplingRowProps = {
+	sampling: McpSamplingRequest
+	response?: string
+	usage?: McpSamplingUsage
+}
+
+const McpSamplingRow = ({ sampling, response, usage }: McpSamplingRowProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div className="flex flex-col gap-2 text-xs">
+			{sampling.systemPrompt && (
+				<div>
+					<div className="mb-1 text-[11px] uppercase opacity-80 text-vscode-descriptionForeground">
+						{t("mcp:sampling.systemPrompt")}
+					</div>
+					<div className="whitespace-pre-wrap break-words">{sampling.systemPrompt}</div>
+				</div>
+			)}
+			<div>
+				<div className="mb-1 text-[11px] uppercase opacity-80 text-vscode-descriptionForeground">
+					{t("mcp:sampling.messages")}
+				</div>
+				{sampling.messages.map((message, index) => (
+					<div key={index} className="flex items-baseline gap-2 mt-1">
+						<code className="text-vscode-textPreformat-foreground flex-shrink-0">{message.role}</code>
+						<span className="whitespace-pre-wrap break-words">{message.text}</span>
+					</div>
+				))}
+			</div>
+			<div className="text-vscode-descriptionForeground">
+				{t("mcp:sampling.maxTokens", { count: sampling.maxTokens })}
+			</div>
+			{response !== undefined && (
+				<div className="border-t border-vscode-panel-border pt-2">
+					<div className="flex justify-between mb-1 text-[11px] uppercase opacity-80 text-vscode-descriptionForeground">
+						<span>{t("mcp:sampling.response")}</span>
+						{usage && <span className="normal-case">${usage.cost.toFixed(4)}</span>}
+					</div>
+					<div className="whitespace-pre-wrap break-words">{response}</div>
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default McpSamplingRow
@@ -22,6 +22,11 @@ import {
 	DialogTitle,
 	DialogDescription,
 	DialogFooter,
+	Select, // kilocode_change
+	SelectContent, // kilocode_change
+	SelectItem, // kilocode_change
+	SelectTrigger, // kilocode_change
+	SelectValue, // kilocode_change
 } from "@src/components/ui"
 import { buildDocLink } from "@src/utils/docLinks"
 
@@ -29,6 +34,7 @@ import { Tab, TabContent, TabHeader } from "../common/Tab"
 
 import McpToolRow from "./McpToolRow"
 import McpResourceRow from "./McpResourceRow"
+import McpPromptRow from "./McpPromptRow" // kilocode_change
 // import McpEnabledToggle from "./McpEnabledToggle" // kilocode_change not used
 import { McpErrorRow } from "./McpErrorRow"
 
@@ -44,6 +50,9 @@ const McpView = ({ onDone, hideHeader = false }: McpViewProps) => {
 		mcpEnabled,
 		enableMcpServerCreation,
 		setEnableMcpServerCreation,
+		listApiConfigMeta, // kilocode_change
+		mcpSamplingApiConfigId, // kilocode_change
+		setMcpSamplingApiConfigId, // kilocode_change
 	} = useExtensionState()
 
 	const { t } = useAppTranslation()
@@ -122,6 +131,36 @@ const McpView = ({ onDone, hideHeader = false }: McpViewProps) => {
 							</div>
 						)}
 
+						{/* kilocode_change start */}
+						<div style={{ marginTop: "10px" }}>
+							<label className="block font-medium mb-1">{t("mcp:sampling.apiConfiguration")}</label>
+							<Select
+								value={mcpSamplingApiConfigId || "-"}
+								onValueChange={(value) => {
+									setMcpSamplingApiConfigId(value === "-" ? "" : value)
+									vscode.postMessage({
+										type: "mcpSamplingApiConfigId",
+										text: value === "-" ? "" : value,
+									})
+								}}>
+								<SelectTrigger data-testid="mcp-sampling-api-config-select" className="w-full">
+									<SelectValue placeholder={t("mcp:sampling.useCurrentConfig")} />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="-">{t("mcp:sampling.useCurrentConfig")}</SelectItem>
+									{(listApiConfigMeta || []).map((config) => (
+										<SelectItem key={config.id} value={config.id}>
+											{config.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<div className="text-sm text-vscode-descriptionForeground mt-1">
+								{t("mcp:sampling.apiConfigDescription")}
+							</div>
+						</div>
+						{/* kilocode_change end */}
+
 						{/* Edit Settings Buttons */}
 						<div
 							style={{
@@ -237,6 +276,17 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 		})
 	}
 
+	// kilocode_change start
+	const handleAlwaysAllowSamplingChange = () => {
+		vscode.postMessage({
+			type: "toggleSamplingAlwaysAllow",
+			serverName: server.name,
+			source: server.source || "global",
+			alwaysAllow: !server.alwaysAllowSampling,
+		})
+	}
+	// kilocode_change end
+
 	const handleDelete = () => {
 		vscode.postMessage({
 			type: "deleteMcpServer",
@@ -376,6 +426,11 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 								{t("mcp:tabs.resources")} (
 								{[...(server.resourceTemplates || []), ...(server.resources || [])].length || 0})
 							</VSCodePanelTab>
+							{/* kilocode_change start */}
+							<VSCodePanelTab id="prompts">
+								{t("mcp:tabs.prompts")} ({server.prompts?.length || 0})
+							</VSCodePanelTab>
+							{/* kilocode_change end */}
 							{server.instructions && (
 								<VSCodePanelTab id="instructions">{t("mcp:instructions")}</VSCodePanelTab>
 							)}
@@ -425,6 +480,27 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 								)}
 							</VSCodePanelView>
 
+							{/* kilocode_change start */}
+							<VSCodePanelView id="prompts-view">
+								{server.prompts && server.prompts.length > 0 ? (
+									<div
+										style={{ display: "flex", flexDirection: "column", gap: "8px", width: "100%" }}>
+										{server.prompts.map((prompt) => (
+											<McpPromptRow
+												key={`${prompt.name}-${server.name}-${server.source || "global"}`}
+												prompt={prompt}
+												serverName={server.name}
+											/>
+										))}
+									</div>
+								) : (
+									<div style={{ padding: "10px 0", color: "var(--vscode-descriptionForeground)" }}>
+										{t("mcp:emptyState.noPrompts")}
+									</div>
+								)}
+							</VSCodePanelView>
+							{/* kilocode_change end */}
+
 							{server.instructions && (
 								<VSCodePanelView id="instructions-view">
 									<div style={{ padding: "10px 0", fontSize: "12px" }}>
@@ -492,6 +568,27 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 								{t("mcp:networkTimeout.description")}
 							</span>
 						</div>
+
+						{/* kilocode_change start */}
+						{alwaysAllowMcp && (
+							<div style={{ padding: "0 7px 10px" }}>
+								<VSCodeCheckbox
+									checked={server.alwaysAllowSampling}
+									onChange={handleAlwaysAllowSamplingChange}>
+									{t("mcp:sampling.alwaysAllow")}
+								</VSCodeCheckbox>
+								<span
+									style={{
+										fontSize: "12px",
+										color: "var(--vscode-descriptionForeground)",
+										display: "block",
+										marginTop: "4px",
+									}}>
+									{t("mcp:sampling.alwaysAllowDescription")}
+								</span>
+							</div>
+						)}
+						{/* kilocode_change end */}
 					</div>
 				)
 			) : (
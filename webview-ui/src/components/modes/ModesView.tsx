@@ -203,6 +203,14 @@ const ModesView = ({ onDone }: ModesViewProps) => {
 		return customModes?.find(findMode) || modes.find(findMode)
 	}, [visualMode, customModes, modes])
 
+	// kilocode_change start
+	// The mode with everything it inherits through `extends` merged in
+	const getEffectiveMode = useCallback(
+		(): ModeConfig | undefined => modes.find((m) => m.slug === visualMode),
+		[visualMode, modes],
+	)
+	// kilocode_change end
+
 	// Check if the current mode has rules to export
 	const checkRulesDirectory = useCallback((slug: string) => {
 		vscode.postMessage({
@@ -750,6 +758,44 @@ const ModesView = ({ onDone }: ModesViewProps) => {
 						</div>
 					)}
 
+					{/* kilocode_change start */}
+					{(() => {
+						const effectiveMode = getEffectiveMode()
+
+						if (!effectiveMode?.extends) {
+							return null
+						}
+
+						const parentMode =
+							effectiveMode.extends === effectiveMode.slug
+								? undefined
+								: modes.find((m) => m.slug === effectiveMode.extends)
+
+						return (
+							<div
+								className="mb-4 p-2 rounded border border-vscode-panel-border"
+								data-testid="effective-mode-config">
+								<div className="font-bold mb-1">{t("prompts:inheritance.title")}</div>
+								<div className="text-sm text-vscode-descriptionForeground mb-2">
+									{t("prompts:inheritance.description", {
+										mode: parentMode?.name ?? effectiveMode.extends,
+									})}
+								</div>
+								<div className="text-xs font-bold">{t("prompts:roleDefinition.title")}</div>
+								<div className="text-xs whitespace-pre-wrap mb-2">{effectiveMode.roleDefinition}</div>
+								{effectiveMode.customInstructions && (
+									<>
+										<div className="text-xs font-bold">{t("prompts:customInstructions.title")}</div>
+										<div className="text-xs whitespace-pre-wrap max-h-40 overflow-y-auto">
+											{effectiveMode.customInstructions}
+										</div>
+									</>
+								)}
+							</div>
+						)
+					})()}
+					{/* kilocode_change end */}
+
 					{/* Role Definition section */}
 					<div className="mb-4">
 						<div className="flex justify-between items-center mb-1">
@@ -991,7 +1037,7 @@ const ModesView = ({ onDone }: ModesViewProps) => {
 							) : (
 								<div className="text-sm text-vscode-foreground mb-2 leading-relaxed">
 									{(() => {
-										const currentMode = getCurrentMode()
+										const currentMode = getEffectiveMode() // kilocode_change
 										const enabledGroups = currentMode?.groups || []
 
 										// If there are no enabled groups, display translated "None"
@@ -241,4 +241,28 @@ describe("PromptsView", () => {
 			text: undefined,
 		})
 	})
+
+	// kilocode_change start
+	it("shows the effective config of a mode that extends another mode", () => {
+		renderPromptsView({
+			mode: "docs",
+			customModes: [
+				{
+					slug: "docs",
+					name: "Docs",
+					roleDefinition: "",
+					customInstructions: "Write short sentences.",
+					groups: [],
+					removeGroups: ["command"],
+					extends: "code",
+					source: "global",
+				},
+			],
+		})
+
+		const effectiveConfig = screen.getByTestId("effective-mode-config")
+		expect(effectiveConfig).toHaveTextContent("You are Softcodes, a highly skilled software engineer")
+		expect(effectiveConfig).toHaveTextContent("Write short sentences.")
+	})
+	// kilocode_change end
 })
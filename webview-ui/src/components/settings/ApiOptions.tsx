@@ -78,6 +78,7 @@ import { ModelInfoView } from "./ModelInfoView"
 import { ApiErrorMessage } from "./ApiErrorMessage"
 import { ThinkingBudget } from "./ThinkingBudget"
 import { DiffSettingsControl } from "./DiffSettingsControl"
+import { ToolCallingControl } from "./ToolCallingControl" // kilocode_change
 import { TemperatureControl } from "./TemperatureControl"
 import { RateLimitSecondsControl } from "./RateLimitSecondsControl"
 import { BedrockCustomArn } from "./providers/BedrockCustomArn"
@@ -664,8 +665,15 @@ const ApiOptions = ({
 					<DiffSettingsControl
 						diffEnabled={apiConfiguration.diffEnabled}
 						fuzzyMatchThreshold={apiConfiguration.fuzzyMatchThreshold}
+						diffFormat={apiConfiguration.diffFormat} // kilocode_change
 						onChange={(field, value) => setApiConfigurationField(field, value)}
 					/>
+					{/* kilocode_change start */}
+					<ToolCallingControl
+						nativeToolCalling={apiConfiguration.nativeToolCalling}
+						onChange={(value) => setApiConfigurationField("nativeToolCalling", value)}
+					/>
+					{/* kilocode_change end */}
 					<TemperatureControl
 						value={apiConfiguration.modelTemperature}
 						onChange={handleInputChange("modelTemperature", noTransform)}
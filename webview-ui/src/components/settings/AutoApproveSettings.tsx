@@ -1,6 +1,8 @@
 import { HTMLAttributes, useState } from "react"
 import { X } from "lucide-react"
 
+import type { ProviderSettingsEntry } from "@roo-code/types" // kilocode_change
+
 import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
 import { vscode } from "@/utils/vscode"
@@ -11,6 +13,7 @@ import { SectionHeader } from "./SectionHeader"
 import { Section } from "./Section"
 import { AutoApproveToggle } from "./AutoApproveToggle"
 import { MaxRequestsInput } from "./MaxRequestsInput" // kilocode_change
+import { SpendBudgetSettings } from "./SpendBudgetSettings" // kilocode_change
 
 type AutoApproveSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	alwaysAllowReadOnly?: boolean
@@ -32,6 +35,13 @@ type AutoApproveSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	allowedCommands?: string[]
 	allowedMaxRequests?: number | undefined // kilocode_change
 	showAutoApproveMenu?: boolean // kilocode_change
+	// kilocode_change start
+	taskSpendLimit?: number | null
+	dailySpendLimit?: number | null
+	profileSpendLimits?: Record<string, number>
+	spendWarningPercent?: number
+	listApiConfigMeta?: ProviderSettingsEntry[]
+	// kilocode_change end
 	setCachedStateField: SetCachedStateField<
 		| "alwaysAllowReadOnly"
 		| "alwaysAllowReadOnlyOutsideWorkspace"
@@ -52,6 +62,12 @@ type AutoApproveSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "allowedMaxRequests" // kilocode_change
 		| "showAutoApproveMenu" // kilocode_change
 		| "alwaysAllowUpdateTodoList"
+		// kilocode_change start
+		| "taskSpendLimit"
+		| "dailySpendLimit"
+		| "profileSpendLimits"
+		| "spendWarningPercent"
+		// kilocode_change end
 	>
 }
 
@@ -75,6 +91,13 @@ export const AutoApproveSettings = ({
 	allowedCommands,
 	allowedMaxRequests, // kilocode_change
 	showAutoApproveMenu, // kilocode_change
+	// kilocode_change start
+	taskSpendLimit,
+	dailySpendLimit,
+	profileSpendLimits,
+	spendWarningPercent,
+	listApiConfigMeta,
+	// kilocode_change end
 	setCachedStateField,
 	...props
 }: AutoApproveSettingsProps) => {
@@ -136,6 +159,14 @@ export const AutoApproveSettings = ({
 					allowedMaxRequests={allowedMaxRequests}
 					onValueChange={(value) => setCachedStateField("allowedMaxRequests", value)}
 				/>
+				<SpendBudgetSettings
+					taskSpendLimit={taskSpendLimit}
+					dailySpendLimit={dailySpendLimit}
+					profileSpendLimits={profileSpendLimits}
+					spendWarningPercent={spendWarningPercent}
+					listApiConfigMeta={listApiConfigMeta}
+					setCachedStateField={setCachedStateField}
+				/>
 				{/* kilocode_change end */}
 
 				{/* ADDITIONAL SETTINGS */}
@@ -1,17 +1,19 @@
 import React, { useCallback } from "react"
-import { Slider } from "@/components/ui"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Slider } from "@/components/ui" // kilocode_change
 import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
 
 interface DiffSettingsControlProps {
 	diffEnabled?: boolean
 	fuzzyMatchThreshold?: number
-	onChange: (field: "diffEnabled" | "fuzzyMatchThreshold", value: any) => void
+	diffFormat?: "searchReplace" | "unifiedDiff" // kilocode_change
+	onChange: (field: "diffEnabled" | "fuzzyMatchThreshold" | "diffFormat" /* kilocode_change */, value: any) => void
 }
 
 export const DiffSettingsControl: React.FC<DiffSettingsControlProps> = ({
 	diffEnabled = true,
 	fuzzyMatchThreshold = 1.0,
+	diffFormat = "searchReplace", // kilocode_change
 	onChange,
 }) => {
 	const { t } = useAppTranslation()
@@ -43,6 +45,27 @@ export const DiffSettingsControl: React.FC<DiffSettingsControlProps> = ({
 
 			{diffEnabled && (
 				<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+					{/* kilocode_change start */}
+					<div>
+						<label className="block font-medium mb-1">{t("settings:advanced.diff.format.label")}</label>
+						<Select value={diffFormat} onValueChange={(value) => onChange("diffFormat", value)}>
+							<SelectTrigger className="w-full" data-testid="diff-format-select">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="searchReplace">
+									{t("settings:advanced.diff.format.searchReplace")}
+								</SelectItem>
+								<SelectItem value="unifiedDiff">
+									{t("settings:advanced.diff.format.unifiedDiff")}
+								</SelectItem>
+							</SelectContent>
+						</Select>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("settings:advanced.diff.format.description")}
+						</div>
+					</div>
+					{/* kilocode_change end */}
 					<div>
 						<label className="block font-medium mb-1">
 							{t("settings:advanced.diff.matchPrecision.label")}
@@ -0,0 +1,85 @@
+// kilocode_change - new file
+import { memo } from "react"
+
+import type { ProviderSettingsEntry } from "@roo-code/types"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { vscode } from "@/utils/vscode"
+import { Button, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, StandardTooltip } from "@/components/ui"
+
+interface FallbackProfilesControlProps {
+	listApiConfigMeta?: ProviderSettingsEntry[]
+	fallbackApiConfigIds?: string[]
+}
+
+/**
+ * Edits the ordered list of profiles that tasks switch to when the API requests of their profile keep
+ * failing or exceed the model's context window. Changes are saved right away, like the profiles themselves.
+ */
+const FallbackProfilesControl = ({
+	listApiConfigMeta = [],
+	fallbackApiConfigIds = [],
+}: FallbackProfilesControlProps) => {
+	const { t } = useAppTranslation()
+
+	const fallbackProfiles = fallbackApiConfigIds.flatMap((id) =>
+		listApiConfigMeta.filter((config) => config.id === id),
+	)
+	const availableProfiles = listApiConfigMeta.filter((config) => !fallbackApiConfigIds.includes(config.id))
+
+	const setFallbackIds = (ids: string[]) => vscode.postMessage({ type: "fallbackApiConfigIds", ids })
+
+	const moveUp = (index: number) => {
+		const ids = fallbackProfiles.map((config) => config.id)
+		;[ids[index - 1], ids[index]] = [ids[index], ids[index - 1]]
+		setFallbackIds(ids)
+	}
+
+	return (
+		<div className="flex flex-col gap-1" data-testid="fallback-profiles-control">
+			<label className="block font-medium">{t("settings:providers.fallbackProfiles.label")}</label>
+			<div className="text-vscode-descriptionForeground text-sm mb-1">
+				{t("settings:providers.fallbackProfiles.description")}
+			</div>
+
+			{fallbackProfiles.map((config, index) => (
+				<div key={config.id} className="flex items-center gap-1">
+					<span className="w-5 text-vscode-descriptionForeground">{index + 1}.</span>
+					<span className="flex-1 truncate">{config.name}</span>
+					<StandardTooltip content={t("settings:providers.fallbackProfiles.moveUp")}>
+						<Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveUp(index)}>
+							<span className="codicon codicon-arrow-up" />
+						</Button>
+					</StandardTooltip>
+					<StandardTooltip content={t("settings:providers.fallbackProfiles.remove")}>
+						<Button
+							variant="ghost"
+							size="icon"
+							onClick={() => setFallbackIds(fallbackApiConfigIds.filter((id) => id !== config.id))}>
+							<span className="codicon codicon-close" />
+						</Button>
+					</StandardTooltip>
+				</div>
+			))}
+
+			{availableProfiles.length > 0 && (
+				<Select
+					value=""
+					onValueChange={(id) => setFallbackIds([...fallbackProfiles.map((config) => config.id), id])}>
+					<SelectTrigger className="w-full" data-testid="add-fallback-profile">
+						<SelectValue placeholder={t("settings:providers.fallbackProfiles.add")} />
+					</SelectTrigger>
+					<SelectContent>
+						{availableProfiles.map((config) => (
+							<SelectItem key={config.id} value={config.id}>
+								{config.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			)}
+		</div>
+	)
+}
+
+export default memo(FallbackProfilesControl)
@@ -58,6 +58,7 @@ import { Tab, TabContent, TabHeader, TabList, TabTrigger } from "../common/Tab"
 import { SetCachedStateField, SetExperimentEnabled } from "./types"
 import { SectionHeader } from "./SectionHeader"
 import ApiConfigManager from "./ApiConfigManager"
+import FallbackProfilesControl from "./FallbackProfilesControl" // kilocode_change
 import ApiOptions from "./ApiOptions"
 import { AutoApproveSettings } from "./AutoApproveSettings"
 import { BrowserSettings } from "./BrowserSettings"
@@ -113,6 +114,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 
 	const extensionState = useExtensionState()
 	const { currentApiConfigName, listApiConfigMeta, uriScheme, settingsImportedAt } = extensionState
+	const { fallbackApiConfigIds } = extensionState // kilocode_change
 	const { uiKind } = extensionState // kilocode_change
 
 	const [isDiscardDialogShow, setDiscardDialogShow] = useState(false)
@@ -144,6 +146,12 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		alwaysAllowReadOnlyOutsideWorkspace,
 		allowedCommands,
 		allowedMaxRequests,
+		// kilocode_change start
+		taskSpendLimit,
+		dailySpendLimit,
+		profileSpendLimits,
+		spendWarningPercent,
+		// kilocode_change end
 		language,
 		alwaysAllowBrowser,
 		alwaysAllowExecute,
@@ -328,6 +336,12 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "alwaysAllowMcp", bool: alwaysAllowMcp })
 			vscode.postMessage({ type: "allowedCommands", commands: allowedCommands ?? [] })
 			vscode.postMessage({ type: "allowedMaxRequests", value: allowedMaxRequests ?? undefined })
+			// kilocode_change start
+			vscode.postMessage({ type: "taskSpendLimit", value: taskSpendLimit ?? undefined })
+			vscode.postMessage({ type: "dailySpendLimit", value: dailySpendLimit ?? undefined })
+			vscode.postMessage({ type: "profileSpendLimits", values: profileSpendLimits ?? {} })
+			vscode.postMessage({ type: "spendWarningPercent", value: spendWarningPercent })
+			// kilocode_change end
 			vscode.postMessage({ type: "autoCondenseContext", bool: autoCondenseContext })
 			vscode.postMessage({ type: "autoCondenseContextPercent", value: autoCondenseContextPercent })
 			vscode.postMessage({ type: "browserToolEnabled", bool: browserToolEnabled })
@@ -675,6 +689,12 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 									setErrorMessage={setErrorMessage}
 									currentApiConfigName={currentApiConfigName}
 								/>
+								{/* kilocode_change start */}
+								<FallbackProfilesControl
+									listApiConfigMeta={listApiConfigMeta}
+									fallbackApiConfigIds={fallbackApiConfigIds}
+								/>
+								{/* kilocode_change end */}
 							</Section>
 						</div>
 					)}
@@ -701,6 +721,13 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							followupAutoApproveTimeoutMs={followupAutoApproveTimeoutMs}
 							allowedCommands={allowedCommands}
 							allowedMaxRequests={allowedMaxRequests ?? undefined}
+							// kilocode_change start
+							taskSpendLimit={taskSpendLimit}
+							dailySpendLimit={dailySpendLimit}
+							profileSpendLimits={profileSpendLimits}
+							spendWarningPercent={spendWarningPercent}
+							listApiConfigMeta={listApiConfigMeta}
+							// kilocode_change end
 							setCachedStateField={setCachedStateField}
 						/>
 					)}
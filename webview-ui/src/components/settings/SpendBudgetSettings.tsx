@@ -0,0 +1,147 @@
+// kilocode_change - new file
+import { useState } from "react"
+
+import type { ProviderSettingsEntry } from "@roo-code/types"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { Input, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Slider } from "@/components/ui"
+
+import { SetCachedStateField } from "./types"
+
+const DEFAULT_SPEND_WARNING_PERCENT = 80
+
+type SpendBudgetSettingsProps = {
+	taskSpendLimit?: number | null
+	dailySpendLimit?: number | null
+	profileSpendLimits?: Record<string, number>
+	spendWarningPercent?: number
+	listApiConfigMeta?: ProviderSettingsEntry[]
+	setCachedStateField: SetCachedStateField<
+		"taskSpendLimit" | "dailySpendLimit" | "profileSpendLimits" | "spendWarningPercent"
+	>
+}
+
+function parseLimit(input: string): number | undefined {
+	const value = parseFloat(input)
+	return !isNaN(value) && value > 0 ? value : undefined
+}
+
+export const SpendBudgetSettings = ({
+	taskSpendLimit,
+	dailySpendLimit,
+	profileSpendLimits = {},
+	spendWarningPercent = DEFAULT_SPEND_WARNING_PERCENT,
+	listApiConfigMeta = [],
+	setCachedStateField,
+}: SpendBudgetSettingsProps) => {
+	const { t } = useAppTranslation()
+	const [selectedProfileId, setSelectedProfileId] = useState(listApiConfigMeta[0]?.id ?? "")
+
+	const handleProfileLimitChange = (input: string) => {
+		const { [selectedProfileId]: _, ...otherLimits } = profileSpendLimits
+		const value = parseLimit(input)
+
+		setCachedStateField(
+			"profileSpendLimits",
+			value === undefined ? otherLimits : { ...otherLimits, [selectedProfileId]: value },
+		)
+	}
+
+	return (
+		<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+			<div className="flex items-center gap-4 font-bold">
+				<span className="codicon codicon-credit-card" />
+				<div>{t("settings:autoApprove.spendBudgets.title")}</div>
+			</div>
+			<div className="text-vscode-descriptionForeground text-sm">
+				{t("settings:autoApprove.spendBudgets.description")}
+			</div>
+
+			<div>
+				<label className="block font-medium mb-1">{t("settings:autoApprove.spendBudgets.task.label")}</label>
+				<Input
+					type="number"
+					min={0}
+					step={0.01}
+					placeholder={t("settings:autoApprove.spendBudgets.unlimited")}
+					value={taskSpendLimit ?? ""}
+					onChange={(e) => setCachedStateField("taskSpendLimit", parseLimit(e.target.value))}
+					className="max-w-[200px]"
+					data-testid="task-spend-limit-input"
+				/>
+			</div>
+
+			<div>
+				<label className="block font-medium mb-1">{t("settings:autoApprove.spendBudgets.daily.label")}</label>
+				<Input
+					type="number"
+					min={0}
+					step={0.01}
+					placeholder={t("settings:autoApprove.spendBudgets.unlimited")}
+					value={dailySpendLimit ?? ""}
+					onChange={(e) => setCachedStateField("dailySpendLimit", parseLimit(e.target.value))}
+					className="max-w-[200px]"
+					data-testid="daily-spend-limit-input"
+				/>
+				<div className="text-vscode-descriptionForeground text-sm mt-1">
+					{t("settings:autoApprove.spendBudgets.daily.description")}
+				</div>
+			</div>
+
+			{listApiConfigMeta.length > 0 && (
+				<div>
+					<label className="block font-medium mb-1">
+						{t("settings:autoApprove.spendBudgets.profile.label")}
+					</label>
+					<div className="flex items-center gap-2">
+						<Select value={selectedProfileId} onValueChange={setSelectedProfileId}>
+							<SelectTrigger className="flex-1" data-testid="profile-spend-limit-select">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{listApiConfigMeta.map((config) => (
+									<SelectItem key={config.id} value={config.id}>
+										{config.name}
+										{profileSpendLimits[config.id] !== undefined &&
+											` ($${profileSpendLimits[config.id].toFixed(2)})`}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Input
+							type="number"
+							min={0}
+							step={0.01}
+							placeholder={t("settings:autoApprove.spendBudgets.unlimited")}
+							value={profileSpendLimits[selectedProfileId] ?? ""}
+							onChange={(e) => handleProfileLimitChange(e.target.value)}
+							className="max-w-[200px]"
+							data-testid="profile-spend-limit-input"
+						/>
+					</div>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:autoApprove.spendBudgets.profile.description")}
+					</div>
+				</div>
+			)}
+
+			<div>
+				<label className="block font-medium mb-1">{t("settings:autoApprove.spendBudgets.warning.label")}</label>
+				<div className="flex items-center gap-2">
+					<Slider
+						min={10}
+						max={100}
+						step={5}
+						value={[spendWarningPercent]}
+						onValueChange={([value]) => setCachedStateField("spendWarningPercent", value)}
+						data-testid="spend-warning-percent-slider"
+					/>
+					<span className="w-10">{spendWarningPercent}%</span>
+				</div>
+				<div className="text-vscode-descriptionForeground text-sm mt-1">
+					{t("settings:autoApprove.spendBudgets.warning.description")}
+				</div>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,25 @@
+// kilocode_change - new file
+import React from "react"
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+
+interface ToolCallingControlProps {
+	nativeToolCalling?: boolean
+	onChange: (value: boolean) => void
+}
+
+export const ToolCallingControl: React.FC<ToolCallingControlProps> = ({ nativeToolCalling = false, onChange }) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div>
+			<VSCodeCheckbox checked={nativeToolCalling} onChange={(e: any) => onChange(e.target.checked)}>
+				<span className="font-medium">{t("settings:advanced.nativeToolCalling.label")}</span>
+			</VSCodeCheckbox>
+			<div className="text-vscode-descriptionForeground text-sm">
+				{t("settings:advanced.nativeToolCalling.description")}
+			</div>
+		</div>
+	)
+}
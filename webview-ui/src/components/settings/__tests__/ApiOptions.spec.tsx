@@ -159,6 +159,17 @@ vi.mock("../DiffSettingsControl", () => ({
 	),
 }))
 
+// kilocode_change start
+vi.mock("../ToolCallingControl", () => ({
+	ToolCallingControl: ({ nativeToolCalling, onChange }: any) => (
+		<label data-testid="tool-calling-control">
+			Use native tool calling
+			<input type="checkbox" checked={nativeToolCalling} onChange={(e) => onChange(e.target.checked)} />
+		</label>
+	),
+}))
+// kilocode_change end
+
 // Mock ThinkingBudget component
 vi.mock("../ThinkingBudget", () => ({
 	ThinkingBudget: ({ modelInfo }: any) => {
@@ -256,6 +267,7 @@ describe("ApiOptions", () => {
 		expect(screen.getByText(/enable editing through diffs/i)).toBeInTheDocument()
 		expect(screen.getByTestId("temperature-control")).toBeInTheDocument()
 		expect(screen.getByTestId("rate-limit-seconds-control")).toBeInTheDocument()
+		expect(screen.getByTestId("tool-calling-control")).toBeInTheDocument() // kilocode_change
 	})
 
 	it("hides all controls when fromWelcomeView is true", () => {
@@ -264,6 +276,7 @@ describe("ApiOptions", () => {
 		expect(screen.queryByText(/enable editing through diffs/i)).not.toBeInTheDocument()
 		expect(screen.queryByTestId("temperature-control")).not.toBeInTheDocument()
 		expect(screen.queryByTestId("rate-limit-seconds-control")).not.toBeInTheDocument()
+		expect(screen.queryByTestId("tool-calling-control")).not.toBeInTheDocument() // kilocode_change
 	})
 
 	describe("thinking functionality", () => {
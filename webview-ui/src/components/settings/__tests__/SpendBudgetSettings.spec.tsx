@@ -0,0 +1,74 @@
+// kilocode_change - new file
+import { render, screen, fireEvent } from "@testing-library/react"
+import { vi } from "vitest"
+
+import { SpendBudgetSettings } from "../SpendBudgetSettings"
+
+vi.mock("@/i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({ t: (key: string) => key }),
+}))
+
+describe("SpendBudgetSettings", () => {
+	const listApiConfigMeta = [
+		{ id: "profile-a", name: "Profile A" },
+		{ id: "profile-b", name: "Profile B" },
+	]
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("shows empty inputs when no budgets are configured", () => {
+		render(<SpendBudgetSettings listApiConfigMeta={listApiConfigMeta} setCachedStateField={vi.fn()} />)
+
+		expect(screen.getByTestId("task-spend-limit-input")).toHaveValue(null)
+		expect(screen.getByTestId("daily-spend-limit-input")).toHaveValue(null)
+		expect(screen.getByTestId("profile-spend-limit-input")).toHaveValue(null)
+	})
+
+	it("updates the task and daily budgets", () => {
+		const setCachedStateField = vi.fn()
+		render(<SpendBudgetSettings setCachedStateField={setCachedStateField} />)
+
+		fireEvent.change(screen.getByTestId("task-spend-limit-input"), { target: { value: "2.5" } })
+		fireEvent.change(screen.getByTestId("daily-spend-limit-input"), { target: { value: "10" } })
+
+		expect(setCachedStateField).toHaveBeenCalledWith("taskSpendLimit", 2.5)
+		expect(setCachedStateField).toHaveBeenCalledWith("dailySpendLimit", 10)
+	})
+
+	it("clears a budget that isn't positive", () => {
+		const setCachedStateField = vi.fn()
+		render(<SpendBudgetSettings taskSpendLimit={5} setCachedStateField={setCachedStateField} />)
+
+		fireEvent.change(screen.getByTestId("task-spend-limit-input"), { target: { value: "0" } })
+
+		expect(setCachedStateField).toHaveBeenCalledWith("taskSpendLimit", undefined)
+	})
+
+	it("sets and removes the budget of the selected profile", () => {
+		const setCachedStateField = vi.fn()
+		render(
+			<SpendBudgetSettings
+				listApiConfigMeta={listApiConfigMeta}
+				profileSpendLimits={{ "profile-a": 1, "profile-b": 3 }}
+				setCachedStateField={setCachedStateField}
+			/>,
+		)
+
+		const input = screen.getByTestId("profile-spend-limit-input")
+		expect(input).toHaveValue(1)
+
+		fireEvent.change(input, { target: { value: "4" } })
+		expect(setCachedStateField).toHaveBeenCalledWith("profileSpendLimits", { "profile-a": 4, "profile-b": 3 })
+
+		fireEvent.change(input, { target: { value: "" } })
+		expect(setCachedStateField).toHaveBeenCalledWith("profileSpendLimits", { "profile-b": 3 })
+	})
+
+	it("hides the profile budget when there are no profiles", () => {
+		render(<SpendBudgetSettings setCachedStateField={vi.fn()} />)
+
+		expect(screen.queryByTestId("profile-spend-limit-input")).not.toBeInTheDocument()
+	})
+})
@@ -4,11 +4,13 @@
 import { getAllModes } from "@roo/modes"
 import { getBasename } from "./kilocode/path-webview"
 import { ClineRulesToggles } from "@roo/cline-rules"
+import { McpPromptArgument, McpServer, getMcpPromptCommandName } from "@roo/mcp"
 
 export interface SlashCommand {
 	name: string
 	description?: string
-	section?: "default" | "custom"
+	section?: "default" | "custom" | "mcp"
+	arguments?: McpPromptArgument[]
 }
 
 // Create a function to get all supported slash commands
@@ -16,6 +18,7 @@ export function getSupportedSlashCommands(
 	customModes?: any[],
 	localWorkflowToggles: ClineRulesToggles = {},
 	globalWorkflowToggles: ClineRulesToggles = {},
+	mcpServers: McpServer[] = [],
 ): SlashCommand[] {
 	// Start with non-mode commands
 	const baseCommands: SlashCommand[] = [
@@ -39,14 +42,14 @@ export function getSupportedSlashCommands(
 
 	// add workflow commands
 	const workflowCommands = getWorkflowCommands(localWorkflowToggles, globalWorkflowToggles)
-	return [...baseCommands, ...modeCommands, ...workflowCommands]
+	return [...baseCommands, ...modeCommands, ...workflowCommands, ...getMcpPromptCommands(mcpServers)]
 }
 
 // Export a default instance for backward compatibility
 export const SUPPORTED_SLASH_COMMANDS = getSupportedSlashCommands()
 
 // Regex for detecting slash commands in text
-export const slashCommandRegex = /\/([a-zA-Z0-9_.-]+)(\s|$)/
+export const slashCommandRegex = /\/([a-zA-Z0-9_.:-]+)(\s|$)/
 export const slashCommandRegexGlobal = new RegExp(slashCommandRegex.source, "g")
 
 /**
@@ -95,6 +98,39 @@ export function getWorkflowCommands(
 	return [...enabledWorkflowToggles(localWorkflowToggles), ...enabledWorkflowToggles(globalWorkflowToggles)]
 }
 
+/**
+ * Prompts offered by connected MCP servers, invoked as /mcp:<server>:<prompt>
+ */
+export function getMcpPromptCommands(mcpServers: McpServer[] = []): SlashCommand[] {
+	return mcpServers
+		.filter((server) => server.status === "connected" && !server.disabled)
+		.flatMap((server) =>
+			(server.prompts ?? []).flatMap((prompt) => {
+				const name = getMcpPromptCommandName(server.name, prompt.name)
+				return name
+					? [
+							{
+								name,
+								description: prompt.description ?? prompt.title,
+								section: "mcp" as const,
+								arguments: prompt.arguments,
+							},
+						]
+					: []
+			}),
+		)
+}
+
+/**
+ * Text inserted for a selected command; MCP prompts get a `name=""` placeholder per argument
+ */
+export function getSlashCommandInsertText(command: SlashCommand): string {
+	if (!command.arguments?.length) {
+		return command.name
+	}
+	return [command.name, ...command.arguments.map((argument) => `${argument.name}=""`)].join(" ")
+}
+
 /**
  * Gets filtered slash commands that match the current input
  */
@@ -103,8 +139,9 @@ export function getMatchingSlashCommands(
 	customModes?: any[],
 	localWorkflowToggles: ClineRulesToggles = {},
 	globalWorkflowToggles: ClineRulesToggles = {},
+	mcpServers: McpServer[] = [],
 ): SlashCommand[] {
-	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles)
+	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles, mcpServers)
 
 	if (!query) {
 		return [...commands]
@@ -139,13 +176,14 @@ export function validateSlashCommand(
 	customModes?: any[],
 	localWorkflowToggles: ClineRulesToggles = {},
 	globalWorkflowToggles: ClineRulesToggles = {},
+	mcpServers: McpServer[] = [],
 ): "full" | "partial" | null {
 	if (!command) {
 		return null
 	}
 
 	// case sensitive matching
-	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles)
+	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles, mcpServers)
 
 	const exactMatch = commands.some((cmd) => cmd.name === command)
 